@@ -0,0 +1,62 @@
+/**
+ * Local stand-in for the collaboration relay: forwards every frame from a
+ * socket to the other sockets in the same room (the URL path) and tells each
+ * newcomer how many peers are already there. It keeps no document state.
+ *
+ *   bun scripts/collab-relay.ts            # ws://localhost:4455/<room>
+ *   PORT=9000 bun scripts/collab-relay.ts
+ */
+import type { ServerWebSocket } from 'bun';
+import * as encoding from 'lib0/encoding';
+import { MESSAGE_PEERS } from '../src/store/collab-provider';
+
+interface SocketData {
+  room: string;
+}
+
+export interface CollabRelay {
+  port: number;
+  stop(): void;
+}
+
+export function startCollabRelay({ port = 4455, hostname = 'localhost' }: { port?: number; hostname?: string } = {}): CollabRelay {
+  const rooms = new Map<string, Set<ServerWebSocket<SocketData>>>();
+
+  const server = Bun.serve<SocketData, undefined>({
+    port,
+    hostname,
+    fetch(req, srv) {
+      const room = decodeURIComponent(new URL(req.url).pathname.slice(1));
+      if (srv.upgrade(req, { data: { room } })) return undefined;
+      return new Response('mkly collab relay: connect with a WebSocket to /<room>', { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        const peers = rooms.get(ws.data.room) ?? new Set();
+        rooms.set(ws.data.room, peers);
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_PEERS);
+        encoding.writeVarUint(encoder, peers.size);
+        ws.send(encoding.toUint8Array(encoder));
+        peers.add(ws);
+      },
+      message(ws, message) {
+        for (const peer of rooms.get(ws.data.room) ?? []) {
+          if (peer !== ws) peer.send(message);
+        }
+      },
+      close(ws) {
+        const peers = rooms.get(ws.data.room);
+        peers?.delete(ws);
+        if (peers?.size === 0) rooms.delete(ws.data.room);
+      },
+    },
+  });
+
+  return { port: server.port!, stop: () => server.stop(true) };
+}
+
+if (import.meta.main) {
+  const relay = startCollabRelay({ port: Number(process.env.PORT ?? 4455) });
+  console.log(`mkly collab relay on ws://localhost:${relay.port}/<room>`);
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useBlockDock } from './use-block-dock';
 import { BlockDockItem } from './BlockDockItem';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState } from '../store/editor-store-context';
 import type { CompletionData } from '@mklyml/core';
 
 interface BlockDockProps {
@@ -11,8 +11,8 @@ interface BlockDockProps {
 }
 
 export function BlockDock({ completionData, onInsert }: BlockDockProps) {
-  const open = useEditorStore((s) => s.blockDockOpen);
-  const setOpen = useEditorStore((s) => s.setBlockDockOpen);
+  const open = useEditorState((s) => s.blockDockOpen);
+  const setOpen = useEditorState((s) => s.setBlockDockOpen);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
   const [helpBlock, setHelpBlock] = useState<string | null>(null);
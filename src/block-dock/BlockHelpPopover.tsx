@@ -2,7 +2,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { getBlockDisplayName, type BlockDocs } from '@mklyml/core';
 import { KitBadge } from '../ui/kit-badge';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState } from '../store/editor-store-context';
 import { IFRAME_DARK_CSS } from '../preview/iframe-dark-css';
 
 interface BlockHelpPopoverProps {
@@ -243,7 +243,7 @@ export function BlockHelpPopover({ docs, blockName, kitName, anchorEl, onClose }
 
 function PreviewIframe({ html }: { html: string }) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const theme = useEditorStore((s) => s.theme);
+  const theme = useEditorState((s) => s.theme);
   const isDark = theme === 'dark';
 
   const writeContent = useCallback(() => {
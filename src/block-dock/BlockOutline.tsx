@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import type { CompletionData } from '@mklyml/core';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { getBlockIcon, getBlockIconColor } from '../icons';
+import { buildOutline, moveBlockInStore } from './block-outline';
+import type { OutlineNode } from './block-outline';
+
+const DRAG_TYPE = 'application/x-mkly-outline';
+
+interface BlockOutlineProps {
+  completionData: CompletionData;
+}
+
+// Where a dragged block would land: before the hovered node, or after its whole range
+interface DropTarget {
+  node: number;
+  edge: 'top' | 'bottom';
+}
+
+/** The document's blocks as a tree. Click to select a block, drag to move it. */
+export function BlockOutline({ completionData }: BlockOutlineProps) {
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const outline = useMemo(() => buildOutline(source), [source]);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const move = (fromLine: number, node: OutlineNode, edge: DropTarget['edge']) => {
+    moveBlockInStore(editorStore, fromLine, node.line, edge === 'top' ? 'before' : 'after', 'block-dock');
+  };
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        overflow: 'auto',
+        padding: '8px 6px 12px',
+        background: 'var(--ed-bg)',
+        borderRight: '1px solid var(--ed-border)',
+        fontFamily: "'Plus Jakarta Sans', sans-serif",
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+      }}
+    >
+      {outline.length === 0 && (
+        <div style={{ padding: 20, textAlign: 'center', color: 'var(--ed-text-muted)', fontSize: 13 }}>
+          No blocks yet
+        </div>
+      )}
+      {outline.map((node) => (
+        <OutlineRow
+          key={node.line}
+          node={node}
+          depth={0}
+          completionData={completionData}
+          dropTarget={dropTarget}
+          onDropTarget={setDropTarget}
+          onMove={move}
+        />
+      ))}
+    </div>
+  );
+}
+
+function OutlineRow({ node, depth, completionData, dropTarget, onDropTarget, onMove }: {
+  node: OutlineNode;
+  depth: number;
+  completionData: CompletionData;
+  dropTarget: DropTarget | null;
+  onDropTarget: (target: DropTarget | null) => void;
+  onMove: (fromLine: number, node: OutlineNode, edge: DropTarget['edge']) => void;
+}) {
+  const activeBlockLine = useEditorState((s) => s.activeBlockLine);
+  const focusBlock = useEditorState((s) => s.focusBlock);
+  const Icon = getBlockIcon(node.type, completionData);
+  const iconColor = getBlockIconColor(node.type, completionData);
+  const active = activeBlockLine === node.line;
+  const edge = dropTarget?.node === node.line ? dropTarget.edge : null;
+
+  return (
+    <>
+      <div
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData(DRAG_TYPE, String(node.line));
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => onDropTarget(null)}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          const rect = e.currentTarget.getBoundingClientRect();
+          const nextEdge = e.clientY < rect.top + rect.height / 2 ? 'top' : 'bottom';
+          if (nextEdge !== edge) onDropTarget({ node: node.line, edge: nextEdge });
+        }}
+        onDrop={(e) => {
+          const fromLine = Number(e.dataTransfer.getData(DRAG_TYPE));
+          onDropTarget(null);
+          if (!fromLine || !edge) return;
+          e.preventDefault();
+          onMove(fromLine, node, edge);
+        }}
+        onClick={() => focusBlock(node.line, 'block-dock')}
+        title={`Line ${node.line}`}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: `4px 8px 4px ${8 + depth * 14}px`,
+          borderRadius: 6,
+          background: active ? 'rgba(226, 114, 91, 0.1)' : undefined,
+          boxShadow: edge === 'top'
+            ? 'inset 0 2px 0 var(--ed-accent)'
+            : edge === 'bottom' ? 'inset 0 -2px 0 var(--ed-accent)' : undefined,
+          cursor: 'grab',
+          userSelect: 'none',
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 18,
+            height: 18,
+            borderRadius: 5,
+            background: iconColor.bg,
+            color: iconColor.color,
+            flexShrink: 0,
+          }}
+        >
+          <Icon size={11} />
+        </div>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontSize: 12, fontWeight: 600, color: active ? 'var(--ed-accent)' : 'var(--ed-text)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {node.label ?? node.type}
+            {node.label && <span style={{ marginLeft: 6, fontWeight: 400, fontSize: 10, color: 'var(--ed-text-muted)' }}>{node.type}</span>}
+          </div>
+          {node.preview && (
+            <div style={{ fontSize: 10, color: 'var(--ed-text-muted)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {node.preview}
+            </div>
+          )}
+        </div>
+      </div>
+      {node.children.map((child) => (
+        <OutlineRow
+          key={child.line}
+          node={child}
+          depth={depth + 1}
+          completionData={completionData}
+          dropTarget={dropTarget}
+          onDropTarget={onDropTarget}
+          onMove={onMove}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEditorState } from '../store/editor-store-context';
+import type { SidebarTab } from '../store/editor-store';
+
+const TABS: Array<{ id: SidebarTab; label: string }> = [
+  { id: 'blocks', label: 'Blocks' },
+  { id: 'outline', label: 'Outline' },
+];
+
+export function SidebarTabs() {
+  const tab = useEditorState((s) => s.sidebarTab);
+  const setTab = useEditorState((s) => s.setSidebarTab);
+
+  return (
+    <div style={{ display: 'flex', gap: 2, padding: '6px 10px 0', borderBottom: '1px solid var(--ed-border)', background: 'var(--ed-bg)', flexShrink: 0 }}>
+      {TABS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => setTab(id)}
+          style={{
+            padding: '4px 10px',
+            fontSize: 11,
+            fontWeight: 600,
+            border: 'none',
+            borderBottom: `2px solid ${tab === id ? 'var(--ed-accent)' : 'transparent'}`,
+            background: 'none',
+            color: tab === id ? 'var(--ed-text)' : 'var(--ed-text-muted)',
+            cursor: 'pointer',
+          }}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
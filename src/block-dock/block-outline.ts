@@ -0,0 +1,149 @@
+import { Text } from '@codemirror/state';
+import { findBlockRange } from '../editor/block-delete-plugin';
+import type { EditorStore, FocusOrigin } from '../store/editor-store';
+
+/** A block of the document, with the blocks nested inside it if it's a container. */
+export interface OutlineNode {
+  /** 1-based header line. */
+  line: number;
+  /** Last line of the block: its closing line for containers. */
+  endLine: number;
+  type: string;
+  label: string | null;
+  /** First line of content, for telling same-type blocks apart. */
+  preview: string;
+  children: OutlineNode[];
+}
+
+const HEADER_RE = /^---\s+([\w]+(?:\/[\w]+)?)(?::\s*(.*))?$/;
+const PROPERTY_RE = /^[\w-]+:\s/;
+// Directives and the style block configure the document; they aren't blocks of it
+const NON_BLOCKS = new Set(['use', 'meta', 'style', 'theme', 'preset', 'define-theme', 'define-preset']);
+const PREVIEW_LENGTH = 60;
+
+function blockPreview(doc: Text, line: number, endLine: number): string {
+  let property: string | null = null;
+  for (let i = line + 1; i <= endLine; i++) {
+    const text = doc.line(i).text.trim();
+    // A container's own content ends at its first child
+    if (text.startsWith('---')) break;
+    if (!text) continue;
+    if (!PROPERTY_RE.test(text)) return text.slice(0, PREVIEW_LENGTH);
+    property ??= text;
+  }
+  return property?.slice(0, PREVIEW_LENGTH) ?? '';
+}
+
+function isDirective(text: string): boolean {
+  const type = text.match(HEADER_RE)?.[1];
+  return type !== undefined && NON_BLOCKS.has(type);
+}
+
+function blockEndLine(doc: Text, line: number): number {
+  return doc.lineAt(findBlockRange(doc, line).to).number;
+}
+
+/**
+ * The blocks of `source` as a tree; containers hold the blocks up to their
+ * closing line. Directives and the style block are left out.
+ */
+export function buildOutline(source: string): OutlineNode[] {
+  const doc = Text.of(source.split('\n'));
+  const roots: OutlineNode[] = [];
+  const open: OutlineNode[] = [];
+  for (let i = 1; i <= doc.lines; i++) {
+    const match = doc.line(i).text.match(HEADER_RE);
+    if (!match || NON_BLOCKS.has(match[1])) continue;
+    while (open.length > 0 && open[open.length - 1].endLine < i) open.pop();
+    const endLine = blockEndLine(doc, i);
+    const node: OutlineNode = {
+      line: i,
+      endLine,
+      type: match[1],
+      label: match[2]?.trim() || null,
+      preview: blockPreview(doc, i, endLine),
+      children: [],
+    };
+    (open.length > 0 ? open[open.length - 1].children : roots).push(node);
+    open.push(node);
+  }
+  return roots;
+}
+
+function trailingBlankLines(lines: string[]): number {
+  let count = 0;
+  while (count < lines.length && lines[lines.length - 1 - count] === '') count++;
+  return count;
+}
+
+/**
+ * Insert `block` (its trailing blank lines dropped) into `lines` before index
+ * `at`, keeping a blank line on either side. Trailing blank lines of the
+ * document stay as they were. Returns the new lines and the 1-based line the
+ * block starts on.
+ */
+export function insertBlockLines(lines: string[], at: number, block: string[]): { lines: string[]; line: number } {
+  const inserted = block.slice(0, block.length - trailingBlankLines(block));
+  const before = lines.slice(0, at);
+  const after = lines.slice(at);
+  if (before.length > 0 && before[before.length - 1].trim() !== '') before.push('');
+  if (after.length > 0 && after[0].trim() !== '') inserted.push('');
+  const result = [...before, ...inserted, ...after];
+  const extra = trailingBlankLines(result) - trailingBlankLines(lines);
+  if (extra > 0) result.length -= extra;
+  return { lines: result, line: before.length + 1 };
+}
+
+/**
+ * Move the whole block at `fromLine` so it starts where line `toLine` is now
+ * (one past the last line to append). Blocks stay separated by a blank line.
+ * Returns null when the target lies inside the block or leaves it in place,
+ * and when either line is a directive or the style block.
+ */
+export function moveBlock(source: string, fromLine: number, toLine: number): { source: string; line: number } | null {
+  const lines = source.split('\n');
+  const doc = Text.of(lines);
+  if (fromLine < 1 || fromLine > doc.lines) return null;
+  const header = doc.line(fromLine).text;
+  if (!HEADER_RE.test(header) || isDirective(header)) return null;
+  if (toLine <= doc.lines && isDirective(doc.line(toLine).text)) return null;
+  const endLine = blockEndLine(doc, fromLine);
+  if (toLine >= fromLine && toLine <= endLine + 1) return null;
+
+  const rest = [...lines.slice(0, fromLine - 1), ...lines.slice(endLine)];
+  const at = toLine > endLine ? toLine - 1 - (endLine - fromLine + 1) : toLine - 1;
+  const moved = insertBlockLines(rest, at, lines.slice(fromLine - 1, endLine));
+  // Taking out the last block leaves behind the blank line that preceded it
+  const extra = trailingBlankLines(moved.lines) - trailingBlankLines(lines);
+  if (extra > 0) moved.lines.length -= extra;
+  return { source: moved.lines.join('\n'), line: moved.line };
+}
+
+/** Move the block at `fromLine` next to the block at `targetLine`: before it, or after its whole range. */
+export function moveBlockBeside(
+  source: string,
+  fromLine: number,
+  targetLine: number,
+  edge: 'before' | 'after',
+): { source: string; line: number } | null {
+  const doc = Text.of(source.split('\n'));
+  if (targetLine < 1 || targetLine > doc.lines) return null;
+  return moveBlock(source, fromLine, edge === 'before' ? targetLine : blockEndLine(doc, targetLine) + 1);
+}
+
+/** Move a block of the store's source as one undo step and keep it selected. */
+export function moveBlockInStore(
+  store: EditorStore,
+  fromLine: number,
+  targetLine: number,
+  edge: 'before' | 'after',
+  origin: FocusOrigin,
+): boolean {
+  const { source, undoTransaction, setSource, focusBlock } = store.getState();
+  const moved = moveBlockBeside(source, fromLine, targetLine, edge);
+  if (!moved) return false;
+  const type = source.split('\n')[fromLine - 1].match(HEADER_RE)?.[1];
+  undoTransaction(`Move ${type}`, () => setSource(moved.source));
+  focusBlock(moved.line, origin);
+  return true;
+}
@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo } from 'react';
 import { getBlockDisplayName, type CompletionData, type BlockDocs } from '@mklyml/core';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState } from '../store/editor-store-context';
 
 export interface BlockDockEntry {
   name: string;
@@ -21,7 +21,7 @@ function parseImportedKits(source: string): Set<string> {
 export function useBlockDock(completionData: CompletionData) {
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
-  const source = useEditorStore((s) => s.source);
+  const source = useEditorState((s) => s.source);
 
   const importedKits = useMemo(() => parseImportedKits(source), [source]);
 
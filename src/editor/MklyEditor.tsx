@@ -2,22 +2,46 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { EditorState, Compartment, StateEffect, StateField } from '@codemirror/state';
 import { Decoration, type DecorationSet, EditorView, keymap, lineNumbers, drawSelection, highlightActiveLine } from '@codemirror/view';
 import { defaultKeymap, history, indentWithTab } from '@codemirror/commands';
+import { foldAll, foldCode, unfoldAll, unfoldCode } from '@codemirror/language';
 import { autocompletion } from '@codemirror/autocomplete';
-import { linter, type Diagnostic } from '@codemirror/lint';
+import { linter } from '@codemirror/lint';
+import { yCollab } from 'y-codemirror.next';
 import { mklyLanguage } from '../mkly-lang';
 import { mklyCompletionSource } from '../mkly-completions';
 import { mklyThemeDark } from './mkly-theme-dark';
 import { mklyThemeLight } from './mkly-theme-light';
 import { wrapBold, wrapItalic, wrapCode, insertLink } from '../format-bar/format-commands';
 import { FormatBar } from '../format-bar/FormatBar';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { blockColorPlugin } from './block-color-plugin';
 import { blockDeletePlugin } from './block-delete-plugin';
+import {
+  duplicateBlockCommand,
+  formatDocumentCommand,
+  moveBlockDownCommand,
+  moveBlockUpCommand,
+  unwrapBlockCommand,
+  wrapBlocksCommand,
+} from './block-commands';
+import { blockMenuItems, openBlockMenu } from './block-menu';
+import { containerStructure } from './container-structure';
+import { hoverDocs } from './hover-docs';
+import { mklyDiagnostics } from './quick-fixes';
+import { renameSymbol } from './rename-symbol';
+import { styleDefinitions } from './style-definitions';
+import { containerBlockTypes } from '../store/kit-config';
+import { commentGutter, setCommentLines } from './comment-gutter';
+import type { CommentLine } from './comment-gutter';
+import { setSuggestions, suggestionDecorations } from './suggestion-decorations';
+import { undoLabel } from './undo-label';
 import { applyExternalUpdate } from './diff-update';
+import { getCollabSession } from '../store/use-collab';
+import { openComments } from '../store/use-comment-threads';
+import { acceptSuggestionById, rejectSuggestionById } from '../store/use-suggestions';
 import { clearPendingScroll } from './safe-dispatch';
 import { shouldScrollToBlock, resolveBlockLine } from '../store/selection-orchestrator';
 import { parseCursorBlock } from '../store/use-cursor-context';
-import { PROPERTY_KEY_RE } from '../store/block-properties';
+import { PROPERTY_KEY_RE, resolveStyleVariableValue } from '../store/block-properties';
 import type { CompletionData } from '@mklyml/core';
 
 interface MklyEditorProps {
@@ -26,6 +50,20 @@ interface MklyEditorProps {
 
 const themeCompartment = new Compartment();
 const wrapCompartment = new Compartment();
+const completionCompartment = new Compartment();
+const collabCompartment = new Compartment();
+const structureCompartment = new Compartment();
+
+function completionExtensions(completionData: CompletionData, resolveVariable: (name: string) => string | undefined) {
+  return [
+    autocompletion({
+      override: [mklyCompletionSource(completionData)],
+      activateOnTyping: true,
+    }),
+    blockColorPlugin(completionData),
+    hoverDocs(completionData, resolveVariable),
+  ];
+}
 
 const setHighlightEffect = StateEffect.define<number | null>();
 const setDropLineEffect = StateEffect.define<number | null>();
@@ -104,49 +142,49 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
   const viewRef = useRef<EditorView | null>(null);
   const [editorView, setEditorView] = useState<EditorView | null>(null);
 
-  const source = useEditorStore((s) => s.source);
-  const errors = useEditorStore((s) => s.errors);
-  const theme = useEditorStore((s) => s.theme);
-  const setSource = useEditorStore((s) => s.setSource);
-  const setBlockDockOpen = useEditorStore((s) => s.setBlockDockOpen);
-  const cursorLine = useEditorStore((s) => s.cursorLine);
-  const focusOrigin = useEditorStore((s) => s.focusOrigin);
-  const focusVersion = useEditorStore((s) => s.focusVersion);
-  const focusIntent = useEditorStore((s) => s.focusIntent);
-  const scrollLock = useEditorStore((s) => s.scrollLock);
-  const wordWrap = useEditorStore((s) => s.mklyWordWrap);
-  const stylePickMode = useEditorStore((s) => s.stylePickMode);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const errors = useEditorState((s) => s.errors);
+  const theme = useEditorState((s) => s.theme);
+  const setSource = useEditorState((s) => s.setSource);
+  const kits = useEditorState((s) => s.kits);
+  const setBlockDockOpen = useEditorState((s) => s.setBlockDockOpen);
+  const cursorLine = useEditorState((s) => s.cursorLine);
+  const focusOrigin = useEditorState((s) => s.focusOrigin);
+  const focusVersion = useEditorState((s) => s.focusVersion);
+  const focusIntent = useEditorState((s) => s.focusIntent);
+  const scrollLock = useEditorState((s) => s.scrollLock);
+  const wordWrap = useEditorState((s) => s.mklyWordWrap);
+  const stylePickMode = useEditorState((s) => s.stylePickMode);
+  const collabSynced = useEditorState((s) => s.collab?.synced ?? false);
+  const commentThreads = useEditorState((s) => s.commentThreads);
+  const suggestions = useEditorState((s) => s.suggestions);
 
   const sourceRef = useRef(source);
   const errorsRef = useRef(errors);
+  const completionDataRef = useRef(completionData);
   const setSourceRef = useRef(setSource);
   const isExternalRef = useRef(false);
   const lastFocusVersionRef = useRef(focusVersion);
 
   sourceRef.current = source;
   errorsRef.current = errors;
+  completionDataRef.current = completionData;
   setSourceRef.current = setSource;
 
-  const mklyLinter = useCallback(() => {
-    return linter((view) => {
-      const currentErrors = errorsRef.current;
-      const diagnostics: Diagnostic[] = [];
-
-      for (const err of currentErrors) {
-        const lineNum = Math.min(err.line, view.state.doc.lines);
-        if (lineNum < 1) continue;
-        const line = view.state.doc.line(lineNum);
-
-        diagnostics.push({
-          from: line.from,
-          to: line.to,
-          severity: err.severity === 'warning' ? 'warning' : 'error',
-          message: err.message,
-        });
-      }
+  const resolveVariable = useCallback(
+    (name: string) => {
+      const { styleGraph, source, kits } = editorStore.getState();
+      return resolveStyleVariableValue(styleGraph, source, kits, name);
+    },
+    [editorStore],
+  );
 
-      return diagnostics;
-    }, { delay: 300 });
+  const mklyLinter = useCallback(() => {
+    return linter(
+      (view) => mklyDiagnostics(view.state.doc, errorsRef.current, completionDataRef.current),
+      { delay: 300 },
+    );
   }, []);
 
   useEffect(() => {
@@ -161,14 +199,25 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
         history(),
         mklyLanguage,
         themeCompartment.of(mklyThemeDark),
-        autocompletion({
-          override: [mklyCompletionSource(completionData)],
-          activateOnTyping: true,
-        }),
+        completionCompartment.of(completionExtensions(completionData, resolveVariable)),
         highlightField,
         dropLineField,
-        blockColorPlugin(completionData),
-        blockDeletePlugin(),
+        structureCompartment.of(containerStructure(containerBlockTypes(editorStore.getState().kits))),
+        styleDefinitions(),
+        renameSymbol(),
+        blockDeletePlugin((view, line, event) => {
+          openBlockMenu(view, event.clientX, event.clientY, blockMenuItems(
+            view,
+            line,
+            containerBlockTypes(editorStore.getState().kits),
+            completionDataRef.current,
+          ));
+        }),
+        commentGutter((line) => openComments(editorStore, line)),
+        suggestionDecorations((id, accept) => {
+          if (accept) acceptSuggestionById(editorStore, id);
+          else rejectSuggestionById(editorStore, id);
+        }),
         mklyLinter(),
         keymap.of([
           { key: 'Mod-b', run: wrapBold },
@@ -176,16 +225,43 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
           { key: 'Mod-k', run: insertLink },
           { key: 'Mod-e', run: wrapCode },
           { key: 'Mod-Shift-p', run: () => { setBlockDockOpen(true); return true; } },
-          { key: 'Mod-z', run: () => { useEditorStore.getState().undo(); return true; } },
-          { key: 'Mod-Shift-z', run: () => { useEditorStore.getState().redo(); return true; } },
-          { key: 'Mod-y', run: () => { useEditorStore.getState().redo(); return true; } },
+          { key: 'Mod-z', run: () => { editorStore.getState().undo(); return true; } },
+          { key: 'Mod-Shift-z', run: () => { editorStore.getState().redo(); return true; } },
+          { key: 'Mod-y', run: () => { editorStore.getState().redo(); return true; } },
+          // Sibling branches of the undo tree
+          { key: 'Mod-Alt-[', run: () => { editorStore.getState().switchUndoBranch(-1); return true; } },
+          { key: 'Mod-Alt-]', run: () => { editorStore.getState().switchUndoBranch(1); return true; } },
+          // Block commands act on the block under the cursor
+          { key: 'Mod-Shift-d', run: duplicateBlockCommand },
+          { key: 'Mod-Alt-ArrowUp', run: moveBlockUpCommand },
+          { key: 'Mod-Alt-ArrowDown', run: moveBlockDownCommand },
+          {
+            key: 'Mod-Alt-w',
+            run: (view) => {
+              const types = containerBlockTypes(editorStore.getState().kits);
+              const type = types.includes('core/section') ? 'core/section' : types[0];
+              return !!type && wrapBlocksCommand(type)(view);
+            },
+          },
+          { key: 'Mod-Alt-u', run: unwrapBlockCommand },
+          { key: 'Shift-Alt-f', run: formatDocumentCommand(() => completionDataRef.current) },
+          { key: 'Ctrl-Shift-[', run: foldCode },
+          { key: 'Ctrl-Shift-]', run: unfoldCode },
+          { key: 'Mod-Alt-f', run: foldAll },
+          { key: 'Mod-Alt-Shift-f', run: unfoldAll },
           ...defaultKeymap,
           indentWithTab,
         ]),
         EditorView.updateListener.of((update) => {
           if (isExternalRef.current) return;
           if (update.docChanged) {
-            setSourceRef.current(update.state.doc.toString());
+            const doc = update.state.doc.toString();
+            const label = update.transactions.map((tr) => tr.annotation(undoLabel)).find(Boolean);
+            if (label) {
+              editorStore.getState().undoTransaction(label, () => setSourceRef.current(doc));
+            } else {
+              setSourceRef.current(doc);
+            }
           }
           // Only fire focusBlock when user actively moves cursor (not on doc changes or external updates)
           if (update.selectionSet && !update.docChanged && update.view.hasFocus) {
@@ -193,10 +269,11 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
             update.view.dispatch({ effects: setHighlightEffect.of(null) });
             const pos = update.state.selection.main.head;
             const line = update.state.doc.lineAt(pos);
-            useEditorStore.getState().focusBlock(line.number, 'mkly');
+            editorStore.getState().focusBlock(line.number, 'mkly');
           }
         }),
         wrapCompartment.of(EditorView.lineWrapping),
+        collabCompartment.of([]),
         EditorState.tabSize.of(2),
       ],
     });
@@ -228,6 +305,24 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
     });
   }, [theme]);
 
+  // Swap completions, block colors and hover docs when the kit configuration changes
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch({
+      effects: completionCompartment.reconfigure(completionExtensions(completionData, resolveVariable)),
+    });
+  }, [completionData, resolveVariable]);
+
+  // Container types come from the kits
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch({
+      effects: structureCompartment.reconfigure(containerStructure(containerBlockTypes(kits))),
+    });
+  }, [kits]);
+
   // Toggle word wrap via Compartment
   useEffect(() => {
     const view = viewRef.current;
@@ -239,6 +334,37 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
     });
   }, [wordWrap]);
 
+  // Bind the shared text once the room's copy has arrived. The editor first
+  // takes that text so the binding starts from identical documents; from then
+  // on remote edits arrive as ordinary transactions the updateListener follows.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const session = collabSynced ? getCollabSession(editorStore) : null;
+    // Not marked external: the store follows if remote edits landed meanwhile
+    if (session) applyExternalUpdate(view, session.text.toString());
+    view.dispatch({
+      effects: collabCompartment.reconfigure(
+        session ? yCollab(session.text, session.provider.awareness, { undoManager: session.undoManager }) : [],
+      ),
+    });
+  }, [collabSynced, editorStore]);
+
+  // Comment markers on the blocks' start lines
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const byLine = new Map<number, CommentLine>();
+    for (const thread of commentThreads) {
+      if (thread.detached) continue;
+      const entry = byLine.get(thread.line) ?? { line: thread.line, open: 0, total: 0 };
+      entry.total++;
+      if (!thread.resolved) entry.open++;
+      byLine.set(thread.line, entry);
+    }
+    view.dispatch({ effects: setCommentLines.of([...byLine.values()]) });
+  }, [commentThreads]);
+
   // Sync external source changes (from inspector, visual edit, block insertion, etc.)
   useEffect(() => {
     const view = viewRef.current;
@@ -248,6 +374,11 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
     isExternalRef.current = false;
   }, [source]);
 
+  // After the source sync above, so positions refer to the current doc
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: setSuggestions.of(suggestions) });
+  }, [suggestions]);
+
   // React to external focus changes from OTHER tabs:
   // ALWAYS highlight exact selected line (cursorLine), CONDITIONAL scroll.
   useEffect(() => {
@@ -341,7 +472,7 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
         }
         const insertPos = insertAfterLine === 0 ? 0 : view.state.doc.line(insertAfterLine).to;
         usePrefix = `\n--- use: ${kitName}`;
-        view.dispatch({ changes: { from: insertPos, insert: usePrefix } });
+        view.dispatch({ changes: { from: insertPos, insert: usePrefix }, annotations: undoLabel.of(`Insert ${blockName}`) });
       }
     }
 
@@ -359,8 +490,10 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
     const requiredProps = blockDocs?.properties?.filter((p) => p.required) ?? [];
     const propLines = requiredProps.map((p) => `${p.name}: `).join('\n');
     const insertText = `\n--- ${blockName}\n${propLines}${propLines ? '\n' : ''}`;
+    // Same label as the use directive above, so both land in one undo step
     currentView.dispatch({
       changes: { from: line.to, insert: insertText },
+      annotations: undoLabel.of(`Insert ${blockName}`),
     });
 
     // Place cursor at the first required property value (after ": ")
@@ -379,9 +512,9 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
         }
       }
       const newLineNum = Math.min(line.number + 1, newView.state.doc.lines);
-      useEditorStore.getState().focusBlock(newLineNum, 'block-dock');
+      editorStore.getState().focusBlock(newLineNum, 'block-dock');
     });
-  }, [completionData]);
+  }, [completionData, editorStore]);
 
   // Style pick mode: clicking in code editor opens the style popup at cursor
   useEffect(() => {
@@ -406,9 +539,9 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
         ? line.number
         : undefined;
 
-      const store = useEditorStore.getState();
+      const store = editorStore.getState();
       store.focusBlock(line.number, 'mkly');
-      const selectionId = useEditorStore.getState().selectionId ?? undefined;
+      const selectionId = editorStore.getState().selectionId ?? undefined;
       store.openStylePopup({
         blockType: block.type,
         target: inferred.target,
@@ -428,7 +561,7 @@ export function MklyEditor({ completionData }: MklyEditorProps) {
 
     view.dom.addEventListener('mousedown', handler);
     return () => view.dom.removeEventListener('mousedown', handler);
-  }, [stylePickMode]);
+  }, [stylePickMode, editorStore]);
 
   return (
     <>
@@ -0,0 +1,184 @@
+import type { EditorView } from '@codemirror/view';
+import type { CompletionData } from '@mklyml/core';
+import type { EditorStore, FocusOrigin } from '../store/editor-store';
+import { buildOutline, insertBlockLines, moveBlockBeside } from '../block-dock/block-outline';
+import { formatBlock, formatSource } from '../store/format-source';
+import type { OutlineNode } from '../block-dock/block-outline';
+import { computeLineChanges, computeMinimalChanges } from './diff-update';
+import { undoLabel } from './undo-label';
+
+/** The result of a block command: the new source, the line of the block to select and an undo label. */
+export interface BlockEdit {
+  source: string;
+  line: number;
+  label: string;
+}
+
+// Blocks from the outermost down to the innermost one containing `line`
+function pathTo(nodes: OutlineNode[], line: number): OutlineNode[] {
+  const path: OutlineNode[] = [];
+  for (let level = nodes; ;) {
+    const node = level.find((n) => n.line <= line && line <= n.endLine);
+    if (!node) return path;
+    path.push(node);
+    level = node.children;
+  }
+}
+
+function isContainer(lines: string[], node: OutlineNode): boolean {
+  return lines[node.endLine - 1].trim().startsWith(`--- /${node.type}`);
+}
+
+/**
+ * Whether `line` is the header of a block the block commands act on.
+ * Directives and the style block aren't blocks of the outline.
+ */
+export function isOutlineBlock(source: string, line: number): boolean {
+  return pathTo(buildOutline(source), line).some((n) => n.line === line);
+}
+
+/** Copy the block under `line` right below itself. */
+export function duplicateBlock(source: string, line: number): BlockEdit | null {
+  const node = pathTo(buildOutline(source), line).pop();
+  if (!node) return null;
+  const lines = source.split('\n');
+  const copy = insertBlockLines(lines, node.endLine, lines.slice(node.line - 1, node.endLine));
+  return { source: copy.lines.join('\n'), line: copy.line, label: `Duplicate ${node.type}` };
+}
+
+/** Swap the block under `line` with its previous (-1) or next (1) sibling. */
+export function moveBlockSibling(source: string, line: number, direction: -1 | 1): BlockEdit | null {
+  const outline = buildOutline(source);
+  const path = pathTo(outline, line);
+  const node = path.pop();
+  if (!node) return null;
+  const siblings = path.length > 0 ? path[path.length - 1].children : outline;
+  const neighbor = siblings[siblings.findIndex((n) => n.line === node.line) + direction];
+  if (!neighbor) return null;
+  const moved = moveBlockBeside(source, node.line, neighbor.line, direction < 0 ? 'before' : 'after');
+  return moved && { ...moved, label: `Move ${node.type} ${direction < 0 ? 'up' : 'down'}` };
+}
+
+/**
+ * Wrap the blocks from `fromLine` to `toLine` in a new container. The range
+ * widens to whole sibling blocks; a range spanning a container and its
+ * children wraps the container.
+ */
+export function wrapBlocks(source: string, fromLine: number, toLine: number, containerType: string): BlockEdit | null {
+  const outline = buildOutline(source);
+  const first = pathTo(outline, fromLine);
+  const last = pathTo(outline, toLine);
+  let depth = 0;
+  while (depth < first.length && first[depth] === last[depth]) depth++;
+  const start = first[depth] && last[depth] ? first[depth] : first[depth - 1];
+  const end = first[depth] && last[depth] ? last[depth] : first[depth - 1];
+  if (!start || !end) return null;
+
+  const lines = source.split('\n');
+  const body = lines.slice(start.line - 1, end.endLine);
+  // Blank lines after the last block stay outside the container
+  while (body.length > 1 && body[body.length - 1].trim() === '') body.pop();
+  const trailing = lines.slice(start.line - 1 + body.length, end.endLine);
+  const wrapped = [
+    ...lines.slice(0, start.line - 1),
+    `--- ${containerType}`,
+    ...body,
+    `--- /${containerType}`,
+    ...trailing,
+    ...lines.slice(end.endLine),
+  ];
+  return { source: wrapped.join('\n'), line: start.line, label: `Wrap in ${containerType}` };
+}
+
+/** Replace the container under `line` with its children, dropping its header, own content and closing line. */
+export function unwrapBlock(source: string, line: number): BlockEdit | null {
+  const lines = source.split('\n');
+  const container = pathTo(buildOutline(source), line).reverse().find((n) => isContainer(lines, n));
+  if (!container || container.children.length === 0) return null;
+  const firstChild = container.children[0].line;
+  const unwrapped = [
+    ...lines.slice(0, container.line - 1),
+    ...lines.slice(firstChild - 1, container.endLine - 1),
+    ...lines.slice(container.endLine),
+  ];
+  return { source: unwrapped.join('\n'), line: container.line, label: `Unwrap ${container.type}` };
+}
+
+/** Whether `line` lies in a container that `unwrapBlock` could remove. */
+export function canUnwrap(source: string, line: number): boolean {
+  return unwrapBlock(source, line) !== null;
+}
+
+function lineStart(source: string, line: number): number {
+  let pos = 0;
+  for (let i = 1; i < line; i++) pos = source.indexOf('\n', pos) + 1;
+  return pos;
+}
+
+/** Apply a block edit to the editor as one labeled undo step, with the cursor on the edited block. */
+export function dispatchBlockEdit(view: EditorView, edit: BlockEdit | null): boolean {
+  if (!edit) return false;
+  const changes = computeMinimalChanges(view.state.doc.toString(), edit.source);
+  if (!changes) return false;
+  view.dispatch({
+    changes,
+    selection: { anchor: lineStart(edit.source, edit.line) },
+    annotations: undoLabel.of(edit.label),
+    scrollIntoView: true,
+  });
+  return true;
+}
+
+function cursorLine(view: EditorView): number {
+  return view.state.doc.lineAt(view.state.selection.main.head).number;
+}
+
+export const duplicateBlockCommand = (view: EditorView): boolean =>
+  dispatchBlockEdit(view, duplicateBlock(view.state.doc.toString(), cursorLine(view)));
+
+export const moveBlockUpCommand = (view: EditorView): boolean =>
+  dispatchBlockEdit(view, moveBlockSibling(view.state.doc.toString(), cursorLine(view), -1));
+
+export const moveBlockDownCommand = (view: EditorView): boolean =>
+  dispatchBlockEdit(view, moveBlockSibling(view.state.doc.toString(), cursorLine(view), 1));
+
+export const unwrapBlockCommand = (view: EditorView): boolean =>
+  dispatchBlockEdit(view, unwrapBlock(view.state.doc.toString(), cursorLine(view)));
+
+// Apply formatted text as one undo step, changing only the lines that
+// differ so the cursor stays on its line
+function dispatchFormat(view: EditorView, formatted: string, label: string): boolean {
+  const changes = computeLineChanges(view.state.doc.toString(), formatted);
+  if (changes.length > 0) view.dispatch({ changes, annotations: undoLabel.of(label) });
+  return true;
+}
+
+/** Format the whole document (see `formatSource`). */
+export function formatDocumentCommand(data: () => CompletionData) {
+  return (view: EditorView): boolean =>
+    dispatchFormat(view, formatSource(view.state.doc.toString(), data()), 'Format document');
+}
+
+/** Format the block under the cursor, or on `line` when given. */
+export function formatBlockCommand(data: () => CompletionData, line?: number) {
+  return (view: EditorView): boolean =>
+    dispatchFormat(view, formatBlock(view.state.doc.toString(), line ?? cursorLine(view), data()), 'Format block');
+}
+
+/** Wrap the blocks the selection touches in `containerType`. */
+export function wrapBlocksCommand(containerType: string) {
+  return (view: EditorView): boolean => {
+    const { from, to } = view.state.selection.main;
+    const { doc } = view.state;
+    return dispatchBlockEdit(view, wrapBlocks(doc.toString(), doc.lineAt(from).number, doc.lineAt(to).number, containerType));
+  };
+}
+
+/** Apply a block edit to the store from outside the editor, as one undo step, and select the block. */
+export function applyBlockEdit(store: EditorStore, edit: BlockEdit | null, origin: FocusOrigin): boolean {
+  if (!edit) return false;
+  const { undoTransaction, setSource, focusBlock } = store.getState();
+  undoTransaction(edit.label, () => setSource(edit.source));
+  focusBlock(edit.line, origin);
+  return true;
+}
@@ -1,5 +1,6 @@
 import { EditorView, ViewPlugin, GutterMarker, gutter } from '@codemirror/view';
-import { RangeSet, type Extension } from '@codemirror/state';
+import { RangeSet, type Extension, type Text } from '@codemirror/state';
+import { undoLabel } from './undo-label';
 
 const BLOCK_RE = /^---\s+([\w]+(?:\/[\w]+)?)/;
 const CLOSE_RE = /^---\s+\/([\w]+(?:\/[\w]+)?)/;
@@ -20,7 +21,7 @@ const deleteMarker = new DeleteMarker();
  * Check if a block has a matching closing tag (--- /blockName) below it,
  * making it a container block (e.g. section, core/html).
  */
-function isContainerBlock(doc: EditorView['state']['doc'], startLineNum: number, blockName: string): boolean {
+function isContainerBlock(doc: Text, startLineNum: number, blockName: string): boolean {
   let depth = 1;
   for (let i = startLineNum + 1; i <= doc.lines; i++) {
     const text = doc.line(i).text;
@@ -41,8 +42,7 @@ function isContainerBlock(doc: EditorView['state']['doc'], startLineNum: number,
  * For normal blocks, includes everything up to the next block header.
  * Returns { from, to } character positions for deletion.
  */
-function findBlockRange(view: EditorView, startLineNum: number): { from: number; to: number } {
-  const doc = view.state.doc;
+export function findBlockRange(doc: Text, startLineNum: number): { from: number; to: number } {
   const startLine = doc.line(startLineNum);
   const match = startLine.text.match(BLOCK_RE);
   if (!match) return { from: startLine.from, to: startLine.to };
@@ -138,7 +138,11 @@ const lineHoverPlugin = ViewPlugin.fromClass(class {
   }
 });
 
-export function blockDeletePlugin(): Extension {
+/**
+ * Delete buttons in a gutter beside block headers. `onMenu` is called when a
+ * header's gutter cell is right-clicked, to show further block actions.
+ */
+export function blockDeletePlugin(onMenu?: (view: EditorView, line: number, event: MouseEvent) => void): Extension {
   return [
     gutter({
       class: 'mkly-delete-gutter',
@@ -156,10 +160,19 @@ export function blockDeletePlugin(): Extension {
         click(view, line) {
           const lineNum = view.state.doc.lineAt(line.from).number;
           const lineText = view.state.doc.line(lineNum).text;
-          if (!BLOCK_RE.test(lineText) || CLOSE_RE.test(lineText)) return false;
+          const match = lineText.match(BLOCK_RE);
+          if (!match || CLOSE_RE.test(lineText)) return false;
 
-          const { from, to } = findBlockRange(view, lineNum);
-          view.dispatch({ changes: { from, to } });
+          const { from, to } = findBlockRange(view.state.doc, lineNum);
+          view.dispatch({ changes: { from, to }, annotations: undoLabel.of(`Delete ${match[1]}`) });
+          return true;
+        },
+        contextmenu(view, line, event) {
+          const lineNum = view.state.doc.lineAt(line.from).number;
+          const lineText = view.state.doc.line(lineNum).text;
+          if (!onMenu || !BLOCK_RE.test(lineText) || CLOSE_RE.test(lineText)) return false;
+          event.preventDefault();
+          onMenu(view, lineNum, event as MouseEvent);
           return true;
         },
       },
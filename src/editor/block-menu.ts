@@ -0,0 +1,92 @@
+import type { EditorView } from '@codemirror/view';
+import type { CompletionData } from '@mklyml/core';
+import { dispatchBlockEdit, duplicateBlock, formatBlockCommand, moveBlockSibling, unwrapBlock, wrapBlocks } from './block-commands';
+import type { BlockEdit } from './block-commands';
+
+export interface BlockMenuItem {
+  label: string;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+/**
+ * A context menu of block actions at the pointer. `null` entries become
+ * separators. Closes on any outside click, Escape or after an action runs.
+ */
+export function openBlockMenu(view: EditorView, x: number, y: number, items: Array<BlockMenuItem | null>): void {
+  view.dom.querySelector('.mkly-block-menu')?.remove();
+  const menu = document.createElement('div');
+  menu.className = 'mkly-block-menu';
+  menu.setAttribute('role', 'menu');
+  menu.style.left = `${x}px`;
+  menu.style.top = `${y}px`;
+
+  const close = () => {
+    menu.remove();
+    document.removeEventListener('mousedown', onOutside, true);
+    document.removeEventListener('keydown', onKey, true);
+  };
+  const onOutside = (e: MouseEvent) => {
+    if (!menu.contains(e.target as Node)) close();
+  };
+  const onKey = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') close();
+  };
+
+  for (const item of items) {
+    if (!item) {
+      menu.appendChild(document.createElement('hr'));
+      continue;
+    }
+    const button = document.createElement('button');
+    button.setAttribute('role', 'menuitem');
+    button.disabled = !!item.disabled;
+    button.append(item.label);
+    if (item.shortcut) {
+      const kbd = document.createElement('kbd');
+      kbd.textContent = item.shortcut;
+      button.appendChild(kbd);
+    }
+    button.onclick = () => {
+      close();
+      item.run();
+      view.focus();
+    };
+    menu.appendChild(button);
+  }
+
+  view.dom.appendChild(menu);
+  // Keep it on screen
+  const rect = menu.getBoundingClientRect();
+  if (rect.bottom > window.innerHeight) menu.style.top = `${Math.max(0, y - rect.height)}px`;
+  if (rect.right > window.innerWidth) menu.style.left = `${Math.max(0, x - rect.width)}px`;
+  document.addEventListener('mousedown', onOutside, true);
+  document.addEventListener('keydown', onKey, true);
+}
+
+/** The block actions for the block whose header is on `line`. */
+export function blockMenuItems(
+  view: EditorView,
+  line: number,
+  containerTypes: string[],
+  completionData: CompletionData,
+): Array<BlockMenuItem | null> {
+  const source = () => view.state.doc.toString();
+  const item = (label: string, shortcut: string | undefined, edit: () => BlockEdit | null, enabled = edit() !== null): BlockMenuItem => ({
+    label,
+    shortcut,
+    disabled: !enabled,
+    run: () => dispatchBlockEdit(view, edit()),
+  });
+  return [
+    item('Duplicate', 'Mod-Shift-D', () => duplicateBlock(source(), line), true),
+    item('Move up', 'Mod-Alt-↑', () => moveBlockSibling(source(), line, -1)),
+    item('Move down', 'Mod-Alt-↓', () => moveBlockSibling(source(), line, 1)),
+    null,
+    ...containerTypes.map((type) => item(`Wrap in ${type}`, undefined, () => wrapBlocks(source(), line, line, type), true)),
+    item('Unwrap', 'Mod-Alt-U', () => unwrapBlock(source(), line)),
+    null,
+    { label: 'Format block', run: () => formatBlockCommand(() => completionData, line)(view) },
+  ];
+}
@@ -0,0 +1,71 @@
+import { GutterMarker, gutter } from '@codemirror/view';
+import { RangeSet, StateEffect, StateField, type Extension } from '@codemirror/state';
+
+/** Block start lines with comment threads, and how many are still open. */
+export interface CommentLine {
+  line: number;
+  open: number;
+  total: number;
+}
+
+class CommentMarker extends GutterMarker {
+  constructor(readonly open: number, readonly total: number) {
+    super();
+  }
+
+  eq(other: CommentMarker) {
+    return other.open === this.open && other.total === this.total;
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = this.open > 0 ? 'mkly-comment-marker' : 'mkly-comment-marker mkly-comment-resolved';
+    el.textContent = this.open > 0 ? String(this.open) : '\u2713'; // ✓
+    el.title = this.open > 0
+      ? `${this.open} open ${this.open === 1 ? 'comment' : 'comments'}`
+      : 'Resolved comments';
+    return el;
+  }
+}
+
+export const setCommentLines = StateEffect.define<CommentLine[]>();
+
+// Markers move with edits until the store sends the re-anchored lines
+const commentMarkers = StateField.define<RangeSet<GutterMarker>>({
+  create() { return RangeSet.empty; },
+  update(markers, tr) {
+    for (const e of tr.effects) {
+      if (!e.is(setCommentLines)) continue;
+      const ranges = e.value
+        .filter((c) => c.line >= 1 && c.line <= tr.state.doc.lines)
+        .sort((a, b) => a.line - b.line)
+        .map((c) => new CommentMarker(c.open, c.total).range(tr.state.doc.line(c.line).from));
+      return RangeSet.of(ranges);
+    }
+    return tr.docChanged ? markers.map(tr.changes) : markers;
+  },
+});
+
+/**
+ * Gutter with a marker on each block that has comment threads: the open
+ * count, or a check mark when all are resolved. Clicking one calls `onOpen`
+ * with the line.
+ */
+export function commentGutter(onOpen: (line: number) => void): Extension {
+  return [
+    commentMarkers,
+    gutter({
+      class: 'mkly-comment-gutter',
+      markers: (view) => view.state.field(commentMarkers),
+      domEventHandlers: {
+        click(view, line) {
+          let hasMarker = false;
+          view.state.field(commentMarkers).between(line.from, line.from, () => { hasMarker = true; });
+          if (!hasMarker) return false;
+          onOpen(view.state.doc.lineAt(line.from).number);
+          return true;
+        },
+      },
+    }),
+  ];
+}
@@ -0,0 +1,156 @@
+import { Decoration, type DecorationSet, EditorView, ViewPlugin, type ViewUpdate } from '@codemirror/view';
+import { RangeSetBuilder, StateField, type EditorState, type Extension, type Text } from '@codemirror/state';
+import { codeFolding, foldGutter, foldService } from '@codemirror/language';
+
+const OPEN_RE = /^---\s+([\w]+(?:\/[\w]+)?)/;
+const CLOSE_RE = /^---\s+\/([\w]+(?:\/[\w]+)?)/;
+const HEADER_RE = /^---\s+\/?[\w]/;
+// Directives and the style block never hold other blocks
+const NON_BLOCKS = new Set(['use', 'meta', 'style', 'theme', 'preset', 'define-theme', 'define-preset']);
+
+export interface ContainerProblem {
+  /** 1-based line of the opener or closer at fault. */
+  line: number;
+  message: string;
+}
+
+export interface ContainerScan {
+  /** Opener line → closer line, and closer line → opener line. */
+  matches: Map<number, number>;
+  problems: ContainerProblem[];
+}
+
+/**
+ * Pair container openers with their `--- /type` closers. Blocks of a
+ * container type, or of any type closed somewhere below, open a container.
+ * Openers left without a closer, closers with no opener, and closers that
+ * skip past an open container are reported.
+ */
+export function scanContainers(doc: Text, containerTypes: string[]): ContainerScan {
+  const closed = new Set<string>();
+  for (let i = 1; i <= doc.lines; i++) {
+    const close = doc.line(i).text.match(CLOSE_RE);
+    if (close) closed.add(close[1]);
+  }
+
+  const matches = new Map<number, number>();
+  const problems: ContainerProblem[] = [];
+  const open: Array<{ type: string; line: number }> = [];
+  const unclosed = (entry: { type: string; line: number }) =>
+    problems.push({ line: entry.line, message: `--- ${entry.type} is never closed; add --- /${entry.type}` });
+
+  for (let i = 1; i <= doc.lines; i++) {
+    const text = doc.line(i).text;
+    const close = text.match(CLOSE_RE);
+    if (close) {
+      const type = close[1];
+      let depth = open.length - 1;
+      while (depth >= 0 && open[depth].type !== type) depth--;
+      if (depth < 0) {
+        const top = open[open.length - 1];
+        problems.push({
+          line: i,
+          message: top
+            ? `--- /${type} doesn't match --- ${top.type} on line ${top.line}`
+            : `--- /${type} has no opening block`,
+        });
+        continue;
+      }
+      while (open.length - 1 > depth) unclosed(open.pop()!);
+      const opener = open.pop()!;
+      matches.set(opener.line, i);
+      matches.set(i, opener.line);
+      continue;
+    }
+    const opener = text.match(OPEN_RE);
+    if (opener && !NON_BLOCKS.has(opener[1]) && (containerTypes.includes(opener[1]) || closed.has(opener[1]))) {
+      open.push({ type: opener[1], line: i });
+    }
+  }
+  open.forEach(unclosed);
+  problems.sort((a, b) => a.line - b.line);
+  return { matches, problems };
+}
+
+function blockFoldRange(state: EditorState, scan: ContainerScan, lineNum: number): { from: number; to: number } | null {
+  const { doc } = state;
+  const line = doc.line(lineNum);
+  const closer = scan.matches.get(lineNum);
+  let end: number;
+  if (closer !== undefined) {
+    // Containers fold up to their closer, which stays visible
+    end = closer - 1;
+  } else {
+    end = lineNum;
+    while (end < doc.lines && !HEADER_RE.test(doc.line(end + 1).text)) end++;
+  }
+  while (end > lineNum && doc.line(end).text.trim() === '') end--;
+  return end > lineNum ? { from: line.to, to: doc.line(end).to } : null;
+}
+
+const matchMark = Decoration.mark({ class: 'mkly-container-match' });
+
+function headerMark(view: EditorView, lineNum: number, spec: Decoration): [number, number, Decoration] {
+  const line = view.state.doc.line(lineNum);
+  const match = line.text.match(/^---\s+\/?[\w]+(?:\/[\w]+)?/);
+  return [line.from, line.from + (match?.[0].length ?? line.length), spec];
+}
+
+/**
+ * Folding for blocks and containers, plus container matching: with the cursor
+ * on an opener or closer both are highlighted, and unclosed or mismatched
+ * containers get a warning underline as you type. `containerTypes` are the
+ * kits' container block types.
+ */
+export function containerStructure(containerTypes: string[]): Extension {
+  const scanField = StateField.define<ContainerScan>({
+    create: (state) => scanContainers(state.doc, containerTypes),
+    update: (scan, tr) => tr.docChanged ? scanContainers(tr.state.doc, containerTypes) : scan,
+  });
+
+  function buildDecorations(view: EditorView): DecorationSet {
+    const { doc } = view.state;
+    const scan = view.state.field(scanField);
+    const marks: Array<[number, number, Decoration]> = [];
+    for (const problem of scan.problems) {
+      marks.push(headerMark(view, problem.line, Decoration.mark({
+        class: 'mkly-container-problem',
+        attributes: { title: problem.message },
+      })));
+    }
+    const cursorLine = doc.lineAt(view.state.selection.main.head).number;
+    const partner = scan.matches.get(cursorLine);
+    if (partner !== undefined) {
+      marks.push(headerMark(view, cursorLine, matchMark), headerMark(view, partner, matchMark));
+    }
+    marks.sort((a, b) => a[0] - b[0]);
+    const builder = new RangeSetBuilder<Decoration>();
+    for (const [from, to, mark] of marks) builder.add(from, to, mark);
+    return builder.finish();
+  }
+
+  return [
+    scanField,
+    foldService.of((state, lineStart) => {
+      const line = state.doc.lineAt(lineStart);
+      if (!OPEN_RE.test(line.text) || CLOSE_RE.test(line.text)) return null;
+      return blockFoldRange(state, state.field(scanField), line.number);
+    }),
+    codeFolding(),
+    foldGutter(),
+    ViewPlugin.fromClass(
+      class {
+        decorations: DecorationSet;
+        constructor(view: EditorView) {
+          this.decorations = buildDecorations(view);
+        }
+        update(update: ViewUpdate) {
+          if (update.docChanged || update.selectionSet) {
+            this.decorations = buildDecorations(update.view);
+          }
+        }
+      },
+      { decorations: (v) => v.decorations },
+    ),
+  ];
+}
@@ -1,5 +1,6 @@
 import type { ChangeSpec } from '@codemirror/state';
 import { EditorView } from '@codemirror/view';
+import { diffLines } from '../store/line-diff';
 import { clearPendingScroll } from './safe-dispatch';
 
 /**
@@ -34,6 +35,53 @@ export function computeMinimalChanges(
   };
 }
 
+/**
+ * Changes from `oldStr` to `newStr`, one per run of changed lines, so
+ * cursors and marks on unchanged lines between them keep their place.
+ */
+export function computeLineChanges(oldStr: string, newStr: string): ChangeSpec[] {
+  const oldLines = oldStr.split('\n');
+  // Offset of each old line's start
+  const starts = [0];
+  for (const line of oldLines) starts.push(starts[starts.length - 1] + line.length + 1);
+
+  const changes: ChangeSpec[] = [];
+  let oldLine = 0;
+  let removed = 0;
+  let added: string[] = [];
+  const flush = () => {
+    if (removed === 0 && added.length === 0) return;
+    const first = oldLine - removed;
+    const insert = added.join('\n');
+    if (removed > 0 && added.length > 0) {
+      changes.push({ from: starts[first], to: starts[oldLine] - 1, insert });
+    } else if (added.length > 0) {
+      changes.push(first < oldLines.length
+        ? { from: starts[first], insert: `${insert}\n` }
+        : { from: oldStr.length, insert: `\n${insert}` });
+    } else if (oldLine < oldLines.length) {
+      changes.push({ from: starts[first], to: starts[oldLine] });
+    } else {
+      changes.push({ from: Math.max(0, starts[first] - 1), to: oldStr.length });
+    }
+    removed = 0;
+    added = [];
+  };
+  for (const line of diffLines(oldStr, newStr)) {
+    if (line.kind === 'same') {
+      flush();
+      oldLine++;
+    } else if (line.kind === 'removed') {
+      removed++;
+      oldLine++;
+    } else {
+      added.push(line.text);
+    }
+  }
+  flush();
+  return changes;
+}
+
 /**
  * Apply an external value update to a CodeMirror EditorView using minimal
  * diff changes. Preserves scroll position when the editor is visible.
@@ -0,0 +1,185 @@
+import { hoverTooltip, type Tooltip } from '@codemirror/view';
+import { syntaxTree } from '@codemirror/language';
+import type { EditorState, Extension } from '@codemirror/state';
+import type { SyntaxNode } from '@lezer/common';
+import { getBlockDisplayName, type CompletionData, type CompletionItem } from '@mklyml/core';
+import { enclosingBlockType } from '../mkly-lang';
+
+export interface HoverDoc {
+  from: number;
+  to: number;
+  title: string;
+  /** Short note beside the title: the kit, or a property's type. */
+  tag?: string;
+  summary?: string;
+  /** One line each: a block's properties, a property's options and example. */
+  details: string[];
+}
+
+const text = (state: EditorState, node: SyntaxNode) => state.sliceDoc(node.from, node.to);
+
+function blockDoc(type: string, node: SyntaxNode, data: CompletionData): HoverDoc | null {
+  const docs = data.docs.get(type);
+  const item = data.blocks.find((b) => b.label === type);
+  if (!docs && !item) return null;
+  const required = new Set(docs?.properties?.filter((p) => p.required).map((p) => p.name));
+  return {
+    from: node.from,
+    to: node.to,
+    title: getBlockDisplayName(type, docs),
+    tag: data.blockKits.get(type),
+    summary: docs?.summary ?? item?.description,
+    details: (data.properties.get(type) ?? []).map((p) =>
+      `${p.label}${required.has(p.label) ? '*' : ''}${p.propType ? ` (${p.propType})` : ''} — ${p.description}`),
+  };
+}
+
+// `--- use: kit`, `--- theme: name` and `--- preset: name`
+function directiveDoc(type: string, node: SyntaxNode, name: string, data: CompletionData): HoverDoc | null {
+  if (type === 'use') {
+    const kit = data.kitInfo.get(name);
+    if (!kit) return null;
+    return {
+      from: node.from,
+      to: node.to,
+      title: kit.displayName,
+      tag: 'kit',
+      summary: kit.description,
+      details: [`${kit.blockNames.length} blocks`, ...(kit.themeNames.length > 0 ? [`Themes: ${kit.themeNames.join(', ')}`] : [])],
+    };
+  }
+  const items = type === 'theme' ? data.themes : type === 'preset' ? data.presets : null;
+  const item = items?.find((t) => t.label === name);
+  if (!item) return null;
+  return { from: node.from, to: node.to, title: item.label, tag: type, summary: item.description, details: [] };
+}
+
+function propertyDoc(type: string, node: SyntaxNode, name: string, data: CompletionData): HoverDoc | null {
+  if (type === 'meta') {
+    const meta = data.metaProperties.find((p) => p.name === name);
+    if (!meta) return null;
+    return {
+      from: node.from,
+      to: node.to,
+      title: name,
+      tag: meta.required ? 'required' : undefined,
+      summary: meta.description,
+      details: meta.example ? [`Example: ${meta.example}`] : [],
+    };
+  }
+  const item = data.properties.get(type)?.find((p) => p.label === name);
+  const doc = data.docs.get(type)?.properties?.find((p) => p.name === name);
+  if (!item && !doc) return null;
+  const details: string[] = [];
+  if (item?.options?.length) details.push(`Options: ${item.options.join(', ')}`);
+  if (doc?.example) details.push(`Example: ${doc.example}`);
+  return {
+    from: node.from,
+    to: node.to,
+    title: name,
+    tag: [item?.propType, doc?.required ? 'required' : null].filter(Boolean).join(', ') || undefined,
+    summary: doc?.description ?? item?.description,
+    details,
+  };
+}
+
+function itemDoc(node: SyntaxNode, item: CompletionItem | undefined, tag: string): HoverDoc | null {
+  return item ? { from: node.from, to: node.to, title: item.label, tag, summary: item.description, details: [] } : null;
+}
+
+/**
+ * Docs for the token at `pos`: block types, directive names, block and meta
+ * properties, inline style targets and properties, style block properties
+ * and `$variables` with their resolved value. Null where there is nothing
+ * to show.
+ */
+export function hoverDoc(
+  state: EditorState,
+  pos: number,
+  side: -1 | 1,
+  data: CompletionData,
+  resolveVariable: (name: string) => string | undefined,
+): HoverDoc | null {
+  const node = syntaxTree(state).resolveInner(pos, side);
+  const parent = node.parent;
+  switch (node.name) {
+    case 'BlockType':
+    case 'Label': {
+      if (parent?.name !== 'BlockHeader' && parent?.name !== 'CloseTag') return null;
+      const typeNode = parent.getChild('BlockType');
+      if (!typeNode) return null;
+      const type = text(state, typeNode);
+      const label = parent.getChild('Label');
+      if (type === 'use' || type === 'theme' || type === 'preset') {
+        return label ? directiveDoc(type, label, text(state, label), data) : null;
+      }
+      return node.name === 'BlockType' ? blockDoc(type, node, data) : null;
+    }
+    case 'PropertyName': {
+      const type = parent?.parent?.getChild('BlockHeader')?.getChild('BlockType');
+      return type ? propertyDoc(text(state, type), node, text(state, node), data) : null;
+    }
+    case 'StyleTarget': {
+      const type = enclosingBlockType(state, node.from);
+      const target = text(state, node);
+      const info = type ? data.targets.get(type)?.[target] : undefined;
+      if (!info) return null;
+      return { from: node.from, to: node.to, title: target, tag: 'target', summary: info.description ?? info.label, details: [] };
+    }
+    case 'StyleName':
+    case 'StylePropertyName': {
+      const name = text(state, node);
+      const kebab = name.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
+      return itemDoc(node, data.styleProperties.find((p) => p.label === name || p.label === kebab), 'style');
+    }
+    case 'Variable': {
+      const name = text(state, node).slice(1);
+      const item = data.variables.find((v) => v.label === name);
+      const value = resolveVariable(name);
+      if (!item && value === undefined) return null;
+      return {
+        from: node.from,
+        to: node.to,
+        title: `$${name}`,
+        tag: 'variable',
+        summary: item?.description,
+        details: value !== undefined ? [`Value: ${value}`] : [],
+      };
+    }
+  }
+  return null;
+}
+
+function renderHoverDoc(doc: HoverDoc): HTMLElement {
+  const dom = document.createElement('div');
+  dom.className = 'mkly-hover-doc';
+  const title = dom.appendChild(document.createElement('div'));
+  title.className = 'mkly-hover-title';
+  title.textContent = doc.title;
+  if (doc.tag) {
+    const tag = title.appendChild(document.createElement('span'));
+    tag.className = 'mkly-hover-tag';
+    tag.textContent = doc.tag;
+  }
+  if (doc.summary) {
+    dom.appendChild(document.createElement('p')).textContent = doc.summary;
+  }
+  if (doc.details.length > 0) {
+    const list = dom.appendChild(document.createElement('ul'));
+    for (const line of doc.details) list.appendChild(document.createElement('li')).textContent = line;
+  }
+  return dom;
+}
+
+/**
+ * Hover tooltips with the docs `hoverDoc` finds. `resolveVariable` gives a
+ * variable's current value, from the document's style block, presets or
+ * themes (see `resolveStyleVariableValue`).
+ */
+export function hoverDocs(data: CompletionData, resolveVariable: (name: string) => string | undefined): Extension {
+  return hoverTooltip((view, pos, side): Tooltip | null => {
+    const doc = hoverDoc(view.state, pos, side, data, resolveVariable);
+    if (!doc) return null;
+    return { pos: doc.from, end: doc.to, above: true, create: () => ({ dom: renderHoverDoc(doc) }) };
+  });
+}
@@ -126,6 +126,200 @@ const darkEditorTheme = EditorView.theme({
   '.mkly-delete-gutter .cm-gutterElement:hover .mkly-block-delete-btn': {
     opacity: '1',
   },
+  '.mkly-comment-gutter .cm-gutterElement': {
+    padding: '0 2px',
+  },
+  '.mkly-comment-marker': {
+    display: 'inline-block',
+    minWidth: '14px',
+    padding: '0 3px',
+    borderRadius: '7px 7px 7px 2px',
+    background: '#e2725b',
+    color: '#fff',
+    fontSize: '9px',
+    fontWeight: '700',
+    lineHeight: '14px',
+    textAlign: 'center',
+    cursor: 'pointer',
+    userSelect: 'none',
+  },
+  '.mkly-comment-marker.mkly-comment-resolved': {
+    background: 'transparent',
+    color: '#5a5a7a',
+  },
+  '.mkly-suggest-ins': {
+    background: 'rgba(76, 175, 122, 0.18)',
+    textDecoration: 'underline #4caf7a',
+  },
+  '.mkly-suggest-del': {
+    color: '#ff6b6b',
+    textDecoration: 'line-through',
+    opacity: '0.8',
+  },
+  '.mkly-suggest-actions': {
+    display: 'inline-flex',
+    gap: '2px',
+    marginLeft: '3px',
+    verticalAlign: 'middle',
+  },
+  '.mkly-suggest-actions button': {
+    padding: '0 4px',
+    fontSize: '11px',
+    lineHeight: '14px',
+    border: '1px solid currentColor',
+    borderRadius: '3px',
+    background: 'transparent',
+    color: '#4caf7a',
+    cursor: 'pointer',
+  },
+  '.mkly-suggest-actions button + button': {
+    color: '#ff6b6b',
+  },
+  '.mkly-block-menu': {
+    position: 'fixed',
+    zIndex: '100',
+    minWidth: '180px',
+    padding: '4px',
+    borderRadius: '8px',
+    border: '1px solid var(--ed-border)',
+    background: 'var(--ed-surface)',
+    boxShadow: '0 6px 20px rgba(0, 0, 0, 0.25)',
+    fontFamily: "'Plus Jakarta Sans', sans-serif",
+    fontSize: '12px',
+  },
+  '.mkly-block-menu button': {
+    display: 'flex',
+    width: '100%',
+    gap: '12px',
+    padding: '4px 8px',
+    border: 'none',
+    borderRadius: '4px',
+    background: 'transparent',
+    color: 'var(--ed-text)',
+    font: 'inherit',
+    textAlign: 'left',
+    cursor: 'pointer',
+  },
+  '.mkly-block-menu button:hover:not(:disabled)': {
+    background: 'var(--ed-surface-alt)',
+  },
+  '.mkly-block-menu button:disabled': {
+    opacity: '0.4',
+    cursor: 'default',
+  },
+  '.mkly-block-menu kbd': {
+    marginLeft: 'auto',
+    color: 'var(--ed-text-muted)',
+    font: 'inherit',
+  },
+  '.mkly-block-menu hr': {
+    margin: '4px 0',
+    border: 'none',
+    borderTop: '1px solid var(--ed-border)',
+  },
+  '.cm-foldGutter .cm-gutterElement': {
+    padding: '0 2px',
+    color: '#5a5a7a',
+    cursor: 'pointer',
+  },
+  '.cm-foldPlaceholder': {
+    margin: '0 4px',
+    padding: '0 4px',
+    border: 'none',
+    borderRadius: '3px',
+    background: 'rgba(255, 255, 255, 0.08)',
+    color: '#8a8aaa',
+  },
+  '.mkly-container-match': {
+    background: 'rgba(59, 130, 246, 0.18)',
+    outline: '1px solid rgba(59, 130, 246, 0.5)',
+    borderRadius: '2px',
+  },
+  '.mkly-container-problem': {
+    textDecoration: 'underline wavy #e0a030',
+    textUnderlineOffset: '3px',
+  },
+  '.mkly-hover-doc': {
+    maxWidth: '360px',
+    padding: '6px 10px',
+    fontFamily: "'Plus Jakarta Sans', sans-serif",
+    fontSize: '12px',
+    lineHeight: '1.5',
+  },
+  '.mkly-hover-title': {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    fontWeight: '700',
+  },
+  '.mkly-hover-tag': {
+    color: 'var(--ed-text-muted)',
+    fontSize: '10px',
+    fontWeight: '500',
+  },
+  '.mkly-hover-doc p': {
+    margin: '4px 0 0',
+  },
+  '.mkly-hover-doc ul': {
+    margin: '4px 0 0',
+    paddingLeft: '16px',
+    color: 'var(--ed-text-muted)',
+    fontSize: '11px',
+  },
+  '.mkly-rename-panel': {
+    padding: '8px 16px',
+    borderTop: '1px solid var(--ed-border)',
+    fontFamily: "'Plus Jakarta Sans', sans-serif",
+    fontSize: '12px',
+  },
+  '.mkly-rename-panel input': {
+    marginLeft: '8px',
+    padding: '2px 6px',
+    border: '1px solid var(--ed-border)',
+    borderRadius: '4px',
+    background: 'var(--ed-surface)',
+    color: 'var(--ed-text)',
+    fontFamily: "'JetBrains Mono', monospace",
+    fontSize: '12px',
+  },
+  '.mkly-rename-problem': {
+    minHeight: '16px',
+    color: '#ff6b6b',
+  },
+  '.mkly-rename-panel ul': {
+    maxHeight: '120px',
+    overflowY: 'auto',
+    margin: '0 0 6px',
+    padding: '0',
+    listStyle: 'none',
+  },
+  '.mkly-rename-panel li': {
+    display: 'flex',
+    gap: '8px',
+    whiteSpace: 'pre',
+  },
+  '.mkly-rename-panel li span': {
+    minWidth: '32px',
+    textAlign: 'right',
+    color: 'var(--ed-text-muted)',
+  },
+  '.mkly-rename-actions': {
+    display: 'flex',
+    gap: '6px',
+  },
+  '.mkly-rename-actions button': {
+    padding: '2px 10px',
+    border: '1px solid var(--ed-border)',
+    borderRadius: '4px',
+    background: 'var(--ed-surface)',
+    color: 'var(--ed-text)',
+    font: 'inherit',
+    cursor: 'pointer',
+  },
+  '.mkly-rename-actions button:disabled': {
+    opacity: '0.4',
+    cursor: 'default',
+  },
 }, { dark: true });
 
 const darkHighlightStyle = HighlightStyle.define([
@@ -0,0 +1,243 @@
+import type { EditorView } from '@codemirror/view';
+import type { Text } from '@codemirror/state';
+import type { Action, Diagnostic } from '@codemirror/lint';
+import { MKLY_DEFAULT_VERSION } from '@mklyml/core';
+import type { CompileError, CompletionData, CompletionItem, ParseError } from '@mklyml/core';
+import { PROPERTY_KEY_RE } from '../store/block-properties';
+import { undoLabel } from './undo-label';
+
+type MklyError = ParseError | CompileError;
+
+export type QuickFixKind = 'add-property' | 'remove-closer' | 'add-use' | 'rename-type' | 'fix-version';
+
+export interface QuickFix {
+  kind: QuickFixKind;
+  /** Shown on the diagnostic and used as the undo label. */
+  name: string;
+  changes: Array<{ from: number; to?: number; insert?: string }>;
+  /** Where to put the selection once this fix alone is applied, such as on a value to fill in. */
+  selection?: { anchor: number; head?: number };
+}
+
+const FIX_ALL_NAMES: Record<QuickFixKind, string> = {
+  'add-property': 'Add all missing properties',
+  'remove-closer': 'Remove all stray closers',
+  'add-use': 'Import all missing kits',
+  'rename-type': 'Correct all unknown block types',
+  'fix-version': 'Fix all versions',
+};
+
+const HEADER_RE = /^---\s+([\w]+(?:\/[\w]+)?)/;
+const USE_RE = /^---\s+use:\s*([\w-]+)/;
+const DIRECTIVES = new Set(['style', 'meta', 'use', 'theme', 'preset', 'define-theme', 'define-preset']);
+
+// A value the schema vouches for, or empty for the user to fill in
+function schemaValue(item: CompletionItem | undefined): string {
+  return item?.propType === 'select' ? item.options?.[0] ?? '' : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+/**
+ * The known block type closest to a misspelled `type`, or null when none is
+ * close enough to be a typo. A type without a kit prefix is compared with
+ * the names after the prefix.
+ */
+export function closestBlockType(type: string, known: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Math.max(2, Math.floor(type.length / 4)) + 1;
+  for (const candidate of known) {
+    const name = type.includes('/') ? candidate : candidate.slice(candidate.indexOf('/') + 1);
+    const distance = editDistance(type.toLowerCase(), name.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Blocks from a kit the document never imports with `--- use:`. The
+ * compiler loads such kits on its own, but the document then depends on the
+ * editor's kit configuration.
+ */
+export function missingKitImports(doc: Text, data: CompletionData): ParseError[] {
+  const imported = new Set<string>();
+  for (let i = 1; i <= doc.lines; i++) {
+    const use = doc.line(i).text.match(USE_RE);
+    if (use) imported.add(use[1]);
+  }
+  const problems: ParseError[] = [];
+  for (let i = 1; i <= doc.lines; i++) {
+    const type = doc.line(i).text.match(HEADER_RE)?.[1];
+    const kit = type && !DIRECTIVES.has(type) ? data.blockKits.get(type) : undefined;
+    // Core is always loaded
+    if (!kit || kit === 'core' || imported.has(kit)) continue;
+    problems.push({ message: `${type} is from the ${kit} kit, which isn't imported with --- use: ${kit}`, line: i, severity: 'warning' });
+  }
+  return problems;
+}
+
+function addPropertyFix(doc: Text, line: number, property: string, type: string, data: CompletionData): QuickFix | null {
+  if (line < 1 || line > doc.lines || doc.line(line).text.match(HEADER_RE)?.[1] !== type) return null;
+  let last = line;
+  while (last < doc.lines && PROPERTY_KEY_RE.test(doc.line(last + 1).text)) last++;
+  const example = data.docs.get(type)?.properties?.find((p) => p.name === property)?.example;
+  const value = example ?? schemaValue(data.properties.get(type)?.find((p) => p.label === property));
+  const from = doc.line(last).to;
+  const insert = `\n${property}: ${value}`;
+  // Select the value so it can be typed over
+  const end = from + insert.length;
+  return {
+    kind: 'add-property',
+    name: `Add ${property}`,
+    changes: [{ from, insert }],
+    selection: { anchor: end - value.length, head: end },
+  };
+}
+
+function removeLineFix(doc: Text, line: number): QuickFix | null {
+  if (line < 1 || line > doc.lines || !/^---\s+\//.test(doc.line(line).text)) return null;
+  const { from, to } = doc.line(line);
+  const range = line < doc.lines ? { from, to: to + 1 } : { from: Math.max(0, from - 1), to };
+  return { kind: 'remove-closer', name: 'Remove this closer', changes: [range] };
+}
+
+function renameTypeFix(doc: Text, line: number, type: string, data: CompletionData): QuickFix | null {
+  if (line < 1 || line > doc.lines) return null;
+  const text = doc.line(line).text;
+  const match = text.match(HEADER_RE);
+  if (match?.[1] !== type) return null;
+  const closest = closestBlockType(type, data.blocks.map((b) => b.label));
+  if (!closest) return null;
+  const from = doc.line(line).from + match[0].length - type.length;
+  return { kind: 'rename-type', name: `Change to ${closest}`, changes: [{ from, to: from + type.length, insert: closest }] };
+}
+
+function addUseFix(doc: Text, kit: string): QuickFix {
+  // After the last `--- use:` line, or at the top
+  let after = 0;
+  for (let i = 1; i <= doc.lines; i++) {
+    if (USE_RE.test(doc.line(i).text)) after = i;
+  }
+  const change = after > 0
+    ? { from: doc.line(after).to, insert: `\n--- use: ${kit}` }
+    : { from: 0, insert: `--- use: ${kit}\n` };
+  return { kind: 'add-use', name: `Add --- use: ${kit}`, changes: [change] };
+}
+
+function versionFix(doc: Text, version: number): QuickFix | null {
+  // Only the meta block's own properties; a `version:` elsewhere is content
+  let inMeta = false;
+  for (let i = 1; i <= doc.lines; i++) {
+    const line = doc.line(i);
+    if (line.text.startsWith('---')) {
+      inMeta = /^---\s+meta\b/.test(line.text);
+      continue;
+    }
+    const match = inMeta ? line.text.match(/^version:\s*(.*)$/) : null;
+    if (!match) continue;
+    const from = line.from + line.text.length - match[1].length;
+    return { kind: 'fix-version', name: `Use version ${version}`, changes: [{ from, to: line.to, insert: String(version) }] };
+  }
+  return null;
+}
+
+/** The fix for a compile error or a `missingKitImports` warning, or null when there is no safe one. */
+export function quickFixFor(doc: Text, error: MklyError, data: CompletionData): QuickFix | null {
+  const { message, line } = error;
+  let match: RegExpMatchArray | null;
+  if ((match = message.match(/^Missing required property "([\w.-]+)" on ([\w/]+) block/))) {
+    return addPropertyFix(doc, line, match[1], match[2], data);
+  }
+  if (/^Closing .* has no matching opening block/.test(message)) return removeLineFix(doc, line);
+  if ((match = message.match(/^Unknown block type[:" ]+([\w/]+)/))) return renameTypeFix(doc, line, match[1], data);
+  if ((match = message.match(/ isn't imported with --- use: ([\w-]+)$/))) return addUseFix(doc, match[1]);
+  if (/^Invalid version/.test(message)) return versionFix(doc, MKLY_DEFAULT_VERSION);
+  if ((match = message.match(/^Unsupported version: .*Supported: ([\d, ]+)/))) {
+    return versionFix(doc, Math.max(...match[1].split(',').map(Number)));
+  }
+  return null;
+}
+
+/**
+ * The changes of several fixes as one set, in document order: repeats are
+ * dropped (one `--- use:` per kit) and overlapping removals joined.
+ */
+export function mergeFixes(fixes: QuickFix[]): QuickFix['changes'] {
+  const changes: QuickFix['changes'] = [];
+  const sorted = fixes.flatMap((f) => f.changes).sort((a, b) => a.from - b.from || (a.to ?? a.from) - (b.to ?? b.from));
+  for (const change of sorted) {
+    const prev = changes[changes.length - 1];
+    const prevTo = prev?.to ?? prev?.from;
+    if (prev && prev.from === change.from && prev.to === change.to && prev.insert === change.insert) continue;
+    if (prev && prevTo !== undefined && change.from < prevTo) {
+      if (!prev.insert && !change.insert) prev.to = Math.max(prevTo, change.to ?? change.from);
+      continue;
+    }
+    changes.push({ ...change });
+  }
+  return changes;
+}
+
+function fixAction(doc: Text, name: string, label: string, changes: QuickFix['changes'], selection?: QuickFix['selection']): Action {
+  return {
+    name,
+    apply(view: EditorView) {
+      // Positions belong to the linted text; skip if it has changed since
+      if (view.state.doc !== doc) return;
+      view.dispatch({ changes, selection, annotations: undoLabel.of(label), scrollIntoView: true });
+      if (selection) view.focus();
+    },
+  };
+}
+
+/**
+ * Diagnostics for the compile errors, plus `missingKitImports`, each with
+ * its quick fix and, when the document has several of the same kind, one
+ * that fixes them all in a single undo step.
+ */
+export function mklyDiagnostics(doc: Text, errors: MklyError[], data: CompletionData): Diagnostic[] {
+  const all = [...errors, ...missingKitImports(doc, data)];
+  const fixes = all.map((err) => quickFixFor(doc, err, data));
+  const byKind = new Map<QuickFixKind, QuickFix[]>();
+  for (const fix of fixes) {
+    if (fix) byKind.set(fix.kind, [...(byKind.get(fix.kind) ?? []), fix]);
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  all.forEach((err, i) => {
+    const fix = fixes[i];
+    // Version errors come on line 1; show them on the version line instead
+    const lineNum = fix?.kind === 'fix-version' ? doc.lineAt(fix.changes[0].from).number : Math.min(err.line, doc.lines);
+    if (lineNum < 1) return;
+    const line = doc.line(lineNum);
+    const actions: Action[] = [];
+    if (fix) {
+      actions.push(fixAction(doc, fix.name, `Fix: ${fix.name}`, fix.changes, fix.selection));
+      const same = byKind.get(fix.kind)!;
+      if (same.length > 1) {
+        actions.push(fixAction(doc, `${FIX_ALL_NAMES[fix.kind]} (${same.length})`, FIX_ALL_NAMES[fix.kind], mergeFixes(same)));
+      }
+    }
+    diagnostics.push({
+      from: line.from,
+      to: line.to,
+      severity: err.severity === 'warning' ? 'warning' : 'error',
+      message: err.message,
+      ...(actions.length > 0 ? { actions } : {}),
+    });
+  });
+  return diagnostics;
+}
@@ -0,0 +1,261 @@
+import { EditorView, keymap, showPanel, type Panel } from '@codemirror/view';
+import { StateEffect, StateField, type EditorState, type Extension } from '@codemirror/state';
+import { syntaxTree } from '@codemirror/language';
+import { styleRuleLines } from './style-definitions';
+import { undoLabel } from './undo-label';
+
+/** A block label or style class that can be renamed. */
+export type RenameTarget =
+  | { kind: 'label'; blockType: string; name: string }
+  | { kind: 'class'; name: string };
+
+export interface RenameEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/** One affected line, before and after the rename. */
+export interface RenamePreviewLine {
+  line: number;
+  before: string;
+  after: string;
+}
+
+const DIRECTIVES = new Set(['meta', 'use', 'theme', 'preset', 'define-theme', 'define-preset']);
+const LABEL_NAME_RE = /^[\w-]+$/;
+const CLASS_NAME_RE = /^[A-Za-z][\w-]*$/;
+const CLASS_ATTR_RE = /\bclass="([^"]*)"/g;
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const token = (name: string) => new RegExp(`(?<![\\w-])${escape(name)}(?![\\w-])`, 'g');
+
+// A class name inside a verbatim `class="…"` attribute at `pos`
+function htmlClassAt(state: EditorState, pos: number): string | null {
+  const line = state.doc.lineAt(pos);
+  const offset = pos - line.from;
+  for (const attr of line.text.matchAll(CLASS_ATTR_RE)) {
+    const start = attr.index! + attr[0].indexOf('"') + 1;
+    if (offset < start || offset > start + attr[1].length) continue;
+    for (const name of attr[1].matchAll(/[\w-]+/g)) {
+      if (offset >= start + name.index! && offset <= start + name.index! + name[0].length) return name[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * The label or class at `pos`: a block header's label, a `{.class}`
+ * annotation or `class="…"` name in content, or the label or class a style
+ * selector targets.
+ */
+export function renameTargetAt(state: EditorState, pos: number): RenameTarget | null {
+  for (const side of [1, -1] as const) {
+    const node = syntaxTree(state).resolveInner(pos, side);
+    if (node.name === 'Label' && node.parent?.name === 'BlockHeader') {
+      const type = node.parent.getChild('BlockType');
+      const blockType = type ? state.sliceDoc(type.from, type.to) : '';
+      if (!blockType || DIRECTIVES.has(blockType)) return null;
+      return { kind: 'label', blockType, name: state.sliceDoc(node.from, node.to) };
+    }
+    if (node.name === 'ClassAnnotation') {
+      return { kind: 'class', name: state.sliceDoc(node.from + 2, node.to - 1) };
+    }
+    if (node.name === 'StyleSelector') {
+      const rule = styleRuleLines(state).find((r) => r.from === node.from);
+      const className = rule?.target.match(/^>\s*\.([\w-]+)/)?.[1];
+      if (className) return { kind: 'class', name: className };
+      if (rule?.label && state.sliceDoc(node.from, node.to).startsWith(`${rule.blockType}:${rule.label}`)) {
+        return { kind: 'label', blockType: rule.blockType, name: rule.label };
+      }
+      return null;
+    }
+  }
+  const htmlClass = htmlClassAt(state, pos);
+  return htmlClass ? { kind: 'class', name: htmlClass } : null;
+}
+
+/**
+ * Every edit renaming `target` to `newName`: block headers with the label
+ * (all blocks sharing it, since they share its styles) and the style
+ * selectors scoped to it; or every `{.class}` annotation, `class="…"` name
+ * and `>.class` selector.
+ */
+export function renameEdits(state: EditorState, target: RenameTarget, newName: string): RenameEdit[] {
+  const edits: RenameEdit[] = [];
+  const tree = syntaxTree(state);
+  if (target.kind === 'label') {
+    tree.iterate({
+      enter(node) {
+        if (node.name !== 'BlockHeader') return;
+        const type = node.node.getChild('BlockType');
+        const label = node.node.getChild('Label');
+        if (type && label && state.sliceDoc(type.from, type.to) === target.blockType && state.sliceDoc(label.from, label.to) === target.name) {
+          edits.push({ from: label.from, to: label.to, insert: newName });
+        }
+        return false;
+      },
+    });
+    const prefix = `${target.blockType}:${target.name}`;
+    for (const rule of styleRuleLines(state)) {
+      if (rule.blockType !== target.blockType || rule.label !== target.name) continue;
+      const text = state.sliceDoc(rule.from, rule.to);
+      if (!text.startsWith(prefix) || /[\w-]/.test(text.charAt(prefix.length))) continue;
+      const from = rule.from + target.blockType.length + 1;
+      edits.push({ from, to: from + target.name.length, insert: newName });
+    }
+  } else {
+    tree.iterate({
+      enter(node) {
+        if (node.name === 'ClassAnnotation' && state.sliceDoc(node.from + 2, node.to - 1) === target.name) {
+          edits.push({ from: node.from + 2, to: node.to - 1, insert: newName });
+        }
+        if (node.name === 'StyleSelector') {
+          const text = state.sliceDoc(node.from, node.to);
+          const match = new RegExp(`>\\s*\\.${escape(target.name)}(?![\\w-])`).exec(text);
+          if (match) {
+            const from = node.from + match.index + match[0].length - target.name.length;
+            edits.push({ from, to: from + target.name.length, insert: newName });
+          }
+        }
+      },
+    });
+    for (let i = 1; i <= state.doc.lines; i++) {
+      const line = state.doc.line(i);
+      for (const attr of line.text.matchAll(CLASS_ATTR_RE)) {
+        const start = line.from + attr.index! + attr[0].indexOf('"') + 1;
+        for (const name of attr[1].matchAll(token(target.name))) {
+          edits.push({ from: start + name.index!, to: start + name.index! + name[0].length, insert: newName });
+        }
+      }
+    }
+  }
+  return edits.sort((a, b) => a.from - b.from);
+}
+
+/** Why `newName` can't replace `target`, or null when it can. */
+export function renameProblem(state: EditorState, target: RenameTarget, newName: string): string | null {
+  if (newName === target.name) return null;
+  if (target.kind === 'label') {
+    if (!LABEL_NAME_RE.test(newName)) return 'Labels use letters, digits, - and _';
+    if (renameEdits(state, { ...target, name: newName }, target.name).length > 0) {
+      return `${target.blockType}: ${newName} is already used`;
+    }
+    return null;
+  }
+  if (!CLASS_NAME_RE.test(newName)) return 'Classes start with a letter and use letters, digits, - and _';
+  if (renameEdits(state, { kind: 'class', name: newName }, target.name).length > 0) return `.${newName} is already used`;
+  return null;
+}
+
+/** The lines `edits` touch, as they read before and after. */
+export function renamePreview(state: EditorState, edits: RenameEdit[]): RenamePreviewLine[] {
+  const byLine = new Map<number, RenameEdit[]>();
+  for (const edit of edits) {
+    const line = state.doc.lineAt(edit.from).number;
+    byLine.set(line, [...(byLine.get(line) ?? []), edit]);
+  }
+  return [...byLine].map(([number, lineEdits]) => {
+    const line = state.doc.line(number);
+    let after = line.text;
+    for (const edit of [...lineEdits].reverse()) {
+      after = after.slice(0, edit.from - line.from) + edit.insert + after.slice(edit.to - line.from);
+    }
+    return { line: number, before: line.text, after };
+  });
+}
+
+const openRename = StateEffect.define<RenameTarget | null>();
+
+const renameField = StateField.define<RenameTarget | null>({
+  create: () => null,
+  update(target, tr) {
+    for (const e of tr.effects) if (e.is(openRename)) return e.value;
+    return tr.docChanged ? null : target;
+  },
+  provide: (f) => showPanel.from(f, (target) => (target ? (view) => renamePanel(view, target) : null)),
+});
+
+function renamePanel(view: EditorView, target: RenameTarget): Panel {
+  const dom = document.createElement('div');
+  dom.className = 'mkly-rename-panel';
+  const heading = dom.appendChild(document.createElement('label'));
+  heading.textContent = target.kind === 'label' ? `Rename label ${target.name} of ${target.blockType} to` : `Rename class .${target.name} to`;
+  const input = heading.appendChild(document.createElement('input'));
+  input.value = target.name;
+  input.spellcheck = false;
+  const problem = dom.appendChild(document.createElement('div'));
+  problem.className = 'mkly-rename-problem';
+  const list = dom.appendChild(document.createElement('ul'));
+  const actions = dom.appendChild(document.createElement('div'));
+  actions.className = 'mkly-rename-actions';
+  const apply = actions.appendChild(document.createElement('button'));
+  apply.textContent = 'Rename';
+  const cancel = actions.appendChild(document.createElement('button'));
+  cancel.textContent = 'Cancel';
+
+  const close = () => {
+    view.dispatch({ effects: openRename.of(null) });
+    view.focus();
+  };
+  const refresh = () => {
+    const name = input.value.trim();
+    const issue = renameProblem(view.state, target, name);
+    problem.textContent = issue ?? '';
+    apply.disabled = !!issue || name === target.name;
+    list.replaceChildren();
+    const preview = renamePreview(view.state, renameEdits(view.state, target, name || target.name));
+    for (const line of preview) {
+      const item = list.appendChild(document.createElement('li'));
+      item.appendChild(document.createElement('span')).textContent = String(line.line);
+      item.appendChild(document.createElement('code')).textContent = name && name !== target.name ? line.after : line.before;
+    }
+  };
+  const run = () => {
+    const name = input.value.trim();
+    if (apply.disabled) return;
+    const label = target.kind === 'label' ? `Rename label ${target.name} to ${name}` : `Rename class ${target.name} to ${name}`;
+    view.dispatch({
+      changes: renameEdits(view.state, target, name),
+      effects: openRename.of(null),
+      annotations: undoLabel.of(label),
+    });
+    view.focus();
+  };
+
+  input.oninput = refresh;
+  input.onkeydown = (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      run();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+  apply.onclick = run;
+  cancel.onclick = close;
+  refresh();
+
+  return {
+    dom,
+    top: false,
+    mount() {
+      input.focus();
+      input.select();
+    },
+  };
+}
+
+/** Open the rename panel for the label or class at the cursor. */
+export function renameSymbolCommand(view: EditorView): boolean {
+  const target = renameTargetAt(view.state, view.state.selection.main.head);
+  if (!target) return false;
+  view.dispatch({ effects: openRename.of(target) });
+  return true;
+}
+
+/** F2 renames a label or class everywhere it is used, after previewing the affected lines. */
+export function renameSymbol(): Extension {
+  return [renameField, keymap.of([{ key: 'F2', run: renameSymbolCommand }])];
+}
@@ -0,0 +1,170 @@
+import { EditorView, keymap } from '@codemirror/view';
+import { EditorSelection, type EditorState, type Extension } from '@codemirror/state';
+import { syntaxTree } from '@codemirror/language';
+import type { SyntaxNode } from '@lezer/common';
+import { decomposeSelector } from '../store/style-graph-compat';
+
+/** A selector line of a style block, with the rule it opens. */
+export interface StyleRuleLine {
+  from: number;
+  to: number;
+  blockType: string;
+  label?: string;
+  /** As in StyleGraph rules: 'self', 'img', 'self:hover', '>.lead', … */
+  target: string;
+}
+
+export interface DefinitionRange {
+  from: number;
+  to: number;
+}
+
+const text = (state: EditorState, node: SyntaxNode) => state.sliceDoc(node.from, node.to);
+
+// Nested selectors under a block selector, as parseStyleGraphCompat reads them
+function nestedTarget(selector: string): string {
+  if (selector.startsWith('>')) return selector;
+  if (selector.startsWith(':')) return `self${selector}`;
+  if (selector.startsWith('.')) return selector.slice(1) === 'self' ? 'self' : selector.slice(1);
+  return selector;
+}
+
+/** Every selector line in the document's style blocks. */
+export function styleRuleLines(state: EditorState): StyleRuleLine[] {
+  const rules: StyleRuleLine[] = [];
+  let parent: Omit<StyleRuleLine, 'from' | 'to'> | null = null;
+  syntaxTree(state).iterate({
+    enter(node) {
+      if (node.name === 'StyleHeader') parent = null;
+      if (node.name !== 'StyleSelector' && node.name !== 'StyleDeclaration') return;
+      const line = state.doc.lineAt(node.from);
+      const topLevel = node.from === line.from;
+      if (node.name === 'StyleDeclaration') {
+        // A top-level declaration is a variable and ends the current selector
+        if (topLevel) parent = null;
+        return false;
+      }
+      const selector = text(state, node.node);
+      if (topLevel) {
+        const rule = decomposeSelector(selector);
+        parent = rule.blockType ? rule : null;
+        if (parent) rules.push({ from: node.from, to: node.to, ...parent });
+      } else if (parent) {
+        rules.push({ from: node.from, to: node.to, blockType: parent.blockType, label: parent.label, target: nestedTarget(selector) });
+      }
+      return false;
+    },
+  });
+  return rules;
+}
+
+interface BlockRef {
+  header: SyntaxNode;
+  type: string;
+  label?: string;
+  block: SyntaxNode;
+}
+
+function blockRefs(state: EditorState): BlockRef[] {
+  const blocks: BlockRef[] = [];
+  for (let node = syntaxTree(state).topNode.firstChild; node; node = node.nextSibling) {
+    if (node.name !== 'Block') continue;
+    const header = node.getChild('BlockHeader');
+    const type = header?.getChild('BlockType');
+    if (!header || !type) continue;
+    const label = header.getChild('Label');
+    blocks.push({ header, type: text(state, type), label: label ? text(state, label) : undefined, block: node });
+  }
+  return blocks;
+}
+
+const classOfTarget = (target: string) => target.match(/^>\.([\w-]+)/)?.[1];
+
+function nodeAt(state: EditorState, pos: number, names: string[]): SyntaxNode | null {
+  for (const side of [1, -1] as const) {
+    const node = syntaxTree(state).resolveInner(pos, side);
+    if (names.includes(node.name)) return node;
+  }
+  return null;
+}
+
+/**
+ * Where the token at `pos` is defined or used: a block label or `{.class}`
+ * leads to the style rules that target it, and a style selector back to the
+ * blocks it affects (or their `{.class}` annotations). Empty when there is
+ * nowhere to go.
+ */
+export function definitionRanges(state: EditorState, pos: number): DefinitionRange[] {
+  const node = nodeAt(state, pos, ['Label', 'ClassAnnotation', 'StyleSelector']);
+  if (!node) return [];
+
+  if (node.name === 'StyleSelector') {
+    const rule = styleRuleLines(state).find((r) => r.from === node.from);
+    if (!rule) return [];
+    const blocks = blockRefs(state).filter((b) => b.type === rule.blockType && (!rule.label || b.label === rule.label));
+    const className = classOfTarget(rule.target);
+    if (className) {
+      const annotations: DefinitionRange[] = [];
+      for (const b of blocks) {
+        syntaxTree(state).iterate({
+          from: b.block.from,
+          to: b.block.to,
+          enter(n) {
+            if (n.name === 'ClassAnnotation' && state.sliceDoc(n.from, n.to) === `{.${className}}`) {
+              annotations.push({ from: n.from, to: n.to });
+            }
+          },
+        });
+      }
+      if (annotations.length > 0) return annotations;
+    }
+    return blocks.map((b) => ({ from: b.header.from, to: b.header.to }));
+  }
+
+  if (node.name === 'Label' && node.parent?.name !== 'BlockHeader') return [];
+  let block: SyntaxNode | null = node.parent;
+  while (block && block.name !== 'Block') block = block.parent;
+  const ref = block ? blockRefs(state).find((b) => b.block.from === block.from) : undefined;
+  if (!ref) return [];
+  const rules = styleRuleLines(state).filter((r) => r.blockType === ref.type);
+  if (node.name === 'Label') {
+    return rules.filter((r) => r.label === ref.label).map(({ from, to }) => ({ from, to }));
+  }
+  const className = text(state, node).slice(2, -1);
+  return rules
+    .filter((r) => classOfTarget(r.target) === className && (!r.label || r.label === ref.label))
+    .map(({ from, to }) => ({ from, to }));
+}
+
+/**
+ * Select the definition of the token at `pos`. With several, the first one
+ * after the cursor is taken, so repeating the jump cycles through them.
+ */
+export function goToDefinition(view: EditorView, pos: number): boolean {
+  const ranges = definitionRanges(view.state, pos);
+  if (ranges.length === 0) return false;
+  const head = view.state.selection.main.head;
+  const next = ranges.find((r) => r.from > head) ?? ranges[0];
+  view.dispatch({
+    selection: EditorSelection.single(next.from, next.to),
+    effects: EditorView.scrollIntoView(next.from, { y: 'center' }),
+    userEvent: 'select',
+  });
+  return true;
+}
+
+/** Cmd/Ctrl-click, or F12 at the cursor, jumps with `goToDefinition`. */
+export function styleDefinitions(): Extension {
+  return [
+    EditorView.domEventHandlers({
+      mousedown(event, view) {
+        if (event.button !== 0 || !(event.metaKey || event.ctrlKey)) return false;
+        const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+        if (pos === null || !goToDefinition(view, pos)) return false;
+        event.preventDefault();
+        return true;
+      },
+    }),
+    keymap.of([{ key: 'F12', run: (view) => goToDefinition(view, view.state.selection.main.head) }]),
+  ];
+}
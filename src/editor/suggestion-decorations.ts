@@ -0,0 +1,83 @@
+import { Decoration, type DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+import { StateEffect, StateField, type Extension, type Range } from '@codemirror/state';
+import type { Suggestion } from '../store/suggestions';
+
+export const setSuggestions = StateEffect.define<Suggestion[]>();
+
+const insertedMark = Decoration.mark({ class: 'mkly-suggest-ins' });
+
+class DeletedTextWidget extends WidgetType {
+  constructor(readonly text: string) {
+    super();
+  }
+
+  eq(other: DeletedTextWidget) {
+    return other.text === this.text;
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = 'mkly-suggest-del';
+    el.textContent = this.text;
+    return el;
+  }
+}
+
+class SuggestionActionsWidget extends WidgetType {
+  constructor(readonly id: string, readonly onResolve: (id: string, accept: boolean) => void) {
+    super();
+  }
+
+  eq(other: SuggestionActionsWidget) {
+    return other.id === this.id;
+  }
+
+  toDOM() {
+    const el = document.createElement('span');
+    el.className = 'mkly-suggest-actions';
+    for (const accept of [true, false]) {
+      const button = document.createElement('button');
+      button.textContent = accept ? '✓' : '×'; // ✓ ×
+      button.title = accept ? 'Accept change' : 'Reject change';
+      button.onmousedown = (e) => {
+        e.preventDefault();
+        this.onResolve(this.id, accept);
+      };
+      el.appendChild(button);
+    }
+    return el;
+  }
+
+  ignoreEvent() {
+    return true;
+  }
+}
+
+/**
+ * Shows pending suggestions inline: inserted text highlighted, deleted text
+ * struck through where it used to be, and accept/reject buttons after each
+ * change. The store sends the current set through `setSuggestions`.
+ */
+export function suggestionDecorations(onResolve: (id: string, accept: boolean) => void): Extension {
+  const field = StateField.define<DecorationSet>({
+    create() { return Decoration.none; },
+    update(decos, tr) {
+      for (const e of tr.effects) {
+        if (!e.is(setSuggestions)) continue;
+        const ranges: Range<Decoration>[] = [];
+        for (const s of e.value) {
+          if (s.to > tr.state.doc.length) continue;
+          if (s.deleted) {
+            ranges.push(Decoration.widget({ widget: new DeletedTextWidget(s.deleted), side: -1 }).range(s.from));
+          }
+          if (s.to > s.from) ranges.push(insertedMark.range(s.from, s.to));
+          ranges.push(Decoration.widget({ widget: new SuggestionActionsWidget(s.id, onResolve), side: 1 }).range(s.to));
+        }
+        return Decoration.set(ranges, true);
+      }
+      return tr.docChanged ? decos.map(tr.changes) : decos;
+    },
+    provide: (f) => EditorView.decorations.from(f),
+  });
+  return field;
+}
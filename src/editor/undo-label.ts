@@ -0,0 +1,8 @@
+import { Annotation } from '@codemirror/state';
+
+/**
+ * Names the undo step for a CodeMirror transaction. Extensions without store
+ * access (the delete gutter) attach it; MklyEditor's update listener records
+ * the resulting source change as a labeled undo transaction.
+ */
+export const undoLabel = Annotation.define<string>();
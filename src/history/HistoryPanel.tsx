@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  openVersionCompare,
+  previewSnapshot,
+  renameSnapshot,
+  restoreSnapshot,
+} from '../store/use-version-snapshots';
+import { diffLines, diffStats } from '../store/line-diff';
+import type { VersionSnapshot } from '../store/version-snapshots';
+import { LineDiffView } from '../ui/line-diff-view';
+import { IconEye } from '../icons';
+import { UndoTreeView } from './UndoTreeView';
+
+const smallButton = {
+  padding: '2px 8px',
+  fontSize: 11,
+  fontWeight: 600,
+  borderRadius: 6,
+  border: '1px solid var(--ed-border)',
+  background: 'var(--ed-surface)',
+  color: 'var(--ed-text)',
+  cursor: 'pointer',
+} as const;
+
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Named versions of the document: save, preview, diff, restore. */
+export function HistoryPanel() {
+  const editorStore = useEditorStoreApi();
+  const open = useEditorState((s) => s.historyPanelOpen);
+  const setOpen = useEditorState((s) => s.setHistoryPanelOpen);
+  const snapshots = useEditorState((s) => s.snapshots);
+  const undoInfo = useEditorState((s) => s.undoInfo);
+  const previewId = useEditorState((s) => s.versionPreview?.snapshotId ?? null);
+  const [name, setName] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showSteps, setShowSteps] = useState(false);
+
+  if (!open) return null;
+
+  const save = () => {
+    createSnapshot(editorStore, name);
+    setName('');
+  };
+
+  return (
+    <div
+      className="liquid-glass-overlay animate-cream-rise"
+      style={{
+        position: 'fixed',
+        top: 52,
+        left: 14,
+        width: 380,
+        maxHeight: 'calc(100vh - 100px)',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        zIndex: 9000,
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setOpen(false);
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', padding: '12px 14px 8px' }}>
+        <span style={{ flex: 1, fontSize: 13, fontWeight: 700, color: 'var(--ed-text)' }}>Versions</span>
+        <button
+          onClick={() => openVersionCompare(editorStore, { kind: 'text', text: '' })}
+          title="Compare the document with a version, an undo step or pasted text"
+          style={{ border: 'none', background: 'none', padding: 0, marginRight: 10, fontSize: 11, color: 'var(--ed-accent)', cursor: 'pointer' }}
+        >
+          Compare…
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          title="Close"
+          style={{ border: 'none', background: 'none', color: 'var(--ed-text-muted)', cursor: 'pointer', fontSize: 13 }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: 6, padding: '0 14px 8px' }}>
+        <input
+          className="liquid-glass-input"
+          placeholder="Name this version…"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+          }}
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <button style={{ ...smallButton, padding: '4px 12px' }} onClick={save}>
+          Save
+        </button>
+      </div>
+      <div style={{ padding: '0 14px 8px', fontSize: 10, color: 'var(--ed-text-muted)' }}>
+        Undo history holds {undoInfo.total} recent {undoInfo.total === 1 ? 'step' : 'steps'}; saved versions are kept until deleted.{' '}
+        <button
+          onClick={() => setShowSteps(!showSteps)}
+          style={{ border: 'none', background: 'none', padding: 0, fontSize: 10, color: 'var(--ed-accent)', cursor: 'pointer' }}
+        >
+          {showSteps ? 'Hide undo steps' : 'Show undo steps'}
+        </button>
+      </div>
+      {showSteps && (
+        <div style={{ maxHeight: 180, overflowY: 'auto', borderTop: '1px solid var(--ed-border)' }}>
+          <UndoTreeView />
+        </div>
+      )}
+
+      <div style={{ overflowY: 'auto', borderTop: '1px solid var(--ed-border)' }}>
+        {snapshots.length === 0 && (
+          <div style={{ padding: '16px 14px', fontSize: 12, color: 'var(--ed-text-muted)' }}>
+            No saved versions yet.
+          </div>
+        )}
+        {snapshots.map((snapshot) => (
+          <SnapshotRow
+            key={snapshot.id}
+            snapshot={snapshot}
+            expanded={expandedId === snapshot.id}
+            previewing={previewId === snapshot.id}
+            onToggle={() => setExpandedId(expandedId === snapshot.id ? null : snapshot.id)}
+            onPreview={() => previewSnapshot(editorStore, previewId === snapshot.id ? null : snapshot.id)}
+            onCompare={() => openVersionCompare(editorStore, { kind: 'snapshot', id: snapshot.id })}
+            onRestore={() => restoreSnapshot(editorStore, snapshot.id)}
+            onRename={(next) => renameSnapshot(editorStore, snapshot.id, next)}
+            onDelete={() => deleteSnapshot(editorStore, snapshot.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SnapshotRow({ snapshot, expanded, previewing, onToggle, onPreview, onCompare, onRestore, onRename, onDelete }: {
+  snapshot: VersionSnapshot;
+  expanded: boolean;
+  previewing: boolean;
+  onToggle: () => void;
+  onPreview: () => void;
+  onCompare: () => void;
+  onRestore: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const source = useEditorState((s) => s.source);
+  const [editing, setEditing] = useState(false);
+  const diff = useMemo(
+    () => expanded ? diffLines(snapshot.source, source) : null,
+    [expanded, snapshot.source, source],
+  );
+  const stats = diff ? diffStats(diff) : null;
+
+  return (
+    <div style={{
+      padding: '8px 14px',
+      borderBottom: '1px solid var(--ed-border)',
+      background: previewing ? 'rgba(226, 114, 91, 0.08)' : undefined,
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <div style={{ flex: 1, minWidth: 0, cursor: 'pointer' }} onClick={onToggle}>
+          {editing ? (
+            <input
+              className="liquid-glass-input"
+              autoFocus
+              defaultValue={snapshot.name}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={(e) => {
+                onRename(e.target.value);
+                setEditing(false);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setEditing(false);
+              }}
+              style={{ width: '100%', fontSize: 12, padding: '2px 6px' }}
+            />
+          ) : (
+            <div
+              style={{ fontSize: 12, fontWeight: 600, color: 'var(--ed-text)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              onDoubleClick={() => setEditing(true)}
+              title="Double-click to rename"
+            >
+              {snapshot.name}
+            </div>
+          )}
+          <div style={{ fontSize: 10, color: 'var(--ed-text-muted)' }}>{formatTimestamp(snapshot.createdAt)}</div>
+        </div>
+        <button
+          style={{ ...smallButton, display: 'flex', alignItems: 'center', color: previewing ? 'var(--ed-accent)' : 'var(--ed-text)' }}
+          onClick={onPreview}
+          title={previewing ? 'Back to the current document' : 'Show this version in the preview'}
+        >
+          <IconEye size={13} />
+        </button>
+        <button style={smallButton} onClick={onCompare} title="Compare this version with the document side by side">
+          Compare
+        </button>
+        <button style={smallButton} onClick={onRestore} title="Replace the document with this version (undoable)">
+          Restore
+        </button>
+        <button
+          style={{ ...smallButton, color: 'var(--ed-error-text)' }}
+          onClick={onDelete}
+          title="Delete this version"
+        >
+          ✕
+        </button>
+      </div>
+      {diff && stats && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ fontSize: 10, color: 'var(--ed-text-muted)', marginBottom: 4 }}>
+            Changes since this version:{' '}
+            <span style={{ color: 'var(--ed-success-text)' }}>+{stats.added}</span>{' '}
+            <span style={{ color: 'var(--ed-error-text)' }}>−{stats.removed}</span>
+          </div>
+          <LineDiffView lines={diff} />
+        </div>
+      )}
+    </div>
+  );
+}
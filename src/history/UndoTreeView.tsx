@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { useEditorState } from '../store/editor-store-context';
+import type { UndoTreeNode } from '../store/undo-manager';
+
+// Lane per branch: a first child continues its parent's lane, later siblings open new ones.
+function assignLanes(nodes: UndoTreeNode[]): Map<number, number> {
+  const lanes = new Map<number, number>();
+  const firstChild = new Set<number>();
+  let nextLane = 1;
+  for (const node of nodes) {
+    if (node.parent === null) {
+      lanes.set(node.id, 0);
+    } else if (!firstChild.has(node.parent)) {
+      firstChild.add(node.parent);
+      lanes.set(node.id, lanes.get(node.parent) ?? 0);
+    } else {
+      lanes.set(node.id, nextLane++);
+    }
+  }
+  return lanes;
+}
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/** Every undo step, one lane per branch; clicking a step jumps there. */
+export function UndoTreeView() {
+  const tree = useEditorState((s) => s.undoTree);
+  const jumpToUndoStep = useEditorState((s) => s.jumpToUndoStep);
+  const lanes = useMemo(() => assignLanes(tree), [tree]);
+
+  if (tree.length <= 1) {
+    return (
+      <div style={{ padding: '8px 14px', fontSize: 11, color: 'var(--ed-text-muted)' }}>
+        No undo steps yet.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: '4px 0' }}>
+      {tree.map((node) => {
+        const lane = lanes.get(node.id) ?? 0;
+        return (
+          <button
+            key={node.id}
+            onClick={() => jumpToUndoStep(node.id)}
+            disabled={node.current}
+            title={node.current ? 'Current state' : 'Jump to this step'}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              width: '100%',
+              padding: `2px 14px 2px ${14 + lane * 14}px`,
+              border: 'none',
+              background: node.current ? 'rgba(226, 114, 91, 0.1)' : 'transparent',
+              color: node.ancestor ? 'var(--ed-text)' : 'var(--ed-text-muted)',
+              fontSize: 11,
+              fontFamily: "'JetBrains Mono', monospace",
+              textAlign: 'left',
+              cursor: node.current ? 'default' : 'pointer',
+            }}
+          >
+            <span style={{ color: node.current || node.ancestor ? 'var(--ed-accent)' : undefined }}>
+              {node.current ? '●' : '○'}
+            </span>
+            <span>{node.parent === null ? 'Start' : formatTime(node.ts)}</span>
+            {node.label && (
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontFamily: "'Plus Jakarta Sans', sans-serif" }}>
+                {node.label}
+              </span>
+            )}
+            {lane > 0 && node.parent !== null && lanes.get(node.parent) !== lane && (
+              <span style={{ fontSize: 9, opacity: 0.7 }}>branch</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
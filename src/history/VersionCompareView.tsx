@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MklyPlugin } from '@mklyml/core';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import type { CompareSource } from '../store/editor-store';
+import { compareSourceText } from '../store/use-version-snapshots';
+import { CompileService, createDefaultCompileWorker } from '../store/compile-service';
+import type { CompileRequest } from '../store/compile-core';
+import { DEFAULT_KITS, sameKits } from '../store/kit-config';
+import type { KitMap } from '../store/kit-config';
+import { changedBlockLines, diffBlocks } from '../store/block-diff';
+import type { BlockDiff, BlockDiffKind } from '../store/block-diff';
+import { findBlockElement } from '../store/selection-orchestrator';
+import { DIFF_MARK_CSS, markDiffBlocks } from '../preview/iframe-highlight';
+import { LineDiffView } from '../ui/line-diff-view';
+
+const KIND_COLORS: Record<BlockDiffKind, string> = {
+  same: 'var(--ed-border)',
+  changed: '#e0a030',
+  added: '#4caf7a',
+  removed: '#d9534f',
+};
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function sideValue(side: CompareSource): string {
+  return side.kind === 'current' || side.kind === 'text' ? side.kind : `${side.kind}:${side.id}`;
+}
+
+function blockTitle(diff: BlockDiff): string {
+  if (!diff.type) return 'Before the first block';
+  return diff.label ? `${diff.type}: ${diff.label}` : diff.type;
+}
+
+// Compiles one side of the comparison off the keystroke path: debounced, and
+// in the built-in worker when the default kits are in use.
+function useCompiledHtml(source: string | null, outputMode: CompileRequest['outputMode'], kits: KitMap, plugins: MklyPlugin[]): string {
+  const [service, setService] = useState<CompileService | null>(null);
+  const [html, setHtml] = useState('');
+
+  useEffect(() => {
+    const createWorker = sameKits(kits, DEFAULT_KITS) && plugins.length === 0 ? createDefaultCompileWorker : null;
+    const next = new CompileService({ kits, plugins, createWorker });
+    setService(next);
+    return () => next.dispose();
+  }, [kits, plugins]);
+
+  useEffect(() => {
+    if (!service) return;
+    if (source === null) {
+      setHtml('');
+      return;
+    }
+    const timer = setTimeout(() => {
+      service.compile({ source, outputMode, normalize: false }).then(
+        (output) => { if (output) setHtml(output.html); },
+        () => setHtml(''),
+      );
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [service, source, outputMode]);
+
+  return html;
+}
+
+/**
+ * Two versions side by side: a block-by-block source diff, and both
+ * compiled outputs with the blocks that differ outlined.
+ */
+export function VersionCompareView() {
+  const editorStore = useEditorStoreApi();
+  const compare = useEditorState((s) => s.versionCompare);
+  const setCompare = useEditorState((s) => s.setVersionCompare);
+  // Re-read both sides as the document, snapshots and history change
+  const source = useEditorState((s) => s.source);
+  const snapshots = useEditorState((s) => s.snapshots);
+  const undoTree = useEditorState((s) => s.undoTree);
+  const outputMode = useEditorState((s) => s.outputMode);
+  const kits = useEditorState((s) => s.kits);
+  const plugins = useEditorState((s) => s.plugins);
+  const beforeFrame = useRef<HTMLIFrameElement>(null);
+  const afterFrame = useRef<HTMLIFrameElement>(null);
+
+  const before = useMemo(
+    () => compare ? compareSourceText(editorStore, compare.before) : null,
+    [compare, editorStore, source, snapshots, undoTree],
+  );
+  const after = useMemo(
+    () => compare ? compareSourceText(editorStore, compare.after) : null,
+    [compare, editorStore, source, snapshots, undoTree],
+  );
+  const diffs = useMemo(
+    () => before !== null && after !== null ? diffBlocks(before, after) : [],
+    [before, after],
+  );
+  const beforeHtml = useCompiledHtml(before, outputMode, kits, plugins);
+  const afterHtml = useCompiledHtml(after, outputMode, kits, plugins);
+  const beforeMarks = useMemo(() => changedBlockLines(diffs, 'before'), [diffs]);
+  const afterMarks = useMemo(() => changedBlockLines(diffs, 'after'), [diffs]);
+
+  if (!compare) return null;
+
+  const changed = diffs.filter((d) => d.kind !== 'same').length;
+  const scrollTo = (diff: BlockDiff) => {
+    for (const [frame, line] of [[beforeFrame, diff.oldLine], [afterFrame, diff.newLine]] as const) {
+      const doc = frame.current?.contentDocument;
+      if (doc && line !== null) findBlockElement(line, doc)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  };
+
+  return (
+    <div
+      className="liquid-glass-overlay animate-cream-rise"
+      style={{
+        position: 'fixed',
+        top: 52,
+        left: 14,
+        right: 14,
+        bottom: 14,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        zIndex: 9001,
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setCompare(null);
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: 10, padding: '12px 14px 8px' }}>
+        <span style={{ fontSize: 13, fontWeight: 700, color: 'var(--ed-text)', lineHeight: '26px' }}>Compare</span>
+        <SidePicker side={compare.before} onChange={(side) => setCompare({ ...compare, before: side })} />
+        <span style={{ color: 'var(--ed-text-muted)', lineHeight: '26px' }}>→</span>
+        <SidePicker side={compare.after} onChange={(side) => setCompare({ ...compare, after: side })} />
+        <span style={{ flex: 1, fontSize: 11, color: 'var(--ed-text-muted)', lineHeight: '26px' }}>
+          {before === null || after === null
+            ? 'That version is no longer available.'
+            : changed === 0 ? 'No differences' : `${changed} ${changed === 1 ? 'block differs' : 'blocks differ'}`}
+        </span>
+        <button
+          onClick={() => setCompare(null)}
+          title="Close"
+          style={{ border: 'none', background: 'none', color: 'var(--ed-text-muted)', cursor: 'pointer', fontSize: 13, lineHeight: '26px' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flex: 1, minHeight: 0, borderTop: '1px solid var(--ed-border)' }}>
+        <div style={{ width: '36%', overflowY: 'auto', borderRight: '1px solid var(--ed-border)' }}>
+          {diffs.map((diff) => (
+            <BlockDiffRow key={`${diff.kind}:${diff.oldLine}:${diff.newLine}`} diff={diff} onSelect={() => scrollTo(diff)} />
+          ))}
+        </div>
+        <ComparePane title="Before" html={beforeHtml} marks={beforeMarks} frameRef={beforeFrame} />
+        <ComparePane title="After" html={afterHtml} marks={afterMarks} frameRef={afterFrame} />
+      </div>
+    </div>
+  );
+}
+
+function SidePicker({ side, onChange }: { side: CompareSource; onChange: (side: CompareSource) => void }) {
+  const snapshots = useEditorState((s) => s.snapshots);
+  const undoTree = useEditorState((s) => s.undoTree);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4, width: 220 }}>
+      <select
+        className="liquid-glass-input"
+        value={sideValue(side)}
+        onChange={(e) => {
+          const [kind, id] = e.target.value.split(/:(.*)/);
+          if (kind === 'current') onChange({ kind: 'current' });
+          else if (kind === 'text') onChange({ kind: 'text', text: '' });
+          else if (kind === 'snapshot') onChange({ kind: 'snapshot', id });
+          else onChange({ kind: 'undo', id: Number(id) });
+        }}
+        style={{ fontSize: 12, padding: '3px 6px' }}
+      >
+        <option value="current">Current document</option>
+        {snapshots.length > 0 && (
+          <optgroup label="Saved versions">
+            {snapshots.map((s) => <option key={s.id} value={`snapshot:${s.id}`}>{s.name}</option>)}
+          </optgroup>
+        )}
+        {undoTree.length > 1 && (
+          <optgroup label="Undo steps">
+            {undoTree.map((node) => (
+              <option key={node.id} value={`undo:${node.id}`}>
+                {node.parent === null ? 'Start' : formatTime(node.ts)}{node.label ? ` · ${node.label}` : ''}{node.current ? ' (current)' : ''}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        <option value="text">Pasted text…</option>
+      </select>
+      {side.kind === 'text' && (
+        <textarea
+          className="liquid-glass-input"
+          placeholder="Paste mkly source…"
+          value={side.text}
+          onChange={(e) => onChange({ kind: 'text', text: e.target.value })}
+          rows={4}
+          style={{ fontSize: 11, fontFamily: "'JetBrains Mono', monospace", resize: 'vertical' }}
+        />
+      )}
+    </div>
+  );
+}
+
+function BlockDiffRow({ diff, onSelect }: { diff: BlockDiff; onSelect: () => void }) {
+  const [expanded, setExpanded] = useState(diff.kind !== 'same');
+
+  return (
+    <div style={{ borderBottom: '1px solid var(--ed-border)', borderLeft: `3px solid ${KIND_COLORS[diff.kind]}` }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '4px 10px', fontSize: 11 }}>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          style={{ border: 'none', background: 'none', padding: 0, width: 12, color: 'var(--ed-text-muted)', cursor: 'pointer', fontSize: 10 }}
+        >
+          {expanded ? '▾' : '▸'}
+        </button>
+        <button
+          onClick={onSelect}
+          title="Show in both previews"
+          style={{
+            flex: 1,
+            minWidth: 0,
+            border: 'none',
+            background: 'none',
+            padding: 0,
+            textAlign: 'left',
+            fontFamily: "'JetBrains Mono', monospace",
+            fontSize: 11,
+            color: diff.kind === 'same' ? 'var(--ed-text-muted)' : 'var(--ed-text)',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+            cursor: 'pointer',
+          }}
+        >
+          {blockTitle(diff)}
+        </button>
+        {diff.kind !== 'same' && (
+          <span style={{ fontSize: 10, fontWeight: 600, color: KIND_COLORS[diff.kind] }}>{diff.kind}</span>
+        )}
+      </div>
+      {expanded && (
+        <div style={{ padding: '0 10px 8px' }}>
+          <LineDiffView lines={diff.lines} context={2} maxHeight={200} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ComparePane({ title, html, marks, frameRef }: {
+  title: string;
+  html: string;
+  marks: Map<number, BlockDiffKind>;
+  frameRef: React.RefObject<HTMLIFrameElement>;
+}) {
+  const mark = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc?.head) return;
+    if (!doc.getElementById('mkly-diff-marks')) {
+      const style = doc.createElement('style');
+      style.id = 'mkly-diff-marks';
+      style.textContent = DIFF_MARK_CSS;
+      doc.head.appendChild(style);
+    }
+    markDiffBlocks(doc, marks);
+  };
+  const markRef = useRef(mark);
+  markRef.current = mark;
+
+  // srcDoc reloads when the html changes; marks can change on their own
+  useEffect(() => markRef.current(), [marks]);
+
+  return (
+    <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', borderRight: '1px solid var(--ed-border)' }}>
+      <div style={{ padding: '4px 10px', fontSize: 11, fontWeight: 600, color: 'var(--ed-text-muted)', borderBottom: '1px solid var(--ed-border)' }}>
+        {title}
+      </div>
+      <iframe
+        ref={frameRef}
+        title={`${title} preview`}
+        srcDoc={html}
+        sandbox="allow-same-origin"
+        onLoad={() => markRef.current()}
+        style={{ flex: 1, border: 'none', background: 'var(--ed-surface, #fff)' }}
+      />
+    </div>
+  );
+}
@@ -62,6 +62,9 @@ export const IconSearch = (p: MklyIconProps) => <I {...p}><circle cx="7" cy="7"
 export const IconWordWrap = (p: MklyIconProps) => <I {...p}><line x1="2" y1="4" x2="14" y2="4"/><path d="M2 8h10a2 2 0 0 1 0 4H10"/><polyline points="11,14 10,12 11,10"/><line x1="2" y1="12" x2="6" y2="12"/></I>;
 export const IconUndo = (p: MklyIconProps) => <I {...p}><path d="M4 7h6a3 3 0 0 1 0 6H9"/><polyline points="6,5 4,7 6,9"/></I>;
 export const IconRedo = (p: MklyIconProps) => <I {...p}><path d="M12 7H6a3 3 0 0 0 0 6h1"/><polyline points="10,5 12,7 10,9"/></I>;
+export const IconHistory = (p: MklyIconProps) => <I {...p}><path d="M2.5 8a5.5 5.5 0 1 0 1.6-3.9"/><polyline points="2,2.5 2.5,4.5 4.5,4"/><polyline points="8,5 8,8 10,9.5"/></I>;
+export const IconSuggest = (p: MklyIconProps) => <I {...p}><path d="M10.5 2.5l3 3L6 13H3v-3z"/><line x1="9" y1="14" x2="14" y2="14"/></I>;
+export const IconEye = (p: MklyIconProps) => <I {...p}><path d="M1.5 8s2.5-4.5 6.5-4.5S14.5 8 14.5 8 12 12.5 8 12.5 1.5 8 1.5 8z"/><circle cx="8" cy="8" r="2"/></I>;
 
 // ---------------------------------------------------------------------------
 // Registry
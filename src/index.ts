@@ -3,13 +3,35 @@ import './theme/index.css';
 
 // Core components
 export { EditorShell } from './layout/EditorShell';
+export type { EditorShellHandle } from './layout/EditorShell';
+export type { EditorChangeDetails } from './store/use-controlled-source';
 
 // Store
-export { useEditorStore, registerUndoHandlers } from './store/editor-store';
-export type { FocusOrigin, FocusIntent, SelectionState } from './store/editor-store';
+export { useEditorStore, createEditorStore, registerUndoHandlers } from './store/editor-store';
+export type { EditorState, EditorStore, FocusOrigin, FocusIntent, SelectionState, StorageStatus } from './store/editor-store';
+export { EditorStoreProvider, useEditorState, useEditorStoreApi } from './store/editor-store-context';
+export { DEFAULT_KITS } from './store/kit-config';
+export type { KitConfig, KitMap } from './store/kit-config';
+export {
+  createLocalStorageAdapter,
+  createIndexedDbAdapter,
+  createHttpStorageAdapter,
+  StorageConflictError,
+} from './store/storage-adapter';
+export type {
+  StorageAdapter,
+  StorageSlot,
+  StoredEntry,
+  LocalStorageAdapterOptions,
+  IndexedDbAdapterOptions,
+  HttpStorageAdapterOptions,
+} from './store/storage-adapter';
 
 // Hooks
 export { useCompile } from './store/use-compile';
+export type { UseCompileOptions } from './store/use-compile';
+export { serveCompileRequests } from './store/compile-worker';
+export type { CompileWorkerFactory } from './store/compile-service';
 export { useTheme } from './theme/use-theme';
 export { useCursorContext } from './store/use-cursor-context';
 export { useUndoInit } from './store/use-undo';
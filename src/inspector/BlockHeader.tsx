@@ -1,6 +1,18 @@
 import { getBlockIcon, getBlockIconColor } from '../icons';
 import { KitBadge } from '../ui/kit-badge';
 import { getBlockDisplayName, type CompletionData } from '@mklyml/core';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { containerBlockTypes } from '../store/kit-config';
+import {
+  applyBlockEdit,
+  canUnwrap,
+  duplicateBlock,
+  isOutlineBlock,
+  moveBlockSibling,
+  unwrapBlock,
+  wrapBlocks,
+  type BlockEdit,
+} from '../editor/block-commands';
 
 interface BlockHeaderProps {
   type: string;
@@ -15,6 +27,14 @@ export function BlockHeader({ type, startLine, endLine, kitName, completionData
   const displayName = getBlockDisplayName(type, docs);
   const Icon = getBlockIcon(type, completionData);
   const iconColor = getBlockIconColor(type, completionData);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const kits = useEditorState((s) => s.kits);
+  const containers = containerBlockTypes(kits);
+  // startLine is the first line after the header
+  const headerLine = startLine - 1;
+  const run = (edit: (source: string) => BlockEdit | null) =>
+    applyBlockEdit(editorStore, edit(editorStore.getState().source), 'inspector');
 
   return (
     <div style={{
@@ -61,6 +81,62 @@ export function BlockHeader({ type, startLine, endLine, kitName, completionData
           L{startLine}–{endLine}
         </div>
       </div>
+      {isOutlineBlock(source, headerLine) && (
+        <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 2 }}>
+          <ActionButton title="Duplicate block" onClick={() => run((src) => duplicateBlock(src, headerLine))}>⧉</ActionButton>
+          <ActionButton title="Move up" onClick={() => run((src) => moveBlockSibling(src, headerLine, -1))}>↑</ActionButton>
+          <ActionButton title="Move down" onClick={() => run((src) => moveBlockSibling(src, headerLine, 1))}>↓</ActionButton>
+          {containers.length > 0 && (
+            <select
+              title="Wrap in a container"
+              value=""
+              onChange={(e) => {
+                const containerType = e.target.value;
+                if (containerType) run((src) => wrapBlocks(src, headerLine, headerLine, containerType));
+              }}
+              style={{
+                width: 22,
+                height: 22,
+                padding: 0,
+                border: 'none',
+                borderRadius: 4,
+                background: 'transparent',
+                color: 'var(--ed-text-muted)',
+                fontSize: 11,
+                cursor: 'pointer',
+              }}
+            >
+              <option value="">⊏ Wrap in…</option>
+              {containers.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+          )}
+          {canUnwrap(source, headerLine) && (
+            <ActionButton title="Unwrap container" onClick={() => run((src) => unwrapBlock(src, headerLine))}>⊐</ActionButton>
+          )}
+        </div>
+      )}
     </div>
   );
 }
+
+function ActionButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      style={{
+        width: 22,
+        height: 22,
+        padding: 0,
+        border: 'none',
+        borderRadius: 4,
+        background: 'transparent',
+        color: 'var(--ed-text-muted)',
+        fontSize: 12,
+        cursor: 'pointer',
+      }}
+    >
+      {children}
+    </button>
+  );
+}
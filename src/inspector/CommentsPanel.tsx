@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import {
+  addCommentThread,
+  deleteCommentThread,
+  replyToCommentThread,
+  setCommentThreadResolved,
+} from '../store/use-comment-threads';
+import type { CommentThread } from '../store/comment-threads';
+
+const smallButton = {
+  padding: '2px 8px',
+  fontSize: 11,
+  fontWeight: 600,
+  borderRadius: 6,
+  border: '1px solid var(--ed-border)',
+  background: 'var(--ed-surface)',
+  color: 'var(--ed-text)',
+  cursor: 'pointer',
+} as const;
+
+const sectionTitle = {
+  padding: '10px 14px 4px',
+  fontSize: 10,
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+  color: 'var(--ed-text-muted)',
+} as const;
+
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+/** Comment threads: the active block's first, then the rest of the document. */
+export function CommentsPanel() {
+  const editorStore = useEditorStoreApi();
+  const threads = useEditorState((s) => s.commentThreads);
+  const activeBlockLine = useEditorState((s) => s.activeBlockLine);
+  const [draft, setDraft] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+
+  const visible = threads.filter((t) => showResolved || !t.resolved);
+  const here = visible.filter((t) => !t.detached && t.line === activeBlockLine);
+  const elsewhere = visible.filter((t) => !here.includes(t));
+  const resolvedCount = threads.filter((t) => t.resolved).length;
+
+  const start = () => {
+    if (activeBlockLine === null) return;
+    if (addCommentThread(editorStore, activeBlockLine, draft)) setDraft('');
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', overflow: 'auto', height: '100%' }}>
+      <div style={{ padding: '10px 14px', borderBottom: '1px solid var(--ed-border)' }}>
+        {activeBlockLine === null ? (
+          <div style={{ fontSize: 12, color: 'var(--ed-text-muted)' }}>
+            Place the cursor in a content block to comment on it.
+          </div>
+        ) : (
+          <>
+            <textarea
+              className="liquid-glass-input"
+              placeholder={`Comment on the block at line ${activeBlockLine}…`}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) start();
+              }}
+              rows={2}
+              style={{ width: '100%', resize: 'vertical', fontSize: 12 }}
+            />
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 6 }}>
+              <button style={smallButton} onClick={start} disabled={!draft.trim()}>
+                Comment
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {here.length > 0 && <div style={sectionTitle}>This block</div>}
+      {here.map((thread) => <ThreadView key={thread.id} thread={thread} />)}
+      {elsewhere.length > 0 && <div style={sectionTitle}>{here.length > 0 ? 'Other blocks' : 'All threads'}</div>}
+      {elsewhere.map((thread) => <ThreadView key={thread.id} thread={thread} />)}
+      {visible.length === 0 && (
+        <div style={{ padding: '16px 14px', fontSize: 12, color: 'var(--ed-text-muted)' }}>
+          No open comments.
+        </div>
+      )}
+      {resolvedCount > 0 && (
+        <button
+          onClick={() => setShowResolved(!showResolved)}
+          style={{ border: 'none', background: 'none', padding: '8px 14px', textAlign: 'left', fontSize: 11, color: 'var(--ed-accent)', cursor: 'pointer' }}
+        >
+          {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ThreadView({ thread }: { thread: CommentThread }) {
+  const editorStore = useEditorStoreApi();
+  const [reply, setReply] = useState('');
+
+  const send = () => {
+    replyToCommentThread(editorStore, thread.id, reply);
+    setReply('');
+  };
+
+  return (
+    <div style={{
+      padding: '8px 14px',
+      borderBottom: '1px solid var(--ed-border)',
+      opacity: thread.resolved ? 0.6 : 1,
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+        <button
+          onClick={() => editorStore.getState().focusBlock(thread.line, 'inspector')}
+          title={thread.detached ? 'The block was deleted' : 'Go to the block'}
+          style={{
+            flex: 1,
+            border: 'none',
+            background: 'none',
+            padding: 0,
+            textAlign: 'left',
+            fontSize: 10,
+            fontFamily: "'JetBrains Mono', monospace",
+            color: thread.detached ? 'var(--ed-warning-text)' : 'var(--ed-text-muted)',
+            cursor: 'pointer',
+          }}
+        >
+          {thread.blockType} · L{thread.line}{thread.detached ? ' · block removed' : ''}
+        </button>
+        <button
+          style={smallButton}
+          onClick={() => setCommentThreadResolved(editorStore, thread.id, !thread.resolved)}
+        >
+          {thread.resolved ? 'Reopen' : 'Resolve'}
+        </button>
+        <button
+          style={{ ...smallButton, color: 'var(--ed-error-text)' }}
+          onClick={() => deleteCommentThread(editorStore, thread.id)}
+          title="Delete this thread"
+        >
+          ✕
+        </button>
+      </div>
+      {thread.comments.map((comment) => (
+        <div key={comment.id} style={{ marginBottom: 6 }}>
+          <div style={{ fontSize: 10, color: 'var(--ed-text-muted)' }}>
+            <span style={{ fontWeight: 700, color: 'var(--ed-text)' }}>{comment.author}</span>{' '}
+            {formatTimestamp(comment.createdAt)}
+          </div>
+          <div style={{ fontSize: 12, color: 'var(--ed-text)', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {comment.body}
+          </div>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: 6 }}>
+        <input
+          className="liquid-glass-input"
+          placeholder={thread.resolved ? 'Reply to reopen…' : 'Reply…'}
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') send();
+          }}
+          style={{ flex: 1, minWidth: 0, fontSize: 12, padding: '2px 6px' }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { getBlockDisplayName, type CompletionData } from '@mklyml/core';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { containerBlockTypes } from '../store/kit-config';
+import { conversionTargets, convertBlock, type BlockConversion } from './convert-block';
+
+interface ConvertBlockProps {
+  type: string;
+  /** First line after the block's header, as in CursorBlock. */
+  startLine: number;
+  completionData: CompletionData;
+}
+
+function conversionNote(result: BlockConversion): string | null {
+  const parts: string[] = [];
+  if (result.renamed.length > 0) parts.push(`Renamed ${result.renamed.map((r) => `${r.from} → ${r.to}`).join(', ')}.`);
+  if (result.dropped.length > 0) parts.push(`Dropped ${result.dropped.join(', ')}.`);
+  if (result.droppedStyles.length > 0) parts.push(`Styles for ${result.droppedStyles.join(', ')} stay with the old type.`);
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+/** "Convert to…" picker for the selected block, with a note of what didn't carry over. */
+export function ConvertBlock({ type, startLine, completionData }: ConvertBlockProps) {
+  const editorStore = useEditorStoreApi();
+  const kits = useEditorState((s) => s.kits);
+  const [note, setNote] = useState<{ type: string; text: string } | null>(null);
+  const targets = conversionTargets(type, completionData, containerBlockTypes(kits));
+
+  const convert = (newType: string) => {
+    const { source, undoTransaction, setSource, focusBlock } = editorStore.getState();
+    const result = convertBlock(source, startLine - 1, newType, completionData);
+    if (!result) return;
+    undoTransaction(`Convert ${type} to ${newType}`, () => setSource(result.source));
+    focusBlock(result.line, 'inspector');
+    const text = conversionNote(result);
+    setNote(text ? { type: newType, text } : null);
+  };
+
+  if (targets.length === 0) return null;
+
+  return (
+    <div style={{ padding: '8px 14px', borderBottom: '1px solid var(--ed-border)' }}>
+      <select
+        className="liquid-glass-input"
+        value=""
+        onChange={(e) => {
+          if (e.target.value) convert(e.target.value);
+        }}
+        style={{ width: '100%', fontSize: 12, padding: '3px 6px' }}
+      >
+        <option value="">Convert to…</option>
+        {targets.map((t) => (
+          <option key={t} value={t}>{getBlockDisplayName(t, completionData.docs.get(t))} ({t})</option>
+        ))}
+      </select>
+      {note && note.type === type && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'flex-start',
+          gap: 6,
+          marginTop: 6,
+          fontSize: 11,
+          color: 'var(--ed-text-muted)',
+          fontFamily: "'Plus Jakarta Sans', sans-serif",
+        }}>
+          <span style={{ flex: 1 }}>{note.text}</span>
+          <button
+            onClick={() => setNote(null)}
+            title="Dismiss"
+            style={{ border: 'none', background: 'none', padding: 0, color: 'var(--ed-text-muted)', cursor: 'pointer', fontSize: 11 }}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
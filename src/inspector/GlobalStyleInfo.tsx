@@ -3,7 +3,7 @@ import { GOOGLE_FONTS } from '@mklyml/core';
 import { ColorPicker } from './style-controls/ColorPicker';
 import { stepNumericValue } from './style-controls/numeric-step';
 import { PresetSelect, StyleRow, inputStyle } from './StyleEditor';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { adjustLineForStylePatch, applyStyleVariableChange, getStyleVariableValue } from '../store/block-properties';
 import { resolveBlockLine } from '../store/selection-orchestrator';
 
@@ -92,8 +92,9 @@ function DraftInput({
 }
 
 export function GlobalStyleInfo() {
-  const source = useEditorStore((s) => s.source);
-  const styleGraph = useEditorStore((s) => s.styleGraph);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const styleGraph = useEditorState((s) => s.styleGraph);
 
   const fontOptions = useMemo(() => [
     { label: 'Default', value: '' },
@@ -108,7 +109,7 @@ export function GlobalStyleInfo() {
   ], []);
 
   const commitVariable = useCallback((name: string, value: string) => {
-    const state = useEditorStore.getState();
+    const state = editorStore.getState();
     const currentValue = getStyleVariableValue(state.styleGraph, name) ?? '';
     if (currentValue === value.trim()) return;
 
@@ -120,7 +121,7 @@ export function GlobalStyleInfo() {
     );
     const adjustedCursor = adjustLineForStylePatch(state.cursorLine, lineDelta, lineShiftFrom);
 
-    useEditorStore.setState((prev) => {
+    editorStore.getState().undoTransaction(`Set global ${name}`, () => editorStore.setState((prev) => {
       const { blockLine, blockType } = resolveBlockLine(adjustedCursor, newSource);
       return {
         source: newSource,
@@ -137,7 +138,7 @@ export function GlobalStyleInfo() {
         focusVersion: prev.focusVersion + 1,
         focusIntent: 'edit-property' as const,
       };
-    });
+    }));
   }, []);
 
   const getValue = useCallback((key: string): string => {
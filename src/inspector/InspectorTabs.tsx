@@ -0,0 +1,37 @@
+import { useEditorState } from '../store/editor-store-context';
+import type { InspectorTab } from '../store/editor-store';
+
+const TABS: Array<{ id: InspectorTab; label: string }> = [
+  { id: 'block', label: 'Inspector' },
+  { id: 'comments', label: 'Comments' },
+];
+
+export function InspectorTabs() {
+  const tab = useEditorState((s) => s.inspectorTab);
+  const setTab = useEditorState((s) => s.setInspectorTab);
+  const openCount = useEditorState((s) => s.commentThreads.filter((t) => !t.resolved).length);
+
+  return (
+    <div style={{ display: 'flex', gap: 2, padding: '6px 10px 0', borderBottom: '1px solid var(--ed-border)', flexShrink: 0 }}>
+      {TABS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => setTab(id)}
+          style={{
+            padding: '4px 10px',
+            fontSize: 11,
+            fontWeight: 600,
+            border: 'none',
+            borderBottom: `2px solid ${tab === id ? 'var(--ed-accent)' : 'transparent'}`,
+            background: 'none',
+            color: tab === id ? 'var(--ed-text)' : 'var(--ed-text-muted)',
+            cursor: 'pointer',
+          }}
+        >
+          {label}
+          {id === 'comments' && openCount > 0 && ` ${openCount}`}
+        </button>
+      ))}
+    </div>
+  );
+}
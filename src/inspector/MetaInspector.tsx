@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import type { CompletionData } from '@mklyml/core';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 
 interface MetaInspectorProps {
   properties: Record<string, string>;
@@ -10,10 +10,11 @@ interface MetaInspectorProps {
 }
 
 export function MetaInspector({ properties, startLine, endLine, completionData }: MetaInspectorProps) {
-  const setSource = useEditorStore((s) => s.setSource);
+  const editorStore = useEditorStoreApi();
+  const setSource = useEditorState((s) => s.setSource);
 
   const handlePropertyChange = useCallback((key: string, value: string) => {
-    const currentSource = useEditorStore.getState().source;
+    const currentSource = editorStore.getState().source;
     const lines = currentSource.split('\n');
     let found = false;
 
@@ -35,8 +36,9 @@ export function MetaInspector({ properties, startLine, endLine, completionData }
       lines.splice(insertAt, 0, `${key}: ${value}`);
     }
 
-    setSource(lines.join('\n'));
-  }, [startLine, endLine, setSource]);
+    const action = value === '' ? 'Clear' : 'Set';
+    editorStore.getState().undoTransaction(`${action} meta ${key}`, () => setSource(lines.join('\n')));
+  }, [startLine, endLine, setSource, editorStore]);
 
   return (
     <div style={{
@@ -1,6 +1,7 @@
 import { useCallback, useMemo, useState } from 'react';
 import type { CompletionData } from '@mklyml/core';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { formatStyleBlock } from '../store/format-source';
 
 /** Parse the gapScale value from a `--- style` block in mkly source. */
 function parseGapScale(source: string): number {
@@ -29,48 +30,6 @@ function parseGapScale(source: string): number {
 
 /** Update or insert gapScale in the source's `--- style` block. */
 function writeGapScale(source: string, value: number): string {
-  const normalizeStyleSpacing = (rawLines: string[]): string[] => {
-    const lines = [...rawLines];
-    let styleStart = -1;
-
-    for (let i = 0; i < lines.length; i++) {
-      if (/^---\s+style\b/.test(lines[i])) {
-        styleStart = i;
-        break;
-      }
-    }
-    if (styleStart === -1) return lines;
-
-    // Ensure exactly one blank line before --- style (unless it's at top of file).
-    while (styleStart > 0 && lines[styleStart - 1].trim() === '') {
-      lines.splice(styleStart - 1, 1);
-      styleStart--;
-    }
-    if (styleStart > 0 && lines[styleStart - 1].trim() !== '') {
-      lines.splice(styleStart, 0, '');
-      styleStart++;
-    }
-
-    // Ensure exactly one blank line between style block and the next directive.
-    let nextDirective = lines.length;
-    for (let i = styleStart + 1; i < lines.length; i++) {
-      if (/^---\s/.test(lines[i])) {
-        nextDirective = i;
-        break;
-      }
-    }
-
-    while (nextDirective > styleStart + 1 && lines[nextDirective - 1].trim() === '') {
-      lines.splice(nextDirective - 1, 1);
-      nextDirective--;
-    }
-    if (nextDirective < lines.length && lines[nextDirective - 1].trim() !== '') {
-      lines.splice(nextDirective, 0, '');
-    }
-
-    return lines;
-  };
-
   const lines = source.split('\n');
   const isDefault = Math.abs(value - 1) < 0.001;
 
@@ -103,13 +62,13 @@ function writeGapScale(source: string, value: number): string {
       const existingIndent = lines[gapScaleLine].match(/^(\s*)/)?.[1] ?? '';
       lines[gapScaleLine] = `${existingIndent}gapScale: ${value}`;
     }
-    return normalizeStyleSpacing(lines).join('\n');
+    return formatStyleBlock(lines.join('\n'));
   }
 
   // Case 2: style block exists but no gapScale — insert right after `--- style`
   if (styleBlockStart !== -1 && !isDefault) {
     lines.splice(styleBlockStart + 1, 0, `gapScale: ${value}`);
-    return normalizeStyleSpacing(lines).join('\n');
+    return formatStyleBlock(lines.join('\n'));
   }
 
   // Case 3: no style block — create one (after meta in canonical order)
@@ -128,7 +87,7 @@ function writeGapScale(source: string, value: number): string {
       }
     }
     lines.splice(insertIdx, 0, `--- style`, `gapScale: ${value}`, '');
-    return normalizeStyleSpacing(lines).join('\n');
+    return formatStyleBlock(lines.join('\n'));
   }
 
   // Default value and no existing line — nothing to do
@@ -161,46 +120,6 @@ function parseLineHeightScale(source: string): number {
 
 /** Update or insert lineHeightScale in the source's `--- style` block. */
 function writeLineHeightScale(source: string, value: number): string {
-  const normalizeStyleSpacing = (rawLines: string[]): string[] => {
-    const lines = [...rawLines];
-    let styleStart = -1;
-
-    for (let i = 0; i < lines.length; i++) {
-      if (/^---\s+style\b/.test(lines[i])) {
-        styleStart = i;
-        break;
-      }
-    }
-    if (styleStart === -1) return lines;
-
-    while (styleStart > 0 && lines[styleStart - 1].trim() === '') {
-      lines.splice(styleStart - 1, 1);
-      styleStart--;
-    }
-    if (styleStart > 0 && lines[styleStart - 1].trim() !== '') {
-      lines.splice(styleStart, 0, '');
-      styleStart++;
-    }
-
-    let nextDirective = lines.length;
-    for (let i = styleStart + 1; i < lines.length; i++) {
-      if (/^---\s/.test(lines[i])) {
-        nextDirective = i;
-        break;
-      }
-    }
-
-    while (nextDirective > styleStart + 1 && lines[nextDirective - 1].trim() === '') {
-      lines.splice(nextDirective - 1, 1);
-      nextDirective--;
-    }
-    if (nextDirective < lines.length && lines[nextDirective - 1].trim() !== '') {
-      lines.splice(nextDirective, 0, '');
-    }
-
-    return lines;
-  };
-
   const lines = source.split('\n');
   const isDefault = Math.abs(value - 1) < 0.001;
 
@@ -227,12 +146,12 @@ function writeLineHeightScale(source: string, value: number): string {
       const existingIndent = lines[lineHeightScaleLine].match(/^(\s*)/)?.[1] ?? '';
       lines[lineHeightScaleLine] = `${existingIndent}lineHeightScale: ${value}`;
     }
-    return normalizeStyleSpacing(lines).join('\n');
+    return formatStyleBlock(lines.join('\n'));
   }
 
   if (styleBlockStart !== -1 && !isDefault) {
     lines.splice(styleBlockStart + 1, 0, `lineHeightScale: ${value}`);
-    return normalizeStyleSpacing(lines).join('\n');
+    return formatStyleBlock(lines.join('\n'));
   }
 
   if (styleBlockStart === -1 && !isDefault) {
@@ -249,7 +168,7 @@ function writeLineHeightScale(source: string, value: number): string {
       }
     }
     lines.splice(insertIdx, 0, `--- style`, `lineHeightScale: ${value}`, '');
-    return normalizeStyleSpacing(lines).join('\n');
+    return formatStyleBlock(lines.join('\n'));
   }
 
   return source;
@@ -261,8 +180,9 @@ interface PresetInfoProps {
 }
 
 export function PresetInfo({ activePresets, completionData }: PresetInfoProps) {
-  const source = useEditorStore((s) => s.source);
-  const setSource = useEditorStore((s) => s.setSource);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const setSource = useEditorState((s) => s.setSource);
   const availablePresets = completionData.presets;
   const [showGapHelp, setShowGapHelp] = useState(false);
   const [showLhHelp, setShowLhHelp] = useState(false);
@@ -289,27 +209,27 @@ export function PresetInfo({ activePresets, completionData }: PresetInfoProps) {
   const hasActivePreset = activePresets.length > 0 || implicitPresets.length > 0;
 
   const handleGapScaleChange = useCallback((value: number) => {
-    const src = useEditorStore.getState().source;
-    setSource(writeGapScale(src, value));
-  }, [setSource]);
+    const src = editorStore.getState().source;
+    editorStore.getState().undoTransaction('Set gap scale', () => setSource(writeGapScale(src, value)));
+  }, [setSource, editorStore]);
 
   const handleGapScaleReset = useCallback(() => {
-    const src = useEditorStore.getState().source;
-    setSource(writeGapScale(src, 1));
-  }, [setSource]);
+    const src = editorStore.getState().source;
+    editorStore.getState().undoTransaction('Reset gap scale', () => setSource(writeGapScale(src, 1)));
+  }, [setSource, editorStore]);
 
   const handleLineHeightScaleChange = useCallback((value: number) => {
-    const src = useEditorStore.getState().source;
-    setSource(writeLineHeightScale(src, value));
-  }, [setSource]);
+    const src = editorStore.getState().source;
+    editorStore.getState().undoTransaction('Set line height scale', () => setSource(writeLineHeightScale(src, value)));
+  }, [setSource, editorStore]);
 
   const handleLineHeightScaleReset = useCallback(() => {
-    const src = useEditorStore.getState().source;
-    setSource(writeLineHeightScale(src, 1));
-  }, [setSource]);
+    const src = editorStore.getState().source;
+    editorStore.getState().undoTransaction('Reset line height scale', () => setSource(writeLineHeightScale(src, 1)));
+  }, [setSource, editorStore]);
 
-  const updatePresets = useCallback((newPresets: string[]) => {
-    const src = useEditorStore.getState().source;
+  const updatePresets = useCallback((newPresets: string[], label: string) => {
+    const src = editorStore.getState().source;
     const lines = src.split('\n');
 
     const filtered = lines.filter((l) => !l.match(/^---\s+preset:\s/));
@@ -324,22 +244,22 @@ export function PresetInfo({ activePresets, completionData }: PresetInfoProps) {
     const presetLines = newPresets.map((p) => `--- preset: ${p}`);
     filtered.splice(insertIdx, 0, ...presetLines);
 
-    setSource(filtered.join('\n'));
-  }, [setSource]);
+    editorStore.getState().undoTransaction(label, () => setSource(filtered.join('\n')));
+  }, [setSource, editorStore]);
 
   const handleAdd = useCallback(() => {
     const next = availablePresets.find((p) => !activePresets.includes(p.label));
     if (next) {
-      updatePresets([...activePresets, next.label]);
+      updatePresets([...activePresets, next.label], `Add preset ${next.label}`);
     }
   }, [activePresets, availablePresets, updatePresets]);
 
   const handleRemove = useCallback((name: string) => {
-    updatePresets(activePresets.filter((p) => p !== name));
+    updatePresets(activePresets.filter((p) => p !== name), `Remove preset ${name}`);
   }, [activePresets, updatePresets]);
 
   const handleChange = useCallback((oldName: string, newName: string) => {
-    updatePresets(activePresets.map((p) => (p === oldName ? newName : p)));
+    updatePresets(activePresets.map((p) => (p === oldName ? newName : p)), `Switch preset to ${newName}`);
   }, [activePresets, updatePresets]);
 
   const stepPresetName = useCallback((currentName: string, direction: 1 | -1): string | null => {
@@ -351,7 +271,7 @@ export function PresetInfo({ activePresets, completionData }: PresetInfoProps) {
   }, [availablePresets]);
 
   const handleMakeExplicit = useCallback((presetName: string) => {
-    updatePresets([presetName]);
+    updatePresets([presetName], `Set preset ${presetName}`);
   }, [updatePresets]);
 
   if (availablePresets.length === 0) return null;
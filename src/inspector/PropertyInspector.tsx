@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { BlockHeader } from './BlockHeader';
+import { ConvertBlock } from './ConvertBlock';
 import { PropertyForm } from './PropertyForm';
 import { StyleEditor } from './StyleEditor';
 import { BlockDocsPanel } from './BlockDocsPanel';
@@ -10,7 +11,7 @@ import { ThemeInfo } from './ThemeInfo';
 import { PresetInfo } from './PresetInfo';
 import { GlobalStyleInfo } from './GlobalStyleInfo';
 import { applyUnifiedStyleChange } from './apply-unified-style-change';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { useDocumentThemes } from '../store/use-document-themes';
 import { useDocumentPresets } from '../store/use-document-presets';
 import { applyPropertyChange } from '../store/block-properties';
@@ -24,25 +25,26 @@ interface PropertyInspectorProps {
 }
 
 export function PropertyInspector({ cursorBlock, completionData }: PropertyInspectorProps) {
-  const source = useEditorStore((s) => s.source);
-  const setSource = useEditorStore((s) => s.setSource);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const setSource = useEditorState((s) => s.setSource);
   const activeThemes = useDocumentThemes();
   const activePresets = useDocumentPresets();
-  const computedStyles = useEditorStore((s) => s.computedStyles);
-  const styleGraph = useEditorStore((s) => s.styleGraph);
-  const stylePickMode = useEditorStore((s) => s.stylePickMode);
-  const styleSelection = useEditorStore((s) => s.styleSelection);
-  const activeBlockLine = useEditorStore((s) => s.activeBlockLine);
-  const selectionId = useEditorStore((s) => s.selectionId);
-  const focusBlock = useEditorStore((s) => s.focusBlock);
+  const computedStyles = useEditorState((s) => s.computedStyles);
+  const styleGraph = useEditorState((s) => s.styleGraph);
+  const stylePickMode = useEditorState((s) => s.stylePickMode);
+  const styleSelection = useEditorState((s) => s.styleSelection);
+  const activeBlockLine = useEditorState((s) => s.activeBlockLine);
+  const selectionId = useEditorState((s) => s.selectionId);
+  const focusBlock = useEditorState((s) => s.focusBlock);
 
   const handlePropertyChange = useCallback((key: string, value: string) => {
     if (!cursorBlock) return;
 
-    const currentCursor = useEditorStore.getState().cursorLine;
+    const currentCursor = editorStore.getState().cursorLine;
     focusBlock(currentCursor, 'inspector', 'edit-property');
 
-    const currentSource = useEditorStore.getState().source;
+    const currentSource = editorStore.getState().source;
     const { newSource } = applyPropertyChange(
       currentSource,
       cursorBlock.startLine,
@@ -50,12 +52,13 @@ export function PropertyInspector({ cursorBlock, completionData }: PropertyInspe
       key,
       value,
     );
-    setSource(newSource);
-  }, [cursorBlock, setSource, focusBlock]);
+    const action = value === '' ? 'Clear' : 'Set';
+    editorStore.getState().undoTransaction(`${action} ${key} of ${cursorBlock.type}`, () => setSource(newSource));
+  }, [cursorBlock, setSource, focusBlock, editorStore]);
 
   const handleStyleChange = useCallback((blockType: string, target: string, prop: string, value: string, label?: string) => {
-    applyUnifiedStyleChange({ completionData, blockType, target, prop, value, label });
-  }, [completionData]);
+    applyUnifiedStyleChange({ store: editorStore, completionData, blockType, target, prop, value, label });
+  }, [completionData, editorStore]);
 
   if (!cursorBlock) {
     return (
@@ -166,6 +169,11 @@ export function PropertyInspector({ cursorBlock, completionData }: PropertyInspe
         kitName={kitName}
         completionData={completionData}
       />
+      <ConvertBlock
+        type={cursorBlock.type}
+        startLine={cursorBlock.startLine}
+        completionData={completionData}
+      />
       <PropertyForm
         blockType={cursorBlock.type}
         properties={cursorBlock.properties}
@@ -1,12 +1,12 @@
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState } from '../store/editor-store-context';
 
 /**
  * Style pick mode toggle — prominent button with icon + label.
  * Designed to sit in the GlassToolbar between the left and right groups.
  */
 export function StylePickToggle() {
-  const stylePickMode = useEditorStore((s) => s.stylePickMode);
-  const setStylePickMode = useEditorStore((s) => s.setStylePickMode);
+  const stylePickMode = useEditorState((s) => s.stylePickMode);
+  const setStylePickMode = useEditorState((s) => s.setStylePickMode);
 
   return (
     <button
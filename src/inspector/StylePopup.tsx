@@ -2,7 +2,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { StyleEditor } from './StyleEditor';
 import { EditorErrorBoundary } from '../layout/EditorErrorBoundary';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { applyUnifiedStyleChange } from './apply-unified-style-change';
 import { getBlockDisplayName } from '@mklyml/core';
 import { getBlockIcon, getBlockIconColor } from '../icons';
@@ -27,10 +27,11 @@ function formatTagTarget(target: string): string {
 }
 
 export function StylePopup({ completionData }: StylePopupProps) {
-  const popup = useEditorStore((s) => s.stylePopup);
-  const closeStylePopup = useEditorStore((s) => s.closeStylePopup);
-  const styleGraph = useEditorStore((s) => s.styleGraph);
-  const computedStyles = useEditorStore((s) => s.computedStyles);
+  const editorStore = useEditorStoreApi();
+  const popup = useEditorState((s) => s.stylePopup);
+  const closeStylePopup = useEditorState((s) => s.closeStylePopup);
+  const styleGraph = useEditorState((s) => s.styleGraph);
+  const computedStyles = useEditorState((s) => s.computedStyles);
   const ref = useRef<HTMLDivElement>(null);
   const [pos, setPos] = useState({ left: 0, top: 0 });
 
@@ -118,8 +119,8 @@ export function StylePopup({ completionData }: StylePopupProps) {
   }, [popup, closeStylePopup]);
 
   const handleStyleChange = useCallback((blockType: string, target: string, prop: string, value: string, label?: string) => {
-    applyUnifiedStyleChange({ completionData, blockType, target, prop, value, label });
-  }, [completionData]);
+    applyUnifiedStyleChange({ store: editorStore, completionData, blockType, target, prop, value, label });
+  }, [completionData, editorStore]);
 
   if (!popup) return null;
 
@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import type { CompletionData } from '@mklyml/core';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 
 interface ThemeInfoProps {
   activeThemes: string[];
@@ -8,11 +8,12 @@ interface ThemeInfoProps {
 }
 
 export function ThemeInfo({ activeThemes, completionData }: ThemeInfoProps) {
-  const setSource = useEditorStore((s) => s.setSource);
+  const editorStore = useEditorStoreApi();
+  const setSource = useEditorState((s) => s.setSource);
   const availableThemes = completionData.themes;
 
-  const updateThemes = useCallback((newThemes: string[]) => {
-    const source = useEditorStore.getState().source;
+  const updateThemes = useCallback((newThemes: string[], label: string) => {
+    const source = editorStore.getState().source;
     const lines = source.split('\n');
 
     // Remove all existing --- theme: lines
@@ -30,23 +31,23 @@ export function ThemeInfo({ activeThemes, completionData }: ThemeInfoProps) {
     const themeLines = newThemes.map((t) => `--- theme: ${t}`);
     filtered.splice(insertIdx, 0, ...themeLines);
 
-    setSource(filtered.join('\n'));
-  }, [setSource]);
+    editorStore.getState().undoTransaction(label, () => setSource(filtered.join('\n')));
+  }, [setSource, editorStore]);
 
   const handleAdd = useCallback(() => {
     // Pick first available theme that isn't already active
     const next = availableThemes.find((t) => !activeThemes.includes(t.label));
     if (next) {
-      updateThemes([...activeThemes, next.label]);
+      updateThemes([...activeThemes, next.label], `Add theme ${next.label}`);
     }
   }, [activeThemes, availableThemes, updateThemes]);
 
   const handleRemove = useCallback((name: string) => {
-    updateThemes(activeThemes.filter((t) => t !== name));
+    updateThemes(activeThemes.filter((t) => t !== name), `Remove theme ${name}`);
   }, [activeThemes, updateThemes]);
 
   const handleChange = useCallback((oldName: string, newName: string) => {
-    updateThemes(activeThemes.map((t) => (t === oldName ? newName : t)));
+    updateThemes(activeThemes.map((t) => (t === oldName ? newName : t)), `Switch theme to ${newName}`);
   }, [activeThemes, updateThemes]);
 
   const stepThemeName = useCallback((currentName: string, direction: 1 | -1): string | null => {
@@ -1,7 +1,7 @@
 import type { CompletionData } from '@mklyml/core';
 import { adjustLineForStylePatch, applyStyleChange } from '../store/block-properties';
 import { resolveBlockLine } from '../store/selection-orchestrator';
-import { useEditorStore } from '../store/editor-store';
+import type { EditorStore } from '../store/editor-store';
 import {
   findSourceLine,
   generateStyleClass,
@@ -66,6 +66,7 @@ function findLiveStyleSelection(selectionId: string | undefined, target: string)
 }
 
 interface ApplyUnifiedStyleChangeInput {
+  store: EditorStore;
   completionData: CompletionData;
   blockType: string;
   target: string;
@@ -75,8 +76,8 @@ interface ApplyUnifiedStyleChangeInput {
 }
 
 export function applyUnifiedStyleChange(input: ApplyUnifiedStyleChangeInput): void {
-  const { completionData, blockType, target, prop, value, label } = input;
-  const currentState = useEditorStore.getState();
+  const { store, completionData, blockType, target, prop, value, label } = input;
+  const currentState = store.getState();
   let workingSource = currentState.source;
   const currentGraph = currentState.styleGraph;
   const popupData = currentState.stylePopup;
@@ -93,7 +94,7 @@ export function applyUnifiedStyleChange(input: ApplyUnifiedStyleChangeInput): vo
     const liveSelection = findLiveStyleSelection(selectionData.selectionId, selectionData.target);
     if (!liveSelection) {
       console.warn('[mkly-style] Missing style selection marker for selectionId, retargeting popup to block self.');
-      useEditorStore.setState((state) => {
+      store.setState((state) => {
         if (!state.styleSelection && !state.stylePopup) return state;
         const nextBlockLine = state.activeBlockLine
           ?? state.styleSelection?.sourceLine
@@ -198,7 +199,8 @@ export function applyUnifiedStyleChange(input: ApplyUnifiedStyleChangeInput): vo
     : undefined;
   const nextCursorLine = adjustedTargetLine ?? adjustedBlockLine;
 
-  useEditorStore.setState((state) => {
+  const targetName = workingTarget === 'self' ? blockType : `${blockType} ${workingTarget}`;
+  store.getState().undoTransaction(`Set ${prop} of ${targetName}`, () => store.setState((state) => {
     const { blockLine: nextBlockLine, blockType: nextBlockType } = resolveBlockLine(nextCursorLine, newSource);
     const selectionToKeep = nextSelection ?? state.styleSelection;
     const popupToKeep = nextPopup ?? state.stylePopup;
@@ -235,5 +237,5 @@ export function applyUnifiedStyleChange(input: ApplyUnifiedStyleChangeInput): vo
           }
         : popupToKeep,
     };
-  });
+  }));
 }
@@ -0,0 +1,188 @@
+import { Text } from '@codemirror/state';
+import { getStyleValue, mergeRule, removeRule } from '@mklyml/core';
+import type { CompletionData, CompletionItem, StyleGraph } from '@mklyml/core';
+import { findBlockRange } from '../editor/block-delete-plugin';
+import {
+  PROPERTY_RE,
+  adjustLineForStylePatch,
+  applyStyleGraph,
+  parseSourceStyleGraph,
+} from '../store/block-properties';
+
+const HEADER_RE = /^---\s+([\w]+(?:\/[\w]+)?)(?::\s*(.*))?$/;
+
+/** Property names that mean the same thing across block types; a property may move to another name in its group. */
+const PROPERTY_ALIASES = [
+  ['image', 'src', 'logo'],
+  ['url', 'href', 'link', 'ctaUrl', 'action'],
+  ['label', 'buttonText', 'ctaText'],
+  ['title', 'text', 'question'],
+];
+
+export interface BlockConversion {
+  source: string;
+  /** Header line of the converted block in the new source. */
+  line: number;
+  /** Properties that moved to a differently named property. */
+  renamed: Array<{ from: string; to: string }>;
+  /** Properties the new type has no place for. */
+  dropped: string[];
+  /**
+   * Style targets whose rules were left behind: ones the new type doesn't
+   * have, and for a block without a label every type-wide rule (the old type
+   * itself for its `self` rules).
+   */
+  droppedStyles: string[];
+}
+
+function aliasesOf(name: string): string[] {
+  return PROPERTY_ALIASES.find((group) => group.includes(name)) ?? [];
+}
+
+function fitsValue(value: string, item: CompletionItem): boolean {
+  switch (item.propType) {
+    case 'number': return value.trim() !== '' && !Number.isNaN(Number(value));
+    case 'boolean': return value === 'true' || value === 'false';
+    case 'select': return !item.options || item.options.includes(value);
+    default: return true;
+  }
+}
+
+/**
+ * Block types a block of `type` can become: any other type of the loaded
+ * kits that is a container exactly when it is.
+ */
+export function conversionTargets(type: string, completionData: CompletionData, containerTypes: string[]): string[] {
+  const container = containerTypes.includes(type);
+  return completionData.blocks
+    .map((b) => b.label)
+    .filter((t) => t !== type && containerTypes.includes(t) === container);
+}
+
+function targetExists(target: string, type: string, completionData: CompletionData): boolean {
+  const base = target.split(':')[0];
+  return base === 'self' || base.startsWith('>') || base in (completionData.targets.get(type) ?? {});
+}
+
+/**
+ * Carry the style rules of `oldType` over to `newType`. Rules for this
+ * block's label move with it; type-wide rules are copied, scoped to the
+ * label, without overriding what `newType` already sets. A block without a
+ * label leaves type-wide rules behind: copied as they are, they would restyle
+ * every other block of `newType`.
+ */
+function convertStyles(
+  graph: StyleGraph,
+  oldType: string,
+  newType: string,
+  label: string | undefined,
+  completionData: CompletionData,
+): { graph: StyleGraph; dropped: string[]; changed: boolean } {
+  let next = graph;
+  const dropped = new Set<string>();
+  let changed = false;
+  for (const rule of graph.rules) {
+    if (rule.blockType !== oldType) continue;
+    const own = !!label && rule.label === label;
+    if (rule.label && !own) continue;
+    if (!label) {
+      dropped.add(rule.target === 'self' ? oldType : rule.target);
+      continue;
+    }
+    const fits = targetExists(rule.target, newType, completionData);
+    if (!fits) dropped.add(rule.target);
+    for (const [prop, value] of Object.entries(rule.properties)) {
+      if (own) {
+        next = removeRule(next, oldType, rule.target, prop, label);
+        changed = true;
+      }
+      if (!fits || getStyleValue(next, newType, rule.target, prop, label) !== undefined) continue;
+      next = mergeRule(next, newType, rule.target, prop, value, label);
+      changed = true;
+    }
+  }
+  return { graph: next, dropped: [...dropped], changed };
+}
+
+/**
+ * Change the type of the block whose header is on `headerLine`, keeping its
+ * label and content. Properties carry over when the new type has one of the
+ * same name, or of a related name (`src` → `image`), whose type accepts the
+ * value; style rules follow as in `convertStyles`. Returns null when the line
+ * isn't a block header.
+ */
+export function convertBlock(
+  source: string,
+  headerLine: number,
+  newType: string,
+  completionData: CompletionData,
+): BlockConversion | null {
+  const lines = source.split('\n');
+  const header = lines[headerLine - 1]?.match(HEADER_RE);
+  if (!header) return null;
+  const oldType = header[1];
+  const label = header[2]?.trim() || undefined;
+  const doc = Text.of(lines);
+  const endLine = doc.lineAt(findBlockRange(doc, headerLine).to).number;
+
+  let bodyStart = headerLine;
+  const props: Array<[string, string]> = [];
+  for (; bodyStart < endLine; bodyStart++) {
+    const match = lines[bodyStart].match(PROPERTY_RE);
+    if (!match) break;
+    props.push([match[1], match[2]]);
+  }
+
+  const oldDefs = completionData.properties.get(oldType) ?? [];
+  const newDefs = completionData.properties.get(newType) ?? [];
+  const defOf = (name: string) => newDefs.find((d) => d.label === name);
+  const taken = new Set(props.filter(([key, value]) => {
+    const def = defOf(key);
+    return !!def && fitsValue(value, def);
+  }).map(([key]) => key));
+
+  const kept: string[] = [];
+  const renamed: BlockConversion['renamed'] = [];
+  const dropped: string[] = [];
+  for (const [key, value] of props) {
+    if (taken.has(key)) {
+      kept.push(`${key}: ${value}`);
+      continue;
+    }
+    const oldDef = oldDefs.find((d) => d.label === key);
+    const alias = aliasesOf(key)
+      .map(defOf)
+      .find((def) => def && !taken.has(def.label) && (!oldDef || oldDef.propType === def.propType) && fitsValue(value, def));
+    if (alias) {
+      taken.add(alias.label);
+      kept.push(`${alias.label}: ${value}`);
+      renamed.push({ from: key, to: alias.label });
+    } else {
+      dropped.push(key);
+    }
+  }
+
+  const closing = lines[endLine - 1].trim() === `--- /${oldType}`;
+  const body = lines.slice(bodyStart, closing ? endLine - 1 : endLine);
+  const converted = [
+    ...lines.slice(0, headerLine - 1),
+    label ? `--- ${newType}: ${label}` : `--- ${newType}`,
+    ...kept,
+    ...body,
+    ...(closing ? [`--- /${newType}`] : []),
+    ...lines.slice(endLine),
+  ].join('\n');
+
+  const styles = convertStyles(parseSourceStyleGraph(source), oldType, newType, label, completionData);
+  if (!styles.changed) {
+    return { source: converted, line: headerLine, renamed, dropped, droppedStyles: styles.dropped };
+  }
+  const patched = applyStyleGraph(converted, styles.graph);
+  return {
+    source: patched.newSource,
+    line: adjustLineForStylePatch(headerLine, patched.lineDelta, patched.lineShiftFrom),
+    renamed,
+    dropped,
+    droppedStyles: styles.dropped,
+  };
+}
@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { discardDraft, restoreDraft } from '../store/draft-autosave';
+import { diffLines, diffStats } from '../store/line-diff';
+import { LineDiffView } from '../ui/line-diff-view';
+
+const buttonStyle = {
+  padding: '3px 10px',
+  fontSize: 11,
+  fontWeight: 600,
+  borderRadius: 6,
+  border: '1px solid var(--ed-border)',
+  background: 'var(--ed-surface)',
+  color: 'var(--ed-text)',
+  cursor: 'pointer',
+} as const;
+
+function formatSavedAt(savedAt: number): string {
+  const date = new Date(savedAt);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Offers to restore an autosaved draft that differs from the loaded document. */
+export function DraftRecoveryBanner() {
+  const editorStore = useEditorStoreApi();
+  const draft = useEditorState((s) => s.recoveredDraft);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const diff = useMemo(
+    () => draft && showDiff ? diffLines(draft.loadedSource, draft.source) : null,
+    [draft, showDiff],
+  );
+
+  if (!draft) return null;
+  const stats = diff ? diffStats(diff) : null;
+
+  return (
+    <div
+      role="alert"
+      style={{
+        padding: '8px 14px',
+        background: 'var(--ed-surface-alt)',
+        borderBottom: '1px solid var(--ed-border)',
+        fontSize: 12,
+        color: 'var(--ed-text)',
+        flexShrink: 0,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ flex: 1 }}>
+          Unsaved changes from {formatSavedAt(draft.savedAt)} were recovered.
+          {stats && (
+            <span style={{ marginLeft: 8, color: 'var(--ed-text-muted)' }}>
+              <span style={{ color: 'var(--ed-success-text)' }}>+{stats.added}</span>
+              {' '}
+              <span style={{ color: 'var(--ed-error-text)' }}>−{stats.removed}</span>
+            </span>
+          )}
+        </span>
+        <button style={buttonStyle} onClick={() => setShowDiff(!showDiff)}>
+          {showDiff ? 'Hide changes' : 'Show changes'}
+        </button>
+        <button
+          style={{ ...buttonStyle, background: 'var(--ed-accent)', borderColor: 'var(--ed-accent)', color: '#fff' }}
+          onClick={() => restoreDraft(editorStore)}
+          title="Replace the loaded document with the draft (undoable)"
+        >
+          Restore
+        </button>
+        <button style={buttonStyle} onClick={() => discardDraft(editorStore)} title="Delete the draft">
+          Discard
+        </button>
+      </div>
+      {diff && (
+        <div style={{ marginTop: 8 }}>
+          <LineDiffView lines={diff} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,40 +1,144 @@
-import { useCallback, useRef } from 'react';
+import { forwardRef, useCallback, useImperativeHandle, useRef } from 'react';
 import { MklyEditor } from '../editor/MklyEditor';
 import { GlassToolbar } from '../toolbar/GlassToolbar';
 import { StatusBar } from '../status/StatusBar';
 import { PreviewPane } from '../preview/PreviewPane';
 import { BlockDock } from '../block-dock/BlockDock';
 import { BlockSidebar } from '../block-dock/BlockSidebar';
+import { BlockOutline } from '../block-dock/BlockOutline';
+import { SidebarTabs } from '../block-dock/SidebarTabs';
 import { PropertyInspector } from '../inspector/PropertyInspector';
+import { InspectorTabs } from '../inspector/InspectorTabs';
+import { CommentsPanel } from '../inspector/CommentsPanel';
 import { StylePopup } from '../inspector/StylePopup';
 import { ResizeHandle } from './ResizeHandle';
 import { EditorErrorBoundary } from './EditorErrorBoundary';
-import { useEditorStore } from '../store/editor-store';
+import { DraftRecoveryBanner } from './DraftRecoveryBanner';
+import { SuggestionBar } from './SuggestionBar';
+import { HistoryPanel } from '../history/HistoryPanel';
+import { VersionCompareView } from '../history/VersionCompareView';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { useCursorContext } from '../store/use-cursor-context';
 import { useUndoInit } from '../store/use-undo';
-import type { CompletionData } from '@mklyml/core';
+import { useKitConfig } from '../store/use-kit-config';
+import { useControlledSource } from '../store/use-controlled-source';
+import { useDocumentStorage } from '../store/use-document-storage';
+import { markDraftSaved } from '../store/draft-autosave';
+import { useDraftAutosave } from '../store/use-draft-autosave';
+import { useVersionSnapshots } from '../store/use-version-snapshots';
+import { useTabSync } from '../store/use-tab-sync';
+import { formatSource } from '../store/format-source';
+import { useCollab } from '../store/use-collab';
+import { useCommentThreads } from '../store/use-comment-threads';
+import { committedSource, useSuggestions } from '../store/use-suggestions';
+import type { CollabOptions } from '../store/use-collab';
+import type { ControlledSourceOptions } from '../store/use-controlled-source';
+import type { KitMap } from '../store/kit-config';
+import type { StorageAdapter } from '../store/storage-adapter';
+import type { CompletionData, MklyPlugin } from '@mklyml/core';
 
-interface EditorShellProps {
-  completionData: CompletionData;
+interface EditorShellProps extends ControlledSourceOptions {
+  /** Overrides the completion data derived from the configured kits. */
+  completionData?: CompletionData;
+  kits?: KitMap;
+  plugins?: MklyPlugin[];
   documentId?: string;
   persistHistory?: boolean;
+  /**
+   * Persists the document, undo history and named versions under
+   * documentId. Without it history and versions are kept in localStorage.
+   * Must be a stable reference.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Where unsaved drafts are autosaved for crash recovery. Defaults to
+   * IndexedDB; null turns autosave off. Must be a stable reference.
+   */
+  draftStorage?: StorageAdapter | null;
+  /**
+   * Keep other tabs with the same documentId in step and let only one of
+   * them persist. Defaults to true when `documentId` is passed; always off
+   * when `value` is controlled.
+   */
+  syncTabs?: boolean;
+  /**
+   * Edit the source together with everyone in `collab.room` through a
+   * WebSocket relay. Replaces tab sync; undo then only reverts this user's
+   * edits.
+   */
+  collab?: CollabOptions;
+  /** Name shown on comments. Defaults to the collab user's name. */
+  author?: string;
+  /** Called with the source, without pending suggestions, on Mod-S or `save()`. */
+  onSave?: (source: string) => void;
+  /** Format the document (one undo step) before it is handed to onSave. */
+  formatOnSave?: boolean;
 }
 
-export function EditorShell({ completionData, documentId, persistHistory }: EditorShellProps) {
-  useUndoInit(documentId ?? '_default', { persistHistory });
-  const panelSizes = useEditorStore((s) => s.panelSizes);
-  const setPanelSizes = useEditorStore((s) => s.setPanelSizes);
-  const inspectorCollapsed = useEditorStore((s) => s.inspectorCollapsed);
-  const sidebarCollapsed = useEditorStore((s) => s.sidebarCollapsed);
-  const sidebarWidth = useEditorStore((s) => s.sidebarWidth);
-  const setSidebarWidth = useEditorStore((s) => s.setSidebarWidth);
-  const setSource = useEditorStore((s) => s.setSource);
+/** Imperative API exposed through the EditorShell ref. */
+export interface EditorShellHandle {
+  /** HTML from the latest finished compile (may lag getSource() by one debounce). */
+  getHtml(): string;
+  /** The document without pending suggestions. */
+  getSource(): string;
+  focusBlock(line: number): void;
+  /** Insert a `--- type` block below the cursor. */
+  insertBlock(type: string): void;
+  undo(): boolean;
+  redo(): boolean;
+  /** The host saved the current source: drop the autosaved draft. */
+  markSaved(): void;
+  /** Format if formatOnSave is set, then call onSave with the source. */
+  save(): void;
+}
+
+export const EditorShell = forwardRef<EditorShellHandle, EditorShellProps>(function EditorShell({
+  completionData: completionDataProp,
+  kits,
+  plugins,
+  documentId,
+  persistHistory,
+  storage,
+  draftStorage,
+  syncTabs = documentId !== undefined,
+  collab,
+  author,
+  onSave,
+  formatOnSave = false,
+  value,
+  defaultValue,
+  onChange,
+}, ref) {
+  useKitConfig({ kits, plugins });
+  // Before useUndoInit, so a document switch marks storage as loading first
+  useDocumentStorage(documentId ?? '_default', storage, value !== undefined);
+  useTabSync(documentId ?? '_default', syncTabs && !collab && value === undefined);
+  useUndoInit(documentId ?? '_default', { persistHistory, storage });
+  // After useUndoInit, so its undo handlers take over while connected
+  useCollab(collab);
+  useDraftAutosave(documentId ?? '_default', draftStorage);
+  useVersionSnapshots(documentId ?? '_default', storage);
+  useCommentThreads(documentId ?? '_default', storage, author ?? collab?.user.name ?? 'Anonymous');
+  useSuggestions();
+  useControlledSource({ value, defaultValue, onChange });
+  const editorStore = useEditorStoreApi();
+  const storeCompletionData = useEditorState((s) => s.completionData);
+  const completionData = completionDataProp ?? storeCompletionData;
+  const panelSizes = useEditorState((s) => s.panelSizes);
+  const setPanelSizes = useEditorState((s) => s.setPanelSizes);
+  const inspectorCollapsed = useEditorState((s) => s.inspectorCollapsed);
+  const inspectorTab = useEditorState((s) => s.inspectorTab);
+  const sidebarCollapsed = useEditorState((s) => s.sidebarCollapsed);
+  const sidebarTab = useEditorState((s) => s.sidebarTab);
+  const sidebarWidth = useEditorState((s) => s.sidebarWidth);
+  const setSidebarWidth = useEditorState((s) => s.setSidebarWidth);
+  const setSource = useEditorState((s) => s.setSource);
   const containerRef = useRef<HTMLDivElement>(null);
 
   const cursorBlock = useCursorContext();
 
-  const handleInsertBlock = useCallback((blockName: string) => {
-    const { source, cursorLine, focusBlock } = useEditorStore.getState();
+  const insertBlockAtCursor = useCallback((blockName: string) => {
+    const { source, cursorLine, focusBlock } = editorStore.getState();
     const hasContentBlocks = /^--- [\w-]+\/\w/m.test(source);
 
     if (!hasContentBlocks) {
@@ -59,7 +163,37 @@ export function EditorShell({ completionData, documentId, persistHistory }: Edit
     const newBlockLine = cursorLine + 2;
     setSource(lines.join('\n'));
     focusBlock(newBlockLine, 'block-dock');
-  }, [setSource]);
+  }, [setSource, editorStore]);
+
+  const handleInsertBlock = useCallback((blockName: string) => {
+    editorStore.getState().undoTransaction(`Insert ${blockName}`, () => insertBlockAtCursor(blockName));
+  }, [insertBlockAtCursor, editorStore]);
+
+  const save = useCallback(() => {
+    if (formatOnSave) {
+      const { source } = editorStore.getState();
+      const formatted = formatSource(source, completionData);
+      if (formatted !== source) editorStore.getState().undoTransaction('Format document', () => setSource(formatted));
+    }
+    onSave?.(committedSource(editorStore.getState()));
+  }, [formatOnSave, onSave, completionData, setSource, editorStore]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 's' || (!onSave && !formatOnSave)) return;
+    e.preventDefault();
+    save();
+  }, [save, onSave, formatOnSave]);
+
+  useImperativeHandle(ref, () => ({
+    getHtml: () => editorStore.getState().html,
+    getSource: () => committedSource(editorStore.getState()),
+    focusBlock: (line) => editorStore.getState().focusBlock(line, null),
+    insertBlock: handleInsertBlock,
+    undo: () => editorStore.getState().undo(),
+    redo: () => editorStore.getState().redo(),
+    markSaved: () => markDraftSaved(editorStore),
+    save,
+  }), [editorStore, handleInsertBlock, save]);
 
   const handleResize = useCallback((index: 0 | 1, delta: number) => {
     const container = containerRef.current;
@@ -81,8 +215,8 @@ export function EditorShell({ completionData, documentId, persistHistory }: Edit
   }, [setPanelSizes]);
 
   const handleSidebarResize = useCallback((delta: number) => {
-    setSidebarWidth(useEditorStore.getState().sidebarWidth + delta);
-  }, [setSidebarWidth]);
+    setSidebarWidth(editorStore.getState().sidebarWidth + delta);
+  }, [setSidebarWidth, editorStore]);
 
   const inspectorWidth = inspectorCollapsed ? 0 : panelSizes[2];
   const editorWidth = inspectorCollapsed
@@ -95,8 +229,11 @@ export function EditorShell({ completionData, documentId, persistHistory }: Edit
   return (
     <>
       <GlassToolbar />
+      <DraftRecoveryBanner />
+      <SuggestionBar />
       <div
         ref={containerRef}
+        onKeyDown={handleKeyDown}
         style={{
           display: 'flex',
           flex: 1,
@@ -115,7 +252,10 @@ export function EditorShell({ completionData, documentId, persistHistory }: Edit
                 minWidth: 0,
               }}
             >
-              <BlockSidebar completionData={completionData} />
+              <SidebarTabs />
+              {sidebarTab === 'outline'
+                ? <BlockOutline completionData={completionData} />
+                : <BlockSidebar completionData={completionData} />}
             </div>
             <ResizeHandle onResize={handleSidebarResize} />
           </>
@@ -165,8 +305,11 @@ export function EditorShell({ completionData, documentId, persistHistory }: Edit
                 borderLeft: '1px solid var(--ed-border)',
               }}
             >
+              <InspectorTabs />
               <EditorErrorBoundary name="Inspector">
-                <PropertyInspector cursorBlock={cursorBlock} completionData={completionData} />
+                {inspectorTab === 'comments'
+                  ? <CommentsPanel />
+                  : <PropertyInspector cursorBlock={cursorBlock} completionData={completionData} />}
               </EditorErrorBoundary>
             </div>
           </>
@@ -178,6 +321,8 @@ export function EditorShell({ completionData, documentId, persistHistory }: Edit
         onInsert={handleInsertBlock}
       />
       <StylePopup completionData={completionData} />
+      <HistoryPanel />
+      <VersionCompareView />
     </>
   );
-}
+});
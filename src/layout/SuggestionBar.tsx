@@ -0,0 +1,61 @@
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { acceptAllSuggestions, rejectAllSuggestions } from '../store/use-suggestions';
+
+const buttonStyle = {
+  padding: '3px 10px',
+  fontSize: 11,
+  fontWeight: 600,
+  borderRadius: 6,
+  border: '1px solid var(--ed-border)',
+  background: 'var(--ed-surface)',
+  color: 'var(--ed-text)',
+  cursor: 'pointer',
+} as const;
+
+/** Shown while suggesting: the number of pending changes and bulk accept/reject. */
+export function SuggestionBar() {
+  const editorStore = useEditorStoreApi();
+  const suggesting = useEditorState((s) => s.suggestionBase !== null);
+  const count = useEditorState((s) => s.suggestions.length);
+
+  if (!suggesting) return null;
+
+  return (
+    <div
+      role="status"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 14px',
+        background: 'var(--ed-surface-alt)',
+        borderBottom: '1px solid var(--ed-border)',
+        fontSize: 12,
+        color: 'var(--ed-text)',
+        flexShrink: 0,
+      }}
+    >
+      <span style={{ flex: 1 }}>
+        Suggesting: edits are kept as changes for the author to review.
+        <span style={{ marginLeft: 8, color: 'var(--ed-text-muted)' }}>
+          {count === 0 ? 'No pending changes' : `${count} pending ${count === 1 ? 'change' : 'changes'}`}
+        </span>
+      </span>
+      <button
+        style={{ ...buttonStyle, background: 'var(--ed-accent)', borderColor: 'var(--ed-accent)', color: '#fff' }}
+        onClick={() => acceptAllSuggestions(editorStore)}
+        disabled={count === 0}
+      >
+        Accept all
+      </button>
+      <button
+        style={buttonStyle}
+        onClick={() => rejectAllSuggestions(editorStore)}
+        disabled={count === 0}
+        title="Restore the accepted text (undoable)"
+      >
+        Reject all
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { CompletionContext, CompletionResult, Completion } from '@codemirror/autocomplete';
 import type { CompletionData } from '@mklyml/core';
+import { enclosingBlockType, enclosingSection } from './mkly-lang';
 
 const STYLE_CSS_PROPERTIES = [
   'bg', 'fg', 'rounded', 'padding', 'margin', 'color', 'background',
@@ -8,43 +9,11 @@ const STYLE_CSS_PROPERTIES = [
   'maxWidth', 'minHeight', 'display', 'gap', 'overflow',
 ];
 
-function findEnclosingBlock(
-  doc: string,
-  pos: number,
-): string | null {
-  const textBefore = doc.slice(0, pos);
-  const lines = textBefore.split('\n');
-
-  for (let i = lines.length - 1; i >= 0; i--) {
-    const line = lines[i].trim();
-    const match = line.match(/^---\s+([\w]+(?:\/[\w]+)?)/);
-    if (match) {
-      const blockType = match[1];
-      if (blockType === 'style' || blockType === 'meta' || blockType === 'use' || blockType === 'theme' || blockType === 'preset') return null;
-      return blockType;
-    }
-  }
-  return null;
-}
-
-function isInStyleBlock(doc: string, pos: number): boolean {
-  const textBefore = doc.slice(0, pos);
-  const lines = textBefore.split('\n');
-
-  for (let i = lines.length - 1; i >= 0; i--) {
-    const line = lines[i].trim();
-    const match = line.match(/^---\s+([\w]+(?:\/[\w]+)?)/);
-    if (match) return match[1] === 'style';
-  }
-  return false;
-}
-
 export function mklyCompletionSource(data: CompletionData) {
   return (context: CompletionContext): CompletionResult | null => {
     const { state, pos } = context;
     const line = state.doc.lineAt(pos);
     const textBefore = line.text.slice(0, pos - line.from);
-    const docText = state.doc.toString();
 
     // After `--- ` → suggest block names
     const blockTrigger = textBefore.match(/^---\s+([\w/]*)$/);
@@ -122,7 +91,7 @@ export function mklyCompletionSource(data: CompletionData) {
     }
 
     // After `$` in style block → suggest variable names
-    if (isInStyleBlock(docText, pos)) {
+    if (enclosingSection(state, pos)?.name === 'StyleBlock') {
       const varTrigger = textBefore.match(/\$(\w*)$/);
       if (varTrigger) {
         const prefix = varTrigger[1];
@@ -165,7 +134,7 @@ export function mklyCompletionSource(data: CompletionData) {
         apply: `${p}: `,
       }));
 
-      const blockType = findEnclosingBlock(docText, pos);
+      const blockType = enclosingBlockType(state, pos);
       if (blockType) {
         const targets = data.targets.get(blockType);
         if (targets) {
@@ -186,7 +155,7 @@ export function mklyCompletionSource(data: CompletionData) {
     // At line start inside a block → suggest property names
     const propTrigger = textBefore.match(/^(\w*)$/);
     if (propTrigger && propTrigger[1].length > 0) {
-      const blockType = findEnclosingBlock(docText, pos);
+      const blockType = enclosingBlockType(state, pos);
       if (blockType) {
         const props = data.properties.get(blockType);
         if (props && props.length > 0) {
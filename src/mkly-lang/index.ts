@@ -0,0 +1,56 @@
+import { LRLanguage, syntaxTree } from '@codemirror/language';
+import type { EditorState } from '@codemirror/state';
+import type { SyntaxNode } from '@lezer/common';
+import { styleTags, tags } from '@lezer/highlight';
+import { parser } from './parser';
+
+// Directives share the block syntax but aren't content blocks
+const DIRECTIVES = new Set(['meta', 'use', 'theme', 'preset', 'define-theme', 'define-preset']);
+
+export const mklyLanguage = LRLanguage.define({
+  name: 'mkly',
+  parser: parser.configure({
+    props: [
+      styleTags({
+        // BlockType and Label stay unstyled — block-color-plugin handles coloring
+        'HeaderMark CloseMark StyleKeyword': tags.keyword,
+        'PropertyName StylePropertyName': tags.propertyName,
+        'at StyleName': tags.special(tags.propertyName),
+        'StyleTarget StyleSelector ClassAnnotation': tags.typeName,
+        Variable: tags.variableName,
+        Heading: tags.heading,
+        Strong: tags.strong,
+        Emphasis: tags.emphasis,
+        InlineCode: tags.monospace,
+        Link: tags.link,
+        'SpanOpen SpanClose': tags.special(tags.bracket),
+        Comment: tags.lineComment,
+      }),
+    ],
+  }),
+  languageData: {
+    commentTokens: { line: '//' },
+  },
+});
+
+/**
+ * The block section around `pos` in the syntax tree: its node name
+ * (`Block` or `StyleBlock`) and block type, or null above the first block
+ * and after a closer.
+ */
+export function enclosingSection(state: EditorState, pos: number): { name: string; type: string } | null {
+  for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1); node; node = node.parent) {
+    if (node.name === 'StyleBlock') return { name: node.name, type: 'style' };
+    if (node.name === 'Block') {
+      const type = node.getChild('BlockHeader')?.getChild('BlockType');
+      return type ? { name: node.name, type: state.sliceDoc(type.from, type.to) } : null;
+    }
+  }
+  return null;
+}
+
+/** Type of the content block around `pos`, or null outside one or in a directive. */
+export function enclosingBlockType(state: EditorState, pos: number): string | null {
+  const section = enclosingSection(state, pos);
+  return section?.name === 'Block' && !DIRECTIVES.has(section.type) ? section.type : null;
+}
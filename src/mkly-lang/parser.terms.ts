@@ -0,0 +1,43 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+export const
+  space = 43,
+  newline = 44,
+  HeaderMark = 1,
+  CloseMark = 2,
+  BlockType = 3,
+  StyleKeyword = 4,
+  colon = 45,
+  Label = 5,
+  Comment = 6,
+  PropertyName = 7,
+  PropertyValue = 8,
+  at = 46,
+  StyleTarget = 9,
+  slash = 47,
+  StyleName = 10,
+  HeadingMark = 11,
+  SpanOpen = 12,
+  SpanClose = 13,
+  ClassAnnotation = 14,
+  Strong = 15,
+  Emphasis = 16,
+  InlineCode = 17,
+  Link = 18,
+  Variable = 19,
+  Text = 20,
+  StyleSelector = 21,
+  StylePropertyName = 22,
+  ValueText = 23,
+  Document = 24,
+  Property = 25,
+  InlineStyle = 26,
+  ContentLine = 27,
+  Heading = 28,
+  InlineSpan = 29,
+  Block = 30,
+  BlockHeader = 31,
+  StyleBlock = 32,
+  StyleHeader = 33,
+  StyleDeclaration = 34,
+  StyleValue = 35,
+  CloseTag = 36
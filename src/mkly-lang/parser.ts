@@ -0,0 +1,18 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+import {LRParser} from "@lezer/lr"
+import {lineTokens, trackProperties} from "./tokens"
+export const parser = LRParser.deserialize({
+  version: 14,
+  states: ",SQVQQOOO!WQQO'#CuO!]QQO'#CvO#PQQO'#CyOOQQ'#Da'#DaOOQQ'#DS'#DSO#WQRO'#CwO#hQRO'#CxOOQQ'#Cw'#CwOOQQ'#D`'#D`OOQQ'#D_'#D_Q#xQQO'#D_OOQQ'#DR'#DRQVQQOOO$TQQO'#C{O$]QRO'#CzO$kQRO'#C|O$yQQO'#DQO%OQRO'#DeOOQQ'#Db'#DbOOQQ'#DT'#DTQ%^QQOOO%fQRO,59aO%wQQO,59bO%|QQO,59bOOQQ,59e,59eO&RQQO,59eOOQQ-E7Q-E7QO&YQRO,59dOOQQ,59y,59yOOQQ-E7P-E7PO&jQRO,59gOOQQ,59i,59iO&{QRO,59fO'iQRO,59hOOQQ,59l,59lO(QQRO,5:POOQQ-E7R-E7ROOQQ1G.{1G.{O(nQRO1G.|O)PQQO1G.|OOQQ1G/P1G/PP#aQQO'#CwP#qQQO'#CxP$OQQO'#D_O)UQRO1G/RO)gQRO1G/QO)uQRO1G/QO*cQQO'#DOOOQQ'#Dd'#DdOOQQ'#Dc'#DcO*hQRO1G/SOOQQ'#DU'#DUO*vQRO1G/SO+_QRO1G/kO+mQRO1G/kOOQQ7+$h7+$hO,ZQQO7+$hP,`QQO,59aP&cQQO,59dOOQQ7+$m7+$mO,hQRO7+$lO,vQRO,59jOOQQ,59},59}O-[QRO7+$nOOQQ-E7S-E7SO-jQRO7+%VO-xQRO<<HSP.ZQQO1G.|OOQQ'#DV'#DVO.cQRO'#DPOOQQ1G/U1G/UP.wQQO'#DcOOQQAN=nAN=nOOQQ-E7T-E7TP.|QQO,59jP/XQQO<<HSP/aQQO'#DPP/lQQO'#CuP/qQQO,59bP/vQQO'#DOP/{QQO7+$hP0QQQO'#CvP0YQQO1G.|P0_QQO,59b",
+  stateData: "0d~O{OS~OP^OQaOUXOVPOZVO[RO^SO_SO`SOaSObSOcSOdSO|YO!OQO~O}fO~OXhOYgO~O[RO^SO_SO`SOaSObSOcSOdSO~O]iO~P!eOPkXQkXzkX|kX~P!eOPlXQlXzlX|lX~P!eOP^OQaO|mO~ORoOSpO~O|qOPnXQnXznX~O|rOPpXQpXzpX~ORsO~O|tOP!XXQ!XXz!XX~OP^OQaO~OWvOPiaQiazia|ia~O}wO~O!PxO~O]yO~P!eOPlaQlazla|la~P!eO}}OPoaQoazoa|oa~OUXOVPOZVO|YO!OQOPnaQnazna~P!eOU!ROe!ROf!QO|!SOPpaQpazpa~OUXOVPOZVO|YO!OQOP!XaQ!Xaz!Xa~P!eOW!YOPjiQjizji|ji~OY!ZO~OT!^OPoiQoizoi|oi~O|mOPniQnizni~OUXOVPOZVO|YO!OQOPniQnizni~P!eO}!`O~O|!aOPpiQpizpi~OU!ROe!ROf!QO|!SOPpiQpizpi~O|mOP!XiQ!Xiz!Xi~OUXOVPOZVO|YO!OQOP!XiQ!Xiz!Xi~P!eO}!eO~OWvO|ia~O|mOPnqQnqznq~Oc!gOg!gOPraQrazra|ra~O|!aOPpqQpqzpq~O|mOP!XqQ!Xqz!Xq~OW!kOPjyQjyzjy|jy~OW!YO|ji~Oc!gOg!gOPsXQsXzsX|sX~O|!aO~Oc!gOg!gO|ra~OW!kO|jy~Oc!gOg!gO|sX~O}![O~O}!fO~O}!mO~O}!nO~OX!vOY!qO~OY!sO~O!P!uO~O",
+  goto: "&X!YPPPPPPPPPPPPPPPPPPPPPPPPP!Z!Z!Z!c!k!{#R!{#X#_#c#g#m#{$e$m$sPPPPPPP$}%V%g%w%}&R!{]XO]qt!P!X]WO]qt!P!XmSORUV]jlqtz{!P!X!]XcOZ]eX_OZ]eX`OZ]eT!Rr!VT!i!`!mXbOZ]eQ]OUn]!P!XQ!PqR!Xt[UO]qt!P!XQjRYkUjlz!]QlVR!]{UeOZ]RueQ!VrR!c!VQ!h!`S!l!h!oR!o!m][O]qt!P!XSZO]Q!OqQ!WtQ!_!PR!d!XmTORUV]jlqtz{!P!X!]XdOZ]eT!Ur!VQ!TrR!b!V",
+  nodeNames: "⚠ HeaderMark CloseMark BlockType StyleKeyword Label Comment PropertyName PropertyValue StyleTarget StyleName HeadingMark SpanOpen SpanClose ClassAnnotation Strong Emphasis InlineCode Link Variable Text StyleSelector StylePropertyName ValueText Document Property InlineStyle ContentLine Heading InlineSpan Block BlockHeader StyleBlock StyleHeader StyleDeclaration StyleValue CloseTag",
+  maxTerm: 55,
+  context: trackProperties,
+  skippedNodes: [0],
+  repeatNodeCount: 5,
+  tokenData: "RORO",
+  tokenizers: [0, lineTokens],
+  topRules: {"Document":[0,24]},
+  tokenPrec: 0
+})
@@ -0,0 +1,189 @@
+import { ContextTracker, ExternalTokenizer, type InputStream } from '@lezer/lr';
+import {
+  space,
+  newline,
+  HeaderMark,
+  CloseMark,
+  BlockType,
+  StyleKeyword,
+  colon,
+  Label,
+  Comment,
+  PropertyName,
+  PropertyValue,
+  at,
+  StyleTarget,
+  slash,
+  StyleName,
+  HeadingMark,
+  SpanOpen,
+  SpanClose,
+  ClassAnnotation,
+  Strong,
+  Emphasis,
+  InlineCode,
+  Link,
+  Variable,
+  Text,
+  StyleSelector,
+  StylePropertyName,
+  ValueText,
+} from './parser.terms';
+
+const NEWLINE = 10;
+
+// Where a line is relative to a block's property section
+const BODY = 0;
+const HEADER_LINE = 1;
+const PROPERTY_START = 2;
+const PROPERTY_LINE = 3;
+
+/**
+ * Properties may only follow a block header, up to the first blank or
+ * content line, as in the mkly parser. This tracks whether the next line
+ * could still be one.
+ */
+export const trackProperties = new ContextTracker<number>({
+  start: BODY,
+  shift(context, term) {
+    if (term === space) return context;
+    if (term === HeaderMark) return HEADER_LINE;
+    if (term === newline) return context === HEADER_LINE || context === PROPERTY_LINE ? PROPERTY_START : BODY;
+    if (context === PROPERTY_START && (term === PropertyName || term === at || term === Comment)) return PROPERTY_LINE;
+    return context === HEADER_LINE || context === PROPERTY_LINE ? context : BODY;
+  },
+  hash: (context) => context,
+});
+
+function restOfLine(input: InputStream): string {
+  let text = '';
+  for (let i = 0, ch = input.peek(0); ch !== NEWLINE && ch !== -1; ch = input.peek(++i)) {
+    text += String.fromCharCode(ch);
+  }
+  return text;
+}
+
+const HEADER_RE = /^---[ \t]+(\/)?/;
+const BLOCK_TYPE_RE = /^[\w]+(?:\/[\w]+)?/;
+const COMMENT_RE = /^[ \t]*\/\//;
+const PROPERTY_NAME_RE = /^[\w./+-]+(?=:(?:[ \t]|$))/;
+const INLINE_STYLE_RE = /^@(?:[\w.-]+\/)?[\w-]+[ \t]*:/;
+const HEADING_RE = /^#{1,6}[ \t]/;
+const VARIABLE_RE = /^\$\w+/;
+const STYLE_PROPERTY_RE = /^[\w-]+(?=[ \t]*:(?:[ \t]|$))/;
+
+// Inline tokens, tried in order wherever content can continue
+const INLINE_TOKENS: Array<[number, RegExp]> = [
+  [SpanClose, /^\{\/\}/],
+  [SpanOpen, /^\{@[^}\n]*\}/],
+  [ClassAnnotation, /^\{\.[\w-]+\}/],
+  [Strong, /^\*\*[^*]+\*\*/],
+  [Emphasis, /^\*[^*\s][^*]*\*/],
+  [InlineCode, /^`[^`]+`/],
+  [Link, /^\[[^\]]*\]\([^)]*\)/],
+  [Variable, VARIABLE_RE],
+];
+// Characters that may start an inline token; text stops before them
+const INLINE_START = /[{*`[$]/;
+
+function acceptMatch(input: InputStream, term: number, match: RegExpExecArray | null): boolean {
+  if (!match || match[0].length === 0) return false;
+  input.acceptToken(term, match[0].length);
+  return true;
+}
+
+/** Rest of the line as one token, with trailing whitespace left to `space`. */
+function acceptRest(input: InputStream, term: number, rest: string): boolean {
+  const length = rest.trimEnd().length;
+  if (length === 0) return false;
+  input.acceptToken(term, length);
+  return true;
+}
+
+/**
+ * Tokens for mkly, one line at a time. The grammar's parse state says which
+ * part of a line comes next, so each call only tries the tokens that fit.
+ */
+export const lineTokens = new ExternalTokenizer((input, stack) => {
+  const next = input.next;
+  if (next === -1) return;
+  if (next === NEWLINE) {
+    input.acceptToken(newline, 1);
+    return;
+  }
+  const rest = restOfLine(input);
+
+  if (stack.canShift(HeaderMark) || stack.canShift(CloseMark)) {
+    const header = HEADER_RE.exec(rest);
+    if (header) {
+      input.acceptToken(header[1] ? CloseMark : HeaderMark, header[0].length);
+      return;
+    }
+  }
+  if (stack.canShift(Comment) && COMMENT_RE.test(rest)) {
+    acceptRest(input, Comment, rest);
+    return;
+  }
+
+  // Skip whitespace between tokens, except where content keeps it
+  const leading = /^[ \t]+/.exec(rest);
+  if (leading && !stack.canShift(Text) && !stack.canShift(HeadingMark)) {
+    input.acceptToken(space, leading[0].length);
+    return;
+  }
+
+  if (stack.canShift(BlockType)) {
+    const type = BLOCK_TYPE_RE.exec(rest);
+    if (type && type[0] === 'style' && stack.canShift(StyleKeyword)) {
+      input.acceptToken(StyleKeyword, 5);
+      return;
+    }
+    if (acceptMatch(input, BlockType, type)) return;
+  }
+  if (stack.canShift(colon) && next === 58 /* : */) {
+    input.acceptToken(colon, 1);
+    return;
+  }
+  if (stack.canShift(Label) && acceptRest(input, Label, rest)) return;
+  if (stack.canShift(PropertyValue) && acceptRest(input, PropertyValue, rest)) return;
+
+  // Inline style: `@` then an optional `target/` and the property
+  if (stack.canShift(StyleTarget) || stack.canShift(StyleName)) {
+    if (stack.canShift(StyleTarget) && acceptMatch(input, StyleTarget, /^[\w.-]+(?=\/)/.exec(rest))) return;
+    if (stack.canShift(StyleName) && acceptMatch(input, StyleName, /^[\w-]+/.exec(rest))) return;
+  }
+  if (stack.canShift(slash) && next === 47 /* / */) {
+    input.acceptToken(slash, 1);
+    return;
+  }
+
+  if (stack.context === PROPERTY_START && stack.canShift(PropertyName)) {
+    if (INLINE_STYLE_RE.test(rest)) {
+      input.acceptToken(at, 1);
+      return;
+    }
+    if (acceptMatch(input, PropertyName, PROPERTY_NAME_RE.exec(rest))) return;
+  }
+
+  // Style block lines: `selector` or `property: value`
+  if (stack.canShift(StylePropertyName)) {
+    if (acceptMatch(input, StylePropertyName, STYLE_PROPERTY_RE.exec(rest))) return;
+    if (acceptRest(input, StyleSelector, rest)) return;
+  }
+  if (stack.canShift(ValueText)) {
+    if (acceptMatch(input, Variable, VARIABLE_RE.exec(rest))) return;
+    const end = rest.indexOf('$', 1);
+    acceptRest(input, ValueText, end === -1 ? rest : rest.slice(0, end));
+    return;
+  }
+
+  if (stack.canShift(HeadingMark) && acceptMatch(input, HeadingMark, HEADING_RE.exec(rest))) return;
+  if (stack.canShift(Text)) {
+    for (const [term, re] of INLINE_TOKENS) {
+      if (stack.canShift(term) && acceptMatch(input, term, re.exec(rest))) return;
+    }
+    let end = 1;
+    while (end < rest.length && !INLINE_START.test(rest[end])) end++;
+    input.acceptToken(Text, end);
+  }
+}, { contextual: true });
@@ -1,13 +1,15 @@
 import { useCallback, useEffect, useRef } from 'react';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { mkly, buildGoogleFontsLink } from '@mklyml/core';
 import { makeBlocksEditable, EDIT_MODE_CSS } from './editable-blocks';
-import { cleanHtmlForReverse, MKLY_KITS, findBlockByOriginalLine } from './reverse-helpers';
+import { cleanHtmlForReverse, findBlockByOriginalLine } from './reverse-helpers';
 import { SyncEngine } from './SyncEngine';
 import { IFRAME_DARK_CSS } from './iframe-dark-css';
-import { ACTIVE_BLOCK_CSS, STYLE_PICK_CSS, syncActiveBlock, bindBlockClicks, setStylePickClass, bindStylePickHover, bindStylePickClick } from './iframe-highlight';
+import { suggestionLines } from '../store/suggestions';
+import { ACTIVE_BLOCK_CSS, COMMENT_PIN_CSS, PRESENCE_CSS, SUGGESTION_CSS, STYLE_PICK_CSS, syncActiveBlock, syncPresence, syncCommentPins, syncSuggestionMarks, bindBlockClicks, bindCommentPins, setStylePickClass, bindStylePickHover, bindStylePickClick } from './iframe-highlight';
 import { queryComputedStyles } from './computed-styles';
 import { morphIframeContent } from './iframe-morph';
+import { BLOCK_DRAG_CSS, bindBlockDrag } from './block-drag';
 import { EDITOR_DOCUMENT_MAX_WIDTH } from '../store/compile-config';
 
 interface EditablePreviewProps {
@@ -15,19 +17,23 @@ interface EditablePreviewProps {
 }
 
 export function EditablePreview({ onSyncError }: EditablePreviewProps) {
-  const html = useEditorStore((s) => s.html);
-  const setSource = useEditorStore((s) => s.setSource);
-  const activeBlockLine = useEditorStore((s) => s.activeBlockLine);
-  const cursorLine = useEditorStore((s) => s.cursorLine);
-  const selectionId = useEditorStore((s) => s.selectionId);
-  const focusOrigin = useEditorStore((s) => s.focusOrigin);
-  const focusIntent = useEditorStore((s) => s.focusIntent);
-  const focusVersion = useEditorStore((s) => s.focusVersion);
-  const scrollLock = useEditorStore((s) => s.scrollLock);
-  const setComputedStyles = useEditorStore((s) => s.setComputedStyles);
-  const theme = useEditorStore((s) => s.theme);
-  const stylePickMode = useEditorStore((s) => s.stylePickMode);
-  const styleSelection = useEditorStore((s) => s.styleSelection);
+  const editorStore = useEditorStoreApi();
+  const html = useEditorState((s) => s.html);
+  const setSource = useEditorState((s) => s.setSource);
+  const activeBlockLine = useEditorState((s) => s.activeBlockLine);
+  const collabPeers = useEditorState((s) => s.collab?.peers);
+  const commentThreads = useEditorState((s) => s.commentThreads);
+  const suggestions = useEditorState((s) => s.suggestions);
+  const cursorLine = useEditorState((s) => s.cursorLine);
+  const selectionId = useEditorState((s) => s.selectionId);
+  const focusOrigin = useEditorState((s) => s.focusOrigin);
+  const focusIntent = useEditorState((s) => s.focusIntent);
+  const focusVersion = useEditorState((s) => s.focusVersion);
+  const scrollLock = useEditorState((s) => s.scrollLock);
+  const setComputedStyles = useEditorState((s) => s.setComputedStyles);
+  const theme = useEditorState((s) => s.theme);
+  const stylePickMode = useEditorState((s) => s.stylePickMode);
+  const styleSelection = useEditorState((s) => s.styleSelection);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const isEditingRef = useRef(false);
   const lastHtmlRef = useRef('');
@@ -54,11 +60,11 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
     const doc = iframe.contentDocument;
     if (!doc) return;
 
-    const isDark = useEditorStore.getState().theme === 'dark';
+    const isDark = editorStore.getState().theme === 'dark';
     const darkCss = isDark ? IFRAME_DARK_CSS : '';
     const fontsLink = buildGoogleFontsLink(content);
     doc.open();
-    doc.write(`<!DOCTYPE html><html><head>${fontsLink}<style>${EDIT_MODE_CSS}\n${ACTIVE_BLOCK_CSS}\n${STYLE_PICK_CSS}\n${darkCss}</style></head><body style="margin:0;padding:16px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',system-ui,sans-serif;">${content}</body></html>`);
+    doc.write(`<!DOCTYPE html><html><head>${fontsLink}<style>${EDIT_MODE_CSS}\n${ACTIVE_BLOCK_CSS}\n${PRESENCE_CSS}\n${COMMENT_PIN_CSS}\n${SUGGESTION_CSS}\n${BLOCK_DRAG_CSS}\n${STYLE_PICK_CSS}\n${darkCss}</style></head><body style="margin:0;padding:16px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',system-ui,sans-serif;">${content}</body></html>`);
     doc.close();
 
     initializedRef.current = true;
@@ -81,7 +87,9 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
       requestAnimationFrame(() => flushPendingSyncRef.current());
     });
 
-    bindBlockClicks(doc, 'edit');
+    bindBlockClicks(doc, 'edit', editorStore);
+    bindCommentPins(doc, editorStore);
+    bindBlockDrag(doc, 'edit', editorStore);
   }, []);
 
   /**
@@ -96,10 +104,10 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
 
     // Build the full HTML that would have been written — morphIframeContent
     // needs the same structure to find .mkly-document and style tags.
-    const isDark = useEditorStore.getState().theme === 'dark';
+    const isDark = editorStore.getState().theme === 'dark';
     const darkCss = isDark ? IFRAME_DARK_CSS : '';
     const fontsLink = buildGoogleFontsLink(content);
-    const fullHtml = `<!DOCTYPE html><html><head>${fontsLink}<style>${EDIT_MODE_CSS}\n${ACTIVE_BLOCK_CSS}\n${STYLE_PICK_CSS}\n${darkCss}</style></head><body style="margin:0;padding:16px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',system-ui,sans-serif;">${content}</body></html>`;
+    const fullHtml = `<!DOCTYPE html><html><head>${fontsLink}<style>${EDIT_MODE_CSS}\n${ACTIVE_BLOCK_CSS}\n${PRESENCE_CSS}\n${COMMENT_PIN_CSS}\n${SUGGESTION_CSS}\n${BLOCK_DRAG_CSS}\n${STYLE_PICK_CSS}\n${darkCss}</style></head><body style="margin:0;padding:16px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',system-ui,sans-serif;">${content}</body></html>`;
 
     const morphed = morphIframeContent(doc, fullHtml);
     if (!morphed) return false;
@@ -174,7 +182,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
   const releaseEditingLock = useCallback((delayMs = 200) => {
     setTimeout(() => {
       isEditingRef.current = false;
-      const state = useEditorStore.getState();
+      const state = editorStore.getState();
       if (
         state.html !== lastHtmlRef.current
         || state.theme !== (iframeRef.current?.dataset.lastTheme ?? 'dark')
@@ -183,7 +191,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
       }
       flushPendingSync();
     }, delayMs);
-  }, [syncLatestHtmlToIframe, flushPendingSync]);
+  }, [syncLatestHtmlToIframe, flushPendingSync, editorStore]);
 
   const handleInput = useCallback(() => {
     isEditingRef.current = true;
@@ -219,12 +227,12 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
       onSyncError(errorMsg);
       setTimeout(() => {
         isEditingRef.current = false;
-        const state = useEditorStore.getState();
+        const state = editorStore.getState();
         syncLatestHtmlToIframe(state.html, state.theme);
       }, 100);
     };
 
-    syncRef.current.debouncedReverse(editedHtml, (result) => {
+    syncRef.current.debouncedReverse(editedHtml, editorStore.getState().kits, (result) => {
       if (result.error) {
         revertIframe(result.error);
         return;
@@ -235,13 +243,13 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
       }
 
       const source = result.source;
-      const latestSource = useEditorStore.getState().source;
+      const latestSource = editorStore.getState().source;
       let updated = false;
 
       if (source !== latestSource) {
         try {
           const testResult = mkly(source, {
-            kits: MKLY_KITS,
+            kits: editorStore.getState().kits,
             sourceMap: true,
             maxWidth: EDITOR_DOCUMENT_MAX_WIDTH,
           });
@@ -253,7 +261,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
             revertIframe(`Edit produced invalid source — reverting (${details})`);
             return;
           }
-          const currentHtml = useEditorStore.getState().html;
+          const currentHtml = editorStore.getState().html;
           if (testResult.html !== currentHtml) {
             setSource(source);
             updated = true;
@@ -269,7 +277,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
         if (editingOriginalLine >= 1) {
           const line = findBlockByOriginalLine(source, editingOriginalLine, editingBlockClass);
           if (line !== null) {
-            useEditorStore.getState().focusBlock(line, 'edit', 'recompile');
+            editorStore.getState().focusBlock(line, 'edit', 'recompile');
           }
         } else {
           // User typed outside any existing block — focus the newly created block.
@@ -285,7 +293,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
             }
           }
           if (lastBlockLine !== null) {
-            useEditorStore.getState().focusBlock(lastBlockLine, 'edit', 'recompile');
+            editorStore.getState().focusBlock(lastBlockLine, 'edit', 'recompile');
           }
         }
       } else {
@@ -303,7 +311,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
 
       releaseEditingLock();
     }, 300);
-  }, [setSource, onSyncError, releaseEditingLock, syncLatestHtmlToIframe]);
+  }, [setSource, onSyncError, releaseEditingLock, syncLatestHtmlToIframe, editorStore]);
   handleInputRef.current = handleInput;
 
   // Sync HTML to iframe: morph on update, full write on first render or theme change
@@ -334,6 +342,24 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeBlockLine, cursorLine, selectionId, focusOrigin, focusIntent, scrollLock, focusVersion, setComputedStyles, styleSelection, html]);
 
+  // Collaborators' blocks, re-marked after every morph like the highlight
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (doc?.body) syncPresence(doc, collabPeers ?? []);
+  }, [collabPeers, html]);
+
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (doc?.body) syncCommentPins(doc, commentThreads);
+  }, [commentThreads, html]);
+
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc?.body) return;
+    const { source, compiledSource } = editorStore.getState();
+    syncSuggestionMarks(doc, suggestionLines(compiledSource, compiledSource === source ? suggestions : []));
+  }, [suggestions, html, editorStore]);
+
   // Style pick mode: bind/unbind hover and click handlers.
   // Depends on `html` so handlers are re-bound after every iframe morph/rewrite,
   // ensuring they reference the live document and are properly cleaned up.
@@ -348,7 +374,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
     if (stylePickMode) {
       doc.querySelectorAll('[contenteditable]').forEach(el => el.setAttribute('contenteditable', 'false'));
       const cleanupHover = bindStylePickHover(doc);
-      const cleanupClick = bindStylePickClick(doc, iframe, 'edit');
+      const cleanupClick = bindStylePickClick(doc, iframe, 'edit', editorStore);
       return () => {
         cleanupHover();
         cleanupClick();
@@ -360,7 +386,7 @@ export function EditablePreview({ onSyncError }: EditablePreviewProps) {
     }
     makeBlocksEditable(doc);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [stylePickMode, html]);
+  }, [stylePickMode, html, editorStore]);
 
   return (
     <iframe
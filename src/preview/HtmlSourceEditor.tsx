@@ -5,7 +5,7 @@ import { defaultKeymap, history } from '@codemirror/commands';
 import { html } from '@codemirror/lang-html';
 import { mklyThemeDark } from '../editor/mkly-theme-dark';
 import { mklyThemeLight } from '../editor/mkly-theme-light';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { useExternalSync } from '../hooks/use-external-sync';
 import { clearPendingScroll } from '../editor/safe-dispatch';
 import { findHtmlPositionForBlock, resolveBlockLine, shouldScrollToBlock } from '../store/selection-orchestrator';
@@ -118,15 +118,16 @@ export function HtmlSourceEditor({ value, onChange, readOnly = false }: HtmlSour
   const containerRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
   const onChangeRef = useRef(onChange);
-  const theme = useEditorStore((s) => s.theme);
-  const viewMode = useEditorStore((s) => s.viewMode);
-  const cursorLine = useEditorStore((s) => s.cursorLine);
-  const activeBlockLine = useEditorStore((s) => s.activeBlockLine);
-  const focusOrigin = useEditorStore((s) => s.focusOrigin);
-  const focusVersion = useEditorStore((s) => s.focusVersion);
-  const focusIntent = useEditorStore((s) => s.focusIntent);
-  const scrollLock = useEditorStore((s) => s.scrollLock);
-  const wordWrap = useEditorStore((s) => s.htmlWordWrap);
+  const editorStore = useEditorStoreApi();
+  const theme = useEditorState((s) => s.theme);
+  const viewMode = useEditorState((s) => s.viewMode);
+  const cursorLine = useEditorState((s) => s.cursorLine);
+  const activeBlockLine = useEditorState((s) => s.activeBlockLine);
+  const focusOrigin = useEditorState((s) => s.focusOrigin);
+  const focusVersion = useEditorState((s) => s.focusVersion);
+  const focusIntent = useEditorState((s) => s.focusIntent);
+  const scrollLock = useEditorState((s) => s.scrollLock);
+  const wordWrap = useEditorState((s) => s.htmlWordWrap);
   const localSelectionFrameRef = useRef<number | null>(null);
   const lastLocalLineRef = useRef<number | null>(null);
   const lastFocusVersionRef = useRef(-1);
@@ -147,7 +148,7 @@ export function HtmlSourceEditor({ value, onChange, readOnly = false }: HtmlSour
       if (!selection) return;
       const line = selection.sourceLine;
 
-      const store = useEditorStore.getState();
+      const store = editorStore.getState();
       if (!force && store.focusOrigin === 'html' && store.cursorLine === line && lastLocalLineRef.current === line) {
         return;
       }
@@ -165,9 +166,9 @@ export function HtmlSourceEditor({ value, onChange, readOnly = false }: HtmlSour
         htmlHighlightField,
         themeCompartment.of(mklyThemeDark),
         keymap.of([
-          { key: 'Mod-z', run: () => { useEditorStore.getState().undo(); return true; } },
-          { key: 'Mod-Shift-z', run: () => { useEditorStore.getState().redo(); return true; } },
-          { key: 'Mod-y', run: () => { useEditorStore.getState().redo(); return true; } },
+          { key: 'Mod-z', run: () => { editorStore.getState().undo(); return true; } },
+          { key: 'Mod-Shift-z', run: () => { editorStore.getState().redo(); return true; } },
+          { key: 'Mod-y', run: () => { editorStore.getState().redo(); return true; } },
           ...defaultKeymap,
         ]),
         EditorView.updateListener.of((update) => {
@@ -190,7 +191,7 @@ export function HtmlSourceEditor({ value, onChange, readOnly = false }: HtmlSour
         }),
         EditorView.domEventHandlers({
           mousedown: (event, view) => {
-            const store = useEditorStore.getState();
+            const store = editorStore.getState();
             if (!store.stylePickMode || readOnly) return false;
 
             const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
@@ -206,7 +207,7 @@ export function HtmlSourceEditor({ value, onChange, readOnly = false }: HtmlSour
             if (blockLine === null || !blockType) return false;
 
             store.focusBlock(sourceLine, 'html');
-            const selectionId = useEditorStore.getState().selectionId ?? undefined;
+            const selectionId = editorStore.getState().selectionId ?? undefined;
             const block = parseCursorBlock(source, sourceLine);
             const coords = view.coordsAtPos(pos);
             if (!coords) return false;
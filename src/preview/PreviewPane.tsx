@@ -1,39 +1,59 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
 import { HtmlSourceEditor } from './HtmlSourceEditor';
 import { EditablePreview } from './EditablePreview';
 import { EmptyState } from './EmptyState';
 import { SyncEngine } from './SyncEngine';
 import { prettifyHtml } from './prettify-html';
 import { IFRAME_DARK_CSS } from './iframe-dark-css';
-import { ACTIVE_BLOCK_CSS, STYLE_PICK_CSS, syncActiveBlock, bindBlockClicks, setStylePickClass, bindStylePickHover, bindStylePickClick } from './iframe-highlight';
+import { suggestionLines } from '../store/suggestions';
+import { ACTIVE_BLOCK_CSS, COMMENT_PIN_CSS, PRESENCE_CSS, SUGGESTION_CSS, STYLE_PICK_CSS, syncActiveBlock, syncPresence, syncCommentPins, syncSuggestionMarks, bindBlockClicks, bindCommentPins, setStylePickClass, bindStylePickHover, bindStylePickClick } from './iframe-highlight';
 import { queryComputedStyles } from './computed-styles';
+import { BLOCK_DRAG_CSS, bindBlockDrag } from './block-drag';
 import { morphIframeContent } from './iframe-morph';
+import type { CompiledBlock } from '../store/block-cache';
 import { getErrorHint } from './error-hints';
+import { restoreSnapshot } from '../store/use-version-snapshots';
 
 interface PreviewPaneProps {
   onInsertBlock?: (blockType: string) => void;
 }
 
+// Lines of blocks that render the same cached HTML at the same position as before.
+function unchangedBlockLines(
+  previous: CompiledBlock[] | null,
+  next: CompiledBlock[] | null,
+): Set<number> | undefined {
+  if (!previous || !next) return undefined;
+  const previousKeys = new Map(previous.map((b) => [b.line, b.key]));
+  return new Set(next.filter((b) => previousKeys.get(b.line) === b.key).map((b) => b.line));
+}
+
 export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
-  const source = useEditorStore((s) => s.source);
-  const html = useEditorStore((s) => s.html);
-  const viewMode = useEditorStore((s) => s.viewMode);
-  const outputMode = useEditorStore((s) => s.outputMode);
-  const errors = useEditorStore((s) => s.errors);
-  const setSource = useEditorStore((s) => s.setSource);
-  const activeBlockLine = useEditorStore((s) => s.activeBlockLine);
-  const cursorLine = useEditorStore((s) => s.cursorLine);
-  const selectionId = useEditorStore((s) => s.selectionId);
-  const focusOrigin = useEditorStore((s) => s.focusOrigin);
-  const focusIntent = useEditorStore((s) => s.focusIntent);
-  const focusVersion = useEditorStore((s) => s.focusVersion);
-  const scrollLock = useEditorStore((s) => s.scrollLock);
-  const setScrollLock = useEditorStore((s) => s.setScrollLock);
-  const setComputedStyles = useEditorStore((s) => s.setComputedStyles);
-  const theme = useEditorStore((s) => s.theme);
-  const stylePickMode = useEditorStore((s) => s.stylePickMode);
-  const styleSelection = useEditorStore((s) => s.styleSelection);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const html = useEditorState((s) => s.html);
+  const viewMode = useEditorState((s) => s.viewMode);
+  const outputMode = useEditorState((s) => s.outputMode);
+  const errors = useEditorState((s) => s.errors);
+  const setSource = useEditorState((s) => s.setSource);
+  const activeBlockLine = useEditorState((s) => s.activeBlockLine);
+  const collabPeers = useEditorState((s) => s.collab?.peers);
+  const commentThreads = useEditorState((s) => s.commentThreads);
+  const suggestions = useEditorState((s) => s.suggestions);
+  const cursorLine = useEditorState((s) => s.cursorLine);
+  const selectionId = useEditorState((s) => s.selectionId);
+  const focusOrigin = useEditorState((s) => s.focusOrigin);
+  const focusIntent = useEditorState((s) => s.focusIntent);
+  const focusVersion = useEditorState((s) => s.focusVersion);
+  const scrollLock = useEditorState((s) => s.scrollLock);
+  const setScrollLock = useEditorState((s) => s.setScrollLock);
+  const setComputedStyles = useEditorState((s) => s.setComputedStyles);
+  const theme = useEditorState((s) => s.theme);
+  const stylePickMode = useEditorState((s) => s.stylePickMode);
+  const styleSelection = useEditorState((s) => s.styleSelection);
+  const versionPreview = useEditorState((s) => s.versionPreview);
+  const setVersionPreview = useEditorState((s) => s.setVersionPreview);
   const [syncError, setSyncError] = useState<string | null>(null);
   const syncRef = useRef(new SyncEngine());
   const prettyHtml = useMemo(() => prettifyHtml(html), [html]);
@@ -41,6 +61,8 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
   const stylePickModeRef = useRef(stylePickMode);
   const initializedRef = useRef(false);
   const lastThemeRef = useRef(theme);
+  // Block identities of the HTML currently in the iframe
+  const appliedBlocksRef = useRef<CompiledBlock[] | null>(null);
   stylePickModeRef.current = stylePickMode;
 
   useEffect(() => {
@@ -59,10 +81,13 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
 
     const themeChanged = theme !== lastThemeRef.current;
     lastThemeRef.current = theme;
+    const blocks = editorStore.getState().compiledBlocks;
+    const applied = appliedBlocksRef.current;
+    appliedBlocksRef.current = blocks;
 
     // Try morph for subsequent renders (same theme)
     if (initializedRef.current && !themeChanged) {
-      const morphed = morphIframeContent(doc, html);
+      const morphed = morphIframeContent(doc, html, unchangedBlockLines(applied, blocks));
       if (morphed) {
         // Style pick handlers survive morph (they're on the document, not elements)
         return;
@@ -78,8 +103,8 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
     initializedRef.current = true;
 
     // Inject highlight + dark mode styles
-    const isDark = useEditorStore.getState().theme === 'dark';
-    const extraCss = ACTIVE_BLOCK_CSS + '\n' + STYLE_PICK_CSS + (isDark ? IFRAME_DARK_CSS : '');
+    const isDark = editorStore.getState().theme === 'dark';
+    const extraCss = ACTIVE_BLOCK_CSS + '\n' + PRESENCE_CSS + '\n' + COMMENT_PIN_CSS + '\n' + SUGGESTION_CSS + '\n' + BLOCK_DRAG_CSS + '\n' + STYLE_PICK_CSS + (isDark ? IFRAME_DARK_CSS : '');
     if (extraCss) {
       const style = doc.createElement('style');
       style.textContent = extraCss;
@@ -98,11 +123,13 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
       }
     });
 
-    bindBlockClicks(doc, 'preview');
+    bindBlockClicks(doc, 'preview', editorStore);
+    bindCommentPins(doc, editorStore);
+    bindBlockDrag(doc, 'preview', editorStore);
 
     requestAnimationFrame(() => setScrollLock(false));
     setTimeout(() => setScrollLock(false), 100);
-  }, [html, viewMode, outputMode, setScrollLock, theme]);
+  }, [html, viewMode, outputMode, setScrollLock, theme, editorStore]);
 
   // Highlight active block in preview iframe (same logic as edit pane)
   useEffect(() => {
@@ -124,6 +151,25 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
     }
   }, [activeBlockLine, cursorLine, selectionId, focusOrigin, focusIntent, scrollLock, focusVersion, viewMode, outputMode, setComputedStyles, styleSelection, html]);
 
+  // Mark the blocks collaborators are in and pin comment counts
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (doc?.body) syncPresence(doc, collabPeers ?? []);
+  }, [collabPeers, html, viewMode, outputMode]);
+
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (doc?.body) syncCommentPins(doc, commentThreads);
+  }, [commentThreads, html, viewMode, outputMode]);
+
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc?.body) return;
+    // Line numbers in the html only match once it's compiled from this source
+    const compiledSource = editorStore.getState().compiledSource;
+    syncSuggestionMarks(doc, suggestionLines(compiledSource, compiledSource === source ? suggestions : []));
+  }, [suggestions, source, html, viewMode, outputMode, editorStore]);
+
   // Style pick mode: toggle hover/click handlers in preview iframe
   useEffect(() => {
     const iframe = iframeRef.current;
@@ -134,22 +180,22 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
 
     if (stylePickMode) {
       const cleanupHover = bindStylePickHover(doc);
-      const cleanupClick = bindStylePickClick(doc, iframe, 'preview');
+      const cleanupClick = bindStylePickClick(doc, iframe, 'preview', editorStore);
       return () => {
         cleanupHover();
         cleanupClick();
         if (doc.body) setStylePickClass(doc, false);
       };
     }
-  }, [stylePickMode, html]);
+  }, [stylePickMode, html, editorStore]);
 
   const lastCompiledRef = useRef('');
   useEffect(() => { lastCompiledRef.current = prettyHtml; }, [prettyHtml]);
 
   const handleHtmlChange = useCallback((newHtml: string) => {
-    syncRef.current.debouncedReverse(newHtml, (result) => {
+    syncRef.current.debouncedReverse(newHtml, editorStore.getState().kits, (result) => {
       if (result.source !== undefined) {
-        const currentSource = useEditorStore.getState().source;
+        const currentSource = editorStore.getState().source;
         if (result.source !== currentSource) {
           setSource(result.source);
           setSyncError(null);
@@ -164,7 +210,7 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
         setSyncError(result.error);
       }
     });
-  }, [setSource]);
+  }, [setSource, editorStore]);
 
   const hasContentBlocks = /^--- [\w-]+\/\w/m.test(source);
   const showEmptyState = !hasContentBlocks && viewMode === 'preview' && onInsertBlock;
@@ -175,7 +221,53 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
       flexDirection: 'column',
       flex: 1,
       overflow: 'hidden',
+      position: 'relative',
     }}>
+      {versionPreview && (
+        // Layered over the live preview so its iframe keeps its DOM and scroll
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          zIndex: 2,
+          display: 'flex',
+          flexDirection: 'column',
+          background: 'var(--ed-surface, #fff)',
+        }}>
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 10,
+            padding: '6px 14px',
+            background: 'rgba(226, 114, 91, 0.1)',
+            borderBottom: '1px solid var(--ed-border)',
+            fontSize: 12,
+            color: 'var(--ed-text)',
+            flexShrink: 0,
+          }}>
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              Previewing version “{versionPreview.name}”
+            </span>
+            <button
+              onClick={() => restoreSnapshot(editorStore, versionPreview.snapshotId)}
+              style={{ background: 'none', border: 'none', padding: 0, font: 'inherit', color: 'var(--ed-accent)', cursor: 'pointer' }}
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => setVersionPreview(null)}
+              style={{ background: 'none', border: 'none', padding: 0, font: 'inherit', color: 'var(--ed-accent)', cursor: 'pointer' }}
+            >
+              Back to current
+            </button>
+          </div>
+          <iframe
+            title="Version preview"
+            srcDoc={versionPreview.html}
+            sandbox="allow-same-origin"
+            style={{ flex: 1, border: 'none', background: 'var(--ed-surface, #fff)' }}
+          />
+        </div>
+      )}
       {viewMode === 'edit' && outputMode === 'email' && (
         <div style={{
           padding: '6px 14px',
@@ -241,7 +333,7 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
               const lineMatch = syncError.match(/\[line (\d+)\]/);
               if (lineMatch) {
                 const line = Number(lineMatch[1]);
-                useEditorStore.getState().focusBlock(line, 'mkly', 'navigate');
+                editorStore.getState().focusBlock(line, 'mkly', 'navigate');
               }
             }}
             title={syncError.match(/\[line/) ? 'Click to navigate to error line' : undefined}
@@ -294,7 +386,7 @@ export function PreviewPane({ onInsertBlock }: PreviewPaneProps) {
                   }}
                 >
                   <span
-                    onClick={() => useEditorStore.getState().focusBlock(err.line, 'preview', 'navigate')}
+                    onClick={() => editorStore.getState().focusBlock(err.line, 'preview', 'navigate')}
                     style={{ cursor: 'pointer', textDecoration: 'underline', textDecorationStyle: 'dotted', opacity: 0.7, flexShrink: 0 }}
                     title="Jump to line"
                   >
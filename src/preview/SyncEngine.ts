@@ -1,4 +1,5 @@
 import { reverseToMkly } from './reverse-helpers';
+import type { KitMap } from '../store/kit-config';
 
 export interface SyncResult {
   source?: string;
@@ -8,19 +9,19 @@ export interface SyncResult {
 export class SyncEngine {
   private reverseTimer: ReturnType<typeof setTimeout> | undefined;
 
-  reverseConvert(html: string): SyncResult {
+  reverseConvert(html: string, kits: KitMap): SyncResult {
     try {
-      const source = reverseToMkly(html);
+      const source = reverseToMkly(html, kits);
       return { source };
     } catch (e) {
       return { error: `Reverse conversion failed: ${String(e)}` };
     }
   }
 
-  debouncedReverse(html: string, callback: (result: SyncResult) => void, debounceMs = 400) {
+  debouncedReverse(html: string, kits: KitMap, callback: (result: SyncResult) => void, debounceMs = 400) {
     clearTimeout(this.reverseTimer);
     this.reverseTimer = setTimeout(() => {
-      callback(this.reverseConvert(html));
+      callback(this.reverseConvert(html, kits));
     }, debounceMs);
   }
 
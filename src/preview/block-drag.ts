@@ -0,0 +1,140 @@
+import type { EditorStore, FocusOrigin } from '../store/editor-store';
+import { moveBlockInStore } from '../block-dock/block-outline';
+
+// The handle and indicator hang off <html>, outside the body that Edit mode reverse-converts
+export const BLOCK_DRAG_CSS = [
+  '.mkly-drag-handle{position:fixed;z-index:2147483646;display:none;width:14px;height:20px;border-radius:4px;background:rgba(59,130,246,0.9);color:#fff;font:bold 11px/20px -apple-system,system-ui,sans-serif;text-align:center;letter-spacing:-2px;cursor:grab;user-select:none}',
+  '.mkly-drop-indicator{position:fixed;z-index:2147483646;display:none;height:2px;border-radius:1px;background:#3b82f6;pointer-events:none}',
+  '[data-mkly-dragging]{opacity:0.4}',
+  'html.mkly-block-dragging,html.mkly-block-dragging *{cursor:grabbing !important}',
+].join('');
+
+const BLOCK_SELECTOR = '[data-mkly-id][data-mkly-line]';
+
+interface DropTarget {
+  line: number;
+  edge: 'before' | 'after';
+}
+
+function blockAt(doc: Document, x: number, y: number): HTMLElement | null {
+  return doc.elementFromPoint(x, y)?.closest<HTMLElement>(BLOCK_SELECTOR) ?? null;
+}
+
+/**
+ * Drag handles on the rendered blocks. Hovering a block shows a handle at its
+ * left edge; dragging it shows where the block would land, and dropping moves
+ * the block's whole source range (container children included). Drops are
+ * ignored while the iframe shows output of an older source, since its line
+ * numbers would no longer match. Returns a cleanup function.
+ */
+export function bindBlockDrag(doc: Document, origin: FocusOrigin, store: EditorStore): () => void {
+  const root = doc.documentElement;
+  const handle = doc.createElement('div');
+  handle.className = 'mkly-drag-handle';
+  handle.textContent = '⋮⋮';
+  handle.title = 'Drag to move this block';
+  const indicator = doc.createElement('div');
+  indicator.className = 'mkly-drop-indicator';
+  root.append(handle, indicator);
+
+  let hovered: HTMLElement | null = null;
+  let dragged: HTMLElement | null = null;
+  let target: DropTarget | null = null;
+
+  const hideHandle = () => {
+    hovered = null;
+    handle.style.display = 'none';
+  };
+
+  const showHandle = (block: HTMLElement) => {
+    hovered = block;
+    const rect = block.getBoundingClientRect();
+    handle.style.left = `${Math.max(2, rect.left - 16)}px`;
+    handle.style.top = `${Math.max(2, rect.top)}px`;
+    handle.style.display = 'block';
+  };
+
+  const onMove = (e: MouseEvent) => {
+    if (dragged) {
+      const block = blockAt(doc, e.clientX, e.clientY);
+      if (!block || dragged.contains(block)) {
+        target = null;
+        indicator.style.display = 'none';
+        return;
+      }
+      const rect = block.getBoundingClientRect();
+      const edge = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+      target = { line: Number(block.dataset.mklyLine), edge };
+      indicator.style.left = `${rect.left}px`;
+      indicator.style.width = `${rect.width}px`;
+      indicator.style.top = `${(edge === 'before' ? rect.top : rect.bottom) - 1}px`;
+      indicator.style.display = 'block';
+      return;
+    }
+    if (e.target === handle) return;
+    if (doc.body.classList.contains('mkly-style-pick')) {
+      hideHandle();
+      return;
+    }
+    const block = blockAt(doc, e.clientX, e.clientY);
+    if (!block) hideHandle();
+    else if (block !== hovered) showHandle(block);
+  };
+
+  const endDrag = () => {
+    dragged?.removeAttribute('data-mkly-dragging');
+    dragged = null;
+    target = null;
+    indicator.style.display = 'none';
+    root.classList.remove('mkly-block-dragging');
+  };
+
+  const onHandleDown = (e: MouseEvent) => {
+    if (!hovered || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragged = hovered;
+    dragged.setAttribute('data-mkly-dragging', '');
+    root.classList.add('mkly-block-dragging');
+    handle.style.display = 'none';
+  };
+
+  const onUp = () => {
+    if (!dragged) return;
+    const fromLine = Number(dragged.dataset.mklyLine);
+    const drop = target;
+    endDrag();
+    hideHandle();
+    const { source, compiledSource } = store.getState();
+    if (drop && compiledSource === source) moveBlockInStore(store, fromLine, drop.line, drop.edge, origin);
+  };
+
+  const onLeave = () => {
+    hideHandle();
+    if (!dragged) return;
+    target = null;
+    indicator.style.display = 'none';
+  };
+
+  const onKey = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && dragged) endDrag();
+  };
+
+  handle.addEventListener('mousedown', onHandleDown);
+  doc.addEventListener('mousemove', onMove);
+  doc.addEventListener('mouseup', onUp);
+  doc.addEventListener('keydown', onKey);
+  doc.addEventListener('scroll', hideHandle, true);
+  root.addEventListener('mouseleave', onLeave);
+
+  return () => {
+    endDrag();
+    handle.remove();
+    indicator.remove();
+    doc.removeEventListener('mousemove', onMove);
+    doc.removeEventListener('mouseup', onUp);
+    doc.removeEventListener('keydown', onKey);
+    doc.removeEventListener('scroll', hideHandle, true);
+    root.removeEventListener('mouseleave', onLeave);
+  };
+}
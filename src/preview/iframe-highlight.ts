@@ -1,10 +1,34 @@
 import { findBlockElement, shouldScrollToBlock } from '../store/selection-orchestrator';
-import type { FocusOrigin, FocusIntent } from '../store/editor-store';
-import { useEditorStore } from '../store/editor-store';
+import type { CollabPeer, EditorStore, FocusOrigin, FocusIntent } from '../store/editor-store';
+import { openComments } from '../store/use-comment-threads';
+import type { CommentThread } from '../store/comment-threads';
+import type { BlockDiffKind } from '../store/block-diff';
 import { detectTarget, extractBlockType, findSourceLine, resolveInlineElement } from './target-detect';
 
 export const ACTIVE_BLOCK_CSS = '[data-mkly-active]{outline:2px solid rgba(59,130,246,0.5);outline-offset:2px;transition:outline 0.15s}';
 export const STYLE_SELECTED_ATTR = 'data-mkly-style-selected';
+// Blocks other collaborators are in: outlined in their color with a name badge
+export const PRESENCE_CSS = [
+  '[data-mkly-presence]{outline:2px dashed var(--mkly-presence-color,#3d8bd4);outline-offset:4px;position:relative}',
+  '[data-mkly-presence]::before{content:attr(data-mkly-presence);position:absolute;top:-14px;right:0;z-index:10;padding:1px 5px;border-radius:3px;background:var(--mkly-presence-color,#3d8bd4);color:#fff;font:600 10px/1.4 -apple-system,system-ui,sans-serif;pointer-events:none}',
+].join('\n');
+
+// Blocks with open comment threads: a count pin on the top-right corner
+export const COMMENT_PIN_CSS = [
+  '[data-mkly-comments]{position:relative}',
+  '[data-mkly-comments]::after{content:attr(data-mkly-comments);position:absolute;top:-9px;right:-9px;z-index:11;min-width:18px;height:18px;padding:0 4px;box-sizing:border-box;border-radius:9px 9px 9px 2px;background:#e2725b;color:#fff;font:700 10px/18px -apple-system,system-ui,sans-serif;text-align:center;cursor:pointer;box-shadow:0 1px 3px rgba(0,0,0,0.25)}',
+].join('\n');
+
+// Content changed by pending suggestions
+export const SUGGESTION_CSS = '[data-mkly-suggested]{background-color:rgba(76,175,122,0.12);box-shadow:inset 3px 0 0 #4caf7a}';
+
+// Blocks that differ between two compared versions
+export const DIFF_MARK_CSS = [
+  '[data-mkly-diff]{outline-offset:2px}',
+  '[data-mkly-diff="changed"]{outline:2px solid #e0a030}',
+  '[data-mkly-diff="added"]{outline:2px solid #4caf7a}',
+  '[data-mkly-diff="removed"]{outline:2px solid #d9534f}',
+].join('');
 
 export const STYLE_PICK_CSS = [
   '[data-mkly-style-hover]{outline:2px dashed rgba(226,114,91,0.7)!important;outline-offset:2px;cursor:pointer!important}',
@@ -189,11 +213,101 @@ export function syncActiveBlock(
   }
 }
 
+/**
+ * Mark the blocks collaborators are in. Peers sharing a block share the
+ * badge; the first one's color wins. Colors go in a head stylesheet rather
+ * than inline styles, which the edit pane would carry back into the source
+ * (data-mkly-* attributes are stripped before reverse conversion).
+ */
+export function syncPresence(doc: Document, peers: CollabPeer[]): void {
+  doc.querySelectorAll('[data-mkly-presence]').forEach((el) => {
+    el.removeAttribute('data-mkly-presence');
+    el.removeAttribute('data-mkly-presence-peer');
+  });
+  const byBlock = new Map<HTMLElement, CollabPeer[]>();
+  for (const peer of peers) {
+    if (peer.blockLine === null) continue;
+    const el = resolveActiveBlockElement(doc, peer.blockLine);
+    if (!el) continue;
+    byBlock.set(el, [...(byBlock.get(el) ?? []), peer]);
+  }
+  for (const [el, blockPeers] of byBlock) {
+    el.setAttribute('data-mkly-presence', blockPeers.map((peer) => peer.name).join(', '));
+    el.setAttribute('data-mkly-presence-peer', String(blockPeers[0].clientId));
+  }
+
+  let style = doc.getElementById('mkly-presence-colors');
+  if (!style) {
+    style = doc.createElement('style');
+    style.id = 'mkly-presence-colors';
+    (doc.head ?? doc.documentElement).appendChild(style);
+  }
+  style.textContent = peers
+    .map((peer) => `[data-mkly-presence-peer="${peer.clientId}"]{--mkly-presence-color:${peer.color}}`)
+    .join('\n');
+}
+
+/** Pin the open thread count on each commented block. */
+export function syncCommentPins(doc: Document, threads: CommentThread[]): void {
+  doc.querySelectorAll('[data-mkly-comments]').forEach((el) => el.removeAttribute('data-mkly-comments'));
+  const counts = new Map<number, number>();
+  for (const thread of threads) {
+    if (thread.resolved || thread.detached) continue;
+    counts.set(thread.line, (counts.get(thread.line) ?? 0) + 1);
+  }
+  for (const [line, count] of counts) {
+    const el = findBlockElement(line, doc);
+    if (el?.hasAttribute('data-mkly-id')) el.setAttribute('data-mkly-comments', String(count));
+  }
+}
+
+/**
+ * Mark the elements rendered from source lines that pending suggestions
+ * touch. Lines without an element of their own mark the nearest one above.
+ */
+export function syncSuggestionMarks(doc: Document, lines: number[]): void {
+  doc.querySelectorAll('[data-mkly-suggested]').forEach((el) => el.removeAttribute('data-mkly-suggested'));
+  for (const line of lines) {
+    for (let l = line; l >= 1 && l > line - 50; l--) {
+      const el = doc.querySelector(`[data-mkly-line="${l}"]`);
+      if (el) {
+        el.setAttribute('data-mkly-suggested', '');
+        break;
+      }
+    }
+  }
+}
+
+/** Mark rendered blocks by how they differ, keyed by header line. */
+export function markDiffBlocks(doc: Document, lines: Map<number, BlockDiffKind>): void {
+  doc.querySelectorAll('[data-mkly-diff]').forEach((el) => el.removeAttribute('data-mkly-diff'));
+  for (const [line, kind] of lines) {
+    findBlockElement(line, doc)?.setAttribute('data-mkly-diff', kind);
+  }
+}
+
+/**
+ * Open the comments tab when a pin is clicked. The pin is a pseudo-element,
+ * so the click lands on its block; it counts when it falls on the corner.
+ */
+export function bindCommentPins(doc: Document, store: EditorStore): () => void {
+  const handler = (e: MouseEvent) => {
+    const el = eventTargetToElement(e.target)?.closest<HTMLElement>('[data-mkly-comments]');
+    if (!el?.dataset.mklyLine) return;
+    const rect = el.getBoundingClientRect();
+    if (e.clientX < rect.right - 12 || e.clientY > rect.top + 12) return;
+    e.preventDefault();
+    openComments(store, Number(el.dataset.mklyLine));
+  };
+  doc.body.addEventListener('mousedown', handler);
+  return () => doc.body.removeEventListener('mousedown', handler);
+}
+
 /**
  * Bind mousedown on [data-mkly-line] elements to focus the block in the editor.
  * Returns a cleanup function.
  */
-export function bindBlockClicks(doc: Document, origin: FocusOrigin): () => void {
+export function bindBlockClicks(doc: Document, origin: FocusOrigin, store: EditorStore): () => void {
   const handler = (e: MouseEvent) => {
     const target = eventTargetToElement(e.target);
     if (!target) return;
@@ -201,7 +315,7 @@ export function bindBlockClicks(doc: Document, origin: FocusOrigin): () => void
     const el = target.closest<HTMLElement>('[data-mkly-line]');
     if (el?.dataset.mklyLine) {
       const line = Number(el.dataset.mklyLine);
-      useEditorStore.getState().focusBlock(line, origin);
+      store.getState().focusBlock(line, origin);
     }
   };
   doc.body.addEventListener('mousedown', handler);
@@ -278,6 +392,7 @@ export function bindStylePickClick(
   doc: Document,
   iframeEl: HTMLIFrameElement,
   origin: FocusOrigin,
+  store: EditorStore,
 ): () => void {
   const handler = (e: MouseEvent) => {
     const clicked = eventTargetToElement(e.target);
@@ -351,13 +466,13 @@ export function bindStylePickClick(
     const selectedLineValue = selectedLineAttr ? Number(selectedLineAttr) : Number.NaN;
     const selectedLineNumber = Number.isFinite(selectedLineValue) ? selectedLineValue : undefined;
     const focusLine = targetLine ?? selectedLineNumber ?? line;
-    const store = useEditorStore.getState();
-    store.focusBlock(focusLine, origin);
-    const selectionId = useEditorStore.getState().selectionId;
+    const state = store.getState();
+    state.focusBlock(focusLine, origin);
+    const selectionId = store.getState().selectionId;
     const targetTag = target.startsWith('>')
       ? selectedEl.tagName.toLowerCase()
       : undefined;
-    store.openStylePopup({
+    state.openStylePopup({
       blockType,
       target,
       targetTag,
@@ -79,9 +79,16 @@ function syncScriptTags(doc: Document, newDoc: Document): void {
  * - Body-level event handlers (mousedown, input, click)
  * - Focus state on unchanged elements
  *
+ * Top-level blocks whose line is in `unchangedBlocks` are left untouched —
+ * the caller vouches that their HTML is identical to what's in the iframe.
+ *
  * Returns false if the iframe hasn't been initialized (caller should do full doc.write).
  */
-export function morphIframeContent(doc: Document, newHtml: string): boolean {
+export function morphIframeContent(
+  doc: Document,
+  newHtml: string,
+  unchangedBlocks?: ReadonlySet<number>,
+): boolean {
   const existingMain = doc.querySelector('.mkly-document');
   if (!existingMain) return false;
 
@@ -106,6 +113,12 @@ export function morphIframeContent(doc: Document, newHtml: string): boolean {
   // 4. Morph the .mkly-document element (content + attributes)
   morphdom(existingMain, newMain, {
     onBeforeElUpdated(fromEl, toEl) {
+      if (unchangedBlocks && fromEl.parentNode === existingMain) {
+        const line = toEl.getAttribute('data-mkly-line');
+        if (line !== null && line === fromEl.getAttribute('data-mkly-line') && unchangedBlocks.has(Number(line))) {
+          return false;
+        }
+      }
       // Preserve data-mkly-active highlight (set by editor, not in compiled HTML)
       if (fromEl.hasAttribute('data-mkly-active')) {
         toEl.setAttribute('data-mkly-active', '');
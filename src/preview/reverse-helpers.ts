@@ -1,8 +1,5 @@
-import { htmlToMkly, CORE_KIT } from '@mklyml/core';
-import type { MklyKit } from '@mklyml/core';
-import { NEWSLETTER_KIT } from '@mklyml/kits/newsletter';
-
-export const MKLY_KITS: Record<string, MklyKit> = { core: CORE_KIT, newsletter: NEWSLETTER_KIT };
+import { htmlToMkly } from '@mklyml/core';
+import type { KitMap } from '../store/kit-config';
 
 const SKIP_BLOCK_TYPES = new Set(['use', 'meta', 'theme', 'preset', 'style']);
 
@@ -22,10 +19,10 @@ export function cleanHtmlForReverse(html: string): string {
 }
 
 /**
- * Reverse-convert HTML to mkly source using the standard kit config.
+ * Reverse-convert HTML to mkly source using the editor's configured kits.
  */
-export function reverseToMkly(html: string): string {
-  return htmlToMkly(cleanHtmlForReverse(html), { kits: MKLY_KITS });
+export function reverseToMkly(html: string, kits: KitMap): string {
+  return htmlToMkly(cleanHtmlForReverse(html), { kits });
 }
 
 /**
@@ -1,12 +1,45 @@
 import { useMemo } from 'react';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { resolveStorageConflict } from '../store/use-document-storage';
+import { resolveTabConflict } from '../store/use-tab-sync';
+import type { CollabStatus } from '../store/collab-provider';
+import type { StorageStatus } from '../store/editor-store';
+
+const STORAGE_LABELS: Record<StorageStatus, string> = {
+  idle: '',
+  loading: 'Loading…',
+  saving: 'Saving…',
+  saved: 'Saved',
+  conflict: 'Changed elsewhere',
+  error: 'Save failed',
+};
+
+const COLLAB_LABELS: Record<CollabStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Live',
+  disconnected: 'Offline',
+};
+
+const linkStyle = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  font: 'inherit',
+  color: 'var(--ed-accent)',
+  cursor: 'pointer',
+} as const;
 
 export function StatusBar() {
-  const source = useEditorStore((s) => s.source);
-  const html = useEditorStore((s) => s.html);
-  const errors = useEditorStore((s) => s.errors);
-  const cursorLine = useEditorStore((s) => s.cursorLine);
-  const outputMode = useEditorStore((s) => s.outputMode);
+  const source = useEditorState((s) => s.source);
+  const html = useEditorState((s) => s.html);
+  const errors = useEditorState((s) => s.errors);
+  const cursorLine = useEditorState((s) => s.cursorLine);
+  const outputMode = useEditorState((s) => s.outputMode);
+  const storageStatus = useEditorState((s) => s.storageStatus);
+  const storageError = useEditorState((s) => s.storageError);
+  const tabSync = useEditorState((s) => s.tabSync);
+  const collab = useEditorState((s) => s.collab);
+  const editorStore = useEditorStoreApi();
 
   const blockCount = (source.match(/^--- \w/gm) ?? []).length;
   const htmlSize = useMemo(() => html ? new Blob([html]).size : 0, [html]);
@@ -56,6 +89,77 @@ export function StatusBar() {
       )}
 
       <div style={{ flex: 1 }} />
+      {tabSync.conflictSource !== null && (
+        <span style={{ display: 'flex', gap: 8, color: 'var(--ed-warning-text)' }}>
+          Also edited in another tab
+          <button
+            style={linkStyle}
+            onClick={() => resolveTabConflict(editorStore, 'use-remote')}
+            title="Replace your version with the other tab's (undoable)"
+          >
+            Use theirs
+          </button>
+          <button
+            style={linkStyle}
+            onClick={() => resolveTabConflict(editorStore, 'keep-local')}
+            title="Keep your version; the other tabs switch to it"
+          >
+            Keep mine
+          </button>
+        </span>
+      )}
+      {tabSync.peers > 0 && tabSync.conflictSource === null && (
+        <span title={tabSync.isWriter ? 'This tab saves the document' : 'Another tab saves the document'}>
+          {tabSync.peers + 1} tabs
+        </span>
+      )}
+      {collab && (
+        <span
+          style={{ display: 'flex', alignItems: 'center', gap: 6, color: collab.status === 'disconnected' ? 'var(--ed-warning-text)' : undefined }}
+          title={collab.status === 'disconnected' ? 'Edits are kept and sent on reconnect' : `Room ${collab.room}`}
+        >
+          {collab.peers.map((peer) => (
+            <span
+              key={peer.clientId}
+              title={peer.name}
+              style={{ width: 8, height: 8, borderRadius: '50%', background: peer.color }}
+            />
+          ))}
+          {COLLAB_LABELS[collab.status]}
+        </span>
+      )}
+      {storageStatus !== 'idle' && (
+        <span
+          style={{
+            display: 'flex',
+            gap: 8,
+            color: storageStatus === 'conflict' || storageStatus === 'error'
+              ? 'var(--ed-warning-text)'
+              : undefined,
+          }}
+          title={storageError ?? undefined}
+        >
+          {STORAGE_LABELS[storageStatus]}
+          {storageStatus === 'conflict' && (
+            <>
+              <button
+                style={linkStyle}
+                onClick={() => resolveStorageConflict(editorStore, 'use-stored')}
+                title="Replace your version with the stored one (undoable)"
+              >
+                Reload
+              </button>
+              <button
+                style={linkStyle}
+                onClick={() => resolveStorageConflict(editorStore, 'keep-local')}
+                title="Save your version over the stored one"
+              >
+                Overwrite
+              </button>
+            </>
+          )}
+        </span>
+      )}
       <span>Ln {cursorLine}</span>
     </div>
   );
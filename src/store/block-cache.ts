@@ -0,0 +1,273 @@
+import { parse } from '@mklyml/core';
+import type { CompileResult, ParseError, CompileError, MklyBlock, SourceMapEntry } from '@mklyml/core';
+
+type CompileErrorEntry = ParseError | CompileError;
+
+/** Identity of one top-level block's rendered HTML, used to skip unchanged blocks when morphing. */
+export interface CompiledBlock {
+  line: number;
+  key: number;
+}
+
+export interface IncrementalCompileResult {
+  html: string;
+  errors: CompileErrorEntry[];
+  sourceMap: SourceMapEntry[];
+  blocks: CompiledBlock[];
+}
+
+interface BlockRange {
+  start: number;
+  end: number;
+  blockType: string;
+  text: string;
+}
+
+// Block output stored with line numbers relative to the block header (header = line 1).
+interface CachedBlock {
+  key: number;
+  html: string;
+  errors: CompileErrorEntry[];
+  entry: SourceMapEntry;
+  contributesCss: boolean;
+}
+
+// Source outside blocks: lines [start, start + lines.length).
+interface Gap {
+  start: number;
+  lines: string[];
+}
+
+// Context errors are anchored to a gap so they follow it when blocks grow.
+interface ShellError {
+  error: CompileErrorEntry;
+  gap: number;
+  offset: number;
+}
+
+interface DocumentShell {
+  prefix: string;
+  suffix: string;
+  errors: ShellError[];
+}
+
+const MAIN_OPEN_RE = /<main class="mkly-document"[^>]*>/;
+const LINE_ATTR_RE = /\b(data-mkly-line|data-line)="(\d+)"/g;
+const MKLY_ID_RE = /\bdata-mkly-id="([^"]*):(\d+)"/g;
+
+function shiftHtmlLines(html: string, delta: number): string {
+  if (delta === 0) return html;
+  return html
+    .replace(LINE_ATTR_RE, (_m, attr: string, line: string) => `${attr}="${Number(line) + delta}"`)
+    .replace(MKLY_ID_RE, (_m, type: string, line: string) => `data-mkly-id="${type}:${Number(line) + delta}"`);
+}
+
+function shiftEntry(entry: SourceMapEntry, delta: number): SourceMapEntry {
+  return {
+    ...entry,
+    sourceLine: entry.sourceLine + delta,
+    sourceEndLine: entry.sourceEndLine + delta,
+    children: entry.children.map((child) => shiftEntry(child, delta)),
+  };
+}
+
+function shiftError(error: CompileErrorEntry, delta: number): CompileErrorEntry {
+  if (delta === 0) return error;
+  const shifted = { ...error, line: error.line + delta };
+  if (error.range) {
+    shifted.range = {
+      start: { ...error.range.start, line: error.range.start.line + delta },
+      end: { ...error.range.end, line: error.range.end.line + delta },
+    };
+  }
+  return shifted;
+}
+
+function splitShell(html: string): { prefix: string; suffix: string; contentStart: number } | null {
+  const open = MAIN_OPEN_RE.exec(html);
+  const close = html.lastIndexOf('</main>');
+  if (!open || close === -1) return null;
+  const contentStart = open.index + open[0].length;
+  return { prefix: html.slice(0, contentStart), suffix: html.slice(close), contentStart };
+}
+
+/**
+ * Per-block compile cache for web output.
+ *
+ * Top-level blocks are cached by their source text. Everything outside them
+ * (use/theme/preset/meta/style/define blocks) plus
+ * the sequence of block types forms the context: when it changes, the whole
+ * cache is dropped and the document shell (head, CSS, <main> wrapper) is
+ * recompiled. Only blocks with new text are sent to mkly, compiled in place
+ * against the context so line numbers, errors and source map entries match a
+ * full compile; cached blocks are shifted to their current line.
+ *
+ * compile() returns null when the document can't be assembled from blocks —
+ * callers fall back to a full compile. That includes any document with
+ * comments: core renders them into the output without exporting how.
+ */
+export class BlockCompileCache {
+  private contextKey: string | null = null;
+  private shell: DocumentShell | null = null;
+  private entries = new Map<string, CachedBlock>();
+  private nextKey = 1;
+
+  compile(
+    source: string,
+    contextTag: string,
+    compileSource: (source: string) => CompileResult,
+  ): IncrementalCompileResult | null {
+    const lines = source.split('\n');
+    const doc = parse(source);
+    if (doc.comments.length > 0) return null;
+    const ranges = this.blockRanges(doc.blocks, lines);
+
+    const gaps = this.gaps(ranges, lines);
+
+    // Context: everything outside blocks, with each block reduced to a bare
+    // header so ordering diagnostics and the shell match the real document.
+    // Keyed without line positions so typing inside a block keeps the cache.
+    const base = lines.slice();
+    for (const range of ranges) {
+      for (let i = range.start; i <= range.end; i++) base[i - 1] = '';
+      base[range.start - 1] = `--- ${range.blockType}`;
+    }
+    let contextKey = contextTag;
+    gaps.forEach((gap, i) => {
+      contextKey += `\0${gap.lines.join('\n')}`;
+      if (i < ranges.length) contextKey += `\0${ranges[i].blockType}`;
+    });
+    if (contextKey !== this.contextKey) {
+      this.contextKey = contextKey;
+      this.entries.clear();
+      this.shell = this.compileShell(base, ranges, gaps, compileSource);
+    }
+    const shell = this.shell;
+    if (!shell) return null;
+
+    const misses = new Map<string, BlockRange>();
+    for (const range of ranges) {
+      if (!this.entries.has(range.text) && !misses.has(range.text)) misses.set(range.text, range);
+    }
+    if (misses.size > 0 && !this.compileBlocks([...misses.values()], base, shell, compileSource)) {
+      return null;
+    }
+
+    const parts: string[] = [];
+    const sourceMap: SourceMapEntry[] = [];
+    const blocks: CompiledBlock[] = [];
+    const errors = shell.errors.map(({ error, gap, offset }) =>
+      shiftError(error, gaps[gap].start + offset - error.line));
+    const live = new Set<string>();
+    let offset = 0;
+
+    for (const range of ranges) {
+      const cached = this.entries.get(range.text);
+      if (!cached || cached.contributesCss) return null;
+      live.add(range.text);
+
+      const delta = range.start - 1;
+      const html = shiftHtmlLines(cached.html, delta);
+      parts.push(html);
+      sourceMap.push({ ...shiftEntry(cached.entry, delta), htmlOffset: offset, htmlLength: html.length });
+      blocks.push({ line: range.start, key: cached.key });
+      for (const error of cached.errors) errors.push(shiftError(error, delta));
+      offset += html.length + 1;
+    }
+
+    for (const text of this.entries.keys()) {
+      if (!live.has(text)) this.entries.delete(text);
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return {
+      html: shell.prefix + parts.join('\n') + shell.suffix,
+      errors,
+      sourceMap,
+      blocks,
+    };
+  }
+
+  private blockRanges(blocks: MklyBlock[], lines: string[]): BlockRange[] {
+    return blocks.map((block, i) => {
+      const start = block.position.start.line;
+      const next = blocks[i + 1]?.position.start.line ?? lines.length + 1;
+      const end = Math.max(start, Math.min(block.position.end.line, next - 1, lines.length));
+      return { start, end, blockType: block.blockType, text: lines.slice(start - 1, end).join('\n') };
+    });
+  }
+
+  private gaps(ranges: BlockRange[], lines: string[]): Gap[] {
+    const gaps: Gap[] = [];
+    let next = 1;
+    for (const range of ranges) {
+      gaps.push({ start: next, lines: lines.slice(next - 1, range.start - 1) });
+      next = range.end + 1;
+    }
+    gaps.push({ start: next, lines: lines.slice(next - 1) });
+    return gaps;
+  }
+
+  private compileShell(
+    base: string[],
+    ranges: BlockRange[],
+    gaps: Gap[],
+    compileSource: (source: string) => CompileResult,
+  ): DocumentShell | null {
+    const result = compileSource(base.join('\n'));
+    const shell = splitShell(result.html);
+    if (!shell) return null;
+
+    // Errors on stub headers belong to the real blocks, which report their own
+    const errors: ShellError[] = [];
+    for (const error of result.errors) {
+      if (ranges.some((range) => error.line >= range.start && error.line <= range.end)) continue;
+      const gap = gaps.findIndex((g) => error.line >= g.start && error.line < g.start + g.lines.length);
+      errors.push(gap === -1
+        ? { error, gap: 0, offset: error.line - 1 }
+        : { error, gap, offset: error.line - gaps[gap].start });
+    }
+    return { prefix: shell.prefix, suffix: shell.suffix, errors };
+  }
+
+  /** Compile the given blocks in place against the context. Returns false if output couldn't be split. */
+  private compileBlocks(
+    misses: BlockRange[],
+    base: string[],
+    shell: DocumentShell,
+    compileSource: (source: string) => CompileResult,
+  ): boolean {
+    const lines = base.slice();
+    for (const range of misses) {
+      const text = range.text.split('\n');
+      for (let i = 0; i < text.length; i++) lines[range.start - 1 + i] = text[i];
+    }
+    const result = compileSource(lines.join('\n'));
+    const split = splitShell(result.html);
+    if (!split || !result.sourceMap) return false;
+
+    // A block that adds CSS to the head (e.g. prettified html) changes the
+    // shell. Narrow it down so only the offending block forces full compiles.
+    const contributesCss = split.prefix !== shell.prefix;
+    if (contributesCss && misses.length > 1) {
+      return misses.every((range) => this.compileBlocks([range], base, shell, compileSource));
+    }
+
+    for (const range of misses) {
+      const entry = result.sourceMap.find((e) => e.sourceLine === range.start);
+      if (!entry) return false;
+      const delta = -(range.start - 1);
+      const html = result.html.substr(split.contentStart + entry.htmlOffset, entry.htmlLength);
+      this.entries.set(range.text, {
+        key: this.nextKey++,
+        html: shiftHtmlLines(html, delta),
+        errors: result.errors
+          .filter((error) => error.line >= range.start && error.line <= range.end)
+          .map((error) => shiftError(error, delta)),
+        entry: shiftEntry(entry, delta),
+        contributesCss,
+      });
+    }
+    return true;
+  }
+}
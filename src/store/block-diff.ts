@@ -0,0 +1,161 @@
+import { diffLines } from './line-diff';
+import type { DiffLine } from './line-diff';
+
+export interface SourceBlock {
+  /** Block type from the header line; '' for lines before the first header. */
+  type: string;
+  label: string | null;
+  /** 1-based line of the header. */
+  line: number;
+  text: string;
+}
+
+export type BlockDiffKind = 'same' | 'changed' | 'added' | 'removed';
+
+export interface BlockDiff {
+  kind: BlockDiffKind;
+  type: string;
+  label: string | null;
+  /** Header line in `before` (null for added blocks). */
+  oldLine: number | null;
+  /** Header line in `after` (null for removed blocks). */
+  newLine: number | null;
+  /** Line diff of the block, numbered as in the full sources. */
+  lines: DiffLine[];
+}
+
+const HEADER_RE = /^---\s+([\w]+(?:\/[\w]+)?)(?::\s*(.*))?$/;
+
+/** Split a source at block headers. Closing lines stay with the block they end. */
+export function splitBlocks(source: string): SourceBlock[] {
+  const blocks: SourceBlock[] = [];
+  const lines = source.split('\n');
+  let start = 0;
+  for (let i = 1; i <= lines.length; i++) {
+    if (i < lines.length && !HEADER_RE.test(lines[i].trim())) continue;
+    const match = lines[start].trim().match(HEADER_RE);
+    blocks.push({
+      type: match?.[1] ?? '',
+      label: match?.[2]?.trim() || null,
+      line: start + 1,
+      text: lines.slice(start, i).join('\n'),
+    });
+    start = i;
+  }
+  return blocks;
+}
+
+function blockKey(block: SourceBlock): string {
+  return `${block.type}\0${block.label ?? ''}`;
+}
+
+function offsetLines(lines: DiffLine[], oldStart: number, newStart: number): DiffLine[] {
+  return lines.map((line) => ({
+    ...line,
+    oldLine: line.oldLine === null ? null : line.oldLine + oldStart - 1,
+    newLine: line.newLine === null ? null : line.newLine + newStart - 1,
+  }));
+}
+
+function pairBlocks(a: SourceBlock, b: SourceBlock): BlockDiff {
+  const lines = offsetLines(diffLines(a.text, b.text), a.line, b.line);
+  return {
+    kind: lines.every((l) => l.kind === 'same') ? 'same' : 'changed',
+    type: b.type,
+    label: b.label,
+    oldLine: a.line,
+    newLine: b.line,
+    lines,
+  };
+}
+
+function removedBlock(a: SourceBlock): BlockDiff {
+  const lines = a.text.split('\n').map((text, i): DiffLine => ({ kind: 'removed', text, oldLine: a.line + i, newLine: null }));
+  return { kind: 'removed', type: a.type, label: a.label, oldLine: a.line, newLine: null, lines };
+}
+
+function addedBlock(b: SourceBlock): BlockDiff {
+  const lines = b.text.split('\n').map((text, i): DiffLine => ({ kind: 'added', text, oldLine: null, newLine: b.line + i }));
+  return { kind: 'added', type: b.type, label: b.label, oldLine: null, newLine: b.line, lines };
+}
+
+/**
+ * Block-level diff of two sources. Blocks are matched by type and label in
+ * document order, so an edited block shows as one change even when lines
+ * around it moved; between matches, leftover blocks of the same type are
+ * paired up as edits before the rest count as added or removed.
+ */
+export function diffBlocks(before: string, after: string): BlockDiff[] {
+  const a = splitBlocks(before);
+  const b = splitBlocks(after);
+  const keysA = a.map(blockKey);
+  const keysB = b.map(blockKey);
+
+  // Longest common subsequence of block keys, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = keysA[i] === keysB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: BlockDiff[] = [];
+  let gapA: SourceBlock[] = [];
+  let gapB: SourceBlock[] = [];
+  const flushGap = () => {
+    const paired = new Map<SourceBlock, SourceBlock>();
+    for (const removed of gapA) {
+      const match = gapB.find((added) => added.type === removed.type && !paired.has(added));
+      if (match) paired.set(match, removed);
+    }
+    // Removals go out ahead of the edit that follows them in the old source
+    const pairedRemoved = new Set(paired.values());
+    let next = 0;
+    const removeUpTo = (end: number) => {
+      for (; next < end; next++) {
+        if (!pairedRemoved.has(gapA[next])) result.push(removedBlock(gapA[next]));
+      }
+    };
+    for (const added of gapB) {
+      const removed = paired.get(added);
+      if (removed) {
+        removeUpTo(gapA.indexOf(removed));
+        next++;
+        result.push(pairBlocks(removed, added));
+      } else {
+        result.push(addedBlock(added));
+      }
+    }
+    removeUpTo(gapA.length);
+    gapA = [];
+    gapB = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keysA[i] === keysB[j]) {
+      flushGap();
+      result.push(pairBlocks(a[i++], b[j++]));
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      gapA.push(a[i++]);
+    } else {
+      gapB.push(b[j++]);
+    }
+  }
+  gapA.push(...a.slice(i));
+  gapB.push(...b.slice(j));
+  flushGap();
+  return result;
+}
+
+/** Header lines of the blocks that differ, on one side of the diff, for marking rendered output. */
+export function changedBlockLines(diffs: BlockDiff[], side: 'before' | 'after'): Map<number, BlockDiffKind> {
+  const lines = new Map<number, BlockDiffKind>();
+  for (const diff of diffs) {
+    if (diff.kind === 'same' || !diff.type) continue;
+    const line = side === 'before' ? diff.oldLine : diff.newLine;
+    if (line !== null) lines.set(line, diff.kind);
+  }
+  return lines;
+}
@@ -5,8 +5,9 @@ import {
   parseStyleGraph,
   emptyStyleGraph,
   getStyleValue,
+  parseMklyStyle,
 } from '@mklyml/core';
-import type { StyleGraph } from '@mklyml/core';
+import type { MklyKit, StyleGraph } from '@mklyml/core';
 
 /**
  * Property regex: matches mkly property lines like `key: value`.
@@ -35,6 +36,56 @@ export function getStyleVariableValue(graph: StyleGraph | null, name: string): s
   return graph?.variables.find((item) => item.name === name)?.value;
 }
 
+// The themes or presets the document names on `--- theme:`/`--- preset:`
+// lines, looked up in the kits the way the compiler does
+function activeKitEntries<T extends { name: string }>(
+  source: string,
+  kits: Record<string, MklyKit>,
+  directive: 'theme' | 'preset',
+  entriesOf: (kit: MklyKit) => T[] | undefined,
+): T[] {
+  const re = new RegExp(`^---\\s+${directive}:\\s*(.+)$`);
+  const found: T[] = [];
+  for (const line of source.split('\n')) {
+    const name = line.match(re)?.[1].trim();
+    if (!name) continue;
+    const slash = name.indexOf('/');
+    const kitName = slash === -1 ? null : name.slice(0, slash);
+    const entryName = name.slice(slash + 1);
+    for (const kit of Object.values(kits)) {
+      if (kitName !== null && kit.name !== kitName) continue;
+      const entry = entriesOf(kit)?.find((e) => e.name === entryName);
+      if (entry) found.push(entry);
+    }
+  }
+  return found;
+}
+
+/**
+ * The value a style variable compiles with: the document's `--- style`
+ * block first, then its presets and themes, later ones winning.
+ */
+export function resolveStyleVariableValue(
+  graph: StyleGraph | null,
+  source: string,
+  kits: Record<string, MklyKit>,
+  name: string,
+): string | undefined {
+  const own = getStyleVariableValue(graph, name);
+  if (own !== undefined) return own;
+  const presets = activeKitEntries(source, kits, 'preset', (kit) => kit.presets).reverse();
+  for (const preset of presets) {
+    const value = parseMklyStyle(preset.css).variables[name];
+    if (value !== undefined) return value;
+  }
+  const themes = activeKitEntries(source, kits, 'theme', (kit) => kit.themes).reverse();
+  for (const theme of themes) {
+    const value = (theme.css ? parseMklyStyle(theme.css).variables[name] : undefined) ?? theme.variables?.[name];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
 /**
  * Apply a non-style property change to a block in the source.
  * Handles block properties like title, url, level, etc.
@@ -139,6 +190,18 @@ export function applyStyleVariableChange(
   return { newSource, newGraph, lineDelta, lineShiftFrom };
 }
 
+/**
+ * Replace the `--- style` block with a whole StyleGraph, for edits that touch
+ * several rules at once.
+ */
+export function applyStyleGraph(
+  source: string,
+  graph: StyleGraph,
+): PropertyChangeResult & { lineDelta: number; lineShiftFrom: number } {
+  const { result: newSource, lineDelta, lineShiftFrom } = patchStyleBlock(source, serializeStyleGraph(graph));
+  return { newSource, lineDelta, lineShiftFrom };
+}
+
 /**
  * Adjust a source line after patchStyleBlock.
  * Only lines at/after `lineShiftFrom` are affected by lineDelta.
@@ -0,0 +1,165 @@
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+
+// Frame types, each a varUint followed by the payload. Sync and awareness
+// frames match y-websocket; the peer count is sent by the relay on join.
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+export const MESSAGE_PEERS = 2;
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabProviderOptions {
+  /** Defaults to the global WebSocket. */
+  WebSocket?: typeof WebSocket;
+  /** Delay before the first reconnect attempt; doubles up to 30 s. */
+  reconnectMs?: number;
+}
+
+const MAX_RECONNECT_MS = 30_000;
+
+/**
+ * Connects a Y.Doc and its awareness to the other clients of `room` through a
+ * WebSocket relay that forwards every frame to the room's other sockets. On
+ * connect the doc's state vector is sent (sync step 1); whoever answers with
+ * the missing updates brings it up to date. After that every local update and
+ * awareness change is forwarded as it happens. Reconnects with backoff.
+ */
+export class CollabProvider {
+  readonly awareness: awarenessProtocol.Awareness;
+  status: CollabStatus = 'disconnected';
+  /** Caught up with the room: a peer answered, or the relay reported none. */
+  synced = false;
+  onStatus: ((status: CollabStatus) => void) | null = null;
+  onSynced: (() => void) | null = null;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay: number;
+  private destroyed = false;
+  private WebSocketImpl: typeof WebSocket;
+
+  constructor(
+    private url: string,
+    readonly room: string,
+    readonly doc: Y.Doc,
+    private options: CollabProviderOptions = {},
+  ) {
+    this.awareness = new awarenessProtocol.Awareness(doc);
+    this.WebSocketImpl = options.WebSocket ?? WebSocket;
+    this.reconnectDelay = options.reconnectMs ?? 1000;
+    doc.on('update', this.handleDocUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+    this.connect();
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], 'destroy');
+    this.doc.off('update', this.handleDocUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+    this.socket?.close();
+    this.awareness.destroy();
+  }
+
+  private connect(): void {
+    const socket = new this.WebSocketImpl(`${this.url.replace(/\/$/, '')}/${encodeURIComponent(this.room)}`);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.setStatus('connecting');
+
+    socket.onopen = () => {
+      this.reconnectDelay = this.options.reconnectMs ?? 1000;
+      this.setStatus('connected');
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, this.doc);
+      this.send(encoding.toUint8Array(encoder));
+      // Peers only answer step 1, so push what we have (offline edits) ourselves
+      if (this.doc.store.clients.size > 0) {
+        const update = encoding.createEncoder();
+        encoding.writeVarUint(update, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(update, Y.encodeStateAsUpdate(this.doc));
+        this.send(encoding.toUint8Array(update));
+      }
+      if (this.awareness.getLocalState() !== null) {
+        this.send(this.encodeAwareness([this.doc.clientID]));
+      }
+    };
+    socket.onmessage = (event) => this.receive(new Uint8Array(event.data as ArrayBuffer));
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      // Everyone else is gone as far as this client can tell
+      const others = [...this.awareness.getStates().keys()].filter((id) => id !== this.doc.clientID);
+      awarenessProtocol.removeAwarenessStates(this.awareness, others, this);
+      this.setStatus('disconnected');
+      if (this.destroyed) return;
+      this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_MS);
+    };
+  }
+
+  private receive(data: Uint8Array): void {
+    const decoder = decoding.createDecoder(data);
+    const type = decoding.readVarUint(decoder);
+    if (type === MESSAGE_SYNC) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      const syncType = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
+      // Answer a newcomer's step 1 with what it's missing
+      if (encoding.length(encoder) > 1) this.send(encoding.toUint8Array(encoder));
+      if (syncType === syncProtocol.messageYjsSyncStep2) this.markSynced();
+      if (syncType === syncProtocol.messageYjsSyncStep1) {
+        // A peer joined: it needs to see who is here
+        this.send(this.encodeAwareness([...this.awareness.getStates().keys()]));
+      }
+    } else if (type === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), this);
+    } else if (type === MESSAGE_PEERS) {
+      if (decoding.readVarUint(decoder) === 0) this.markSynced();
+    }
+  }
+
+  private markSynced(): void {
+    if (this.synced) return;
+    this.synced = true;
+    this.onSynced?.();
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === this) return;
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    this.send(encoding.toUint8Array(encoder));
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    if (origin === this) return;
+    this.send(this.encodeAwareness([...added, ...updated, ...removed]));
+  };
+
+  private encodeAwareness(clients: number[]): Uint8Array {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, clients));
+    return encoding.toUint8Array(encoder);
+  }
+
+  private send(data: Uint8Array): void {
+    if (this.socket?.readyState === this.WebSocketImpl.OPEN) this.socket.send(data);
+  }
+
+  private setStatus(status: CollabStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.onStatus?.(status);
+  }
+}
@@ -0,0 +1,250 @@
+import type { SourceMapEntry } from '@mklyml/core';
+import { diffLines } from './line-diff';
+import { StorageConflictError, StorageWriter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+
+export interface ThreadComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+/** A discussion about one block, stored apart from the mkly source. */
+export interface CommentThread {
+  id: string;
+  /** Start line of the block it is anchored to. */
+  line: number;
+  blockType: string;
+  resolved: boolean;
+  /** The block was deleted; `line` is where it used to be. */
+  detached: boolean;
+  comments: ThreadComment[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface CommentFile {
+  version: 1;
+  threads: CommentThread[];
+  /** The source the thread lines refer to (missing in files of older versions). */
+  source?: string;
+}
+
+function parseFile(raw: string | null): { threads: CommentThread[]; source: string | null } {
+  const empty = { threads: [], source: null };
+  if (!raw) return empty;
+  try {
+    const parsed = JSON.parse(raw) as CommentFile;
+    if (parsed?.version !== 1 || !Array.isArray(parsed.threads)) return empty;
+    return {
+      threads: parsed.threads.filter((t) => typeof t?.id === 'string' && typeof t.line === 'number' && Array.isArray(t.comments)),
+      source: typeof parsed.source === 'string' ? parsed.source : null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Move thread anchors from `before` to `after`, whose compiled source map is
+ * `sourceMap`. A block whose header line survived keeps its threads. When
+ * only the header changed (its first body line survived), the source map
+ * entry now holding that body line takes them over if it is of the same
+ * type. Otherwise the block is gone and the thread is detached. Returns the
+ * same array when nothing moved.
+ */
+export function remapThreads(
+  threads: CommentThread[],
+  before: string,
+  after: string,
+  sourceMap: SourceMapEntry[],
+): CommentThread[] {
+  if (threads.length === 0 || before === after) return threads;
+  // newLines[oldLine]: where each surviving line of `before` ended up
+  const newLines: Array<number | null> = [null];
+  for (const line of diffLines(before, after)) {
+    if (line.oldLine !== null) newLines[line.oldLine] = line.newLine;
+  }
+  const afterLineCount = after.split('\n').length;
+  // A removed line would sit just below the last line above it that survived
+  const approximate = (oldLine: number): number => {
+    for (let i = oldLine - 1; i >= 1; i--) {
+      const mapped = newLines[i];
+      if (mapped !== null && mapped !== undefined) return Math.min(mapped + 1, afterLineCount);
+    }
+    return 1;
+  };
+
+  let changed = false;
+  const next = threads.map((thread) => {
+    const mapped = newLines[thread.line] ?? null;
+    let line: number;
+    let detached: boolean;
+    if (mapped !== null) {
+      line = mapped;
+      detached = thread.detached;
+    } else {
+      const body = newLines[thread.line + 1] ?? null;
+      const entry = body === null
+        ? undefined
+        : sourceMap.find((e) => body > e.sourceLine && body <= e.sourceEndLine);
+      if (entry && entry.blockType === thread.blockType && !thread.detached) {
+        line = entry.sourceLine;
+        detached = false;
+      } else {
+        line = approximate(thread.line);
+        detached = true;
+      }
+    }
+    if (line === thread.line && detached === thread.detached) return thread;
+    changed = true;
+    return { ...thread, line, detached };
+  });
+  return changed ? next : threads;
+}
+
+/**
+ * Comment threads of one document, persisted as a single entry in the
+ * 'comments' slot together with the source their lines refer to, which may
+ * be an unsaved edit. When another editor saved in the meantime, both lists
+ * are merged by id (the most recently updated copy wins, local deletions
+ * stick) and written again. Anchors stay local: every editor remaps them
+ * against its own copy of the source.
+ */
+export class CommentManager {
+  private writer: StorageWriter;
+  private removed = new Set<string>();
+  private merging: Promise<void> | null = null;
+  threads: CommentThread[] = [];
+  /** The source thread lines refer to; null until known. */
+  source: string | null = null;
+  onChange: ((threads: CommentThread[]) => void) | null = null;
+  onStorageError: ((err: Error) => void) | null = null;
+
+  constructor(documentId: string, storage: StorageAdapter) {
+    this.writer = new StorageWriter(storage, documentId, 'comments');
+    this.writer.onError = (err) => {
+      if (err instanceof StorageConflictError) {
+        this.merging = this.merge()
+          .catch((e) => this.onStorageError?.(e))
+          .finally(() => {
+            this.merging = null;
+          });
+      } else {
+        this.onStorageError?.(err);
+      }
+    };
+  }
+
+  async load(): Promise<CommentThread[]> {
+    const { threads, source } = parseFile(await this.writer.load());
+    this.source = source;
+    this.setThreads(threads);
+    return this.threads;
+  }
+
+  create(line: number, blockType: string, author: string, body: string): CommentThread | null {
+    const text = body.trim();
+    if (!text) return null;
+    const now = Date.now();
+    const thread: CommentThread = {
+      id: newId('t'),
+      line,
+      blockType,
+      resolved: false,
+      detached: false,
+      comments: [{ id: newId('c'), author, body: text, createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.setThreads([...this.threads, thread]);
+    this.persist();
+    return thread;
+  }
+
+  reply(id: string, author: string, body: string): void {
+    const text = body.trim();
+    if (!text) return;
+    this.update(id, (t) => ({
+      // Replying to a resolved thread reopens it
+      resolved: false,
+      comments: [...t.comments, { id: newId('c'), author, body: text, createdAt: Date.now() }],
+    }));
+  }
+
+  setResolved(id: string, resolved: boolean): void {
+    this.update(id, () => ({ resolved }));
+  }
+
+  remove(id: string): void {
+    this.removed.add(id);
+    this.setThreads(this.threads.filter((t) => t.id !== id));
+    this.persist();
+  }
+
+  get(id: string): CommentThread | undefined {
+    return this.threads.find((t) => t.id === id);
+  }
+
+  /**
+   * Follow the source to `source`, whose compiled source map is `sourceMap`
+   * (see remapThreads). Threads loaded against another source, such as an
+   * edit that was never saved, are remapped from it.
+   */
+  anchorTo(source: string, sourceMap: SourceMapEntry[]): void {
+    const before = this.source;
+    if (before === source) return;
+    this.source = source;
+    if (before !== null) {
+      const next = remapThreads(this.threads, before, source, sourceMap);
+      if (next !== this.threads) this.setThreads(next);
+    }
+    if (this.threads.length > 0) this.persist();
+  }
+
+  /** Resolves once every change, including conflict merges, is written. */
+  async flush(): Promise<void> {
+    await this.writer.flush();
+    while (this.merging) {
+      await this.merging;
+      await this.writer.flush();
+    }
+  }
+
+  private update(id: string, change: (thread: CommentThread) => Partial<CommentThread>): void {
+    if (!this.get(id)) return;
+    this.setThreads(this.threads.map((t) => t.id === id ? { ...t, ...change(t), updatedAt: Date.now() } : t));
+    this.persist();
+  }
+
+  private persist(): void {
+    const file: CommentFile = { version: 1, threads: this.threads, ...(this.source !== null && { source: this.source }) };
+    this.writer.write(JSON.stringify(file));
+  }
+
+  private async merge(): Promise<void> {
+    const local = new Map(this.threads.map((t) => [t.id, t]));
+    const byId = new Map<string, CommentThread>();
+    for (const stored of parseFile(await this.writer.load()).threads) {
+      const mine = local.get(stored.id);
+      byId.set(stored.id, mine && mine.updatedAt >= stored.updatedAt
+        ? mine
+        : { ...stored, line: mine?.line ?? stored.line, detached: mine?.detached ?? stored.detached });
+    }
+    for (const thread of this.threads) {
+      if (!byId.has(thread.id)) byId.set(thread.id, thread);
+    }
+    this.setThreads([...byId.values()].filter((t) => !this.removed.has(t.id)));
+    this.persist();
+  }
+
+  private setThreads(threads: CommentThread[]): void {
+    this.threads = [...threads].sort((a, b) => a.line - b.line || a.createdAt - b.createdAt);
+    this.onChange?.(this.threads);
+  }
+}
@@ -0,0 +1,167 @@
+import { mkly, htmlToMkly } from '@mklyml/core';
+import type { ParseError, CompileError, SourceMapEntry, StyleGraph, MklyPlugin } from '@mklyml/core';
+import type { BlockCompileCache, CompiledBlock } from './block-cache';
+import { parseSourceStyleGraph } from './block-properties';
+import { applyCompileCompat } from './compile-compat';
+import { EDITOR_DOCUMENT_MAX_WIDTH } from './compile-config';
+import { resolvePlugins } from './kit-config';
+import type { KitMap } from './kit-config';
+
+export interface CompileRequest {
+  source: string;
+  outputMode: 'web' | 'email';
+  // First load: also round-trip mkly → HTML → mkly and report what was lost
+  normalize: boolean;
+}
+
+export interface CompileOutput {
+  html: string;
+  errors: Array<ParseError | CompileError>;
+  sourceMap: SourceMapEntry[] | null;
+  styleGraph: StyleGraph;
+  // Set when normalization was requested and the reverse pass succeeded
+  normalization?: { source: string; warnings: ParseError[] };
+  // Set when the output was assembled from the block cache
+  blocks?: CompiledBlock[];
+}
+
+function generateNormalizationWarnings(
+  original: string,
+  normalized: string,
+): ParseError[] {
+  const warnings: ParseError[] = [];
+  const origLines = original.split('\n');
+
+  // Detect stripped comments
+  let origCommentCount = 0;
+  let normCommentCount = 0;
+  for (const line of origLines) {
+    if (line.trim().startsWith('//')) origCommentCount++;
+  }
+  for (const line of normalized.split('\n')) {
+    if (line.trim().startsWith('//')) normCommentCount++;
+  }
+  if (origCommentCount > normCommentCount) {
+    const lost = origCommentCount - normCommentCount;
+    warnings.push({
+      severity: 'warning',
+      line: 1,
+      message: `Round-trip: ${lost} comment(s) stripped (not preserved in HTML); keep review notes in the Comments tab`,
+    });
+  }
+
+  // Detect lost style block
+  const origHasStyle = origLines.some(l => l.trim() === '--- style');
+  const normHasStyle = normalized.split('\n').some(l => l.trim() === '--- style');
+  if (origHasStyle && !normHasStyle) {
+    const styleLine = origLines.findIndex(l => l.trim() === '--- style') + 1;
+    warnings.push({
+      severity: 'warning',
+      line: styleLine,
+      message: 'Round-trip: style block partially lost (inline @styles preserved, variable block stripped)',
+    });
+  }
+
+  // Detect lost inline styles (@property lines)
+  let origStyleCount = 0;
+  let normStyleCount = 0;
+  for (const line of origLines) {
+    if (line.trim().startsWith('@') && line.includes(':')) origStyleCount++;
+  }
+  for (const line of normalized.split('\n')) {
+    if (line.trim().startsWith('@') && line.includes(':')) normStyleCount++;
+  }
+  if (origStyleCount > normStyleCount) {
+    warnings.push({
+      severity: 'warning',
+      line: 1,
+      message: `Round-trip: ${origStyleCount - normStyleCount} inline style(s) lost during normalization`,
+    });
+  }
+
+  // Compare block headers (--- type lines)
+  const origBlocks = origLines
+    .map((l, i) => ({ line: i + 1, text: l.trim() }))
+    .filter(l => l.text.startsWith('--- ') && !l.text.startsWith('--- /'));
+  const normBlocks = normalized.split('\n')
+    .map((l, i) => ({ line: i + 1, text: l.trim() }))
+    .filter(l => l.text.startsWith('--- ') && !l.text.startsWith('--- /'));
+
+  const origBlockTypes = origBlocks.map(b => b.text.replace(/^---\s+/, '').split(/[\s:]/)[0]);
+  const normBlockTypes = normBlocks.map(b => b.text.replace(/^---\s+/, '').split(/[\s:]/)[0]);
+
+  // Check for blocks that disappeared
+  const origTypeCounts = new Map<string, number>();
+  const normTypeCounts = new Map<string, number>();
+  for (const t of origBlockTypes) origTypeCounts.set(t, (origTypeCounts.get(t) ?? 0) + 1);
+  for (const t of normBlockTypes) normTypeCounts.set(t, (normTypeCounts.get(t) ?? 0) + 1);
+
+  for (const [type, count] of origTypeCounts) {
+    const normCount = normTypeCounts.get(type) ?? 0;
+    if (normCount < count) {
+      warnings.push({
+        severity: 'warning',
+        line: 1,
+        message: `Round-trip: ${count - normCount} '${type}' block(s) lost`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// Plugins and kit hooks may rewrite the whole document, so block-level
+// caching only applies when nothing but block renderers is involved.
+function canCompileIncrementally(kits: KitMap, plugins: MklyPlugin[]): boolean {
+  return plugins.length === 0
+    && Object.values(kits).every((kit) => !kit.transform && !kit.afterCompile);
+}
+
+/**
+ * One compile pass: mkly → HTML, style graph, compat patches and
+ * (optionally) the first-load normalization round-trip.
+ * With a cache, web output is assembled from per-block results where possible.
+ * Runs unchanged on the main thread or inside the compile worker.
+ */
+export function runCompile(
+  request: CompileRequest,
+  kits: KitMap,
+  plugins: MklyPlugin[],
+  cache?: BlockCompileCache,
+): CompileOutput {
+  const { source, outputMode, normalize } = request;
+  const activePlugins = resolvePlugins(plugins, outputMode);
+  const compileSource = (input: string) => mkly(input, {
+    kits,
+    plugins: activePlugins,
+    sourceMap: true,
+    maxWidth: EDITOR_DOCUMENT_MAX_WIDTH,
+  });
+
+  const incremental = cache && !normalize && canCompileIncrementally(kits, activePlugins)
+    ? cache.compile(source, outputMode, compileSource)
+    : null;
+  const result = incremental ?? compileSource(source);
+  const styleGraph = parseSourceStyleGraph(source);
+  const output: CompileOutput = {
+    html: applyCompileCompat(source, result.html, styleGraph),
+    errors: result.errors,
+    sourceMap: result.sourceMap ?? null,
+    styleGraph,
+  };
+  if (incremental) output.blocks = incremental.blocks;
+
+  if (normalize) {
+    try {
+      const normalized = htmlToMkly(result.html, { kits });
+      output.normalization = {
+        source: normalized,
+        warnings: generateNormalizationWarnings(source, normalized),
+      };
+    } catch {
+      // Normalization failed, caller keeps the original source as-is
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,118 @@
+import type { MklyPlugin } from '@mklyml/core';
+import { BlockCompileCache } from './block-cache';
+import { runCompile } from './compile-core';
+import type { CompileOutput, CompileRequest } from './compile-core';
+import type { CompileWorkerMessage, CompileWorkerResponse } from './compile-worker';
+import type { KitMap } from './kit-config';
+
+export type CompileWorkerFactory = () => Worker;
+
+interface CompileServiceConfig {
+  kits: KitMap;
+  plugins: MklyPlugin[];
+  // null → compile on the main thread
+  createWorker: CompileWorkerFactory | null;
+}
+
+interface PendingCompile {
+  id: number;
+  request: CompileRequest;
+  resolve: (output: CompileOutput | null) => void;
+  reject: (err: Error) => void;
+}
+
+/** Worker serving DEFAULT_KITS with no host plugins. */
+export function createDefaultCompileWorker(): Worker {
+  return new Worker(new URL('./compile.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Request/response wrapper around the compile worker.
+ *
+ * Only the newest request is ever live: starting a compile resolves the
+ * previous one with null and tells the worker to drop it. If the worker can't
+ * be created or crashes, compiles fall back to the main thread.
+ */
+export class CompileService {
+  private worker: Worker | null = null;
+  private pending: PendingCompile | null = null;
+  private nextId = 1;
+  private decoder = new TextDecoder();
+  private cache = new BlockCompileCache();
+
+  constructor(private config: CompileServiceConfig) {
+    if (config.createWorker && typeof Worker !== 'undefined') {
+      try {
+        this.worker = config.createWorker();
+        this.worker.onmessage = (e: MessageEvent<CompileWorkerResponse>) => this.handleResponse(e.data);
+        this.worker.onerror = () => this.fallBackToMainThread();
+      } catch {
+        this.worker = null;
+      }
+    }
+  }
+
+  get usesWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  /** Resolves with the output, or null if a newer compile superseded this one. */
+  compile(request: CompileRequest): Promise<CompileOutput | null> {
+    this.cancel();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { id, request, resolve, reject };
+      if (this.worker) {
+        this.post({ type: 'compile', id, request });
+      } else {
+        this.compileOnMainThread();
+      }
+    });
+  }
+
+  cancel(): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    if (this.worker) this.post({ type: 'cancel', id: pending.id });
+    pending.resolve(null);
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private post(message: CompileWorkerMessage): void {
+    this.worker?.postMessage(message);
+  }
+
+  private handleResponse(response: CompileWorkerResponse): void {
+    const pending = this.pending;
+    if (!pending || response.id !== pending.id) return;
+    this.pending = null;
+    if (response.ok) {
+      pending.resolve({ ...response.output, html: this.decoder.decode(response.html) });
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  }
+
+  private compileOnMainThread(): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    try {
+      pending.resolve(runCompile(pending.request, this.config.kits, this.config.plugins, this.cache));
+    } catch (err) {
+      pending.reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  private fallBackToMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.compileOnMainThread();
+  }
+}
@@ -0,0 +1,65 @@
+import type { MklyPlugin } from '@mklyml/core';
+import { BlockCompileCache } from './block-cache';
+import { runCompile } from './compile-core';
+import type { CompileOutput, CompileRequest } from './compile-core';
+import type { KitMap } from './kit-config';
+
+export type CompileWorkerMessage =
+  | { type: 'compile'; id: number; request: CompileRequest }
+  | { type: 'cancel'; id: number };
+
+// html travels as a transferred UTF-8 buffer; the rest is structured-cloned.
+export type CompileWorkerResponse =
+  | { id: number; ok: true; html: ArrayBuffer; output: Omit<CompileOutput, 'html'> }
+  | { id: number; ok: false; error: string };
+
+interface CompileWorkerScope {
+  onmessage: ((e: MessageEvent<CompileWorkerMessage>) => void) | null;
+  postMessage(message: CompileWorkerResponse, transfer: Transferable[]): void;
+}
+
+export interface CompileWorkerConfig {
+  kits: KitMap;
+  plugins?: MklyPlugin[];
+}
+
+/**
+ * Answer compile requests inside a Web Worker. Kits and plugins carry
+ * functions, so they can't be posted over — each worker module imports its
+ * own and calls this once. Hosts with custom kits ship a worker like:
+ *
+ *   serveCompileRequests({ kits: { ...DEFAULT_KITS, acme: ACME_KIT } });
+ *
+ * Requests are compiled on the next tick so a burst of keystrokes collapses
+ * to the newest one; superseded and cancelled requests are dropped silently.
+ */
+export function serveCompileRequests(
+  config: CompileWorkerConfig,
+  scope: CompileWorkerScope = self as unknown as CompileWorkerScope,
+): void {
+  const encoder = new TextEncoder();
+  const plugins = config.plugins ?? [];
+  const cache = new BlockCompileCache();
+  let latestId = 0;
+  let cancelledThrough = 0;
+
+  scope.onmessage = (e) => {
+    const message = e.data;
+    if (message.type === 'cancel') {
+      cancelledThrough = Math.max(cancelledThrough, message.id);
+      return;
+    }
+
+    latestId = Math.max(latestId, message.id);
+    setTimeout(() => {
+      if (message.id !== latestId || message.id <= cancelledThrough) return;
+      try {
+        const { html, ...output } = runCompile(message.request, config.kits, plugins, cache);
+        const buffer = encoder.encode(html).buffer as ArrayBuffer;
+        scope.postMessage({ id: message.id, ok: true, html: buffer, output }, [buffer]);
+      } catch (err) {
+        scope.postMessage({ id: message.id, ok: false, error: err instanceof Error ? err.message : String(err) }, []);
+      }
+    }, 0);
+  };
+}
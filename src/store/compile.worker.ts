@@ -0,0 +1,4 @@
+import { serveCompileRequests } from './compile-worker';
+import { DEFAULT_KITS } from './kit-config';
+
+serveCompileRequests({ kits: DEFAULT_KITS });
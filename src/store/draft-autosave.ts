@@ -0,0 +1,146 @@
+import type { EditorStore } from './editor-store';
+import { StorageConflictError, StorageWriter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+import { committedSource } from './use-suggestions';
+
+interface StoredDraft {
+  source: string;
+  // Pending suggestions are kept too, as the proposed source over this base
+  suggestionBase: string | null;
+  savedAt: number;
+}
+
+type DraftContent = Pick<StoredDraft, 'source' | 'suggestionBase'>;
+
+const sessions = new WeakMap<EditorStore, DraftAutosave>();
+
+function parseDraft(raw: string | null): StoredDraft | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.source !== 'string' || typeof parsed.savedAt !== 'number') return null;
+    const suggestionBase = typeof parsed.suggestionBase === 'string' ? parsed.suggestionBase : null;
+    return { source: parsed.source, suggestionBase, savedAt: parsed.savedAt };
+  } catch {
+    return null;
+  }
+}
+
+// The draft holds something the document doesn't: edits or pending suggestions
+function differsFrom(draft: DraftContent, document: string): boolean {
+  return draft.source !== document || (draft.suggestionBase ?? draft.source) !== document;
+}
+
+/**
+ * Keeps a draft of the store's source, and the base of any pending
+ * suggestions, under documentId while it differs from the loaded (or last
+ * host-saved) document. Only the writer tab saves drafts; a stored draft is
+ * left alone while it's offered for recovery.
+ */
+export class DraftAutosave {
+  private writer: StorageWriter;
+  // Source known to be saved by the host; drafts only hold edits beyond it
+  private baseline: string | null = null;
+  private lastWritten: DraftContent | null = null;
+  private disposed = false;
+
+  constructor(private store: EditorStore, documentId: string, storage: StorageAdapter) {
+    this.writer = new StorageWriter(storage, documentId, 'draft');
+    this.writer.onError = (err) => {
+      // Drafts are per tab; the newest one wins
+      if (err instanceof StorageConflictError) this.writer.overwrite().catch(() => {});
+    };
+    sessions.set(store, this);
+  }
+
+  get started(): boolean {
+    return this.baseline !== null;
+  }
+
+  /**
+   * Take the current source as the loaded document and offer a stored
+   * draft that differs from it in recoveredDraft.
+   */
+  async start(): Promise<void> {
+    const loadedSource = committedSource(this.store.getState());
+    this.baseline = loadedSource;
+    let raw: string | null;
+    try {
+      raw = await this.writer.load();
+    } catch {
+      return;
+    }
+    if (this.disposed) return;
+    const draft = parseDraft(raw);
+    this.lastWritten = raw === null ? null : draft ?? { source: raw, suggestionBase: null };
+    if (draft && differsFrom(draft, loadedSource)) {
+      this.store.getState().setRecoveredDraft({ ...draft, loadedSource });
+    } else {
+      this.drop();
+    }
+  }
+
+  save(): void {
+    const { source, suggestionBase, recoveredDraft, tabSync } = this.store.getState();
+    // Keep the stored draft intact until the user decides on it
+    if (this.baseline === null || recoveredDraft || !tabSync.isWriter) return;
+    const last = this.lastWritten;
+    if (!differsFrom({ source, suggestionBase }, this.baseline)) {
+      this.drop();
+    } else if (source !== last?.source || suggestionBase !== last.suggestionBase) {
+      this.lastWritten = { source, suggestionBase };
+      this.writer.write(JSON.stringify({ source, suggestionBase, savedAt: Date.now() } satisfies StoredDraft));
+    }
+  }
+
+  /** The current source is saved by the host: drop the draft until it's edited again. */
+  markSaved(): void {
+    this.baseline = committedSource(this.store.getState());
+    this.drop();
+  }
+
+  discard(): void {
+    this.store.getState().setRecoveredDraft(null);
+    this.drop();
+  }
+
+  /** Resolves once queued draft writes have settled. */
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  destroy(): void {
+    this.disposed = true;
+    if (sessions.get(this.store) === this) sessions.delete(this.store);
+    this.store.getState().setRecoveredDraft(null);
+  }
+
+  private drop(): void {
+    if (this.lastWritten === null) return;
+    this.lastWritten = null;
+    // Best effort — a stale draft only costs a needless recovery banner
+    this.writer.remove().catch(() => {});
+  }
+}
+
+/** The current source is saved by the host: drop the draft until it's edited again. */
+export function markDraftSaved(store: EditorStore): void {
+  sessions.get(store)?.markSaved();
+}
+
+/** Apply the recovered draft, pending suggestions included, as one undoable edit. */
+export function restoreDraft(store: EditorStore): void {
+  const { recoveredDraft, setSource, setSuggestionBase, setRecoveredDraft, undoTransaction } = store.getState();
+  if (!recoveredDraft) return;
+  setRecoveredDraft(null);
+  undoTransaction('Restore draft', () => {
+    if (recoveredDraft.suggestionBase !== null) setSuggestionBase(recoveredDraft.suggestionBase);
+    setSource(recoveredDraft.source);
+  });
+}
+
+export function discardDraft(store: EditorStore): void {
+  const session = sessions.get(store);
+  if (session) session.discard();
+  else store.getState().setRecoveredDraft(null);
+}
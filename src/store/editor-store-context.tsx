@@ -0,0 +1,33 @@
+import { createContext, useContext, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useStore } from 'zustand';
+import { createEditorStore, useEditorStore } from './editor-store';
+import type { EditorState, EditorStore } from './editor-store';
+
+// Without a provider, everything resolves to the default module store.
+const EditorStoreContext = createContext<EditorStore>(useEditorStore);
+
+interface EditorStoreProviderProps {
+  /** Store to provide. Omit to create one for the provider's lifetime. */
+  store?: EditorStore;
+  children: ReactNode;
+}
+
+export function EditorStoreProvider({ store, children }: EditorStoreProviderProps) {
+  const [ownStore] = useState(() => store ?? createEditorStore());
+  return (
+    <EditorStoreContext.Provider value={store ?? ownStore}>
+      {children}
+    </EditorStoreContext.Provider>
+  );
+}
+
+/** The store of the nearest EditorStoreProvider (for getState/setState in callbacks). */
+export function useEditorStoreApi(): EditorStore {
+  return useContext(EditorStoreContext);
+}
+
+/** Subscribe to a slice of the nearest editor store. */
+export function useEditorState<T>(selector: (state: EditorState) => T): T {
+  return useStore(useEditorStoreApi(), selector);
+}
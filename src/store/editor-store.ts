@@ -1,7 +1,15 @@
 import { create } from 'zustand';
-import type { ParseError, CompileError, SourceMapEntry, StyleGraph } from '@mklyml/core';
+import type { StoreApi, UseBoundStore } from 'zustand';
+import type { ParseError, CompileError, SourceMapEntry, StyleGraph, MklyPlugin, CompletionData } from '@mklyml/core';
 import { resolveBlockLine } from './selection-orchestrator';
-import type { UndoInfo } from './undo-manager';
+import type { UndoInfo, UndoTreeNode } from './undo-manager';
+import type { CompiledBlock } from './block-cache';
+import type { VersionSnapshot } from './version-snapshots';
+import type { CollabStatus } from './collab-provider';
+import type { CommentThread } from './comment-threads';
+import type { Suggestion } from './suggestions';
+import { DEFAULT_KITS, buildCompletionData, resolveKits, sameKits, samePlugins } from './kit-config';
+import type { KitConfig, KitMap } from './kit-config';
 
 declare global {
   interface Window {
@@ -14,6 +22,64 @@ type ViewMode = 'preview' | 'edit' | 'html';
 type Theme = 'light' | 'dark';
 type FocusOrigin = 'mkly' | 'html' | 'edit' | 'preview' | 'inspector' | 'block-dock' | null;
 type FocusIntent = 'navigate' | 'edit-property' | 'recompile';
+type InspectorTab = 'block' | 'comments';
+type SidebarTab = 'blocks' | 'outline';
+interface RecoveredDraft {
+  source: string;
+  /** Accepted text under the draft's pending suggestions, null without any. */
+  suggestionBase: string | null;
+  savedAt: number;
+  /** The document as loaded, which the draft is compared against. */
+  loadedSource: string;
+}
+
+// A snapshot rendered in the preview instead of the live document
+interface VersionPreview {
+  snapshotId: string;
+  name: string;
+  html: string;
+}
+
+// One side of a version comparison
+type CompareSource =
+  | { kind: 'current' }
+  | { kind: 'snapshot'; id: string }
+  | { kind: 'undo'; id: number }
+  | { kind: 'text'; text: string };
+
+interface VersionCompare {
+  before: CompareSource;
+  after: CompareSource;
+}
+
+// Other tabs editing the same documentId (kept in step by useTabSync)
+interface TabSyncState {
+  peers: number;
+  /** Only the writer tab persists the document, its history and drafts. */
+  isWriter: boolean;
+  /** The other tab's source after both tabs changed the same text. */
+  conflictSource: string | null;
+}
+
+// Another user in the collaboration room (see useCollab)
+interface CollabPeer {
+  clientId: number;
+  name: string;
+  color: string;
+  /** Line of the block they are in, or null. */
+  blockLine: number | null;
+}
+
+interface CollabState {
+  room: string;
+  status: CollabStatus;
+  /** The room's document has been received (or this client is alone). */
+  synced: boolean;
+  peers: CollabPeer[];
+}
+
+// 'idle' until EditorShell is given a storage adapter
+type StorageStatus = 'idle' | 'loading' | 'saving' | 'saved' | 'conflict' | 'error';
 
 interface SelectionState {
   blockLine: number | null;
@@ -46,9 +112,11 @@ interface EditorState {
   theme: Theme;
   panelSizes: [number, number, number];
   inspectorCollapsed: boolean;
+  inspectorTab: InspectorTab;
   cursorLine: number;
   blockDockOpen: boolean;
   sidebarCollapsed: boolean;
+  sidebarTab: SidebarTab;
   sidebarWidth: number;
   activeBlockLine: number | null;
 
@@ -77,6 +145,14 @@ interface EditorState {
   // Source map from latest compilation (for line-level sync)
   sourceMap: SourceMapEntry[] | null;
 
+  // Per-block identities from the latest compilation when it came from the
+  // block cache — lets the preview skip morphing blocks that didn't change.
+  compiledBlocks: CompiledBlock[] | null;
+
+  // Source that html/errors/sourceMap were compiled from. Lags `source`
+  // while a compile is pending.
+  compiledSource: string;
+
   // Computed CSS styles of the active block element in the preview iframe.
   // Used by the style editor to show inherited/theme values as placeholders.
   computedStyles: Record<string, string>;
@@ -103,6 +179,34 @@ interface EditorState {
   canUndo: boolean;
   canRedo: boolean;
   undoInfo: UndoInfo;
+  undoTree: UndoTreeNode[];
+
+  // Document persistence through the StorageAdapter passed to EditorShell
+  storageStatus: StorageStatus;
+  storageError: string | null;
+  // Autosaved draft found on load that differs from the loaded document
+  recoveredDraft: RecoveredDraft | null;
+  tabSync: TabSyncState;
+  // Shared editing session, null unless EditorShell is given collab options
+  collab: CollabState | null;
+
+  // Named version snapshots (newest first) and the history panel browsing them
+  snapshots: VersionSnapshot[];
+  historyPanelOpen: boolean;
+  versionPreview: VersionPreview | null;
+  versionCompare: VersionCompare | null;
+  // Review threads anchored to block start lines, stored outside the source
+  commentThreads: CommentThread[];
+  // Suggestion mode: the accepted source while on (null when off). `source`
+  // is then the proposed text, and `suggestions` the changes between them.
+  suggestionBase: string | null;
+  suggestions: Suggestion[];
+
+  // Kits + plugins shared by compilation, reverse conversion and completions.
+  // completionData is derived from kits whenever they change.
+  kits: KitMap;
+  plugins: MklyPlugin[];
+  completionData: CompletionData;
 
   setSource: (source: string) => void;
   setHtml: (html: string) => void;
@@ -112,6 +216,8 @@ interface EditorState {
   setTheme: (theme: Theme) => void;
   setPanelSizes: (sizes: [number, number, number] | ((prev: [number, number, number]) => [number, number, number])) => void;
   setInspectorCollapsed: (collapsed: boolean) => void;
+  setInspectorTab: (tab: InspectorTab) => void;
+  setSidebarTab: (tab: SidebarTab) => void;
   setCursorLine: (line: number) => void;
   setBlockDockOpen: (open: boolean) => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
@@ -119,6 +225,8 @@ interface EditorState {
   setActiveBlockLine: (line: number | null) => void;
   setScrollLock: (locked: boolean) => void;
   setSourceMap: (sourceMap: SourceMapEntry[] | null) => void;
+  setCompiledBlocks: (blocks: CompiledBlock[] | null) => void;
+  setCompiledSource: (source: string) => void;
   setComputedStyles: (styles: Record<string, string>) => void;
   setStyleGraph: (graph: StyleGraph | null) => void;
   setMklyWordWrap: (wrap: boolean) => void;
@@ -129,6 +237,18 @@ interface EditorState {
   setStylePickMode: (mode: boolean) => void;
   openStylePopup: (info: StylePopupState) => void;
   closeStylePopup: () => void;
+  setKitConfig: (config: KitConfig) => void;
+  setStorageStatus: (status: StorageStatus, error?: string | null) => void;
+  setRecoveredDraft: (draft: RecoveredDraft | null) => void;
+  setTabSync: (partial: Partial<TabSyncState>) => void;
+  setCollab: (collab: CollabState | null) => void;
+  setSnapshots: (snapshots: VersionSnapshot[]) => void;
+  setHistoryPanelOpen: (open: boolean) => void;
+  setVersionPreview: (preview: VersionPreview | null) => void;
+  setVersionCompare: (compare: VersionCompare | null) => void;
+  setCommentThreads: (threads: CommentThread[]) => void;
+  setSuggestionBase: (base: string | null) => void;
+  setSuggestions: (suggestions: Suggestion[]) => void;
 
   // Single entry point: any tab calls this to say "user is at this mkly line"
   focusBlock: (line: number, origin: FocusOrigin, intent?: FocusIntent) => void;
@@ -138,6 +258,15 @@ interface EditorState {
   redo: () => boolean;
   flushUndo: () => void;
   clearHistory: () => void;
+  /** Move to the previous (-1) or next (1) sibling branch of the undo tree. */
+  switchUndoBranch: (direction: -1 | 1) => boolean;
+  jumpToUndoStep: (id: number) => boolean;
+  /**
+   * Run `run` and record the source changes it makes as one undo step named
+   * `label` ("Set background of newsletter/featured"). Repeated calls with the
+   * same label in quick succession merge into that step.
+   */
+  undoTransaction: (label: string, run: () => void) => void;
 }
 
 export const EXAMPLE_NEWSLETTER = `--- use: core
@@ -313,18 +442,34 @@ You're receiving this because you signed up at thepulseai.com
 {@url:https://example.com/privacy}Privacy Policy{/} | {@url:https://example.com/preferences}Manage Preferences{/} | {@url:https://example.com/unsubscribe}Unsubscribe{/}
 `;
 
-// Undo handlers registered by useUndoInit hook — no undo logic in the store.
-let _undoHandlers = {
-  undo: (): boolean => false,
-  redo: (): boolean => false,
-  flush: (): void => {},
-  clear: (): void => {},
-};
+export type EditorStore = UseBoundStore<StoreApi<EditorState>>;
 
-export function registerUndoHandlers(handlers: typeof _undoHandlers): void {
-  _undoHandlers = handlers;
+interface UndoHandlers {
+  undo: () => boolean;
+  redo: () => boolean;
+  flush: () => void;
+  clear: () => void;
+  switchBranch: (direction: -1 | 1) => boolean;
+  jumpTo: (id: number) => boolean;
+  beginTransaction: (label: string) => void;
+  endTransaction: () => void;
 }
 
+const NOOP_UNDO_HANDLERS: UndoHandlers = {
+  undo: () => false,
+  redo: () => false,
+  flush: () => {},
+  clear: () => {},
+  switchBranch: () => false,
+  jumpTo: () => false,
+  beginTransaction: () => {},
+  endTransaction: () => {},
+};
+
+// Undo handlers registered by useUndoInit hook — no undo logic in the store.
+const undoSlots = new WeakMap<EditorStore, { handlers: UndoHandlers }>();
+let storeCount = 0;
+
 function popupToSelection(popup: StylePopupState): StyleSelectionState {
   return {
     blockType: popup.blockType,
@@ -338,149 +483,242 @@ function popupToSelection(popup: StylePopupState): StyleSelectionState {
   };
 }
 
-export const useEditorStore = create<EditorState>((set) => ({
-  source: '',
-  html: '',
-  errors: [],
-  outputMode: 'web',
-  viewMode: 'preview',
-  theme: 'dark',
-  panelSizes: [40, 40, 20],
-  inspectorCollapsed: false,
-  cursorLine: 1,
-  blockDockOpen: false,
-  sidebarCollapsed: false,
-  sidebarWidth: 260,
-  activeBlockLine: null,
-  selection: { blockLine: null, blockType: null, propertyKey: null, contentRange: null },
-  selectionId: null,
-  focusOrigin: null,
-  focusVersion: 0,
-  focusIntent: 'navigate',
-  scrollLock: false,
-  sourceMap: null,
-  computedStyles: {},
-  styleGraph: null,
-  mklyWordWrap: true,
-  htmlWordWrap: true,
-  isNormalized: false,
-  normalizationWarnings: [],
-  stylePickMode: false,
-  styleSelection: null,
-  stylePopup: null,
-  documentId: '_default',
-  canUndo: false,
-  canRedo: false,
-  undoInfo: { position: 0, total: 0, storageBytes: 0 },
-
-  setSource: (source) => set({ source }),
-  setHtml: (html) => set({ html }),
-  setErrors: (errors) => set({ errors }),
-  setOutputMode: (mode) => set({ outputMode: mode }),
-  setViewMode: (mode) => set((state) => {
-    const { blockLine, blockType } = resolveBlockLine(state.cursorLine, state.source);
-    return {
-      viewMode: mode,
-      activeBlockLine: blockLine,
-      selection: {
-        blockLine,
-        blockType,
-        propertyKey: state.selection.propertyKey,
-        contentRange: null,
-      },
-      focusOrigin: null,
-      focusVersion: blockLine !== null
-        ? state.focusVersion + 1 : state.focusVersion,
-      focusIntent: 'navigate' as const,
-    };
-  }),
-  setTheme: (theme) => set({ theme }),
-  setPanelSizes: (sizes) => set((state) => ({
-    panelSizes: typeof sizes === 'function' ? sizes(state.panelSizes) : sizes,
-  })),
-  setInspectorCollapsed: (collapsed) => set({ inspectorCollapsed: collapsed }),
-  setCursorLine: (line) => set({ cursorLine: line }),
-  setBlockDockOpen: (open) => set({ blockDockOpen: open }),
-  setSidebarCollapsed: (collapsed) => set({ sidebarCollapsed: collapsed }),
-  setSidebarWidth: (width) => set({ sidebarWidth: Math.max(180, Math.min(400, width)) }),
-  setActiveBlockLine: (line) => set({ activeBlockLine: line }),
-  setScrollLock: (locked) => set({ scrollLock: locked }),
-  setSourceMap: (sourceMap) => set({ sourceMap }),
-  setComputedStyles: (styles) => set({ computedStyles: styles }),
-  setStyleGraph: (graph) => set({ styleGraph: graph }),
-  setMklyWordWrap: (wrap) => set({ mklyWordWrap: wrap }),
-  setHtmlWordWrap: (wrap) => set({ htmlWordWrap: wrap }),
-  setIsNormalized: (normalized) => set({ isNormalized: normalized }),
-  setNormalizationWarnings: (warnings) => set({ normalizationWarnings: warnings }),
-
-  setSelection: (partial, origin) => set((state) => ({
-    selection: { ...state.selection, ...partial },
-    focusOrigin: origin,
-    focusVersion: state.focusVersion + 1,
-  })),
-
-  setStylePickMode: (mode) => set(mode
-    ? { stylePickMode: true }
-    : { stylePickMode: false, stylePopup: null, styleSelection: null }),
-  openStylePopup: (info) => set({ stylePopup: info, styleSelection: popupToSelection(info) }),
-  closeStylePopup: () => set({ stylePopup: null }),
-
-  focusBlock: (line, origin, intent = 'navigate') => set((state) => {
-    const { blockLine, blockType } = resolveBlockLine(line, state.source);
-    const nextSelectionId = `sel-${state.focusVersion + 1}`;
-    let nextStyleSelection = state.styleSelection;
-    let nextStylePopup = state.stylePopup;
-
-    // If style selection is active and user selected another block from elsewhere,
-    // retarget both popup and right-pane selection state to that block.
-    if (nextStyleSelection && blockLine !== null && origin !== 'inspector') {
-      const selectionBlockLine = resolveBlockLine(nextStyleSelection.sourceLine, state.source).blockLine;
-      if (selectionBlockLine !== blockLine) {
-        const retargeted = {
-          ...nextStyleSelection,
-          blockType: blockType ?? nextStyleSelection.blockType,
-          sourceLine: blockLine,
-          target: 'self',
-          targetTag: undefined,
-          label: undefined,
-          targetLine: undefined,
-          targetIndex: undefined,
-          selectionId: nextSelectionId,
-        };
-        nextStyleSelection = retargeted;
-        if (nextStylePopup) {
-          nextStylePopup = { ...nextStylePopup, ...retargeted };
-        }
-      }
-    }
-
-    return {
-      cursorLine: line,
-      activeBlockLine: blockLine,
-      selectionId: nextSelectionId,
-      selection: {
-        blockLine,
-        blockType,
-        propertyKey: state.selection.propertyKey,
-        contentRange: null,
-      },
+/**
+ * Create an isolated editor store. Each EditorShell mounted under its own
+ * EditorStoreProvider gets independent source, selection, compile output and
+ * undo history.
+ */
+export function createEditorStore(): EditorStore {
+  // Selection ids are matched against markers in preview iframes, which share
+  // the page — keep them unique across instances.
+  const instance = ++storeCount;
+  const undoSlot = { handlers: NOOP_UNDO_HANDLERS };
+  const store = create<EditorState>((set) => ({
+    source: '',
+    html: '',
+    errors: [],
+    outputMode: 'web',
+    viewMode: 'preview',
+    theme: 'dark',
+    panelSizes: [40, 40, 20],
+    inspectorCollapsed: false,
+    inspectorTab: 'block',
+    cursorLine: 1,
+    blockDockOpen: false,
+    sidebarCollapsed: false,
+    sidebarTab: 'blocks',
+    sidebarWidth: 260,
+    activeBlockLine: null,
+    selection: { blockLine: null, blockType: null, propertyKey: null, contentRange: null },
+    selectionId: null,
+    focusOrigin: null,
+    focusVersion: 0,
+    focusIntent: 'navigate',
+    scrollLock: false,
+    sourceMap: null,
+    compiledBlocks: null,
+    compiledSource: '',
+    computedStyles: {},
+    styleGraph: null,
+    mklyWordWrap: true,
+    htmlWordWrap: true,
+    isNormalized: false,
+    normalizationWarnings: [],
+    stylePickMode: false,
+    styleSelection: null,
+    stylePopup: null,
+    documentId: '_default',
+    canUndo: false,
+    canRedo: false,
+    undoInfo: { position: 0, total: 0, storageBytes: 0, branch: 1, branchCount: 1, undoLabel: null, redoLabel: null },
+    undoTree: [],
+    storageStatus: 'idle',
+    storageError: null,
+    recoveredDraft: null,
+    tabSync: { peers: 0, isWriter: true, conflictSource: null },
+    collab: null,
+    snapshots: [],
+    historyPanelOpen: false,
+    versionPreview: null,
+    versionCompare: null,
+    commentThreads: [],
+    suggestionBase: null,
+    suggestions: [],
+    kits: DEFAULT_KITS,
+    plugins: [],
+    completionData: buildCompletionData(DEFAULT_KITS),
+
+    setSource: (source) => set({ source }),
+    setHtml: (html) => set({ html }),
+    setErrors: (errors) => set({ errors }),
+    setOutputMode: (mode) => set({ outputMode: mode }),
+    setViewMode: (mode) => set((state) => {
+      const { blockLine, blockType } = resolveBlockLine(state.cursorLine, state.source);
+      return {
+        viewMode: mode,
+        activeBlockLine: blockLine,
+        selection: {
+          blockLine,
+          blockType,
+          propertyKey: state.selection.propertyKey,
+          contentRange: null,
+        },
+        focusOrigin: null,
+        focusVersion: blockLine !== null
+          ? state.focusVersion + 1 : state.focusVersion,
+        focusIntent: 'navigate' as const,
+      };
+    }),
+    setTheme: (theme) => set({ theme }),
+    setPanelSizes: (sizes) => set((state) => ({
+      panelSizes: typeof sizes === 'function' ? sizes(state.panelSizes) : sizes,
+    })),
+    setInspectorCollapsed: (collapsed) => set({ inspectorCollapsed: collapsed }),
+    setInspectorTab: (tab) => set({ inspectorTab: tab }),
+    setSidebarTab: (tab) => set({ sidebarTab: tab }),
+    setCursorLine: (line) => set({ cursorLine: line }),
+    setBlockDockOpen: (open) => set({ blockDockOpen: open }),
+    setSidebarCollapsed: (collapsed) => set({ sidebarCollapsed: collapsed }),
+    setSidebarWidth: (width) => set({ sidebarWidth: Math.max(180, Math.min(400, width)) }),
+    setActiveBlockLine: (line) => set({ activeBlockLine: line }),
+    setScrollLock: (locked) => set({ scrollLock: locked }),
+    setSourceMap: (sourceMap) => set({ sourceMap }),
+    setCompiledBlocks: (blocks) => set({ compiledBlocks: blocks }),
+    setCompiledSource: (source) => set({ compiledSource: source }),
+    setComputedStyles: (styles) => set({ computedStyles: styles }),
+    setStyleGraph: (graph) => set({ styleGraph: graph }),
+    setMklyWordWrap: (wrap) => set({ mklyWordWrap: wrap }),
+    setHtmlWordWrap: (wrap) => set({ htmlWordWrap: wrap }),
+    setIsNormalized: (normalized) => set({ isNormalized: normalized }),
+    setNormalizationWarnings: (warnings) => set({ normalizationWarnings: warnings }),
+    setStorageStatus: (status, error = null) => set({ storageStatus: status, storageError: error }),
+    setRecoveredDraft: (draft) => set({ recoveredDraft: draft }),
+    setTabSync: (partial) => set((state) => ({ tabSync: { ...state.tabSync, ...partial } })),
+    setCollab: (collab) => set({ collab }),
+    setSnapshots: (snapshots) => set({ snapshots }),
+    // Closing the panel also leaves any version preview
+    setHistoryPanelOpen: (open) => set(open ? { historyPanelOpen: true } : { historyPanelOpen: false, versionPreview: null }),
+    setVersionPreview: (preview) => set({ versionPreview: preview }),
+    setVersionCompare: (compare) => set({ versionCompare: compare }),
+    setCommentThreads: (threads) => set({ commentThreads: threads }),
+    setSuggestionBase: (base) => set({ suggestionBase: base }),
+    setSuggestions: (suggestions) => set({ suggestions }),
+
+    setSelection: (partial, origin) => set((state) => ({
+      selection: { ...state.selection, ...partial },
       focusOrigin: origin,
       focusVersion: state.focusVersion + 1,
-      focusIntent: intent,
-      styleSelection: nextStyleSelection,
-      stylePopup: nextStylePopup,
-    };
-  }),
-
-  undo: () => _undoHandlers.undo(),
-  redo: () => _undoHandlers.redo(),
-  flushUndo: () => _undoHandlers.flush(),
-  clearHistory: () => _undoHandlers.clear(),
-}));
+    })),
+
+    setStylePickMode: (mode) => set(mode
+      ? { stylePickMode: true }
+      : { stylePickMode: false, stylePopup: null, styleSelection: null }),
+    openStylePopup: (info) => set({ stylePopup: info, styleSelection: popupToSelection(info) }),
+    closeStylePopup: () => set({ stylePopup: null }),
+    setKitConfig: (config) => set((state) => {
+      const next: Partial<EditorState> = {};
+      if (config.kits) {
+        const kits = resolveKits(config.kits);
+        if (!sameKits(kits, state.kits)) {
+          next.kits = kits;
+          next.completionData = buildCompletionData(kits);
+        }
+      }
+      if (config.plugins && !samePlugins(config.plugins, state.plugins)) {
+        next.plugins = config.plugins;
+      }
+      return Object.keys(next).length > 0 ? next : state;
+    }),
+
+    focusBlock: (line, origin, intent = 'navigate') => set((state) => {
+      const { blockLine, blockType } = resolveBlockLine(line, state.source);
+      const nextSelectionId = instance === 1
+        ? `sel-${state.focusVersion + 1}`
+        : `sel-${instance}-${state.focusVersion + 1}`;
+      let nextStyleSelection = state.styleSelection;
+      let nextStylePopup = state.stylePopup;
+
+      // If style selection is active and user selected another block from elsewhere,
+      // retarget both popup and right-pane selection state to that block.
+      if (nextStyleSelection && blockLine !== null && origin !== 'inspector') {
+        const selectionBlockLine = resolveBlockLine(nextStyleSelection.sourceLine, state.source).blockLine;
+        if (selectionBlockLine !== blockLine) {
+          const retargeted = {
+            ...nextStyleSelection,
+            blockType: blockType ?? nextStyleSelection.blockType,
+            sourceLine: blockLine,
+            target: 'self',
+            targetTag: undefined,
+            label: undefined,
+            targetLine: undefined,
+            targetIndex: undefined,
+            selectionId: nextSelectionId,
+          };
+          nextStyleSelection = retargeted;
+          if (nextStylePopup) {
+            nextStylePopup = { ...nextStylePopup, ...retargeted };
+          }
+        }
+      }
+
+      return {
+        cursorLine: line,
+        activeBlockLine: blockLine,
+        selectionId: nextSelectionId,
+        selection: {
+          blockLine,
+          blockType,
+          propertyKey: state.selection.propertyKey,
+          contentRange: null,
+        },
+        focusOrigin: origin,
+        focusVersion: state.focusVersion + 1,
+        focusIntent: intent,
+        styleSelection: nextStyleSelection,
+        stylePopup: nextStylePopup,
+      };
+    }),
+
+    undo: () => undoSlot.handlers.undo(),
+    redo: () => undoSlot.handlers.redo(),
+    flushUndo: () => undoSlot.handlers.flush(),
+    clearHistory: () => undoSlot.handlers.clear(),
+    switchUndoBranch: (direction) => undoSlot.handlers.switchBranch(direction),
+    jumpToUndoStep: (id) => undoSlot.handlers.jumpTo(id),
+    undoTransaction: (label, run) => {
+      const { handlers } = undoSlot;
+      handlers.beginTransaction(label);
+      try {
+        run();
+      } finally {
+        handlers.endTransaction();
+      }
+    },
+  }));
+  undoSlots.set(store, undoSlot);
+  return store;
+}
+
+/** Default store, used by editors mounted without an EditorStoreProvider. */
+export const useEditorStore = createEditorStore();
+
+/**
+ * Route the store's undo actions to `handlers`. The returned function puts
+ * the previous handlers back (while these are still the registered ones).
+ */
+export function registerUndoHandlers(handlers: UndoHandlers, store: EditorStore = useEditorStore): () => void {
+  const slot = undoSlots.get(store);
+  if (!slot) return () => {};
+  const previous = slot.handlers;
+  slot.handlers = handlers;
+  return () => {
+    if (slot.handlers === handlers) slot.handlers = previous;
+  };
+}
 
 // Expose store on window for E2E tests
 if (typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('e2e')) {
   window.__editorStore = useEditorStore;
 }
 
-export type { FocusOrigin, FocusIntent, SelectionState, StyleSelectionState, StylePopupState };
+export type { EditorState, FocusOrigin, FocusIntent, InspectorTab, SidebarTab, SelectionState, StorageStatus, RecoveredDraft, VersionPreview, VersionCompare, CompareSource, CollabPeer, CollabState, StyleSelectionState, StylePopupState };
@@ -0,0 +1,181 @@
+import type { CompletionData } from '@mklyml/core';
+import { PROPERTY_KEY_RE } from './block-properties';
+import { parseStyleGraphCompat, serializeStyleGraphCompat } from './style-graph-compat';
+
+const HEADER_RE = /^---\s+(\S.*)$/;
+const COMMENT_RE = /^\s*\/\//;
+const STYLE_PROP_RE = /^\s*[\w-]+\s*:\s*\S/;
+// Header-only directives that stay grouped without blank lines between them
+const GROUPED_DIRECTIVE_RE = /^---\s+(use|theme|preset):/;
+
+interface Section {
+  /** `//` comment lines directly above the header, which belong to it. */
+  comments: string[];
+  /** Null for the lines before the first header. */
+  header: string | null;
+  body: string[];
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function trimBlankEnds(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && isBlank(lines[start])) start++;
+  while (end > start && isBlank(lines[end - 1])) end--;
+  return lines.slice(start, end);
+}
+
+function splitSections(source: string): Section[] {
+  const sections: Section[] = [{ comments: [], header: null, body: [] }];
+  for (const line of source.split('\n')) {
+    if (!HEADER_RE.test(line)) {
+      sections[sections.length - 1].body.push(line);
+      continue;
+    }
+    const prev = sections[sections.length - 1];
+    let attached = prev.body.length;
+    while (attached > 0 && COMMENT_RE.test(prev.body[attached - 1])) attached--;
+    sections.push({ comments: prev.body.splice(attached), header: line, body: [] });
+  }
+  return sections;
+}
+
+function sectionType(header: string): string {
+  const rest = header.match(HEADER_RE)![1];
+  return rest.match(/^[^\s:]+/)?.[0] ?? rest;
+}
+
+function formatHeader(header: string): string {
+  return `--- ${header.match(HEADER_RE)![1].trimEnd()}`;
+}
+
+/**
+ * The property lines right after the header, in schema order. Properties
+ * the schema doesn't declare (inline styles, typos) follow in their own
+ * order; comments move with the property below them.
+ */
+function orderProperties(body: string[], order: string[]): string[] {
+  let end = 0;
+  while (end < body.length && (PROPERTY_KEY_RE.test(body[end]) || COMMENT_RE.test(body[end]))) end++;
+  const entries: Array<{ key: string; lines: string[] }> = [];
+  let pending: string[] = [];
+  for (const line of body.slice(0, end)) {
+    const match = line.match(PROPERTY_KEY_RE);
+    if (!match) {
+      pending.push(line);
+      continue;
+    }
+    entries.push({ key: match[1], lines: [...pending, `${match[1]}: ${line.slice(match[0].length).trim()}`] });
+    pending = [];
+  }
+  const rank = (key: string) => {
+    const index = order.indexOf(key);
+    return index === -1 ? order.length : index;
+  };
+  const sorted = entries
+    .map((entry, i) => ({ entry, i }))
+    .sort((a, b) => rank(a.entry.key) - rank(b.entry.key) || a.i - b.i)
+    .flatMap(({ entry }) => entry.lines);
+  return [...sorted, ...pending, ...body.slice(end)];
+}
+
+/**
+ * The style rules rewritten by `serializeStyleGraphCompat`, or the lines
+ * as they are when that would drop something: comments, or declarations
+ * the graph doesn't keep (repeated selectors or properties).
+ */
+function tidyStyleRules(body: string[]): string[] {
+  const lines = trimBlankEnds(body);
+  if (lines.length === 0) return [];
+  if (lines.some((line) => COMMENT_RE.test(line))) return lines;
+  const graph = parseStyleGraphCompat(lines.join('\n'));
+  const kept = graph.variables.length + graph.rules.reduce((n, rule) => n + Object.keys(rule.properties).length, 0);
+  if (kept !== lines.filter((line) => STYLE_PROP_RE.test(line)).length) return lines;
+  const serialized = serializeStyleGraphCompat(graph);
+  return serialized ? ['', ...serialized.split('\n')] : [];
+}
+
+function formatSection(section: Section, data: CompletionData | null): string[] {
+  if (section.header === null) return trimBlankEnds(section.body);
+  const type = sectionType(section.header);
+  let body = section.body;
+  if (type === 'style') {
+    body = tidyStyleRules(body);
+  } else if (data) {
+    const order = type === 'meta'
+      ? data.metaProperties.map((p) => p.name)
+      : (data.properties.get(type) ?? []).map((p) => p.label);
+    body = orderProperties(body, order);
+  }
+  while (body.length > 0 && isBlank(body[body.length - 1])) body = body.slice(0, -1);
+  return [...section.comments, formatHeader(section.header), ...body];
+}
+
+function rawLines(section: Section): string[] {
+  return [...section.comments, ...(section.header === null ? [] : [section.header]), ...section.body];
+}
+
+// Blank lines between two formatted sections
+function separator(prev: string[], next: string[]): string[] {
+  if (prev.length === 0) return [];
+  const grouped = prev.length === 1 && next.length === 1 && GROUPED_DIRECTIVE_RE.test(prev[0]) && GROUPED_DIRECTIVE_RE.test(next[0]);
+  return grouped ? [] : [''];
+}
+
+function finish(lines: string[], source: string): string {
+  const text = lines.join('\n');
+  return source.endsWith('\n') && text ? `${text}\n` : text;
+}
+
+/**
+ * The canonical layout of an mkly document: one blank line between blocks
+ * (none between `use`, `theme` and `preset` lines), properties in the order
+ * the block schema declares them, and style rules as the inspector writes
+ * them. Comments and block content are kept exactly.
+ */
+export function formatSource(source: string, data: CompletionData): string {
+  const lines: string[] = [];
+  let prev: string[] = [];
+  for (const section of splitSections(source)) {
+    const formatted = formatSection(section, data);
+    if (formatted.length === 0) continue;
+    lines.push(...separator(prev, formatted), ...formatted);
+    prev = formatted;
+  }
+  return finish(lines, source);
+}
+
+// Format the section holding `line` (1-based) and the blank lines around
+// it, keeping every other section as it is
+function formatSectionAt(source: string, line: number, data: CompletionData | null): string {
+  const sections = splitSections(source);
+  let index = 0;
+  for (let i = 0, start = 1; i < sections.length && start <= line; i++) {
+    index = i;
+    start += rawLines(sections[i]).length;
+  }
+  if (sections[index].header === null) return source;
+
+  const before = sections.slice(0, index).flatMap(rawLines);
+  while (before.length > 0 && isBlank(before[before.length - 1])) before.pop();
+  const rest = sections.slice(index + 1).flatMap(rawLines);
+  const next = rest.findIndex((l) => !isBlank(l));
+  const formatted = formatSection(sections[index], data);
+  const lines = [...before, ...separator(before.slice(-1), formatted), ...formatted];
+  if (next === -1) return finish(lines, source);
+  return [...lines, ...separator(formatted, [rest[next]]), ...rest.slice(next)].join('\n');
+}
+
+/** Format only the block whose header is on or above `line`, as `formatSource` would. */
+export function formatBlock(source: string, line: number, data: CompletionData): string {
+  return formatSectionAt(source, line, data);
+}
+
+/** Tidy the `--- style` block and the blank lines around it, leaving the rest untouched. */
+export function formatStyleBlock(source: string): string {
+  const line = source.split('\n').findIndex((l) => /^---\s+style\s*$/.test(l));
+  return line === -1 ? source : formatSectionAt(source, line + 1, null);
+}
@@ -0,0 +1,57 @@
+import { CORE_KIT, createCompletionData } from '@mklyml/core';
+import type { CompletionData, MklyKit, MklyPlugin } from '@mklyml/core';
+import { NEWSLETTER_KIT } from '@mklyml/kits/newsletter';
+import { emailPlugin } from '@mklyml/plugins/email';
+
+export type KitMap = Record<string, MklyKit>;
+
+/**
+ * Kits and plugins a host can hand to EditorShell / useCompile.
+ * Omitted fields keep whatever is currently configured.
+ */
+export interface KitConfig {
+  kits?: KitMap;
+  plugins?: MklyPlugin[];
+}
+
+/** Kits loaded when the host doesn't configure any. */
+export const DEFAULT_KITS: KitMap = { core: CORE_KIT, newsletter: NEWSLETTER_KIT };
+
+/**
+ * Normalize a host-provided kit map. Core is always present — the compiler,
+ * reverse parser and `--- use: core` directive all assume it.
+ */
+export function resolveKits(kits: KitMap): KitMap {
+  return kits.core ? kits : { core: CORE_KIT, ...kits };
+}
+
+/**
+ * Plugins for a compile pass. Host plugins always run; the email plugin is
+ * appended only for email output.
+ */
+export function resolvePlugins(plugins: MklyPlugin[], outputMode: 'web' | 'email'): MklyPlugin[] {
+  return outputMode === 'email' ? [...plugins, emailPlugin()] : plugins;
+}
+
+export function buildCompletionData(kits: KitMap): CompletionData {
+  return createCompletionData([], Object.values(kits));
+}
+
+/** Shallow comparison — hosts often pass fresh object literals on every render. */
+export function sameKits(a: KitMap, b: KitMap): boolean {
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((k) => a[k] === b[k]);
+}
+
+export function samePlugins(a: MklyPlugin[], b: MklyPlugin[]): boolean {
+  return a.length === b.length && a.every((p, i) => p === b[i]);
+}
+
+/** Block types that hold other blocks until a closing `--- /type` line. */
+export function containerBlockTypes(kits: KitMap): string[] {
+  return Object.values(kits).flatMap((kit) =>
+    (kit.blocks ?? []).filter((block) => block.isContainer).map((block) => `${kit.name}/${block.name}`),
+  );
+}
@@ -0,0 +1,52 @@
+import { diff_match_patch } from 'diff-match-patch';
+
+export type DiffLineKind = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  /** 1-based line in `before` (null for added lines). */
+  oldLine: number | null;
+  /** 1-based line in `after` (null for removed lines). */
+  newLine: number | null;
+}
+
+const dmp = new diff_match_patch();
+
+/** Line-level diff of two sources. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  // Terminate both so the last line compares like any other
+  const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(`${before}\n`, `${after}\n`);
+  const diffs = dmp.diff_main(chars1, chars2, false);
+  dmp.diff_charsToLines_(diffs, lineArray);
+
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  // Diff tuples are objects indexed like arrays, not iterables
+  for (const diff of diffs) {
+    const op = diff[0];
+    const texts = diff[1].split('\n');
+    texts.pop();
+    for (const text of texts) {
+      if (op === diff_match_patch.DIFF_DELETE) {
+        lines.push({ kind: 'removed', text, oldLine: oldLine++, newLine: null });
+      } else if (op === diff_match_patch.DIFF_INSERT) {
+        lines.push({ kind: 'added', text, oldLine: null, newLine: newLine++ });
+      } else {
+        lines.push({ kind: 'same', text, oldLine: oldLine++, newLine: newLine++ });
+      }
+    }
+  }
+  return lines;
+}
+
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.kind === 'added') added++;
+    else if (line.kind === 'removed') removed++;
+  }
+  return { added, removed };
+}
@@ -0,0 +1,326 @@
+/** What is persisted per document: the mkly source, undo history, autosaved draft, named versions and comment threads. */
+export type StorageSlot = 'document' | 'history' | 'draft' | 'snapshots' | 'comments';
+
+export interface StoredEntry {
+  data: string;
+  /** Opaque revision token, passed back to save() for conflict detection. */
+  revision: string;
+}
+
+/**
+ * Persistence backend for documents and undo history. All calls are async so
+ * remote and IndexedDB stores fit behind the same interface.
+ *
+ * save() only writes when the stored revision still equals `baseRevision`
+ * (null = nothing stored yet) and rejects with StorageConflictError otherwise —
+ * that's how a second tab or client writing the same documentId is detected.
+ */
+export interface StorageAdapter {
+  load(documentId: string, slot: StorageSlot): Promise<StoredEntry | null>;
+  /** Resolves with the new revision. */
+  save(documentId: string, slot: StorageSlot, data: string, baseRevision: string | null): Promise<string>;
+  remove(documentId: string, slot: StorageSlot): Promise<void>;
+  /** Largest payload the backend accepts; undo history is trimmed to fit. Omit for no limit. */
+  maxBytes?: number;
+}
+
+export class StorageConflictError extends Error {
+  constructor(
+    readonly documentId: string,
+    readonly slot: StorageSlot,
+  ) {
+    super(`"${documentId}" (${slot}) was changed by another editor`);
+    this.name = 'StorageConflictError';
+  }
+}
+
+function nextRevision(current: string | null): string {
+  return String((Number(current) || 0) + 1);
+}
+
+// ── localStorage ───────────────────────────────────────────────
+
+const LOCAL_PREFIXES: Record<StorageSlot, string> = {
+  document: 'mkly-doc:',
+  history: 'mkly-undo:',
+  draft: 'mkly-draft:',
+  snapshots: 'mkly-versions:',
+  comments: 'mkly-comments:',
+};
+
+export interface LocalStorageAdapterOptions {
+  /** Defaults to window.localStorage, resolved on each call. */
+  storage?: Storage;
+}
+
+/**
+ * Stores under `mkly-doc:<id>` / `mkly-undo:<id>` (the key UndoManager always
+ * used), with the revision alongside in `<key>:rev`. Capped at 500 KB, well
+ * under the usual 5 MB origin quota.
+ */
+export function createLocalStorageAdapter(options: LocalStorageAdapterOptions = {}): StorageAdapter {
+  const storage = () => options.storage ?? localStorage;
+  const key = (documentId: string, slot: StorageSlot) => LOCAL_PREFIXES[slot] + documentId;
+
+  // Entries written before revisions existed count as revision 0
+  const revisionOf = (k: string): string | null =>
+    storage().getItem(k) === null ? null : storage().getItem(`${k}:rev`) ?? '0';
+
+  return {
+    maxBytes: 500_000,
+    async load(documentId, slot) {
+      const k = key(documentId, slot);
+      const data = storage().getItem(k);
+      return data === null ? null : { data, revision: revisionOf(k) ?? '0' };
+    },
+    async save(documentId, slot, data, baseRevision) {
+      const k = key(documentId, slot);
+      const current = revisionOf(k);
+      if (current !== baseRevision) throw new StorageConflictError(documentId, slot);
+      const revision = nextRevision(current);
+      storage().setItem(k, data);
+      storage().setItem(`${k}:rev`, revision);
+      return revision;
+    },
+    async remove(documentId, slot) {
+      const k = key(documentId, slot);
+      storage().removeItem(k);
+      storage().removeItem(`${k}:rev`);
+    },
+  };
+}
+
+// ── IndexedDB ──────────────────────────────────────────────────
+
+export interface IndexedDbAdapterOptions {
+  /** Defaults to "mkly-editor". */
+  databaseName?: string;
+  /** Defaults to globalThis.indexedDB. */
+  indexedDB?: IDBFactory;
+}
+
+const IDB_STORE = 'entries';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * One object store keyed by `<slot>:<documentId>`. The revision check and the
+ * write share a readwrite transaction, so concurrent tabs can't interleave.
+ * No size cap — IndexedDB quotas are a share of free disk.
+ */
+export function createIndexedDbAdapter(options: IndexedDbAdapterOptions = {}): StorageAdapter {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    db ??= new Promise((resolve, reject) => {
+      const req = (options.indexedDB ?? indexedDB).open(options.databaseName ?? 'mkly-editor', 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        db = null;
+        reject(req.error ?? new Error('Could not open IndexedDB'));
+      };
+    });
+    return db;
+  };
+  const key = (documentId: string, slot: StorageSlot) => `${slot}:${documentId}`;
+
+  return {
+    async load(documentId, slot) {
+      const store = (await open()).transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE);
+      const entry = await request<StoredEntry | undefined>(store.get(key(documentId, slot)));
+      return entry ?? null;
+    },
+    async save(documentId, slot, data, baseRevision) {
+      const tx = (await open()).transaction(IDB_STORE, 'readwrite');
+      const store = tx.objectStore(IDB_STORE);
+      const current = await request<StoredEntry | undefined>(store.get(key(documentId, slot)));
+      if ((current?.revision ?? null) !== baseRevision) {
+        tx.abort();
+        throw new StorageConflictError(documentId, slot);
+      }
+      const revision = nextRevision(baseRevision);
+      await request(store.put({ data, revision } satisfies StoredEntry, key(documentId, slot)));
+      return revision;
+    },
+    async remove(documentId, slot) {
+      const store = (await open()).transaction(IDB_STORE, 'readwrite').objectStore(IDB_STORE);
+      await request(store.delete(key(documentId, slot)));
+    },
+  };
+}
+
+// ── HTTP ───────────────────────────────────────────────────────
+
+export interface HttpStorageAdapterOptions {
+  /** Entries live at `<baseUrl>/<documentId>/<slot>`. */
+  baseUrl: string;
+  /** Extra request headers, e.g. authorization. */
+  headers?: Record<string, string> | (() => Record<string, string>);
+  fetch?: typeof fetch;
+  maxBytes?: number;
+}
+
+/**
+ * REST backend: GET/PUT/DELETE per entry, revisions carried as ETags.
+ * PUT sends `If-Match: <revision>` (or `If-None-Match: *` for a new entry);
+ * the server answers 412 or 409 when the entry has moved on, and the new
+ * ETag on success.
+ */
+export function createHttpStorageAdapter(options: HttpStorageAdapterOptions): StorageAdapter {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const url = (documentId: string, slot: StorageSlot) => `${baseUrl}/${encodeURIComponent(documentId)}/${slot}`;
+  const headers = (): Record<string, string> =>
+    typeof options.headers === 'function' ? options.headers() : { ...options.headers };
+  const send = (input: string, init: RequestInit) => (options.fetch ?? fetch)(input, init);
+
+  const fail = (res: Response, action: string) =>
+    new Error(`Storage ${action} failed: ${res.status} ${res.statusText}`.trim());
+
+  return {
+    maxBytes: options.maxBytes,
+    async load(documentId, slot) {
+      const res = await send(url(documentId, slot), { method: 'GET', headers: headers() });
+      if (res.status === 404) return null;
+      if (!res.ok) throw fail(res, 'load');
+      return { data: await res.text(), revision: res.headers.get('ETag') ?? '' };
+    },
+    async save(documentId, slot, data, baseRevision) {
+      const res = await send(url(documentId, slot), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          ...(baseRevision === null ? { 'If-None-Match': '*' } : { 'If-Match': baseRevision }),
+          ...headers(),
+        },
+        body: data,
+      });
+      if (res.status === 409 || res.status === 412) throw new StorageConflictError(documentId, slot);
+      if (!res.ok) throw fail(res, 'save');
+      return res.headers.get('ETag') ?? '';
+    },
+    async remove(documentId, slot) {
+      const res = await send(url(documentId, slot), { method: 'DELETE', headers: headers() });
+      if (!res.ok && res.status !== 404) throw fail(res, 'remove');
+    },
+  };
+}
+
+// ── Writer ─────────────────────────────────────────────────────
+
+/**
+ * Serialises writes to one documentId/slot: at most one save in flight, and
+ * while it runs only the newest data is kept. Tracks the revision from load()
+ * and each save. After a conflict, writes are held until overwrite() or
+ * another load().
+ */
+export class StorageWriter {
+  private revision: string | null = null;
+  // Data matching `revision`, and the newest data handed to write()
+  private saved: string | null = null;
+  private latest: string | null = null;
+  private queued: string | null = null;
+  private inFlight: Promise<void> | null = null;
+  conflicted = false;
+  onSaved: (() => void) | null = null;
+  onError: ((err: Error) => void) | null = null;
+
+  constructor(
+    private storage: StorageAdapter,
+    readonly documentId: string,
+    readonly slot: StorageSlot,
+  ) {}
+
+  get maxBytes(): number | undefined {
+    return this.storage.maxBytes;
+  }
+
+  /** Read the stored data and adopt its revision. */
+  async load(): Promise<string | null> {
+    this.queued = null;
+    await this.flush();
+    const entry = await this.storage.load(this.documentId, this.slot);
+    this.revision = entry?.revision ?? null;
+    this.saved = this.latest = entry?.data ?? null;
+    this.conflicted = false;
+    return this.saved;
+  }
+
+  /** Queue data for saving. Returns false when it already matches the stored data. */
+  write(data: string): boolean {
+    this.latest = data;
+    if (!this.inFlight && data === this.saved) return false;
+    this.queued = data;
+    this.schedule();
+    return true;
+  }
+
+  /** Resolves once every queued write has settled. */
+  async flush(): Promise<void> {
+    while (this.inFlight) await this.inFlight;
+  }
+
+  /** Resolve a conflict in favour of the local data. */
+  async overwrite(): Promise<void> {
+    await this.flush();
+    const entry = await this.storage.load(this.documentId, this.slot);
+    this.revision = entry?.revision ?? null;
+    this.saved = entry?.data ?? null;
+    this.conflicted = false;
+    if (this.latest !== null && this.latest !== this.saved) {
+      this.queued = this.latest;
+      this.schedule();
+      await this.flush();
+    }
+  }
+
+  /** Delete the stored data. Counts as in flight, so flush() waits for it. */
+  remove(): Promise<void> {
+    this.queued = null;
+    const previous = this.inFlight;
+    const removal = (async () => {
+      if (previous) await previous;
+      await this.storage.remove(this.documentId, this.slot);
+      this.revision = this.saved = null;
+    })();
+    this.track(removal.catch(() => {}));
+    return removal;
+  }
+
+  private schedule(): void {
+    if (this.inFlight || this.conflicted) return;
+    this.track(this.drain());
+  }
+
+  private track(work: Promise<void>): void {
+    const tracked: Promise<void> = work.finally(() => {
+      if (this.inFlight !== tracked) return;
+      this.inFlight = null;
+      // Writes queued behind a removal
+      if (this.queued !== null) this.schedule();
+    });
+    this.inFlight = tracked;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queued !== null) {
+      const data = this.queued;
+      this.queued = null;
+      try {
+        this.revision = await this.storage.save(this.documentId, this.slot, data, this.revision);
+        this.saved = data;
+        if (this.queued === null) this.onSaved?.();
+      } catch (err) {
+        if (err instanceof StorageConflictError) this.conflicted = true;
+        this.queued = null;
+        this.onError?.(err instanceof Error ? err : new Error(String(err)));
+        return;
+      }
+    }
+  }
+}
@@ -28,7 +28,8 @@ function getIndent(line: string): number {
   return count;
 }
 
-function decomposeSelector(selector: string): { blockType: string; target: string; label?: string } {
+/** Split a top-level selector such as `core/card:intro.title` into block type, target and label. */
+export function decomposeSelector(selector: string): { blockType: string; target: string; label?: string } {
   const dotIdx = selector.indexOf('.');
   const colonIdx = selector.indexOf(':');
 
@@ -0,0 +1,81 @@
+import { diff_match_patch } from 'diff-match-patch';
+
+/**
+ * One pending change: `deleted` (at baseFrom..baseTo in the accepted source)
+ * replaced by `inserted` (at from..to in the proposed source). Either text
+ * may be empty.
+ */
+export interface Suggestion {
+  id: string;
+  baseFrom: number;
+  baseTo: number;
+  deleted: string;
+  from: number;
+  to: number;
+  inserted: string;
+}
+
+const dmp = new diff_match_patch();
+
+/**
+ * The change sets that turn `base` into `proposed`, one per run of adjacent
+ * edits. Word-level cleanup keeps a retyped word as a single change instead of
+ * interleaved letters.
+ */
+export function computeSuggestions(base: string, proposed: string): Suggestion[] {
+  if (base === proposed) return [];
+  const diffs = dmp.diff_main(base, proposed);
+  dmp.diff_cleanupSemantic(diffs);
+
+  const suggestions: Suggestion[] = [];
+  let basePos = 0;
+  let pos = 0;
+  let current: Suggestion | null = null;
+  // Diff tuples are objects indexed like arrays, not iterables
+  for (const diff of diffs) {
+    const op = diff[0];
+    const text = diff[1];
+    if (op === diff_match_patch.DIFF_EQUAL) {
+      current = null;
+      basePos += text.length;
+      pos += text.length;
+      continue;
+    }
+    if (!current) {
+      current = { id: '', baseFrom: basePos, baseTo: basePos, deleted: '', from: pos, to: pos, inserted: '' };
+      suggestions.push(current);
+    }
+    if (op === diff_match_patch.DIFF_DELETE) {
+      current.deleted += text;
+      current.baseTo += text.length;
+      basePos += text.length;
+    } else {
+      current.inserted += text;
+      current.to += text.length;
+      pos += text.length;
+    }
+  }
+  for (const s of suggestions) s.id = `${s.baseFrom}:${s.baseTo}:${s.inserted.length}`;
+  return suggestions;
+}
+
+/** The accepted source with `suggestion` taken in. */
+export function acceptSuggestion(base: string, suggestion: Suggestion): string {
+  return base.slice(0, suggestion.baseFrom) + suggestion.inserted + base.slice(suggestion.baseTo);
+}
+
+/** The proposed source with `suggestion` taken back out. */
+export function rejectSuggestion(proposed: string, suggestion: Suggestion): string {
+  return proposed.slice(0, suggestion.from) + suggestion.deleted + proposed.slice(suggestion.to);
+}
+
+/** 1-based lines of `source` that the suggestions touch, for marking blocks. */
+export function suggestionLines(source: string, suggestions: Suggestion[]): number[] {
+  const lines = new Set<number>();
+  for (const s of suggestions) {
+    const first = source.slice(0, s.from).split('\n').length;
+    const last = first + (source.slice(s.from, s.to).match(/\n/g)?.length ?? 0);
+    for (let line = first; line <= last; line++) lines.add(line);
+  }
+  return [...lines].sort((a, b) => a - b);
+}
@@ -0,0 +1,243 @@
+import { diff_match_patch } from 'diff-match-patch';
+
+/** The slice of BroadcastChannel TabSync needs, so tests can pass a fake. */
+export interface TabChannel {
+  postMessage(message: unknown): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  close(): void;
+}
+
+type TabMessage =
+  | { type: 'hello'; tabId: string }
+  | { type: 'ping'; tabId: string }
+  | { type: 'bye'; tabId: string }
+  | { type: 'edit'; tabId: string; rev: string; base: string; source: string }
+  // The writer's current document, for tabs that just joined
+  | { type: 'state'; tabId: string; rev: string; source: string };
+
+// Every message carries the page it came from
+type PageMessage = TabMessage & { pageId: string };
+
+export interface TabSyncStatus {
+  /** Other tabs with the same documentId. */
+  peers: number;
+  /** This tab persists the document; the others only follow its edits. */
+  isWriter: boolean;
+}
+
+export interface TabSyncOptions {
+  channel?: TabChannel;
+  heartbeatMs?: number;
+  /** Compared as strings: the smallest id is the oldest tab. */
+  tabId?: string;
+  /**
+   * Editors in the same page never sync with each other: BroadcastChannel
+   * delivers to other channels of the page too. Defaults to one id per page.
+   */
+  pageId?: string;
+}
+
+const HEARTBEAT_MS = 2000;
+// Peers missing this many heartbeats are treated as closed
+const MISSED_HEARTBEATS = 3;
+const KEPT_REVISIONS = 50;
+// Revision shared by every tab before the first synced edit
+const INITIAL_REV = '';
+
+const dmp = new diff_match_patch();
+
+// Ids sort by creation time, so the oldest tab wins elections and conflicts
+function newTabId(): string {
+  return `${Date.now().toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const PAGE_ID = newTabId();
+
+/** Apply the changes base → mine on top of theirs; null when a hunk doesn't fit. */
+export function mergeSources(base: string, mine: string, theirs: string): string | null {
+  if (mine === base) return theirs;
+  if (theirs === base || theirs === mine) return mine;
+  const [merged, applied] = dmp.patch_apply(dmp.patch_make(base, mine), theirs);
+  return applied.every(Boolean) ? merged : null;
+}
+
+/**
+ * Keeps tabs editing the same document in step over a BroadcastChannel.
+ * Every local edit is broadcast with the revision it was based on; a tab
+ * whose revision matches applies it directly. When two tabs edit at once,
+ * the newer tab rebases its own changes onto the older tab's edit and
+ * broadcasts the result — or reports a conflict when the changes overlap.
+ * The oldest open tab is elected writer and alone persists the document.
+ */
+export class TabSync {
+  readonly tabId: string;
+  private pageId: string;
+  private channel: TabChannel;
+  private peers = new Map<string, number>();
+  private rev = INITIAL_REV;
+  private source: string;
+  private revisions = new Map<string, string>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private heartbeatMs: number;
+  private writer = true;
+  // Has taken an edit from another tab
+  private synced = false;
+  /** Newest edit from another tab while a conflict is open. */
+  private conflict: { rev: string; source: string } | null = null;
+  /** Another tab's edit (or a merge with it) to put into the editor. */
+  onRemoteSource: ((source: string) => void) | null = null;
+  /** Local and remote edits overlap; resolveConflict() settles it. Null once resolved. */
+  onConflict: ((remoteSource: string | null) => void) | null = null;
+  onStatus: ((status: TabSyncStatus) => void) | null = null;
+
+  constructor(documentId: string, source: string, options: TabSyncOptions = {}) {
+    this.channel = options.channel ?? new BroadcastChannel(`mkly-doc:${documentId}`);
+    this.heartbeatMs = options.heartbeatMs ?? HEARTBEAT_MS;
+    this.tabId = options.tabId ?? newTabId();
+    this.pageId = options.pageId ?? PAGE_ID;
+    this.source = source;
+    this.revisions.set(INITIAL_REV, source);
+    this.channel.onmessage = (event) => this.receive(event.data as PageMessage);
+  }
+
+  start(): void {
+    this.post({ type: 'hello', tabId: this.tabId });
+    this.heartbeat = setInterval(() => {
+      this.post({ type: 'ping', tabId: this.tabId });
+      this.prunePeers();
+    }, this.heartbeatMs);
+  }
+
+  get status(): TabSyncStatus {
+    return { peers: this.peers.size, isWriter: this.writer };
+  }
+
+  /** Broadcast a local edit. */
+  publish(source: string): void {
+    if (source === this.source) return;
+    if (this.conflict) {
+      // Held back until the conflict is resolved
+      this.source = source;
+      return;
+    }
+    const base = this.rev;
+    this.commit(`${this.tabId}:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 6)}`, source);
+    this.post({ type: 'edit', tabId: this.tabId, rev: this.rev, base, source });
+  }
+
+  resolveConflict(resolution: 'keep-local' | 'use-remote'): void {
+    const conflict = this.conflict;
+    if (!conflict) return;
+    this.conflict = null;
+    this.synced = true;
+    const local = this.source;
+    this.commit(conflict.rev, conflict.source);
+    if (resolution === 'use-remote') {
+      this.onRemoteSource?.(conflict.source);
+    } else {
+      this.publish(local);
+    }
+    this.onConflict?.(null);
+  }
+
+  destroy(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    this.post({ type: 'bye', tabId: this.tabId });
+    this.channel.onmessage = null;
+    this.channel.close();
+  }
+
+  private receive(message: PageMessage): void {
+    if (!message || message.tabId === this.tabId || message.pageId === this.pageId) return;
+    if (message.type === 'bye') {
+      this.peers.delete(message.tabId);
+      this.updateStatus();
+      return;
+    }
+    this.touchPeer(message.tabId);
+    if (message.type === 'hello') {
+      this.post({ type: 'ping', tabId: this.tabId });
+      // The writer brings the new tab up to date
+      if (this.writer) {
+        this.post({ type: 'state', tabId: this.tabId, rev: this.rev, source: this.source });
+      }
+    } else if (message.type === 'state') {
+      // Only a tab that hasn't synced yet takes it, rebasing any early edits
+      if (!this.synced) this.receiveEdit({ ...message, type: 'edit', base: INITIAL_REV });
+    } else if (message.type === 'edit') {
+      this.receiveEdit(message);
+    }
+  }
+
+  private receiveEdit(edit: Extract<TabMessage, { type: 'edit' }>): void {
+    if (this.conflict) {
+      // Keep following the other tab until the user picks a side
+      this.conflict = { rev: edit.rev, source: edit.source };
+      this.onConflict?.(edit.source);
+      return;
+    }
+    if (edit.rev === this.rev && edit.source === this.source) return;
+    if (edit.base === this.rev) {
+      this.synced = true;
+      this.commit(edit.rev, edit.source);
+      this.onRemoteSource?.(edit.source);
+      return;
+    }
+    // Concurrent edits: the newer tab rebases, the older one waits for it
+    if (this.tabId < edit.tabId) return;
+    const base = this.revisions.get(edit.base) ?? this.revisions.get(INITIAL_REV)!;
+    const local = this.source;
+    const merged = mergeSources(base, local, edit.source);
+    if (merged === null) {
+      this.conflict = { rev: edit.rev, source: edit.source };
+      this.onConflict?.(edit.source);
+      return;
+    }
+    this.synced = true;
+    this.commit(edit.rev, edit.source);
+    this.onRemoteSource?.(merged);
+    // Our changes on top of theirs, as an edit based on theirs
+    this.publish(merged);
+  }
+
+  private commit(rev: string, source: string): void {
+    this.rev = rev;
+    this.source = source;
+    this.revisions.set(rev, source);
+    if (this.revisions.size > KEPT_REVISIONS) {
+      for (const key of this.revisions.keys()) {
+        if (key === INITIAL_REV) continue;
+        this.revisions.delete(key);
+        break;
+      }
+    }
+  }
+
+  private touchPeer(tabId: string): void {
+    const known = this.peers.has(tabId);
+    this.peers.set(tabId, Date.now());
+    if (!known) this.updateStatus();
+  }
+
+  private prunePeers(): void {
+    const cutoff = Date.now() - this.heartbeatMs * MISSED_HEARTBEATS;
+    let changed = false;
+    for (const [tabId, seen] of this.peers) {
+      if (seen < cutoff) {
+        this.peers.delete(tabId);
+        changed = true;
+      }
+    }
+    if (changed) this.updateStatus();
+  }
+
+  private updateStatus(): void {
+    this.writer = [...this.peers.keys()].every((tabId) => this.tabId < tabId);
+    this.onStatus?.(this.status);
+  }
+
+  private post(message: TabMessage): void {
+    this.channel.postMessage({ ...message, pageId: this.pageId });
+  }
+}
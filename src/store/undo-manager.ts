@@ -1,135 +1,334 @@
 import { diff_match_patch } from 'diff-match-patch';
+import { createLocalStorageAdapter, StorageConflictError, StorageWriter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
 
-interface UndoPatch {
+// Version 1: a linear patch stack (redo entries were dropped on new edits)
+interface LegacyUndoState {
+  version: 1;
+  base: string;
+  patches: Array<{ fwd: string; rev: string; ts: number }>;
+  cursor: number;
+}
+
+interface UndoNode {
+  id: number;
+  parent: number | null;
+  // Patches between the parent's source and this node's (empty on the root)
   fwd: string;
   rev: string;
   ts: number;
+  // Child that redo follows: the last one created or visited
+  activeChild: number | null;
+  // What the step did, when it came from a labeled transaction
+  label?: string;
 }
 
+// Version 2: a tree, so undoing and then typing keeps the old branch
 interface UndoState {
-  version: 1;
+  version: 2;
+  /** Source at the root node. */
   base: string;
-  patches: UndoPatch[];
-  cursor: number;
+  root: number;
+  nodes: UndoNode[];
+  current: number;
+  nextId: number;
 }
 
 interface UndoManagerConfig {
   documentId: string;
+  /** Steps kept across all branches. */
   maxEntries: number;
   debounceMs: number;
+  /** Defaults to the storage adapter's maxBytes. */
   maxStorageBytes: number;
+  /** Read and write the history through `storage`; otherwise it is kept in memory only. */
   persistHistory: boolean;
+  storage: StorageAdapter;
 }
 
 export interface UndoInfo {
   position: number;
   total: number;
   storageBytes: number;
+  /** 1-based index of the current step among its sibling branches. */
+  branch: number;
+  branchCount: number;
+  /** Label of the step undo would revert; null for plain typing. */
+  undoLabel: string | null;
+  /** Label of the step redo would apply. */
+  redoLabel: string | null;
+}
+
+/** One step of the undo tree, flattened depth-first for display. */
+export interface UndoTreeNode {
+  id: number;
+  parent: number | null;
+  ts: number;
+  label: string | null;
+  depth: number;
+  current: boolean;
+  /** On the path from the root to the current step. */
+  ancestor: boolean;
 }
 
-const DEFAULT_CONFIG: Omit<UndoManagerConfig, 'documentId'> = {
+const DEFAULT_CONFIG: Omit<UndoManagerConfig, 'documentId' | 'storage' | 'maxStorageBytes'> = {
   maxEntries: 20,
   debounceMs: 800,
-  maxStorageBytes: 500_000,
   persistHistory: false,
 };
 
 const dmp = new diff_match_patch();
 
-function storageKey(documentId: string): string {
-  return `mkly-undo:${documentId}`;
+function freshState(source: string): UndoState {
+  return {
+    version: 2,
+    base: source,
+    root: 0,
+    nodes: [{ id: 0, parent: null, fwd: '', rev: '', ts: Date.now(), activeChild: null }],
+    current: 0,
+    nextId: 1,
+  };
+}
+
+/** Turn a v1 patch stack into a single-branch tree. */
+function migrateLegacyState(legacy: LegacyUndoState): UndoState {
+  const state = freshState(legacy.base);
+  legacy.patches.forEach((patch, i) => {
+    state.nodes[i].activeChild = i + 1;
+    state.nodes.push({ id: i + 1, parent: i, fwd: patch.fwd, rev: patch.rev, ts: patch.ts, activeChild: null });
+  });
+  state.current = Math.max(0, Math.min(legacy.cursor, legacy.patches.length));
+  state.nextId = legacy.patches.length + 1;
+  return state;
+}
+
+function parseState(raw: string): UndoState | null {
+  const parsed = JSON.parse(raw);
+  if (typeof parsed?.base !== 'string') return null;
+  if (parsed.version === 1 && Array.isArray(parsed.patches)) return migrateLegacyState(parsed as LegacyUndoState);
+  if (parsed.version !== 2 || !Array.isArray(parsed.nodes)) return null;
+  const state = parsed as UndoState;
+  const ids = new Set(state.nodes.map((n) => n.id));
+  return ids.has(state.root) && ids.has(state.current) ? state : null;
+}
+
+function describeState(state: UndoState, storageBytes: number): UndoInfo {
+  const byId = new Map(state.nodes.map((n) => [n.id, n]));
+  const current = byId.get(state.current)!;
+  let position = 0;
+  for (let node = current; node.parent !== null; node = byId.get(node.parent)!) position++;
+  const siblings = current.parent === null
+    ? [current]
+    : state.nodes.filter((n) => n.parent === current.parent).sort((a, b) => a.id - b.id);
+  const children = state.nodes.filter((n) => n.parent === current.id).sort((a, b) => a.id - b.id);
+  const redoTarget = children.find((n) => n.id === current.activeChild) ?? children[children.length - 1];
+  return {
+    position,
+    total: state.nodes.length - 1,
+    storageBytes,
+    branch: siblings.indexOf(current) + 1,
+    branchCount: siblings.length,
+    undoLabel: current.parent === null ? null : current.label ?? null,
+    redoLabel: redoTarget?.label ?? null,
+  };
 }
 
 export class UndoManager {
   private state: UndoState;
   private config: UndoManagerConfig;
   private pending: string | null = null;
+  private pendingLabel: string | null = null;
+  // Open transaction; nested ones fold into the outermost label
+  private transaction: { label: string; depth: number } | null = null;
   private timer: ReturnType<typeof setTimeout> | null = null;
   private lastSource: string;
+  private writer: StorageWriter;
+  // False in tabs that leave persistence to another tab with the same document
+  private persisting = true;
   onCheckpoint: (() => void) | null = null;
+  /** Persistence failures that trimming the history couldn't fix. */
+  onStorageError: ((err: Error) => void) | null = null;
 
   constructor(documentId: string, initialSource: string, config?: Partial<Omit<UndoManagerConfig, 'documentId'>>) {
-    this.config = { documentId, ...DEFAULT_CONFIG, ...config };
-    if (this.config.persistHistory) {
-      this.state = this.load() ?? {
-        version: 1,
-        base: initialSource,
-        patches: [],
-        cursor: 0,
-      };
-    } else {
-      localStorage.removeItem(storageKey(documentId));
-      this.state = {
-        version: 1,
-        base: initialSource,
-        patches: [],
-        cursor: 0,
-      };
-    }
+    const storage = config?.storage ?? createLocalStorageAdapter();
+    this.config = {
+      documentId,
+      ...DEFAULT_CONFIG,
+      storage,
+      maxStorageBytes: storage.maxBytes ?? Infinity,
+      ...config,
+    };
+    this.writer = new StorageWriter(storage, documentId, 'history');
+    this.writer.onError = (err) => this.handleStorageError(err);
+    this.state = freshState(initialSource);
     this.lastSource = this.currentSource();
+    // Older versions always kept history under mkly-undo:<id>; drop it once
+    // persistence is off. A host adapter is never touched without opting in.
+    if (!this.config.persistHistory && !config?.storage) this.writer.remove().catch(() => {});
   }
 
-  private load(): UndoState | null {
+  /**
+   * Load persisted history (persistHistory only), migrating the v1 format.
+   * Resolves true when a stored history replaced the fresh one.
+   */
+  async restore(): Promise<boolean> {
+    if (!this.config.persistHistory) return false;
+    let raw: string | null;
     try {
-      const raw = localStorage.getItem(storageKey(this.config.documentId));
-      if (!raw) return null;
-      const parsed = JSON.parse(raw);
-      if (parsed?.version !== 1 || typeof parsed.base !== 'string') return null;
-      return parsed as UndoState;
+      raw = await this.writer.load();
+    } catch (err) {
+      this.onStorageError?.(err instanceof Error ? err : new Error(String(err)));
+      return false;
+    }
+    if (!raw) return false;
+    let loaded: UndoState | null = null;
+    try {
+      loaded = parseState(raw);
     } catch {
-      localStorage.removeItem(storageKey(this.config.documentId));
-      return null;
+      // Unreadable — dropped below
+    }
+    if (!loaded) {
+      this.writer.remove().catch(() => {});
+      return false;
     }
+    this.state = loaded;
+    this.lastSource = this.currentSource();
+    return true;
   }
 
   private save(): void {
-    try {
-      const json = JSON.stringify(this.state);
-      if (json.length > this.config.maxStorageBytes) {
+    if (!this.persisting) return;
+    const json = JSON.stringify(this.state);
+    if (json.length > this.config.maxStorageBytes) {
+      this.trimHalf();
+      const trimmed = JSON.stringify(this.state);
+      if (trimmed.length > this.config.maxStorageBytes) {
         this.trimHalf();
-        const trimmed = JSON.stringify(this.state);
-        if (trimmed.length > this.config.maxStorageBytes) {
-          this.trimHalf();
-        }
       }
-      localStorage.setItem(storageKey(this.config.documentId), JSON.stringify(this.state));
-    } catch {
+    }
+    // Without persistHistory the tree stays in memory; the adapter may be
+    // the host's backend, which never asked for it
+    if (this.config.persistHistory) this.writer.write(JSON.stringify(this.state));
+  }
+
+  private handleStorageError(err: Error): void {
+    // History belongs to this editing session; the document slot is where
+    // conflicts are surfaced, so another writer's history just gets replaced.
+    if (err instanceof StorageConflictError) {
+      this.writer.overwrite().catch((e) => this.onStorageError?.(e));
+      return;
+    }
+    if (err.name === 'QuotaExceededError' && this.state.nodes.length > 2) {
       this.trimHalf();
-      try {
-        localStorage.setItem(storageKey(this.config.documentId), JSON.stringify(this.state));
-      } catch {
-        this.state = { version: 1, base: this.lastSource, patches: [], cursor: 0 };
-        try {
-          localStorage.setItem(storageKey(this.config.documentId), JSON.stringify(this.state));
-        } catch {
-          // Give up on persistence
-        }
-      }
+      this.writer.write(JSON.stringify(this.state));
+      return;
     }
+    this.onStorageError?.(err);
   }
 
-  private trimHalf(): void {
-    const { patches, cursor, base } = this.state;
-    if (patches.length <= 1) return;
+  // ── Tree helpers ─────────────────────────────────────────────
+
+  private node(id: number): UndoNode {
+    const node = this.state.nodes.find((n) => n.id === id);
+    if (!node) throw new Error(`Unknown undo step ${id}`);
+    return node;
+  }
 
-    const keepFrom = Math.floor(patches.length / 2);
-    const newBase = this.reconstructAt(keepFrom, base, patches);
-    this.state.base = newBase;
-    this.state.patches = patches.slice(keepFrom);
-    this.state.cursor = Math.max(0, cursor - keepFrom);
+  private children(id: number): UndoNode[] {
+    return this.state.nodes.filter((n) => n.parent === id).sort((a, b) => a.id - b.id);
   }
 
-  private reconstructAt(index: number, base: string, patches: UndoPatch[]): string {
-    let text = base;
-    for (let i = 0; i < index; i++) {
-      text = this.applyPatch(text, patches[i].fwd);
+  /** Node ids from the root's first child down to `id`. */
+  private pathTo(id: number): number[] {
+    const path: number[] = [];
+    for (let node = this.node(id); node.parent !== null; node = this.node(node.parent)) {
+      path.unshift(node.id);
+    }
+    return path;
+  }
+
+  private sourceAt(id: number): string {
+    let text = this.state.base;
+    for (const step of this.pathTo(id)) {
+      text = this.applyPatch(text, this.node(step).fwd);
     }
     return text;
   }
 
+  private redoTarget(id: number): UndoNode | undefined {
+    const node = this.node(id);
+    const children = this.children(id);
+    return children.find((c) => c.id === node.activeChild) ?? children[children.length - 1];
+  }
+
+  /** Make redo from each ancestor lead back down to `id`. */
+  private markPath(id: number): void {
+    for (const step of this.pathTo(id)) {
+      this.node(this.node(step).parent!).activeChild = step;
+    }
+  }
+
+  private trimHalf(): void {
+    this.prune(Math.floor((this.state.nodes.length - 1) / 2));
+  }
+
+  /**
+   * Drop steps until at most `limit` remain. Side branches go first, oldest
+   * leaf at a time; then the root moves towards the current step; the redo
+   * path is dropped last.
+   */
+  private prune(limit: number): void {
+    while (this.state.nodes.length - 1 > limit) {
+      const path = this.pathTo(this.state.current);
+      const keep = new Set([this.state.root, ...path]);
+      for (let next = this.redoTarget(this.state.current); next; next = this.redoTarget(next.id)) {
+        keep.add(next.id);
+      }
+
+      const leaves = this.state.nodes.filter((n) => this.children(n.id).length === 0);
+      const sideLeaves = leaves.filter((n) => !keep.has(n.id));
+      if (sideLeaves.length > 0) {
+        const oldest = sideLeaves.reduce((a, b) => (b.ts < a.ts ? b : a));
+        this.removeNode(oldest.id);
+      } else if (path.length > 0) {
+        this.reroot(path[0]);
+      } else {
+        const tip = leaves.find((n) => n.id !== this.state.current);
+        if (!tip) return;
+        this.removeNode(tip.id);
+      }
+    }
+  }
+
+  private removeNode(id: number): void {
+    const node = this.node(id);
+    this.state.nodes = this.state.nodes.filter((n) => n.id !== id);
+    if (node.parent !== null) {
+      const parent = this.node(node.parent);
+      if (parent.activeChild === id) parent.activeChild = null;
+    }
+  }
+
+  // The root has a single child left (side branches are pruned first)
+  private reroot(childId: number): void {
+    const child = this.node(childId);
+    let base: string;
+    try {
+      base = this.applyPatch(this.state.base, child.fwd);
+    } catch {
+      base = this.sourceAt(childId);
+    }
+    this.state.nodes = this.state.nodes.filter((n) => n.id !== this.state.root);
+    this.state.base = base;
+    this.state.root = childId;
+    child.parent = null;
+    child.fwd = '';
+    child.rev = '';
+  }
+
   private currentSource(): string {
     try {
-      return this.reconstructAt(this.state.cursor, this.state.base, this.state.patches);
+      return this.sourceAt(this.state.current);
     } catch {
       return this.state.base;
     }
@@ -144,26 +343,26 @@ export class UndoManager {
     return result;
   }
 
-  private createCheckpoint(newSource: string): void {
+  private createCheckpoint(newSource: string, label: string | null): void {
     const currentSrc = this.currentSource();
     if (newSource === currentSrc) return;
 
-    // Truncate any redo entries after current cursor
-    this.state.patches = this.state.patches.slice(0, this.state.cursor);
-
-    const fwdPatches = dmp.patch_make(currentSrc, newSource);
-    const revPatches = dmp.patch_make(newSource, currentSrc);
-
-    this.state.patches.push({
-      fwd: dmp.patch_toText(fwdPatches),
-      rev: dmp.patch_toText(revPatches),
+    // New branch under the current step; existing children stay reachable
+    const node: UndoNode = {
+      id: this.state.nextId++,
+      parent: this.state.current,
+      fwd: dmp.patch_toText(dmp.patch_make(currentSrc, newSource)),
+      rev: dmp.patch_toText(dmp.patch_make(newSource, currentSrc)),
       ts: Date.now(),
-    });
-    this.state.cursor = this.state.patches.length;
+      activeChild: null,
+    };
+    if (label) node.label = label;
+    this.state.nodes.push(node);
+    this.node(this.state.current).activeChild = node.id;
+    this.state.current = node.id;
 
-    // Trim if over max
-    if (this.state.patches.length > this.config.maxEntries) {
-      this.trimHalf();
+    if (this.state.nodes.length - 1 > this.config.maxEntries) {
+      this.prune(this.config.maxEntries);
     }
 
     this.lastSource = newSource;
@@ -171,8 +370,12 @@ export class UndoManager {
   }
 
   recordChange(source: string): void {
+    const label = this.transaction?.label ?? null;
+    // A change from a different action closes the pending step first
+    if (this.pending !== null && this.pendingLabel !== label) this.commitPending();
     if (source === this.lastSource) return;
     this.pending = source;
+    this.pendingLabel = label;
 
     if (this.timer) clearTimeout(this.timer);
     this.timer = setTimeout(() => {
@@ -188,8 +391,10 @@ export class UndoManager {
     }
     if (this.pending !== null) {
       const src = this.pending;
+      const label = this.pendingLabel;
       this.pending = null;
-      this.createCheckpoint(src);
+      this.pendingLabel = null;
+      this.createCheckpoint(src, label);
     }
   }
 
@@ -197,72 +402,127 @@ export class UndoManager {
     this.commitPending();
   }
 
-  undo(): string | null {
-    this.flush();
-    if (this.state.cursor <= 0) return null;
+  /**
+   * Record the following changes as one step named `label`. Pending typing
+   * becomes its own step first. Consecutive transactions with the same label
+   * inside the debounce window (a color drag, a slider) merge into one step.
+   */
+  beginTransaction(label: string): void {
+    if (this.transaction) {
+      this.transaction.depth++;
+      return;
+    }
+    if (this.pending !== null && this.pendingLabel !== label) this.commitPending();
+    this.transaction = { label, depth: 1 };
+  }
+
+  endTransaction(): void {
+    if (!this.transaction) return;
+    if (--this.transaction.depth === 0) this.transaction = null;
+  }
 
+  /** Move to another step, patching from the current source where possible. */
+  private moveTo(id: number, patch: string | null): string {
+    let result: string;
     try {
-      const patch = this.state.patches[this.state.cursor - 1];
-      const currentSrc = this.currentSource();
-      const result = this.applyPatch(currentSrc, patch.rev);
-      this.state.cursor--;
-      this.lastSource = result;
-      this.save();
-      return result;
+      result = patch !== null ? this.applyPatch(this.currentSource(), patch) : this.sourceAt(id);
     } catch {
       // Reconstruct from base on failure
-      this.state.cursor = Math.max(0, this.state.cursor - 1);
-      const result = this.currentSource();
-      this.lastSource = result;
-      this.save();
-      return result;
+      result = this.sourceAt(id);
     }
+    this.state.current = id;
+    this.markPath(id);
+    this.lastSource = result;
+    this.save();
+    return result;
+  }
+
+  undo(): string | null {
+    this.flush();
+    const node = this.node(this.state.current);
+    if (node.parent === null) return null;
+    return this.moveTo(node.parent, node.rev);
   }
 
   redo(): string | null {
     this.flush();
-    if (this.state.cursor >= this.state.patches.length) return null;
+    const next = this.redoTarget(this.state.current);
+    if (!next) return null;
+    return this.moveTo(next.id, next.fwd);
+  }
 
-    try {
-      const patch = this.state.patches[this.state.cursor];
-      const currentSrc = this.currentSource();
-      const result = this.applyPatch(currentSrc, patch.fwd);
-      this.state.cursor++;
-      this.lastSource = result;
-      this.save();
-      return result;
-    } catch {
-      this.state.cursor = Math.min(this.state.patches.length, this.state.cursor + 1);
-      const result = this.currentSource();
-      this.lastSource = result;
-      this.save();
-      return result;
-    }
+  /** Move to the previous (-1) or next (1) sibling branch of the current step. */
+  switchBranch(direction: -1 | 1): string | null {
+    this.flush();
+    const node = this.node(this.state.current);
+    if (node.parent === null) return null;
+    const siblings = this.children(node.parent);
+    const target = siblings[siblings.findIndex((n) => n.id === node.id) + direction];
+    if (!target) return null;
+    return this.moveTo(target.id, null);
+  }
+
+  /** The source as of a step, without moving there. */
+  sourceOf(id: number): string | null {
+    return this.state.nodes.some((n) => n.id === id) ? this.sourceAt(id) : null;
+  }
+
+  /** Move to any step of the tree. */
+  jumpTo(id: number): string | null {
+    this.flush();
+    if (id === this.state.current || !this.state.nodes.some((n) => n.id === id)) return null;
+    return this.moveTo(id, null);
   }
 
   get canUndo(): boolean {
-    return this.state.cursor > 0 || this.pending !== null;
+    return this.state.current !== this.state.root || this.pending !== null;
   }
 
   get canRedo(): boolean {
-    return this.state.cursor < this.state.patches.length;
+    // Pending changes become a new step with nothing to redo
+    return this.pending === null && this.children(this.state.current).length > 0;
   }
 
   getInfo(): UndoInfo {
-    const json = JSON.stringify(this.state);
-    return {
-      position: this.state.cursor,
-      total: this.state.patches.length,
-      storageBytes: json.length,
+    const info = describeState(this.state, JSON.stringify(this.state).length);
+    // Undo commits pending changes first, so that's what it reverts
+    return this.pending !== null ? { ...info, undoLabel: this.pendingLabel, redoLabel: null } : info;
+  }
+
+  /** Every step, depth-first with branches in creation order. */
+  getTree(): UndoTreeNode[] {
+    const ancestors = new Set(this.pathTo(this.state.current));
+    ancestors.add(this.state.root);
+    const out: UndoTreeNode[] = [];
+    const visit = (node: UndoNode, depth: number) => {
+      out.push({
+        id: node.id,
+        parent: node.parent,
+        ts: node.ts,
+        label: node.label ?? null,
+        depth,
+        current: node.id === this.state.current,
+        ancestor: ancestors.has(node.id),
+      });
+      for (const child of this.children(node.id)) visit(child, depth + 1);
     };
+    visit(this.node(this.state.root), 0);
+    return out;
   }
 
   clear(): void {
     if (this.timer) clearTimeout(this.timer);
     this.timer = null;
     this.pending = null;
-    this.state = { version: 1, base: this.lastSource, patches: [], cursor: 0 };
-    localStorage.removeItem(storageKey(this.config.documentId));
+    this.pendingLabel = null;
+    this.state = freshState(this.lastSource);
+    if (this.config.persistHistory) this.writer.remove().catch((err) => this.onStorageError?.(err));
+  }
+
+  /** Resolves once the history has been written out. */
+  flushStorage(): Promise<void> {
+    this.flush();
+    return this.writer.flush();
   }
 
   destroy(): void {
@@ -271,6 +531,13 @@ export class UndoManager {
     this.timer = null;
   }
 
+  /** Turn writing the history on or off; turning it on saves the current tree. */
+  setPersisting(persisting: boolean): void {
+    if (persisting === this.persisting) return;
+    this.persisting = persisting;
+    if (persisting && this.config.persistHistory) this.save();
+  }
+
   /** Sync lastSource when external code sets the source (undo/redo apply) */
   syncLastSource(source: string): void {
     this.lastSource = source;
@@ -278,21 +545,23 @@ export class UndoManager {
 }
 
 /** Static utilities for external access (e.g., parent app) */
-export function clearDocumentHistory(documentId: string): void {
-  localStorage.removeItem(storageKey(documentId));
+export async function clearDocumentHistory(
+  documentId: string,
+  storage: StorageAdapter = createLocalStorageAdapter(),
+): Promise<void> {
+  await storage.remove(documentId, 'history');
 }
 
-export function getDocumentHistoryInfo(documentId: string): UndoInfo | null {
+export async function getDocumentHistoryInfo(
+  documentId: string,
+  storage: StorageAdapter = createLocalStorageAdapter(),
+): Promise<UndoInfo | null> {
   try {
-    const raw = localStorage.getItem(storageKey(documentId));
-    if (!raw) return null;
-    const parsed = JSON.parse(raw) as UndoState;
-    if (parsed?.version !== 1) return null;
-    return {
-      position: parsed.cursor,
-      total: parsed.patches.length,
-      storageBytes: raw.length,
-    };
+    const entry = await storage.load(documentId, 'history');
+    if (!entry) return null;
+    const parsed = parseState(entry.data);
+    if (!parsed) return null;
+    return describeState(parsed, entry.data.length);
   } catch {
     return null;
   }
@@ -0,0 +1,199 @@
+import { useEffect } from 'react';
+import * as Y from 'yjs';
+import type { Awareness } from 'y-protocols/awareness';
+import { registerUndoHandlers } from './editor-store';
+import type { CollabPeer, CollabState, EditorStore } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { CollabProvider } from './collab-provider';
+
+export interface CollabOptions {
+  /** WebSocket relay, e.g. ws://localhost:4455 (see scripts/collab-relay.ts). */
+  url: string;
+  room: string;
+  user: { name: string; color?: string };
+  /** Defaults to the global WebSocket. */
+  WebSocket?: typeof WebSocket;
+}
+
+// The shared document of a store, bound to CodeMirror by MklyEditor once synced
+export interface CollabSession {
+  doc: Y.Doc;
+  text: Y.Text;
+  provider: CollabProvider;
+  /** Tracks only this client's edits, so undo never reverts someone else's. */
+  undoManager: Y.UndoManager;
+}
+
+const sessions = new WeakMap<EditorStore, CollabSession>();
+
+export function getCollabSession(store: EditorStore): CollabSession | null {
+  return sessions.get(store) ?? null;
+}
+
+const PEER_COLORS = ['#e2725b', '#3d8bd4', '#4caf7a', '#b36bd6', '#d4a13d', '#d45b8f', '#3dbfb3', '#7a7fd4'];
+
+/** A stable color per user name, for users who don't pick one. */
+export function collabColor(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+// Peer colors end up in the preview's CSS, so only plain color values pass
+const PEER_COLOR_RE = /^(#[\da-f]{3,4}|#[\da-f]{6}|#[\da-f]{8}|(rgb|hsl)a?\([\d\s.,%/]+\))$/i;
+
+/**
+ * The other clients in the room. Each publishes the start of its active block
+ * as a relative position, which is resolved against this client's copy of the
+ * text so the line stays right while lines above it are edited. A color
+ * that isn't a hex, rgb() or hsl() value is replaced by `collabColor`.
+ */
+export function collabPeers(awareness: Awareness, text: Y.Text): CollabPeer[] {
+  const peers: CollabPeer[] = [];
+  awareness.getStates().forEach((state, clientId) => {
+    if (clientId === awareness.clientID || !state.user) return;
+    let blockLine: number | null = null;
+    if (state.block && text.doc) {
+      const pos = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(state.block), text.doc);
+      if (pos && pos.type === text) blockLine = text.toString().slice(0, pos.index).split('\n').length;
+    }
+    const color = String(state.user.color ?? '');
+    peers.push({
+      clientId,
+      name: String(state.user.name ?? 'Anonymous'),
+      color: PEER_COLOR_RE.test(color) ? color : collabColor(String(state.user.name ?? '')),
+      blockLine,
+    });
+  });
+  return peers.sort((a, b) => a.clientId - b.clientId);
+}
+
+function lineStart(source: string, line: number): number {
+  let index = 0;
+  for (let i = 1; i < line && index !== -1; i++) index = source.indexOf('\n', index) + 1 || -1;
+  return index === -1 ? source.length : index;
+}
+
+function syncUndoState(store: EditorStore, undoManager: Y.UndoManager): void {
+  store.setState({
+    canUndo: undoManager.canUndo(),
+    canRedo: undoManager.canRedo(),
+    undoInfo: {
+      position: undoManager.undoStack.length,
+      total: undoManager.undoStack.length + undoManager.redoStack.length,
+      storageBytes: 0,
+      branch: 1,
+      branchCount: 1,
+      undoLabel: null,
+      redoLabel: null,
+    },
+    undoTree: [],
+  });
+}
+
+/**
+ * Edit the source together with everyone in `options.room`. The text lives in
+ * a Y.Doc synced through the relay; MklyEditor binds it to CodeMirror (remote
+ * cursors included) once the room's copy has arrived, and the store follows
+ * the editor as usual. Presence (name, color, active block) is shared through
+ * awareness and mirrored into collab.peers. While connected, undo/redo only
+ * revert this client's edits. Does nothing without options.
+ */
+export function useCollab(options: CollabOptions | undefined): void {
+  const editorStore = useEditorStoreApi();
+  const url = options?.url;
+  const room = options?.room;
+  const name = options?.user.name;
+  const color = options?.user.color;
+  const WebSocketImpl = options?.WebSocket;
+
+  useEffect(() => {
+    if (!url || !room || name === undefined) return;
+    const doc = new Y.Doc();
+    const text = doc.getText('source');
+    const provider = new CollabProvider(url, room, doc, { WebSocket: WebSocketImpl });
+    // yCollab adds its own origin, so only edits typed or applied here are tracked
+    const undoManager = new Y.UndoManager(text, { trackedOrigins: new Set() });
+    const session: CollabSession = { doc, text, provider, undoManager };
+    sessions.set(editorStore, session);
+
+    const { suggestionBase, setCollab, setSource, setSuggestionBase } = editorStore.getState();
+    // Suggestion mode is off while editing together; only accepted text joins the room
+    if (suggestionBase !== null) {
+      setSource(suggestionBase);
+      setSuggestionBase(null);
+    }
+    setCollab({ room, status: provider.status, synced: false, peers: [] });
+    const updateCollab = (partial: Partial<CollabState>) => {
+      const current = editorStore.getState().collab;
+      if (current) setCollab({ ...current, ...partial });
+    };
+
+    const userColor = color ?? collabColor(name);
+    provider.awareness.setLocalStateField('user', { name, color: userColor, colorLight: `${userColor}33` });
+
+    const publishBlock = (line: number | null) => {
+      const source = text.toString();
+      const block = line === null || !editorStore.getState().collab?.synced
+        ? null
+        : Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, lineStart(source, line)));
+      provider.awareness.setLocalStateField('block', block);
+    };
+
+    provider.onStatus = (status) => updateCollab({ status });
+    provider.onSynced = () => {
+      const { source, setSource } = editorStore.getState();
+      if (text.length === 0) {
+        // First one in: the room starts from this editor's document
+        doc.transact(() => text.insert(0, source), 'seed');
+      } else if (text.toString() !== source) {
+        setSource(text.toString());
+      }
+      updateCollab({ synced: true });
+      publishBlock(editorStore.getState().activeBlockLine);
+    };
+
+    const refreshPeers = () => updateCollab({ peers: collabPeers(provider.awareness, text) });
+    provider.awareness.on('change', refreshPeers);
+    // Remote edits move the lines other users' blocks are on
+    text.observe(refreshPeers);
+
+    const handleStack = () => syncUndoState(editorStore, undoManager);
+    undoManager.on('stack-item-added', handleStack);
+    undoManager.on('stack-item-popped', handleStack);
+    undoManager.on('stack-cleared', handleStack);
+    const restoreUndo = registerUndoHandlers({
+      undo: () => undoManager.undo() !== null,
+      redo: () => undoManager.redo() !== null,
+      flush: () => undoManager.stopCapturing(),
+      clear: () => undoManager.clear(),
+      // The shared history is linear per client
+      switchBranch: () => false,
+      jumpTo: () => false,
+      beginTransaction: () => undoManager.stopCapturing(),
+      endTransaction: () => undoManager.stopCapturing(),
+    }, editorStore);
+    syncUndoState(editorStore, undoManager);
+
+    const unsubscribe = editorStore.subscribe((state, prev) => {
+      if (state.activeBlockLine !== prev.activeBlockLine) publishBlock(state.activeBlockLine);
+    });
+
+    return () => {
+      unsubscribe();
+      restoreUndo();
+      undoManager.off('stack-item-added', handleStack);
+      undoManager.off('stack-item-popped', handleStack);
+      undoManager.off('stack-cleared', handleStack);
+      text.unobserve(refreshPeers);
+      provider.awareness.off('change', refreshPeers);
+      provider.destroy();
+      undoManager.destroy();
+      doc.destroy();
+      if (sessions.get(editorStore) === session) sessions.delete(editorStore);
+      setCollab(null);
+      // Back to the document's own history
+      editorStore.getState().flushUndo();
+    };
+  }, [editorStore, url, room, name, color, WebSocketImpl]);
+}
@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import type { EditorState, EditorStore } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { CommentManager } from './comment-threads';
+import type { CommentThread } from './comment-threads';
+import { resolveBlockLine } from './selection-orchestrator';
+import { createLocalStorageAdapter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+
+interface CommentSession {
+  manager: CommentManager;
+  /** Follows the author passed to the hook on each render. */
+  author: { current: string };
+}
+
+const sessions = new WeakMap<EditorStore, CommentSession>();
+
+/** Start a thread on the content block containing `line`. */
+export function addCommentThread(store: EditorStore, line: number, body: string): CommentThread | null {
+  const session = sessions.get(store);
+  if (!session) return null;
+  const { blockLine, blockType } = resolveBlockLine(line, store.getState().source);
+  if (blockLine === null || blockType === null) return null;
+  return session.manager.create(blockLine, blockType, session.author.current, body);
+}
+
+export function replyToCommentThread(store: EditorStore, id: string, body: string): void {
+  const session = sessions.get(store);
+  session?.manager.reply(id, session.author.current, body);
+}
+
+export function setCommentThreadResolved(store: EditorStore, id: string, resolved: boolean): void {
+  sessions.get(store)?.manager.setResolved(id, resolved);
+}
+
+export function deleteCommentThread(store: EditorStore, id: string): void {
+  sessions.get(store)?.manager.remove(id);
+}
+
+/** Show the comments tab of the inspector, on the block at `line`. */
+export function openComments(store: EditorStore, line: number): void {
+  const { focusBlock, setInspectorCollapsed, setInspectorTab } = store.getState();
+  setInspectorCollapsed(false);
+  setInspectorTab('comments');
+  focusBlock(line, 'inspector');
+}
+
+// The source map describes the current source, and that source is the loaded document
+function isSettled(state: EditorState): boolean {
+  return state.isNormalized
+    && state.storageStatus !== 'loading'
+    && state.sourceMap !== null
+    && state.compiledSource === state.source;
+}
+
+/**
+ * Load the comment threads of documentId into the store and keep them
+ * persisted (`storage` defaults to localStorage). Each time a compile
+ * settles, the threads are re-anchored to the new source, so they stay on
+ * their blocks as lines move.
+ */
+export function useCommentThreads(documentId: string, storage: StorageAdapter | undefined, author: string): void {
+  const editorStore = useEditorStoreApi();
+  const authorRef = useRef(author);
+  authorRef.current = author;
+
+  useEffect(() => {
+    const manager = new CommentManager(documentId, storage ?? createLocalStorageAdapter());
+    const session: CommentSession = { manager, author: authorRef };
+    sessions.set(editorStore, session);
+    manager.onChange = (threads) => editorStore.getState().setCommentThreads(threads);
+    manager.onStorageError = (err) => editorStore.getState().setStorageStatus('error', err.message);
+
+    const track = (state: EditorState) => {
+      if (isSettled(state)) manager.anchorTo(state.compiledSource, state.sourceMap!);
+    };
+
+    let unsubscribe = () => {};
+    let disposed = false;
+    manager.load().then(() => {
+      if (disposed) return;
+      // Stored anchors follow from the source they were saved against
+      track(editorStore.getState());
+      unsubscribe = editorStore.subscribe((state, prev) => {
+        if (state.sourceMap !== prev.sourceMap || state.compiledSource !== prev.compiledSource) track(state);
+      });
+    }, (err: unknown) => {
+      editorStore.getState().setStorageStatus('error', err instanceof Error ? err.message : String(err));
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      manager.onChange = null;
+      if (sessions.get(editorStore) === session) sessions.delete(editorStore);
+      editorStore.getState().setCommentThreads([]);
+    };
+  }, [editorStore, documentId, storage]);
+}
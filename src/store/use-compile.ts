@@ -1,180 +1,113 @@
-import { useEffect, useRef, useMemo } from 'react';
-import { mkly, htmlToMkly, CORE_KIT, createCompletionData, escapeHtml } from '@mklyml/core';
-import type { ParseError } from '@mklyml/core';
-import { NEWSLETTER_KIT } from '@mklyml/kits/newsletter';
-import { emailPlugin } from '@mklyml/plugins/email';
-import { useEditorStore } from './editor-store';
-import { parseSourceStyleGraph } from './block-properties';
-import { applyCompileCompat } from './compile-compat';
-import { EDITOR_DOCUMENT_MAX_WIDTH } from './compile-config';
-
-const KITS = { core: CORE_KIT, newsletter: NEWSLETTER_KIT };
-
-function generateNormalizationWarnings(
-  original: string,
-  normalized: string,
-): ParseError[] {
-  const warnings: ParseError[] = [];
-  const origLines = original.split('\n');
-
-  // Detect stripped comments
-  let origCommentCount = 0;
-  let normCommentCount = 0;
-  for (const line of origLines) {
-    if (line.trim().startsWith('//')) origCommentCount++;
-  }
-  for (const line of normalized.split('\n')) {
-    if (line.trim().startsWith('//')) normCommentCount++;
-  }
-  if (origCommentCount > normCommentCount) {
-    const lost = origCommentCount - normCommentCount;
-    warnings.push({
-      severity: 'warning',
-      line: 1,
-      message: `Round-trip: ${lost} comment(s) stripped (not preserved in HTML)`,
-    });
-  }
-
-  // Detect lost style block
-  const origHasStyle = origLines.some(l => l.trim() === '--- style');
-  const normHasStyle = normalized.split('\n').some(l => l.trim() === '--- style');
-  if (origHasStyle && !normHasStyle) {
-    const styleLine = origLines.findIndex(l => l.trim() === '--- style') + 1;
-    warnings.push({
-      severity: 'warning',
-      line: styleLine,
-      message: 'Round-trip: style block partially lost (inline @styles preserved, variable block stripped)',
-    });
-  }
-
-  // Detect lost inline styles (@property lines)
-  let origStyleCount = 0;
-  let normStyleCount = 0;
-  for (const line of origLines) {
-    if (line.trim().startsWith('@') && line.includes(':')) origStyleCount++;
-  }
-  for (const line of normalized.split('\n')) {
-    if (line.trim().startsWith('@') && line.includes(':')) normStyleCount++;
-  }
-  if (origStyleCount > normStyleCount) {
-    warnings.push({
-      severity: 'warning',
-      line: 1,
-      message: `Round-trip: ${origStyleCount - normStyleCount} inline style(s) lost during normalization`,
-    });
-  }
-
-  // Compare block headers (--- type lines)
-  const origBlocks = origLines
-    .map((l, i) => ({ line: i + 1, text: l.trim() }))
-    .filter(l => l.text.startsWith('--- ') && !l.text.startsWith('--- /'));
-  const normBlocks = normalized.split('\n')
-    .map((l, i) => ({ line: i + 1, text: l.trim() }))
-    .filter(l => l.text.startsWith('--- ') && !l.text.startsWith('--- /'));
-
-  const origBlockTypes = origBlocks.map(b => b.text.replace(/^---\s+/, '').split(/[\s:]/)[0]);
-  const normBlockTypes = normBlocks.map(b => b.text.replace(/^---\s+/, '').split(/[\s:]/)[0]);
-
-  // Check for blocks that disappeared
-  const origTypeCounts = new Map<string, number>();
-  const normTypeCounts = new Map<string, number>();
-  for (const t of origBlockTypes) origTypeCounts.set(t, (origTypeCounts.get(t) ?? 0) + 1);
-  for (const t of normBlockTypes) normTypeCounts.set(t, (normTypeCounts.get(t) ?? 0) + 1);
-
-  for (const [type, count] of origTypeCounts) {
-    const normCount = normTypeCounts.get(type) ?? 0;
-    if (normCount < count) {
-      warnings.push({
-        severity: 'warning',
-        line: 1,
-        message: `Round-trip: ${count - normCount} '${type}' block(s) lost`,
-      });
-    }
-  }
-
-  return warnings;
+import { useEffect, useRef, useState } from 'react';
+import { escapeHtml } from '@mklyml/core';
+import { useEditorState, useEditorStoreApi } from './editor-store-context';
+import { CompileService, createDefaultCompileWorker } from './compile-service';
+import type { CompileWorkerFactory } from './compile-service';
+import type { CompileOutput } from './compile-core';
+import { DEFAULT_KITS, sameKits } from './kit-config';
+import type { KitConfig } from './kit-config';
+import { useKitConfig } from './use-kit-config';
+
+export interface UseCompileOptions extends KitConfig {
+  /**
+   * Worker serving the same kits/plugins (see serveCompileRequests).
+   * Defaults to the built-in worker when the default kits are in use; pass
+   * null to always compile on the main thread. Must be a stable reference.
+   */
+  createWorker?: CompileWorkerFactory | null;
 }
 
-export function useCompile() {
-  const source = useEditorStore((s) => s.source);
-  const outputMode = useEditorStore((s) => s.outputMode);
-  const setHtml = useEditorStore((s) => s.setHtml);
-  const setErrors = useEditorStore((s) => s.setErrors);
-  const setSourceMap = useEditorStore((s) => s.setSourceMap);
-  const setStyleGraph = useEditorStore((s) => s.setStyleGraph);
+export function useCompile(options?: UseCompileOptions) {
+  useKitConfig(options);
+  const editorStore = useEditorStoreApi();
+  const source = useEditorState((s) => s.source);
+  const outputMode = useEditorState((s) => s.outputMode);
+  const kits = useEditorState((s) => s.kits);
+  const plugins = useEditorState((s) => s.plugins);
+  const completionData = useEditorState((s) => s.completionData);
+  const setHtml = useEditorState((s) => s.setHtml);
+  const setErrors = useEditorState((s) => s.setErrors);
+  const setSourceMap = useEditorState((s) => s.setSourceMap);
+  const setStyleGraph = useEditorState((s) => s.setStyleGraph);
+  const setCompiledBlocks = useEditorState((s) => s.setCompiledBlocks);
+  const setCompiledSource = useEditorState((s) => s.setCompiledSource);
   const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const [service, setService] = useState<CompileService | null>(null);
 
-  const completionData = useMemo(
-    () => createCompletionData([], [CORE_KIT, NEWSLETTER_KIT]),
-    [],
-  );
+  // The built-in worker only knows the default kits and no host plugins.
+  const createWorker = options?.createWorker !== undefined
+    ? options.createWorker
+    : sameKits(kits, DEFAULT_KITS) && plugins.length === 0
+      ? createDefaultCompileWorker
+      : null;
 
   useEffect(() => {
+    const next = new CompileService({ kits, plugins, createWorker });
+    setService(next);
+    return () => next.dispose();
+  }, [kits, plugins, createWorker]);
+
+  useEffect(() => {
+    if (!service) return;
+
+    const applyOutput = (output: CompileOutput, errors: CompileOutput['errors']) => {
+      // Before html, so the preview sees block identities matching the new HTML
+      setCompiledBlocks(output.blocks ?? null);
+      setHtml(output.html);
+      setSourceMap(output.sourceMap);
+      setStyleGraph(output.styleGraph);
+      setErrors(errors);
+      // Last, so subscribers see html/errors that belong to this source
+      setCompiledSource(source);
+    };
+
     clearTimeout(timerRef.current);
     timerRef.current = setTimeout(() => {
-      try {
-        const result = mkly(source, {
-          kits: KITS,
-          plugins: outputMode === 'email' ? [emailPlugin()] : [],
-          sourceMap: true,
-          maxWidth: EDITOR_DOCUMENT_MAX_WIDTH,
-        });
-        const parsedStyleGraph = parseSourceStyleGraph(source);
-        const compatHtml = applyCompileCompat(source, result.html, parsedStyleGraph);
+      const { isNormalized } = editorStore.getState();
+      // On first compile, normalize via round-trip: mkly → HTML → mkly.
+      // The flag is only set once a normalized result lands, so a compile
+      // superseded by a service change doesn't skip normalization.
+      service.compile({ source, outputMode, normalize: !isNormalized }).then((output) => {
+        if (!output) return;
 
-        const { isNormalized, normalizationWarnings } = useEditorStore.getState();
-
-        // On first compile, normalize via round-trip: mkly → HTML → mkly
         if (!isNormalized) {
-          useEditorStore.getState().setIsNormalized(true);
-          try {
-            const normalized = htmlToMkly(result.html, { kits: KITS });
-            const warnings = generateNormalizationWarnings(source, normalized);
-            useEditorStore.getState().setNormalizationWarnings(warnings);
-
-            if (normalized.trim() !== source.trim()) {
-              // Set the normalized source — this will trigger a recompile
-              setHtml(compatHtml);
-              setErrors([...result.errors, ...warnings]);
-              setSourceMap(result.sourceMap ?? null);
-              setStyleGraph(parsedStyleGraph);
-              useEditorStore.getState().setSource(normalized);
-              return;
-            }
-            // Source already stable, just merge warnings
-            setHtml(compatHtml);
-            setErrors([...result.errors, ...warnings]);
-            setSourceMap(result.sourceMap ?? null);
-            setStyleGraph(parsedStyleGraph);
-          } catch {
+          if (!output.normalization) {
             // Normalization failed, use original source as-is
-            setHtml(compatHtml);
-            setErrors(result.errors);
-            setSourceMap(result.sourceMap ?? null);
-            setStyleGraph(parsedStyleGraph);
+            applyOutput(output, output.errors);
+            editorStore.getState().setIsNormalized(true);
+            return;
           }
+          const { source: normalized, warnings } = output.normalization;
+          editorStore.getState().setNormalizationWarnings(warnings);
+          applyOutput(output, [...output.errors, ...warnings]);
+          if (normalized.trim() !== source.trim()) {
+            // Set the normalized source — this will trigger a recompile
+            editorStore.getState().setSource(normalized);
+          }
+          editorStore.getState().setIsNormalized(true);
           return;
         }
 
         // Normal compile — include persistent normalization warnings
-        setHtml(compatHtml);
-        setErrors(
+        const { normalizationWarnings } = editorStore.getState();
+        applyOutput(
+          output,
           normalizationWarnings.length > 0
-            ? [...result.errors, ...normalizationWarnings]
-            : result.errors,
+            ? [...output.errors, ...normalizationWarnings]
+            : output.errors,
         );
-        setSourceMap(result.sourceMap ?? null);
-        setStyleGraph(parsedStyleGraph);
-      } catch (e) {
+      }, (e: unknown) => {
+        setCompiledBlocks(null);
         setHtml(`<html><body style="margin:0;background:#fff;color:#dc2626;font-family:monospace;padding:16px;"><pre style="white-space:pre-wrap;">${escapeHtml(String(e))}</pre></body></html>`);
         setErrors([]);
         setSourceMap(null);
         setStyleGraph(null);
-      }
+        setCompiledSource(source);
+      });
     }, 150);
 
     return () => clearTimeout(timerRef.current);
-  }, [source, outputMode, setHtml, setErrors, setSourceMap, setStyleGraph]);
+  }, [service, source, outputMode, setHtml, setErrors, setSourceMap, setStyleGraph, setCompiledBlocks, setCompiledSource, editorStore]);
 
   return { completionData };
 }
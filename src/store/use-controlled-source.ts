@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import type { ParseError, CompileError } from '@mklyml/core';
+import type { EditorState } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { CompileService, createDefaultCompileWorker } from './compile-service';
+import { DEFAULT_KITS, sameKits } from './kit-config';
+import { committedSource } from './use-suggestions';
+
+export interface EditorChangeDetails {
+  html: string;
+  errors: Array<ParseError | CompileError>;
+}
+
+export interface ControlledSourceOptions {
+  value?: string;
+  defaultValue?: string;
+  /** Called once the edited source has compiled, with the matching output. */
+  onChange?: (source: string, details: EditorChangeDetails) => void;
+}
+
+// Compiles the source without pending suggestions, which the preview doesn't show
+class CommittedCompiler {
+  private service: CompileService | null = null;
+  private config: Pick<EditorState, 'kits' | 'plugins'> | null = null;
+
+  compile(state: EditorState, source: string): Promise<EditorChangeDetails | null> {
+    const { kits, plugins } = state;
+    if (!this.service || this.config?.kits !== kits || this.config.plugins !== plugins) {
+      this.service?.dispose();
+      const createWorker = sameKits(kits, DEFAULT_KITS) && plugins.length === 0 ? createDefaultCompileWorker : null;
+      this.service = new CompileService({ kits, plugins, createWorker });
+      this.config = { kits, plugins };
+    }
+    return this.service.compile({ source, outputMode: state.outputMode, normalize: false })
+      .then((output) => output && { html: output.html, errors: output.errors });
+  }
+
+  dispose(): void {
+    this.service?.dispose();
+    this.service = null;
+  }
+}
+
+/**
+ * Bridge a host-owned `value`/`defaultValue`/`onChange` triple to the store.
+ * Sources pushed in by the host are not echoed back through onChange, and
+ * the host only sees accepted text: pending suggestions are left out.
+ */
+export function useControlledSource({ value, defaultValue, onChange }: ControlledSourceOptions): void {
+  const editorStore = useEditorStoreApi();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // Last source received from the host
+  const externalRef = useRef<string | null>(null);
+
+  // Uncontrolled: seed the document once on mount
+  useEffect(() => {
+    if (value !== undefined || defaultValue === undefined) return;
+    externalRef.current = defaultValue;
+    editorStore.getState().setSource(defaultValue);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editorStore]);
+
+  // Controlled: push host value into the store whenever it diverges
+  useEffect(() => {
+    if (value === undefined || value === committedSource(editorStore.getState())) return;
+    externalRef.current = value;
+    const { suggestionBase, setSource, setSuggestionBase } = editorStore.getState();
+    // The host's document replaces pending suggestions too
+    if (suggestionBase !== null) setSuggestionBase(value);
+    setSource(value);
+  }, [editorStore, value]);
+
+  useEffect(() => {
+    const compiler = new CommittedCompiler();
+    const unsubscribe = editorStore.subscribe((state, prev) => {
+      const source = committedSource(state);
+      if (state.compiledSource === prev.compiledSource && source === committedSource(prev)) return;
+      // Still compiling a newer source — wait for that result
+      if (state.compiledSource !== state.source) return;
+      if (source === externalRef.current) return;
+      // While suggesting, edits that only change the proposed text aren't reported
+      externalRef.current = state.suggestionBase === null ? null : source;
+      // Reuse the preview's output when there is nothing pending
+      if (source === state.compiledSource) {
+        onChangeRef.current?.(source, { html: state.html, errors: state.errors });
+        return;
+      }
+      compiler.compile(state, source).then((details) => {
+        // Dropped when superseded, or once the accepted text moved on
+        if (details && committedSource(editorStore.getState()) === source) onChangeRef.current?.(source, details);
+      }, () => {});
+    });
+    return () => {
+      unsubscribe();
+      compiler.dispose();
+    };
+  }, [editorStore]);
+}
@@ -1,5 +1,5 @@
 import { useMemo, useRef } from 'react';
-import { useEditorStore } from './editor-store';
+import { useEditorState } from './editor-store-context';
 import { PROPERTY_RE } from './block-properties';
 
 export interface CursorBlock {
@@ -83,8 +83,8 @@ export function parseCursorBlock(source: string, cursorLine: number): CursorBloc
 }
 
 export function useCursorContext(): CursorBlock | null {
-  const source = useEditorStore((s) => s.source);
-  const cursorLine = useEditorStore((s) => s.cursorLine);
+  const source = useEditorState((s) => s.source);
+  const cursorLine = useEditorState((s) => s.cursorLine);
   const prevRef = useRef<CursorBlock | null>(null);
 
   return useMemo(() => {
@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react';
+import type { EditorStore } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { StorageConflictError, StorageWriter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+import { committedSource } from './use-suggestions';
+
+const SAVE_DEBOUNCE_MS = 1000;
+
+// The document writer of each store, so the status bar can resolve conflicts.
+const writers = new WeakMap<EditorStore, StorageWriter>();
+
+export type ConflictResolution = 'keep-local' | 'use-stored';
+
+/**
+ * Settle a save conflict: overwrite the stored document with the editor's
+ * source, or load the stored one (applied as a normal, undoable edit).
+ */
+export async function resolveStorageConflict(store: EditorStore, resolution: ConflictResolution): Promise<void> {
+  const writer = writers.get(store);
+  if (!writer) return;
+  const { setStorageStatus } = store.getState();
+  try {
+    if (resolution === 'keep-local') {
+      writer.write(committedSource(store.getState()));
+      await writer.overwrite();
+    } else {
+      const data = await writer.load();
+      if (data !== null) store.getState().setSource(data);
+    }
+    if (!writer.conflicted) setStorageStatus('saved');
+  } catch (err) {
+    setStorageStatus('error', err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Load the document from `storage` when documentId changes and save edits
+ * back (debounced). The stored document replaces the current source unless
+ * the host controls it through `value`. Without a storage adapter this does
+ * nothing.
+ */
+export function useDocumentStorage(documentId: string, storage: StorageAdapter | undefined, controlled: boolean): void {
+  const editorStore = useEditorStoreApi();
+  const controlledRef = useRef(controlled);
+  controlledRef.current = controlled;
+
+  useEffect(() => {
+    if (!storage) return;
+    const { setStorageStatus } = editorStore.getState();
+    const writer = new StorageWriter(storage, documentId, 'document');
+    writers.set(editorStore, writer);
+    let loaded = false;
+    let disposed = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      // Other tabs with this document leave saving to the elected writer
+      if (!loaded || writer.conflicted || !editorStore.getState().tabSync.isWriter) return;
+      // Pending suggestions are not part of the document until accepted
+      if (writer.write(committedSource(editorStore.getState()))) setStorageStatus('saving');
+    };
+
+    writer.onSaved = () => {
+      if (!disposed) setStorageStatus('saved');
+    };
+    writer.onError = (err) => {
+      if (disposed) return;
+      setStorageStatus(err instanceof StorageConflictError ? 'conflict' : 'error', err.message);
+    };
+
+    // Suggestions belong to the document being left
+    editorStore.getState().setSuggestionBase(null);
+    setStorageStatus('loading');
+    writer.load().then((data) => {
+      if (disposed) return;
+      loaded = true;
+      if (data !== null && !controlledRef.current && data !== editorStore.getState().source) {
+        // Normalize the loaded document like any freshly opened one
+        editorStore.setState({ isNormalized: false });
+        editorStore.getState().setSource(data);
+      }
+      setStorageStatus('saved');
+      save();
+    }, (err: unknown) => {
+      if (!disposed) setStorageStatus('error', err instanceof Error ? err.message : String(err));
+    });
+
+    const unsubscribe = editorStore.subscribe((state, prev) => {
+      if (loaded && state.tabSync.isWriter && !prev.tabSync.isWriter) {
+        // Took over from a closed tab: pick up the revision it saved last
+        writer.load().then(() => {
+          if (!disposed) save();
+        }, () => {});
+        return;
+      }
+      if (committedSource(state) === committedSource(prev) || !loaded) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(save, SAVE_DEBOUNCE_MS);
+    });
+    const handleUnload = () => {
+      if (timer) save();
+    };
+    window.addEventListener('beforeunload', handleUnload);
+
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      unsubscribe();
+      if (timer) save();
+      disposed = true;
+      if (writers.get(editorStore) === writer) writers.delete(editorStore);
+      setStorageStatus('idle');
+    };
+  }, [editorStore, documentId, storage]);
+}
@@ -1,8 +1,8 @@
 import { useMemo } from 'react';
-import { useEditorStore } from './editor-store';
+import { useEditorState } from './editor-store-context';
 
 export function useDocumentThemes(): string[] {
-  const source = useEditorStore((s) => s.source);
+  const source = useEditorState((s) => s.source);
 
   return useMemo(() => {
     const themes: string[] = [];
@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import type { EditorState } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { DraftAutosave } from './draft-autosave';
+import { createIndexedDbAdapter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+
+const AUTOSAVE_INTERVAL_MS = 3000;
+
+let defaultDraftStorage: StorageAdapter | null = null;
+
+function getDefaultDraftStorage(): StorageAdapter | null {
+  if (typeof indexedDB === 'undefined') return null;
+  defaultDraftStorage ??= createIndexedDbAdapter();
+  return defaultDraftStorage;
+}
+
+// The first compile of a freshly loaded document has settled
+function isLoaded(state: EditorState): boolean {
+  return state.isNormalized && state.storageStatus !== 'loading' && state.compiledSource === state.source;
+}
+
+/**
+ * Autosave the source under documentId every few seconds while it differs
+ * from the loaded (or last host-saved) document, so a crashed or closed tab
+ * can be recovered. On load, a draft that differs from the document is put
+ * in recoveredDraft for the recovery banner.
+ *
+ * `storage` defaults to IndexedDB; null turns autosave off.
+ */
+export function useDraftAutosave(documentId: string, storage: StorageAdapter | null | undefined): void {
+  const editorStore = useEditorStoreApi();
+
+  useEffect(() => {
+    const adapter = storage === undefined ? getDefaultDraftStorage() : storage;
+    if (!adapter) return;
+
+    const autosave = new DraftAutosave(editorStore, documentId, adapter);
+    const save = () => autosave.save();
+
+    // Wait a tick so a host value/documentId pushed in the same commit lands first
+    let armed = false;
+    const startTimer = setTimeout(() => {
+      armed = true;
+      if (isLoaded(editorStore.getState())) autosave.start();
+    }, 0);
+    const unsubscribe = editorStore.subscribe((state, prev) => {
+      if (!autosave.started) {
+        if (armed && isLoaded(state)) autosave.start();
+        return;
+      }
+      // Saved through the storage adapter: that's the new baseline
+      if (state.storageStatus === 'saved' && prev.storageStatus === 'saving') autosave.markSaved();
+    });
+
+    const interval = setInterval(save, AUTOSAVE_INTERVAL_MS);
+    const handleHidden = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+    window.addEventListener('beforeunload', save);
+    document.addEventListener('visibilitychange', handleHidden);
+
+    return () => {
+      save();
+      clearTimeout(startTimer);
+      clearInterval(interval);
+      unsubscribe();
+      window.removeEventListener('beforeunload', save);
+      document.removeEventListener('visibilitychange', handleHidden);
+      autosave.destroy();
+    };
+  }, [editorStore, documentId, storage]);
+}
@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { useEditorStoreApi } from './editor-store-context';
+import type { KitConfig } from './kit-config';
+
+/**
+ * Push host-provided kits/plugins into the store. Unchanged references are
+ * ignored by setKitConfig, so inline object literals don't cause churn.
+ */
+export function useKitConfig(config?: KitConfig): void {
+  const kits = config?.kits;
+  const plugins = config?.plugins;
+  const editorStore = useEditorStoreApi();
+
+  useEffect(() => {
+    if (!kits && !plugins) return;
+    editorStore.getState().setKitConfig({ kits, plugins });
+  }, [editorStore, kits, plugins]);
+}
@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import type { EditorState, EditorStore } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { acceptSuggestion, computeSuggestions, rejectSuggestion } from './suggestions';
+
+/** The source without pending suggestions: what is saved as the document. */
+export function committedSource(state: EditorState): string {
+  return state.suggestionBase ?? state.source;
+}
+
+/**
+ * Record further edits as suggestions over the current source. Not while
+ * editing together: peers would get the proposed text as the document.
+ */
+export function startSuggesting(store: EditorStore): void {
+  const { suggestionBase, source, collab, setSuggestionBase } = store.getState();
+  if (suggestionBase === null && !collab) setSuggestionBase(source);
+}
+
+/** Leave suggestion mode. Only possible once every suggestion is settled. */
+export function stopSuggesting(store: EditorStore): boolean {
+  const { suggestions, setSuggestionBase } = store.getState();
+  if (suggestions.length > 0) return false;
+  setSuggestionBase(null);
+  return true;
+}
+
+/**
+ * Take a suggestion into the accepted text. Accepting is final: it is not an
+ * undo step, so undoing the edit afterwards proposes taking it back out as a
+ * new suggestion.
+ */
+export function acceptSuggestionById(store: EditorStore, id: string): void {
+  const { suggestionBase, suggestions, setSuggestionBase } = store.getState();
+  const suggestion = suggestions.find((s) => s.id === id);
+  if (suggestionBase === null || !suggestion) return;
+  setSuggestionBase(acceptSuggestion(suggestionBase, suggestion));
+}
+
+/** Take a suggestion back out of the proposed source, as an undoable step. */
+export function rejectSuggestionById(store: EditorStore, id: string): void {
+  const { source, suggestions, undoTransaction, setSource } = store.getState();
+  const suggestion = suggestions.find((s) => s.id === id);
+  if (!suggestion) return;
+  undoTransaction('Reject suggestion', () => setSource(rejectSuggestion(source, suggestion)));
+}
+
+/** Take every pending suggestion into the accepted text; final, like acceptSuggestionById. */
+export function acceptAllSuggestions(store: EditorStore): void {
+  const { suggestionBase, source, setSuggestionBase } = store.getState();
+  if (suggestionBase !== null) setSuggestionBase(source);
+}
+
+export function rejectAllSuggestions(store: EditorStore): void {
+  const { suggestionBase, undoTransaction, setSource } = store.getState();
+  if (suggestionBase !== null) undoTransaction('Reject all suggestions', () => setSource(suggestionBase));
+}
+
+/**
+ * Keep store.suggestions in step with the proposed source while suggestion
+ * mode is on. Every edit path (typing, the Edit pane, the inspector, undo)
+ * only changes `source`, so the change sets are derived rather than
+ * recorded one by one.
+ */
+export function useSuggestions(): void {
+  const editorStore = useEditorStoreApi();
+
+  useEffect(() => {
+    return editorStore.subscribe((state, prev) => {
+      if (state.source === prev.source && state.suggestionBase === prev.suggestionBase) return;
+      const suggestions = state.suggestionBase === null ? [] : computeSuggestions(state.suggestionBase, state.source);
+      if (suggestions.length > 0 || state.suggestions.length > 0) state.setSuggestions(suggestions);
+    });
+  }, [editorStore]);
+}
@@ -0,0 +1,83 @@
+import { useEffect } from 'react';
+import type { EditorState, EditorStore } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { mergeSources, TabSync } from './tab-sync';
+import { committedSource } from './use-suggestions';
+
+const syncs = new WeakMap<EditorStore, TabSync>();
+
+/**
+ * Settle an edit conflict with another tab: keep this tab's source (the
+ * other tabs follow it) or take the other tab's.
+ */
+export function resolveTabConflict(store: EditorStore, resolution: 'keep-local' | 'use-remote'): void {
+  syncs.get(store)?.resolveConflict(resolution);
+}
+
+// Sync from the loaded document, not the placeholder it replaces
+function isReady(state: EditorState): boolean {
+  return state.isNormalized && state.storageStatus !== 'loading';
+}
+
+/**
+ * Keep every tab that has documentId open in step: edits are broadcast to
+ * the others and applied there as undoable steps, and the oldest tab is
+ * elected to persist the document (see tabSync.isWriter). Does nothing
+ * when disabled or without BroadcastChannel.
+ */
+export function useTabSync(documentId: string, enabled: boolean): void {
+  const editorStore = useEditorStoreApi();
+
+  useEffect(() => {
+    if (!enabled || typeof BroadcastChannel === 'undefined') return;
+    let sync: TabSync | null = null;
+
+    const start = () => {
+      const tabSync = new TabSync(documentId, committedSource(editorStore.getState()));
+      sync = tabSync;
+      syncs.set(editorStore, tabSync);
+      tabSync.onRemoteSource = (source) => {
+        const { suggestionBase, source: proposed, undoTransaction, setSource, setSuggestionBase } = editorStore.getState();
+        undoTransaction('Change from another tab', () => {
+          if (suggestionBase === null) {
+            setSource(source);
+            return;
+          }
+          // Keep pending suggestions on top of the other tab's document
+          setSuggestionBase(source);
+          setSource(mergeSources(suggestionBase, proposed, source) ?? source);
+        });
+      };
+      tabSync.onConflict = (remoteSource) => editorStore.getState().setTabSync({ conflictSource: remoteSource });
+      tabSync.onStatus = (status) => editorStore.getState().setTabSync(status);
+      tabSync.start();
+    };
+
+    const stop = () => {
+      if (!sync) return;
+      sync.destroy();
+      if (syncs.get(editorStore) === sync) syncs.delete(editorStore);
+      sync = null;
+    };
+
+    if (isReady(editorStore.getState())) start();
+    const unsubscribe = editorStore.subscribe((state, prev) => {
+      if (!sync) {
+        if (isReady(state)) start();
+        return;
+      }
+      // Other tabs only get accepted text
+      const source = committedSource(state);
+      if (source !== committedSource(prev)) sync.publish(source);
+    });
+    // Tell the other tabs right away so one of them takes over writing
+    window.addEventListener('pagehide', stop);
+
+    return () => {
+      window.removeEventListener('pagehide', stop);
+      unsubscribe();
+      stop();
+      editorStore.getState().setTabSync({ peers: 0, isWriter: true, conflictSource: null });
+    };
+  }, [editorStore, documentId, enabled]);
+}
@@ -1,107 +1,147 @@
 import { useEffect, useRef } from 'react';
-import { useEditorStore, registerUndoHandlers } from './editor-store';
+import { registerUndoHandlers } from './editor-store';
+import type { EditorStore } from './editor-store';
+import { useEditorState, useEditorStoreApi } from './editor-store-context';
 import { UndoManager } from './undo-manager';
+import type { StorageAdapter } from './storage-adapter';
 
-let manager: UndoManager | null = null;
-let skipRecording = false;
+// One undo session per editor store, so side-by-side editors keep separate histories.
+interface UndoSession {
+  manager: UndoManager | null;
+  skipRecording: boolean;
+}
+
+const sessions = new WeakMap<EditorStore, UndoSession>();
 
-function syncState(): void {
+function syncState(store: EditorStore, session: UndoSession): void {
+  const { manager } = session;
   if (!manager) {
-    useEditorStore.setState({
+    store.setState({
       canUndo: false,
       canRedo: false,
-      undoInfo: { position: 0, total: 0, storageBytes: 0 },
+      undoInfo: { position: 0, total: 0, storageBytes: 0, branch: 1, branchCount: 1, undoLabel: null, redoLabel: null },
+      undoTree: [],
     });
     return;
   }
-  useEditorStore.setState({
+  store.setState({
     canUndo: manager.canUndo,
     canRedo: manager.canRedo,
     undoInfo: manager.getInfo(),
+    undoTree: manager.getTree(),
   });
 }
 
-// Register handlers so store.undo()/redo()/etc. delegate here
-registerUndoHandlers({
-  undo(): boolean {
-    if (!manager) return false;
-    const result = manager.undo();
-    if (result === null) return false;
-    skipRecording = true;
-    manager.syncLastSource(result);
-    useEditorStore.setState({ source: result });
-    skipRecording = false;
-    syncState();
-    return true;
-  },
-  redo(): boolean {
-    if (!manager) return false;
-    const result = manager.redo();
-    if (result === null) return false;
-    skipRecording = true;
-    manager.syncLastSource(result);
-    useEditorStore.setState({ source: result });
-    skipRecording = false;
-    syncState();
-    return true;
-  },
-  flush(): void {
-    manager?.flush();
-    syncState();
-  },
-  clear(): void {
-    manager?.clear();
-    syncState();
-  },
-});
+function applyHistoryStep(store: EditorStore, session: UndoSession, result: string | null): boolean {
+  if (!session.manager || result === null) return false;
+  session.skipRecording = true;
+  session.manager.syncLastSource(result);
+  store.setState({ source: result });
+  session.skipRecording = false;
+  syncState(store, session);
+  return true;
+}
+
+function getSession(store: EditorStore): UndoSession {
+  const existing = sessions.get(store);
+  if (existing) return existing;
+  const session: UndoSession = { manager: null, skipRecording: false };
+  sessions.set(store, session);
+
+  // Register handlers so store.undo()/redo()/etc. delegate here
+  registerUndoHandlers({
+    undo: () => applyHistoryStep(store, session, session.manager?.undo() ?? null),
+    redo: () => applyHistoryStep(store, session, session.manager?.redo() ?? null),
+    switchBranch: (direction) => applyHistoryStep(store, session, session.manager?.switchBranch(direction) ?? null),
+    jumpTo: (id) => applyHistoryStep(store, session, session.manager?.jumpTo(id) ?? null),
+    beginTransaction: (label) => session.manager?.beginTransaction(label),
+    endTransaction(): void {
+      session.manager?.endTransaction();
+      syncState(store, session);
+    },
+    flush(): void {
+      session.manager?.flush();
+      syncState(store, session);
+    },
+    clear(): void {
+      session.manager?.clear();
+      syncState(store, session);
+    },
+  }, store);
+  return session;
+}
+
+/** The source as of an undo step (ids from store.undoTree). */
+export function undoStepSource(store: EditorStore, id: number): string | null {
+  return sessions.get(store)?.manager?.sourceOf(id) ?? null;
+}
 
 export interface UndoInitOptions {
   persistHistory?: boolean;
+  /** Where history is persisted. Defaults to localStorage. Must be a stable reference. */
+  storage?: StorageAdapter;
 }
 
 export function useUndoInit(documentId: string, options?: UndoInitOptions): void {
-  const isNormalized = useEditorStore((s) => s.isNormalized);
+  const editorStore = useEditorStoreApi();
+  const isNormalized = useEditorState((s) => s.isNormalized);
   const initializedRef = useRef(false);
   const docIdRef = useRef(documentId);
+  const storageStatus = useEditorState((s) => s.storageStatus);
   const persistHistory = options?.persistHistory ?? false;
+  const storage = options?.storage;
 
-  // Initialize manager after normalization
+  // Initialize manager after normalization and once a stored document has loaded
   useEffect(() => {
-    if (!isNormalized) return;
+    if (!isNormalized || editorStore.getState().storageStatus === 'loading') return;
     if (initializedRef.current && docIdRef.current === documentId) return;
 
+    const session = getSession(editorStore);
     if (initializedRef.current) {
-      manager?.flush();
+      session.manager?.flush();
     }
 
     docIdRef.current = documentId;
     initializedRef.current = true;
 
-    manager?.destroy();
-    const src = useEditorStore.getState().source;
-    manager = new UndoManager(documentId, src, { persistHistory });
-    manager.onCheckpoint = syncState;
-    useEditorStore.setState({ documentId });
-    syncState();
-  }, [isNormalized, documentId, persistHistory]);
+    session.manager?.destroy();
+    const src = editorStore.getState().source;
+    const manager = new UndoManager(documentId, src, { persistHistory, storage });
+    session.manager = manager;
+    manager.setPersisting(editorStore.getState().tabSync.isWriter);
+    manager.onCheckpoint = () => syncState(editorStore, session);
+    manager.onStorageError = (err) => editorStore.getState().setStorageStatus('error', err.message);
+    editorStore.setState({ documentId });
+    syncState(editorStore, session);
+    manager.restore().then((restored) => {
+      if (restored && session.manager === manager) syncState(editorStore, session);
+    });
+  }, [editorStore, isNormalized, storageStatus, documentId, persistHistory, storage]);
 
   // Subscribe to source changes — record into undo manager
   useEffect(() => {
-    return useEditorStore.subscribe((state, prev) => {
-      if (state.source !== prev.source && !skipRecording && manager) {
-        manager.recordChange(state.source);
-        syncState();
+    const session = getSession(editorStore);
+    return editorStore.subscribe((state, prev) => {
+      if (state.tabSync.isWriter !== prev.tabSync.isWriter) {
+        session.manager?.setPersisting(state.tabSync.isWriter);
+      }
+      // A collab session keeps its own per-user history (see useCollab)
+      if (state.collab) return;
+      if (state.source !== prev.source && !session.skipRecording && session.manager) {
+        session.manager.recordChange(state.source);
+        syncState(editorStore, session);
       }
     });
-  }, []);
+  }, [editorStore]);
 
   // Flush on beforeunload and unmount
   useEffect(() => {
-    const handler = () => manager?.flush();
+    const session = getSession(editorStore);
+    const handler = () => session.manager?.flush();
     window.addEventListener('beforeunload', handler);
     return () => {
       window.removeEventListener('beforeunload', handler);
-      manager?.flush();
+      session.manager?.flush();
     };
-  }, []);
+  }, [editorStore]);
 }
@@ -0,0 +1,90 @@
+import { useEffect } from 'react';
+import type { CompareSource, EditorStore } from './editor-store';
+import { useEditorStoreApi } from './editor-store-context';
+import { runCompile } from './compile-core';
+import { createLocalStorageAdapter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+import { committedSource } from './use-suggestions';
+import { undoStepSource } from './use-undo';
+import { SnapshotManager } from './version-snapshots';
+import type { VersionSnapshot } from './version-snapshots';
+
+const managers = new WeakMap<EditorStore, SnapshotManager>();
+
+/** Save the current source, without pending suggestions, as a named version. */
+export function createSnapshot(store: EditorStore, name: string): VersionSnapshot | null {
+  return managers.get(store)?.create(name, committedSource(store.getState())) ?? null;
+}
+
+export function renameSnapshot(store: EditorStore, id: string, name: string): void {
+  managers.get(store)?.rename(id, name);
+}
+
+export function deleteSnapshot(store: EditorStore, id: string): void {
+  const { versionPreview, setVersionPreview } = store.getState();
+  if (versionPreview?.snapshotId === id) setVersionPreview(null);
+  managers.get(store)?.remove(id);
+}
+
+/** Render a snapshot in the preview (null returns to the live document). */
+export function previewSnapshot(store: EditorStore, id: string | null): void {
+  const { outputMode, kits, plugins, setVersionPreview } = store.getState();
+  const snapshot = id ? managers.get(store)?.get(id) : undefined;
+  if (!snapshot) {
+    setVersionPreview(null);
+    return;
+  }
+  const { html } = runCompile({ source: snapshot.source, outputMode, normalize: false }, kits, plugins);
+  setVersionPreview({ snapshotId: snapshot.id, name: snapshot.name, html });
+}
+
+/** Replace the source with a snapshot, as its own undo step. */
+export function restoreSnapshot(store: EditorStore, id: string): boolean {
+  const snapshot = managers.get(store)?.get(id);
+  if (!snapshot) return false;
+  const { undoTransaction, setSource, setVersionPreview } = store.getState();
+  undoTransaction(`Restore ${snapshot.name}`, () => setSource(snapshot.source));
+  setVersionPreview(null);
+  return true;
+}
+
+/** Open the comparison view; the second side defaults to the live document. */
+export function openVersionCompare(store: EditorStore, before: CompareSource, after: CompareSource = { kind: 'current' }): void {
+  store.getState().setVersionCompare({ before, after });
+}
+
+/** The mkly text of one side of a comparison; null once a snapshot or undo step is gone. */
+export function compareSourceText(store: EditorStore, side: CompareSource): string | null {
+  switch (side.kind) {
+    case 'current': return store.getState().source;
+    case 'snapshot': return managers.get(store)?.get(side.id)?.source ?? null;
+    case 'undo': return undoStepSource(store, side.id);
+    case 'text': return side.text;
+  }
+}
+
+/**
+ * Load the named versions of documentId into the store and keep them
+ * persisted. `storage` defaults to localStorage.
+ */
+export function useVersionSnapshots(documentId: string, storage: StorageAdapter | undefined): void {
+  const editorStore = useEditorStoreApi();
+
+  useEffect(() => {
+    const manager = new SnapshotManager(documentId, storage ?? createLocalStorageAdapter());
+    managers.set(editorStore, manager);
+    manager.onChange = (snapshots) => editorStore.getState().setSnapshots(snapshots);
+    manager.onStorageError = (err) => editorStore.getState().setStorageStatus('error', err.message);
+    manager.load().catch((err: unknown) => {
+      editorStore.getState().setStorageStatus('error', err instanceof Error ? err.message : String(err));
+    });
+
+    return () => {
+      manager.onChange = null;
+      if (managers.get(editorStore) === manager) managers.delete(editorStore);
+      editorStore.getState().setSnapshots([]);
+      editorStore.getState().setVersionPreview(null);
+      editorStore.getState().setVersionCompare(null);
+    };
+  }, [editorStore, documentId, storage]);
+}
@@ -0,0 +1,121 @@
+import { StorageConflictError, StorageWriter } from './storage-adapter';
+import type { StorageAdapter } from './storage-adapter';
+
+/** A named copy of the document, kept apart from the rolling undo stack. */
+export interface VersionSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  source: string;
+}
+
+interface SnapshotFile {
+  version: 1;
+  snapshots: VersionSnapshot[];
+}
+
+function parseSnapshots(raw: string | null): VersionSnapshot[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as SnapshotFile;
+    if (parsed?.version !== 1 || !Array.isArray(parsed.snapshots)) return [];
+    return parsed.snapshots.filter((s) => typeof s?.id === 'string' && typeof s.source === 'string');
+  } catch {
+    return [];
+  }
+}
+
+function newSnapshotId(): string {
+  return `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Named snapshots of one document, newest first, persisted as a single entry
+ * in the 'snapshots' slot. When another editor saved snapshots in the
+ * meantime, both lists are merged by id (local deletions and renames win)
+ * and written again.
+ */
+export class SnapshotManager {
+  private writer: StorageWriter;
+  private removed = new Set<string>();
+  private renamed = new Map<string, string>();
+  private merging: Promise<void> | null = null;
+  snapshots: VersionSnapshot[] = [];
+  onChange: ((snapshots: VersionSnapshot[]) => void) | null = null;
+  onStorageError: ((err: Error) => void) | null = null;
+
+  constructor(documentId: string, storage: StorageAdapter) {
+    this.writer = new StorageWriter(storage, documentId, 'snapshots');
+    this.writer.onError = (err) => {
+      if (err instanceof StorageConflictError) {
+        this.merging = this.merge()
+          .catch((e) => this.onStorageError?.(e))
+          .finally(() => {
+            this.merging = null;
+          });
+      } else {
+        this.onStorageError?.(err);
+      }
+    };
+  }
+
+  async load(): Promise<VersionSnapshot[]> {
+    this.setSnapshots(parseSnapshots(await this.writer.load()));
+    return this.snapshots;
+  }
+
+  create(name: string, source: string): VersionSnapshot {
+    const snapshot: VersionSnapshot = { id: newSnapshotId(), name: name.trim() || 'Untitled version', createdAt: Date.now(), source };
+    this.setSnapshots([snapshot, ...this.snapshots]);
+    this.persist();
+    return snapshot;
+  }
+
+  rename(id: string, name: string): void {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    this.renamed.set(id, trimmed);
+    this.setSnapshots(this.snapshots.map((s) => s.id === id ? { ...s, name: trimmed } : s));
+    this.persist();
+  }
+
+  remove(id: string): void {
+    this.removed.add(id);
+    this.setSnapshots(this.snapshots.filter((s) => s.id !== id));
+    this.persist();
+  }
+
+  get(id: string): VersionSnapshot | undefined {
+    return this.snapshots.find((s) => s.id === id);
+  }
+
+  /** Resolves once every change, including conflict merges, is written. */
+  async flush(): Promise<void> {
+    await this.writer.flush();
+    while (this.merging) {
+      await this.merging;
+      await this.writer.flush();
+    }
+  }
+
+  private persist(): void {
+    this.writer.write(JSON.stringify({ version: 1, snapshots: this.snapshots } satisfies SnapshotFile));
+  }
+
+  private async merge(): Promise<void> {
+    const local = this.snapshots;
+    const stored = parseSnapshots(await this.writer.load());
+    const byId = new Map(stored.map((s) => [s.id, s]));
+    for (const snapshot of local) byId.set(snapshot.id, snapshot);
+    const merged = [...byId.values()]
+      .filter((s) => !this.removed.has(s.id))
+      .map((s) => this.renamed.has(s.id) ? { ...s, name: this.renamed.get(s.id)! } : s);
+    this.setSnapshots(merged);
+    this.persist();
+  }
+
+  private setSnapshots(snapshots: VersionSnapshot[]): void {
+    this.snapshots = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+    this.onChange?.(this.snapshots);
+  }
+}
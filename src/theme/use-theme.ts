@@ -1,9 +1,9 @@
 import { useEffect } from 'react';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState } from '../store/editor-store-context';
 
 export function useTheme() {
-  const theme = useEditorStore((s) => s.theme);
-  const setTheme = useEditorStore((s) => s.setTheme);
+  const theme = useEditorState((s) => s.theme);
+  const setTheme = useEditorState((s) => s.setTheme);
 
   useEffect(() => {
     const stored = localStorage.getItem('mkly-editor-theme');
@@ -1,26 +1,35 @@
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState, useEditorStoreApi } from '../store/editor-store-context';
+import { startSuggesting, stopSuggesting } from '../store/use-suggestions';
 import { useTheme } from '../theme/use-theme';
-import { IconPlus, IconSun, IconMoon, IconWordWrap, IconUndo, IconRedo } from '../icons';
+import { IconPlus, IconSun, IconMoon, IconWordWrap, IconUndo, IconRedo, IconHistory, IconSuggest } from '../icons';
 import { StylePickToggle } from '../inspector/StylePickToggle';
 
 export function GlassToolbar() {
-  const outputMode = useEditorStore((s) => s.outputMode);
-  const viewMode = useEditorStore((s) => s.viewMode);
-  const setOutputMode = useEditorStore((s) => s.setOutputMode);
-  const setViewMode = useEditorStore((s) => s.setViewMode);
-  const inspectorCollapsed = useEditorStore((s) => s.inspectorCollapsed);
-  const setInspectorCollapsed = useEditorStore((s) => s.setInspectorCollapsed);
-  const sidebarCollapsed = useEditorStore((s) => s.sidebarCollapsed);
-  const setSidebarCollapsed = useEditorStore((s) => s.setSidebarCollapsed);
-  const setBlockDockOpen = useEditorStore((s) => s.setBlockDockOpen);
-  const mklyWordWrap = useEditorStore((s) => s.mklyWordWrap);
-  const setMklyWordWrap = useEditorStore((s) => s.setMklyWordWrap);
-  const canUndo = useEditorStore((s) => s.canUndo);
-  const canRedo = useEditorStore((s) => s.canRedo);
-  const undo = useEditorStore((s) => s.undo);
-  const redo = useEditorStore((s) => s.redo);
-  const htmlWordWrap = useEditorStore((s) => s.htmlWordWrap);
-  const setHtmlWordWrap = useEditorStore((s) => s.setHtmlWordWrap);
+  const editorStore = useEditorStoreApi();
+  const outputMode = useEditorState((s) => s.outputMode);
+  const viewMode = useEditorState((s) => s.viewMode);
+  const setOutputMode = useEditorState((s) => s.setOutputMode);
+  const setViewMode = useEditorState((s) => s.setViewMode);
+  const inspectorCollapsed = useEditorState((s) => s.inspectorCollapsed);
+  const setInspectorCollapsed = useEditorState((s) => s.setInspectorCollapsed);
+  const sidebarCollapsed = useEditorState((s) => s.sidebarCollapsed);
+  const setSidebarCollapsed = useEditorState((s) => s.setSidebarCollapsed);
+  const setBlockDockOpen = useEditorState((s) => s.setBlockDockOpen);
+  const mklyWordWrap = useEditorState((s) => s.mklyWordWrap);
+  const setMklyWordWrap = useEditorState((s) => s.setMklyWordWrap);
+  const canUndo = useEditorState((s) => s.canUndo);
+  const canRedo = useEditorState((s) => s.canRedo);
+  const undo = useEditorState((s) => s.undo);
+  const redo = useEditorState((s) => s.redo);
+  const undoInfo = useEditorState((s) => s.undoInfo);
+  const switchUndoBranch = useEditorState((s) => s.switchUndoBranch);
+  const historyPanelOpen = useEditorState((s) => s.historyPanelOpen);
+  const setHistoryPanelOpen = useEditorState((s) => s.setHistoryPanelOpen);
+  const htmlWordWrap = useEditorState((s) => s.htmlWordWrap);
+  const setHtmlWordWrap = useEditorState((s) => s.setHtmlWordWrap);
+  const suggesting = useEditorState((s) => s.suggestionBase !== null);
+  const pendingSuggestions = useEditorState((s) => s.suggestions.length);
+  const collaborating = useEditorState((s) => s.collab !== null);
   const { theme, toggleTheme } = useTheme();
 
   return (
@@ -70,21 +79,36 @@ export function GlassToolbar() {
       <div style={{ width: 1, height: 18, background: 'var(--ed-border)', flexShrink: 0 }} />
 
       {/* Undo / Redo */}
-      <ToolbarButton onClick={undo} title="Undo (Cmd+Z)" disabled={!canUndo}>
+      <ToolbarButton onClick={undo} title={historyTitle('Undo', canUndo ? undoInfo.undoLabel : null, 'Cmd+Z')} disabled={!canUndo}>
         <IconUndo />
       </ToolbarButton>
-      <ToolbarButton onClick={redo} title="Redo (Cmd+Shift+Z)" disabled={!canRedo}>
+      <ToolbarButton onClick={redo} title={historyTitle('Redo', canRedo ? undoInfo.redoLabel : null, 'Cmd+Shift+Z')} disabled={!canRedo}>
         <IconRedo />
       </ToolbarButton>
-      <span style={{
-        fontSize: 10,
-        color: 'var(--ed-muted)',
-        opacity: 0.5,
-        whiteSpace: 'nowrap',
-        userSelect: 'none',
-      }}>
-        last 20
-      </span>
+      {undoInfo.branchCount > 1 && (
+        <BranchSwitcher
+          branch={undoInfo.branch}
+          count={undoInfo.branchCount}
+          onSwitch={switchUndoBranch}
+        />
+      )}
+      <ToolbarButton
+        onClick={() => setHistoryPanelOpen(!historyPanelOpen)}
+        title="Versions"
+        active={historyPanelOpen}
+      >
+        <IconHistory />
+      </ToolbarButton>
+      <ToolbarButton
+        onClick={() => suggesting ? stopSuggesting(editorStore) : startSuggesting(editorStore)}
+        title={suggesting
+          ? pendingSuggestions > 0 ? 'Accept or reject all suggestions to stop suggesting' : 'Stop suggesting'
+          : collaborating ? 'Suggestions are off while editing together' : 'Suggest changes'}
+        active={suggesting}
+        disabled={suggesting ? pendingSuggestions > 0 : collaborating}
+      >
+        <IconSuggest />
+      </ToolbarButton>
 
       <div style={{ flex: 1 }} />
 
@@ -138,6 +162,50 @@ export function GlassToolbar() {
   );
 }
 
+// "Undo Set background of newsletter/featured (Cmd+Z)"; plain typing has no label
+function historyTitle(action: string, label: string | null, shortcut: string): string {
+  return label ? `${action} ${label} (${shortcut})` : `${action} (${shortcut})`;
+}
+
+/** Steps between sibling branches of the undo tree. */
+function BranchSwitcher({ branch, count, onSwitch }: {
+  branch: number;
+  count: number;
+  onSwitch: (direction: -1 | 1) => void;
+}) {
+  const arrow = (direction: -1 | 1, disabled: boolean) => (
+    <button
+      onClick={() => onSwitch(direction)}
+      disabled={disabled}
+      title={direction < 0 ? 'Previous branch (Cmd+Alt+[)' : 'Next branch (Cmd+Alt+])'}
+      style={{
+        border: 'none',
+        background: 'transparent',
+        padding: '0 4px',
+        color: 'var(--ed-text-muted)',
+        cursor: disabled ? 'default' : 'pointer',
+        opacity: disabled ? 0.35 : 1,
+        fontSize: 12,
+        lineHeight: '18px',
+      }}
+    >
+      {direction < 0 ? '‹' : '›'}
+    </button>
+  );
+
+  return (
+    <div
+      className="liquid-glass-pill"
+      style={{ display: 'flex', alignItems: 'center', padding: '2px 2px', fontSize: 10, color: 'var(--ed-text-muted)' }}
+      title="Undo branches"
+    >
+      {arrow(-1, branch <= 1)}
+      <span style={{ fontVariantNumeric: 'tabular-nums', userSelect: 'none' }}>{branch}/{count}</span>
+      {arrow(1, branch >= count)}
+    </div>
+  );
+}
+
 function PillToggle<T extends string>({ options, value, onChange, labels }: {
   options: readonly T[];
   value: T;
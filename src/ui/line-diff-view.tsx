@@ -0,0 +1,79 @@
+import type { DiffLine } from '../store/line-diff';
+
+interface LineDiffViewProps {
+  lines: DiffLine[];
+  /** Unchanged lines kept around each change; longer runs collapse. */
+  context?: number;
+  maxHeight?: number;
+}
+
+const KIND_STYLES: Record<DiffLine['kind'], { background?: string; color?: string; marker: string }> = {
+  same: { marker: ' ' },
+  added: { background: 'rgba(34, 197, 94, 0.12)', color: 'var(--ed-success-text)', marker: '+' },
+  removed: { background: 'var(--ed-error-bg)', color: 'var(--ed-error-text)', marker: '-' },
+};
+
+type Row = { line: DiffLine } | { skipped: number };
+
+function collapse(lines: DiffLine[], context: number): Row[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.kind === 'same') return;
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) keep[j] = true;
+  });
+
+  const rows: Row[] = [];
+  let skipped = 0;
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (skipped > 0) rows.push({ skipped });
+      skipped = 0;
+      rows.push({ line });
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ skipped });
+  return rows;
+}
+
+export function LineDiffView({ lines, context = 3, maxHeight = 240 }: LineDiffViewProps) {
+  const rows = collapse(lines, context);
+
+  return (
+    <div style={{
+      maxHeight,
+      overflow: 'auto',
+      fontFamily: "'JetBrains Mono', monospace",
+      fontSize: 11,
+      lineHeight: '17px',
+      border: '1px solid var(--ed-border)',
+      borderRadius: 6,
+      background: 'var(--ed-bg)',
+    }}>
+      {rows.length === 0 && (
+        <div style={{ padding: '6px 10px', color: 'var(--ed-text-muted)' }}>No differences</div>
+      )}
+      {rows.map((row, i) => {
+        if ('skipped' in row) {
+          return (
+            <div key={i} style={{ padding: '0 10px', color: 'var(--ed-text-muted)', background: 'var(--ed-surface-alt)' }}>
+              ⋯ {row.skipped} unchanged {row.skipped === 1 ? 'line' : 'lines'}
+            </div>
+          );
+        }
+        const { line } = row;
+        const kind = KIND_STYLES[line.kind];
+        return (
+          <div key={i} style={{ display: 'flex', background: kind.background, color: kind.color ?? 'var(--ed-text)' }}>
+            <span style={{ width: 36, flexShrink: 0, textAlign: 'right', paddingRight: 6, color: 'var(--ed-text-muted)', userSelect: 'none' }}>
+              {line.newLine ?? line.oldLine}
+            </span>
+            <span style={{ width: 14, flexShrink: 0, userSelect: 'none' }}>{kind.marker}</span>
+            <span style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', paddingRight: 10 }}>{line.text}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
-import { useEditorStore } from '../store/editor-store';
+import { useEditorState } from '../store/editor-store-context';
 
 interface UsagePreviewProps {
   usage: string;
@@ -18,7 +18,7 @@ export function UsagePreview({ usage, htmlPreview }: UsagePreviewProps) {
   const [tab, setTab] = useState<'mklyml' | 'preview'>('mklyml');
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const theme = useEditorStore((s) => s.theme);
+  const theme = useEditorState((s) => s.theme);
 
   useEffect(() => {
     if (tab !== 'preview' || !htmlPreview) return;
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import { mkly } from '@mklyml/core';
+import type { CompileResult } from '@mklyml/core';
+import { BlockCompileCache } from '../src/store/block-cache';
+import { DEFAULT_KITS } from '../src/store/kit-config';
+import { EXAMPLE_NEWSLETTER } from '../src/store/editor-store';
+
+function compileSource(source: string): CompileResult {
+  return mkly(source, { kits: DEFAULT_KITS, sourceMap: true, maxWidth: 680 });
+}
+
+function createCache() {
+  const cache = new BlockCompileCache();
+  let calls = 0;
+  const compile = (source: string) => {
+    calls = 0;
+    const result = cache.compile(source, 'web', (input) => {
+      calls++;
+      return compileSource(input);
+    });
+    return { result, calls };
+  };
+  return { compile };
+}
+
+function expectSameAsFull(source: string, result: ReturnType<BlockCompileCache['compile']>) {
+  const full = compileSource(source);
+  expect(result).not.toBeNull();
+  expect(result!.html).toBe(full.html);
+  expect(result!.sourceMap).toEqual(full.sourceMap!);
+  expect(result!.errors).toEqual([...full.errors].sort((a, b) => a.line - b.line));
+}
+
+const SOURCE = `--- use: core
+
+--- core/heading
+level: 2
+
+Title
+
+--- core/text
+
+First paragraph
+
+--- core/text
+
+Second paragraph
+`;
+
+describe('BlockCompileCache', () => {
+  it('matches a full compile of the example newsletter', () => {
+    const { compile } = createCache();
+    expectSameAsFull(EXAMPLE_NEWSLETTER, compile(EXAMPLE_NEWSLETTER).result);
+  });
+
+  it('recompiles nothing when the source is unchanged', () => {
+    const { compile } = createCache();
+    compile(SOURCE);
+    const { result, calls } = compile(SOURCE);
+    expect(calls).toBe(0);
+    expectSameAsFull(SOURCE, result);
+  });
+
+  it('recompiles only the edited block', () => {
+    const { compile } = createCache();
+    const first = compile(SOURCE).result!;
+    const edited = SOURCE.replace('First paragraph', 'First paragraph, edited');
+    const { result, calls } = compile(edited);
+    expect(calls).toBe(1);
+    expectSameAsFull(edited, result);
+    expect(result!.blocks[0].key).toBe(first.blocks[0].key);
+    expect(result!.blocks[1].key).not.toBe(first.blocks[1].key);
+    expect(result!.blocks[2].key).toBe(first.blocks[2].key);
+  });
+
+  it('shifts lines of cached blocks below an inserted line', () => {
+    const { compile } = createCache();
+    compile(SOURCE);
+    const edited = SOURCE.replace('Title\n', 'Title\nSubtitle line\n');
+    const { result, calls } = compile(edited);
+    expect(calls).toBe(1);
+    expectSameAsFull(edited, result);
+    expect(result!.blocks.map((b) => b.line)).toEqual([3, 9, 13]);
+  });
+
+  it('drops the cache when the context changes', () => {
+    const { compile } = createCache();
+    compile(SOURCE);
+    const themed = SOURCE.replace('--- use: core\n', '--- use: core\n--- theme: core/dark\n');
+    const { result, calls } = compile(themed);
+    expect(calls).toBe(2);
+    expectSameAsFull(themed, result);
+  });
+
+  it('leaves documents with comments to a full compile', () => {
+    const { compile } = createCache();
+    const commented = SOURCE.replace('--- core/text\n\nSecond', '// between blocks\n--- core/text\n\nSecond');
+    expect(compile(commented).result).toBeNull();
+    expect(compile(SOURCE).result).not.toBeNull();
+  });
+});
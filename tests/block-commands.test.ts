@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test';
+import { canUnwrap, duplicateBlock, isOutlineBlock, moveBlockSibling, unwrapBlock, wrapBlocks } from '../src/editor/block-commands';
+
+const SOURCE = [
+  '--- core/heading: Intro',
+  'Welcome back',
+  '',
+  '--- newsletter/category: Tools',
+  'title: Tools',
+  '',
+  '--- newsletter/item',
+  'A handy tool',
+  '',
+  '--- newsletter/item',
+  'Another one',
+  '--- /newsletter/category',
+  '',
+  '--- core/text',
+  'Bye',
+].join('\n');
+
+describe('block commands', () => {
+  it('duplicates a block, containers with their children', () => {
+    const edit = duplicateBlock(SOURCE, 2)!;
+    expect(edit.label).toBe('Duplicate core/heading');
+    expect(edit.line).toBe(4);
+    expect(edit.source.split('\n').slice(0, 7)).toEqual([
+      '--- core/heading: Intro', 'Welcome back', '',
+      '--- core/heading: Intro', 'Welcome back', '',
+      '--- newsletter/category: Tools',
+    ]);
+    expect(duplicateBlock(SOURCE, 4)!.source.match(/--- \/newsletter\/category/g)).toHaveLength(2);
+  });
+
+  it('moves a block past its sibling within the same parent', () => {
+    const down = moveBlockSibling(SOURCE, 7, 1)!;
+    expect(down.label).toBe('Move newsletter/item down');
+    expect(down.source.split('\n').slice(6, 13)).toEqual([
+      '--- newsletter/item', 'Another one', '', '--- newsletter/item', 'A handy tool', '', '--- /newsletter/category',
+    ]);
+    // No sibling above the first child
+    expect(moveBlockSibling(SOURCE, 7, -1)).toBeNull();
+    // At the top level the container moves whole
+    const up = moveBlockSibling(SOURCE, 14, -1)!;
+    expect(up.source.split('\n').slice(3, 6)).toEqual(['--- core/text', 'Bye', '']);
+  });
+
+  it('wraps blocks in a container and unwraps it again', () => {
+    const wrapped = wrapBlocks(SOURCE, 1, 1, 'core/section')!;
+    expect(wrapped.source.split('\n').slice(0, 5)).toEqual([
+      '--- core/section', '--- core/heading: Intro', 'Welcome back', '--- /core/section', '',
+    ]);
+    expect(canUnwrap(wrapped.source, 2)).toBe(true);
+    expect(unwrapBlock(wrapped.source, 2)!.source).toBe(SOURCE);
+    expect(canUnwrap(SOURCE, 1)).toBe(false);
+  });
+
+  it('unwrapping drops the container header, own content and closing line', () => {
+    const edit = unwrapBlock(SOURCE, 8)!;
+    expect(edit.label).toBe('Unwrap newsletter/category');
+    expect(edit.source).not.toContain('newsletter/category');
+    expect(edit.source).not.toContain('title: Tools');
+    expect(edit.source.split('\n').slice(3, 5)).toEqual(['--- newsletter/item', 'A handy tool']);
+  });
+
+  it('leaves directives and the style block alone', () => {
+    const src = '--- use: core\n\n--- meta\nversion: 1\n\n--- style\ncore/text\n  color: red\n\n--- core/text\nHi';
+    expect(wrapBlocks(src, 1, 1, 'core/section')).toBeNull();
+    expect(duplicateBlock(src, 3)).toBeNull();
+    expect(duplicateBlock(src, 6)).toBeNull();
+    expect(moveBlockSibling(src, 10, -1)).toBeNull();
+    expect(isOutlineBlock(src, 3)).toBe(false);
+    expect(isOutlineBlock(src, 10)).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import { changedBlockLines, diffBlocks, splitBlocks } from '../src/store/block-diff';
+
+const BEFORE = [
+  '--- use: core',
+  '',
+  '--- core/heading: Intro',
+  'Welcome',
+  '',
+  '--- core/card',
+  'Old card',
+  '--- /core/card',
+  '',
+  '--- core/text: Outro',
+  'Bye',
+].join('\n');
+
+describe('splitBlocks', () => {
+  it('splits at headers and keeps closing lines with their block', () => {
+    const blocks = splitBlocks(BEFORE);
+    expect(blocks.map((b) => [b.type, b.label, b.line])).toEqual([
+      ['use', 'core', 1],
+      ['core/heading', 'Intro', 3],
+      ['core/card', null, 6],
+      ['core/text', 'Outro', 10],
+    ]);
+    expect(blocks[2].text).toBe('--- core/card\nOld card\n--- /core/card\n');
+  });
+});
+
+describe('diffBlocks', () => {
+  it('matches blocks by type and label even when others are inserted', () => {
+    const after = BEFORE
+      .replace('--- core/heading: Intro', '--- core/image\nsrc: a.png\n\n--- core/heading: Intro')
+      .replace('Bye', 'Goodbye');
+    const diffs = diffBlocks(BEFORE, after);
+    expect(diffs.map((d) => [d.kind, d.type])).toEqual([
+      ['same', 'use'],
+      ['added', 'core/image'],
+      ['same', 'core/heading'],
+      ['same', 'core/card'],
+      ['changed', 'core/text'],
+    ]);
+    // Line numbers refer to the full sources
+    const outro = diffs[4];
+    expect([outro.oldLine, outro.newLine]).toEqual([10, 13]);
+    expect(outro.lines.filter((l) => l.kind !== 'same').map((l) => [l.kind, l.text, l.oldLine ?? l.newLine])).toEqual([
+      ['removed', 'Bye', 11],
+      ['added', 'Goodbye', 14],
+    ]);
+  });
+
+  it('pairs a relabelled block with its old version and reports removals', () => {
+    const after = BEFORE
+      .replace('--- core/heading: Intro', '--- core/heading: Welcome')
+      .replace('--- core/card\nOld card\n--- /core/card\n\n', '');
+    const diffs = diffBlocks(BEFORE, after);
+    expect(diffs.map((d) => [d.kind, d.type])).toEqual([
+      ['same', 'use'],
+      ['changed', 'core/heading'],
+      ['removed', 'core/card'],
+      ['same', 'core/text'],
+    ]);
+    expect(changedBlockLines(diffs, 'before')).toEqual(new Map([[3, 'changed'], [6, 'removed']]));
+    expect(changedBlockLines(diffs, 'after')).toEqual(new Map([[3, 'changed']]));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test';
+import { buildOutline, moveBlock, moveBlockBeside } from '../src/block-dock/block-outline';
+
+const SOURCE = [
+  '--- use: newsletter',
+  '',
+  '--- core/heading: Intro',
+  'Welcome back',
+  '',
+  '--- newsletter/category: Tools',
+  'title: Tools',
+  '',
+  '--- newsletter/item',
+  'A handy tool',
+  '',
+  '--- newsletter/item',
+  'Another one',
+  '--- /newsletter/category',
+  '',
+  '--- core/text',
+  'Bye',
+].join('\n');
+
+describe('buildOutline', () => {
+  it('nests blocks inside containers with labels and previews', () => {
+    const outline = buildOutline(SOURCE);
+    expect(outline.map((n) => [n.type, n.label, n.line, n.endLine])).toEqual([
+      ['core/heading', 'Intro', 3, 5],
+      ['newsletter/category', 'Tools', 6, 14],
+      ['core/text', null, 16, 17],
+    ]);
+    const category = outline[1];
+    expect(category.preview).toBe('title: Tools');
+    expect(category.children.map((n) => [n.line, n.endLine, n.preview])).toEqual([
+      [9, 11, 'A handy tool'],
+      [12, 13, 'Another one'],
+    ]);
+  });
+});
+
+describe('moveBlock', () => {
+  it('moves a whole container, keeping blank lines between blocks', () => {
+    const moved = moveBlock(SOURCE, 6, 3)!;
+    expect(moved.line).toBe(3);
+    expect(moved.source.split('\n').slice(2, 14)).toEqual([
+      '--- newsletter/category: Tools',
+      'title: Tools',
+      '',
+      '--- newsletter/item',
+      'A handy tool',
+      '',
+      '--- newsletter/item',
+      'Another one',
+      '--- /newsletter/category',
+      '',
+      '--- core/heading: Intro',
+      'Welcome back',
+    ]);
+    expect(buildOutline(moved.source).map((n) => n.type)).toEqual(['newsletter/category', 'core/heading', 'core/text']);
+  });
+
+  it('moves the last block into a container and to the end', () => {
+    const inside = moveBlock(SOURCE, 16, 14)!;
+    const category = buildOutline(inside.source)[1];
+    expect(category.children.map((n) => n.type)).toEqual(['newsletter/item', 'newsletter/item', 'core/text']);
+    expect(inside.source.endsWith('--- /newsletter/category\n')).toBe(false);
+
+    const last = moveBlock(SOURCE, 3, SOURCE.split('\n').length + 1)!;
+    expect(last.source.endsWith('Bye\n\n--- core/heading: Intro\nWelcome back')).toBe(true);
+  });
+
+  it('refuses to move a block into itself', () => {
+    expect(moveBlock(SOURCE, 6, 10)).toBeNull();
+    expect(moveBlock(SOURCE, 3, 6)).toBeNull();
+    expect(moveBlock(SOURCE, 4, 1)).toBeNull();
+  });
+
+  it('leaves directives where they are', () => {
+    expect(moveBlock(SOURCE, 1, 16)).toBeNull();
+    expect(moveBlock(SOURCE, 16, 1)).toBeNull();
+    expect(moveBlockBeside(SOURCE, 3, 1, 'after')).toBeNull();
+  });
+});
+
+describe('moveBlockBeside', () => {
+  it('drops after the whole range of a container', () => {
+    const moved = moveBlockBeside(SOURCE, 3, 6, 'after')!;
+    expect(buildOutline(moved.source).map((n) => n.type)).toEqual(['newsletter/category', 'core/heading', 'core/text']);
+    expect(moved.source.split('\n')[moved.line - 1]).toBe('--- core/heading: Intro');
+  });
+
+  it('drops before a block inside a container', () => {
+    const moved = moveBlockBeside(SOURCE, 16, 9, 'before')!;
+    const category = buildOutline(moved.source)[1];
+    expect(category.children.map((n) => n.type)).toEqual(['core/text', 'newsletter/item', 'newsletter/item']);
+  });
+});
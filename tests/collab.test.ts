@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import * as Y from 'yjs';
+import { applyAwarenessUpdate, Awareness, encodeAwarenessUpdate } from 'y-protocols/awareness';
+import { CollabProvider } from '../src/store/collab-provider';
+import { collabColor, collabPeers } from '../src/store/use-collab';
+import { startCollabRelay } from '../scripts/collab-relay';
+import type { CollabRelay } from '../scripts/collab-relay';
+
+let relay: CollabRelay;
+let url: string;
+
+beforeAll(() => {
+  relay = startCollabRelay({ port: 0 });
+  url = `ws://localhost:${relay.port}`;
+});
+
+afterAll(() => relay.stop());
+
+async function until(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function client(room: string) {
+  const doc = new Y.Doc();
+  const provider = new CollabProvider(url, room, doc);
+  return { doc, text: doc.getText('source'), provider };
+}
+
+describe('CollabProvider', () => {
+  it('syncs a late joiner and merges concurrent edits', async () => {
+    const a = client('merge');
+    await until(() => a.provider.synced);
+    a.text.insert(0, '--- core/heading\nHello\n');
+
+    const b = client('merge');
+    await until(() => b.provider.synced && b.text.toString() === a.text.toString());
+
+    a.text.insert(0, '--- use: core\n');
+    b.text.insert(b.text.length, '--- core/text\nBye\n');
+    const expected = '--- use: core\n--- core/heading\nHello\n--- core/text\nBye\n';
+    await until(() => a.text.toString() === expected && b.text.toString() === expected);
+
+    a.provider.destroy();
+    b.provider.destroy();
+  });
+
+  it('shares presence and drops it when a client leaves', async () => {
+    const a = client('presence');
+    const b = client('presence');
+    a.provider.awareness.setLocalStateField('user', { name: 'Ada', color: '#e2725b' });
+    await until(() => b.provider.awareness.getStates().get(a.doc.clientID)?.user?.name === 'Ada');
+
+    a.provider.destroy();
+    await until(() => !b.provider.awareness.getStates().has(a.doc.clientID));
+    b.provider.destroy();
+  });
+
+  it('pushes edits made while offline on reconnect', async () => {
+    const a = client('offline');
+    await until(() => a.provider.synced);
+    const offline = new Y.Doc();
+    offline.getText('source').insert(0, 'draft');
+    const b = new CollabProvider(url, 'offline', offline);
+    await until(() => a.text.toString() === 'draft');
+    a.provider.destroy();
+    b.destroy();
+  });
+});
+
+describe('collabPeers', () => {
+  it('resolves a peer\'s block against the local text as lines shift', async () => {
+    const a = client('peers');
+    const b = client('peers');
+    await until(() => a.provider.synced && b.provider.synced);
+    a.text.insert(0, '--- core/heading\nHi\n\n--- core/text\nBody\n');
+    await until(() => b.text.toString() === a.text.toString());
+
+    const blockStart = a.text.toString().indexOf('--- core/text');
+    a.provider.awareness.setLocalState({
+      user: { name: 'Ada', color: '#e2725b' },
+      block: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(a.text, blockStart)),
+    });
+    await until(() => collabPeers(b.provider.awareness, b.text)[0]?.blockLine === 4);
+
+    b.text.insert(0, '--- use: core\n\n');
+    expect(collabPeers(b.provider.awareness, b.text)).toEqual([
+      { clientId: a.doc.clientID, name: 'Ada', color: '#e2725b', blockLine: 6 },
+    ]);
+
+    a.provider.destroy();
+    b.provider.destroy();
+  });
+
+  it('replaces colors that are not plain color values', () => {
+    const doc = new Y.Doc();
+    const awareness = new Awareness(doc);
+    const peer = new Awareness(new Y.Doc());
+    const colorOf = (color: string) => {
+      peer.setLocalStateField('user', { name: 'Mallory', color });
+      applyAwarenessUpdate(awareness, encodeAwarenessUpdate(peer, [peer.clientID]), 'test');
+      return collabPeers(awareness, doc.getText('source'))[0].color;
+    };
+    expect(colorOf('#3d8bd4')).toBe('#3d8bd4');
+    expect(colorOf('rgb(61, 139, 212)')).toBe('rgb(61, 139, 212)');
+    expect(colorOf('red}body{display:none}')).toBe(collabColor('Mallory'));
+    expect(colorOf('rgb(0,0,0)}*{color:red')).toBe(collabColor('Mallory'));
+    awareness.destroy();
+    peer.destroy();
+  });
+
+  it('leaves out clients without a user', () => {
+    const doc = new Y.Doc();
+    const awareness = new Awareness(doc);
+    awareness.setLocalStateField('user', { name: 'Me' });
+    expect(collabPeers(awareness, doc.getText('source'))).toEqual([]);
+    awareness.destroy();
+  });
+});
+
+describe('local undo', () => {
+  it('reverts only edits made with the tracked origin', async () => {
+    const a = client('undo');
+    const b = client('undo');
+    await until(() => a.provider.synced && b.provider.synced);
+    const local = {};
+    const undoManager = new Y.UndoManager(a.text, { trackedOrigins: new Set([local]) });
+
+    a.doc.transact(() => a.text.insert(0, 'mine '), local);
+    await until(() => b.text.toString() === 'mine ');
+    b.text.insert(b.text.length, 'theirs');
+    await until(() => a.text.toString() === 'mine theirs');
+
+    undoManager.undo();
+    expect(a.text.toString()).toBe('theirs');
+    await until(() => b.text.toString() === 'theirs');
+
+    undoManager.destroy();
+    a.provider.destroy();
+    b.provider.destroy();
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'bun:test';
+import type { SourceMapEntry } from '@mklyml/core';
+import { CommentManager, remapThreads } from '../src/store/comment-threads';
+import type { CommentThread } from '../src/store/comment-threads';
+import { memoryAdapter } from './memory-storage';
+
+function thread(line: number, blockType: string): CommentThread {
+  return {
+    id: `t${line}`,
+    line,
+    blockType,
+    resolved: false,
+    detached: false,
+    comments: [{ id: 'c', author: 'Ada', body: 'Tighten this', createdAt: 0 }],
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+// Source map of content blocks, enough for remapping
+function sourceMap(source: string): SourceMapEntry[] {
+  const lines = source.split('\n');
+  const entries: SourceMapEntry[] = [];
+  lines.forEach((text, i) => {
+    const match = text.match(/^--- (\w+\/\w+)/);
+    if (!match) return;
+    const last = entries[entries.length - 1];
+    if (last) last.sourceEndLine = i;
+    entries.push({ sourceLine: i + 1, sourceEndLine: lines.length, blockType: match[1], htmlOffset: 0, htmlLength: 0, children: [] });
+  });
+  return entries;
+}
+
+const BEFORE = [
+  '--- use: core',
+  '',
+  '--- core/heading',
+  'Hello',
+  '',
+  '--- core/text',
+  'Body',
+].join('\n');
+
+describe('remapThreads', () => {
+  it('follows blocks as lines are inserted above them', () => {
+    const after = `--- meta\ntitle: Issue 1\n\n${BEFORE}`;
+    const threads = [thread(3, 'core/heading'), thread(6, 'core/text')];
+    expect(remapThreads(threads, BEFORE, after, sourceMap(after)).map((t) => t.line)).toEqual([6, 9]);
+  });
+
+  it('returns the same array when no anchor moved', () => {
+    const after = BEFORE.replace('Body', 'Longer body');
+    const threads = [thread(3, 'core/heading'), thread(6, 'core/text')];
+    expect(remapThreads(threads, BEFORE, after, sourceMap(after))).toBe(threads);
+  });
+
+  it('keeps a thread on its block when the header line is edited', () => {
+    const after = BEFORE.replace('--- core/heading', '--- core/heading: Intro');
+    const [moved] = remapThreads([thread(3, 'core/heading')], BEFORE, after, sourceMap(after));
+    expect(moved).toMatchObject({ line: 3, detached: false });
+  });
+
+  it('detaches threads of a deleted block', () => {
+    const after = BEFORE.replace('--- core/heading\nHello\n\n', '');
+    const [gone, kept] = remapThreads([thread(3, 'core/heading'), thread(6, 'core/text')], BEFORE, after, sourceMap(after));
+    expect(gone).toMatchObject({ detached: true, line: 3 });
+    expect(kept).toMatchObject({ detached: false, line: 3 });
+  });
+});
+
+describe('CommentManager', () => {
+  it('persists threads with replies, resolve and reopen', async () => {
+    const storage = memoryAdapter();
+    const manager = new CommentManager('doc', storage);
+    await manager.load();
+    const created = manager.create(3, 'core/heading', 'Ada', '  Shorter title?  ')!;
+    expect(manager.create(6, 'core/text', 'Ada', '   ')).toBeNull();
+    manager.setResolved(created.id, true);
+    manager.reply(created.id, 'Grace', 'Done');
+    await manager.flush();
+
+    const reloaded = new CommentManager('doc', storage);
+    const [loaded] = await reloaded.load();
+    expect(loaded.comments.map((c) => [c.author, c.body])).toEqual([['Ada', 'Shorter title?'], ['Grace', 'Done']]);
+    // The reply reopened it
+    expect(loaded.resolved).toBe(false);
+  });
+
+  it('merges threads saved by another editor', async () => {
+    const storage = memoryAdapter();
+    const mine = new CommentManager('doc', storage);
+    const theirs = new CommentManager('doc', storage);
+    await mine.load();
+    await theirs.load();
+
+    const removed = mine.create(3, 'core/heading', 'Ada', 'Drop this?')!;
+    await mine.flush();
+    const remote = theirs.create(6, 'core/text', 'Grace', 'Typo in line 2');
+    await theirs.flush();
+    mine.remove(removed.id);
+    // Conflict → reload, merge, write again
+    await mine.flush();
+
+    const reloaded = new CommentManager('doc', storage);
+    expect((await reloaded.load()).map((t) => t.id)).toEqual([remote!.id]);
+  });
+
+  it('re-anchors and persists when the source changes', async () => {
+    const storage = memoryAdapter();
+    const manager = new CommentManager('doc', storage);
+    await manager.load();
+    manager.anchorTo(BEFORE, sourceMap(BEFORE));
+    manager.create(6, 'core/text', 'Ada', 'Expand');
+    const after = `--- meta\ntitle: x\n\n${BEFORE}`;
+    manager.anchorTo(after, sourceMap(after));
+    await manager.flush();
+
+    const [loaded] = await new CommentManager('doc', storage).load();
+    expect(loaded.line).toBe(9);
+  });
+
+  it('maps anchors saved against an unsaved edit back onto the loaded document', async () => {
+    const storage = memoryAdapter();
+    const manager = new CommentManager('doc', storage);
+    await manager.load();
+    manager.anchorTo(BEFORE, sourceMap(BEFORE));
+    manager.create(6, 'core/text', 'Ada', 'Expand');
+    // Lines inserted above, then the tab closed without saving the document
+    const edited = `--- meta\ntitle: x\n\n${BEFORE}`;
+    manager.anchorTo(edited, sourceMap(edited));
+    await manager.flush();
+
+    const reloaded = new CommentManager('doc', storage);
+    await reloaded.load();
+    reloaded.anchorTo(BEFORE, sourceMap(BEFORE));
+    expect(reloaded.threads[0].line).toBe(6);
+    // Restoring the draft moves it once, not twice
+    reloaded.anchorTo(edited, sourceMap(edited));
+    expect(reloaded.threads[0].line).toBe(9);
+  });
+});
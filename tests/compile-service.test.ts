@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { runCompile } from '../src/store/compile-core';
+import { CompileService } from '../src/store/compile-service';
+import { serveCompileRequests } from '../src/store/compile-worker';
+import type { CompileWorkerMessage, CompileWorkerResponse } from '../src/store/compile-worker';
+import { DEFAULT_KITS } from '../src/store/kit-config';
+
+const SOURCE = '--- use: core\n\n--- core/text\n\nHello **world**\n';
+
+describe('runCompile', () => {
+  it('compiles with a source map and style graph', () => {
+    const output = runCompile({ source: SOURCE, outputMode: 'web', normalize: false }, DEFAULT_KITS, []);
+    expect(output.html).toContain('<strong>world</strong>');
+    expect(output.sourceMap?.length).toBeGreaterThan(0);
+    expect(output.normalization).toBeUndefined();
+  });
+
+  it('round-trips the source when normalizing', () => {
+    const output = runCompile({ source: SOURCE, outputMode: 'web', normalize: true }, DEFAULT_KITS, []);
+    expect(output.normalization?.source).toContain('--- core/text');
+  });
+});
+
+describe('CompileService', () => {
+  it('compiles on the main thread without a worker', async () => {
+    const service = new CompileService({ kits: DEFAULT_KITS, plugins: [], createWorker: null });
+    expect(service.usesWorker).toBe(false);
+    const output = await service.compile({ source: SOURCE, outputMode: 'web', normalize: false });
+    expect(output?.html).toContain('Hello');
+  });
+});
+
+describe('serveCompileRequests', () => {
+  function createScope() {
+    const responses: CompileWorkerResponse[] = [];
+    const scope = {
+      onmessage: null as ((e: MessageEvent<CompileWorkerMessage>) => void) | null,
+      postMessage: (message: CompileWorkerResponse) => { responses.push(message); },
+    };
+    serveCompileRequests({ kits: DEFAULT_KITS }, scope);
+    const send = (data: CompileWorkerMessage) => scope.onmessage?.({ data } as MessageEvent<CompileWorkerMessage>);
+    return { responses, send };
+  }
+
+  const tick = () => new Promise((r) => setTimeout(r, 5));
+
+  it('answers only the newest request, with html in a buffer', async () => {
+    const { responses, send } = createScope();
+    send({ type: 'compile', id: 1, request: { source: SOURCE, outputMode: 'web', normalize: false } });
+    send({ type: 'compile', id: 2, request: { source: SOURCE, outputMode: 'web', normalize: false } });
+    await tick();
+    expect(responses.map((r) => r.id)).toEqual([2]);
+    const response = responses[0];
+    if (!response.ok) throw new Error(response.error);
+    expect(new TextDecoder().decode(response.html)).toContain('Hello');
+  });
+
+  it('drops cancelled requests', async () => {
+    const { responses, send } = createScope();
+    send({ type: 'compile', id: 1, request: { source: SOURCE, outputMode: 'web', normalize: false } });
+    send({ type: 'cancel', id: 1 });
+    await tick();
+    expect(responses).toHaveLength(0);
+  });
+});
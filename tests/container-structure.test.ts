@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+import { EditorState, Text } from '@codemirror/state';
+import { foldable } from '@codemirror/language';
+import { containerStructure, scanContainers } from '../src/editor/container-structure';
+
+const CONTAINERS = ['core/section', 'newsletter/category'];
+
+function doc(...lines: string[]): Text {
+  return Text.of(lines);
+}
+
+describe('scanContainers', () => {
+  it('pairs nested openers and closers both ways', () => {
+    const scan = scanContainers(doc(
+      '--- core/section',
+      '--- newsletter/category: A',
+      '--- newsletter/item',
+      'x',
+      '--- /newsletter/category',
+      '--- /core/section',
+    ), CONTAINERS);
+    expect([...scan.matches]).toEqual([[2, 5], [5, 2], [1, 6], [6, 1]]);
+    expect(scan.problems).toEqual([]);
+  });
+
+  it('flags unclosed openers and closers without or past their opener', () => {
+    const scan = scanContainers(doc(
+      '--- core/section',
+      '--- newsletter/category: A',
+      '--- core/text',
+      '--- /core/section',
+      '--- /newsletter/item',
+      '--- newsletter/category: B',
+    ), CONTAINERS);
+    expect(scan.matches.get(1)).toBe(4);
+    expect(scan.problems.map((p) => [p.line, p.message])).toEqual([
+      [2, '--- newsletter/category is never closed; add --- /newsletter/category'],
+      [5, '--- /newsletter/item has no opening block'],
+      [6, '--- newsletter/category is never closed; add --- /newsletter/category'],
+    ]);
+  });
+
+  it('reports a closer that matches nothing open against the open container', () => {
+    const scan = scanContainers(doc('--- newsletter/category', '--- /core/section', '--- /newsletter/category'), CONTAINERS);
+    expect(scan.problems).toEqual([{ line: 2, message: "--- /core/section doesn't match --- newsletter/category on line 1" }]);
+    expect(scan.matches.get(1)).toBe(3);
+  });
+});
+
+describe('block folding', () => {
+  const state = EditorState.create({
+    doc: [
+      '--- core/heading',
+      'Title',
+      '',
+      '--- newsletter/category',
+      '--- newsletter/item',
+      'x',
+      '',
+      '--- /newsletter/category',
+      '--- core/text',
+    ].join('\n'),
+    extensions: containerStructure(CONTAINERS),
+  });
+  const range = (line: number) => {
+    const { from, to } = state.doc.line(line);
+    const folded = foldable(state, from, to);
+    return folded && [state.doc.lineAt(folded.from).number, state.doc.lineAt(folded.to).number];
+  };
+
+  it('folds blocks to their last content line and containers up to their closer', () => {
+    expect(range(1)).toEqual([1, 2]);
+    expect(range(4)).toEqual([4, 6]);
+    expect(range(5)).toEqual([5, 6]);
+    expect(range(8)).toBeNull();
+    expect(range(9)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'bun:test';
+import { buildCompletionData, containerBlockTypes, DEFAULT_KITS } from '../src/store/kit-config';
+import { conversionTargets, convertBlock } from '../src/inspector/convert-block';
+
+const DATA = buildCompletionData(DEFAULT_KITS);
+
+const SOURCE = [
+  '--- use: newsletter',
+  '',
+  '--- style',
+  'newsletter/item',
+  '  padding: 8px',
+  '  .meta',
+  '    color: blue',
+  '',
+  '--- newsletter/item: pick',
+  'image: https://example.com/a.png',
+  'link: https://example.com',
+  'date: Monday',
+  '',
+  'Some **body** text',
+  '',
+  '--- core/text',
+  'Bye',
+].join('\n');
+
+describe('convertBlock', () => {
+  it('keeps matching properties, label and body, and reports the rest', () => {
+    const result = convertBlock(SOURCE, 9, 'newsletter/featured', DATA)!;
+    const lines = result.source.split('\n');
+    expect(lines.slice(result.line - 1, result.line + 5)).toEqual([
+      '--- newsletter/featured: pick',
+      'image: https://example.com/a.png',
+      'link: https://example.com',
+      '',
+      'Some **body** text',
+      '',
+    ]);
+    expect(result.dropped).toEqual(['date']);
+    expect(result.source).toContain('--- core/text\nBye');
+  });
+
+  it('renames properties to related names with compatible types', () => {
+    const source = '--- core/image\nsrc: https://example.com/a.png\nalt: A\nwidth: 200';
+    const result = convertBlock(source, 1, 'core/header', DATA)!;
+    expect(result.source).toBe('--- core/header\nlogo: https://example.com/a.png');
+    expect(result.renamed).toEqual([{ from: 'src', to: 'logo' }]);
+    expect(result.dropped).toEqual(['alt', 'width']);
+  });
+
+  it('carries type styles over as label rules, leaving unknown targets behind', () => {
+    const result = convertBlock(SOURCE, 9, 'core/hero', DATA)!;
+    expect(result.source).toContain('core/hero:pick\n  padding: 8px');
+    expect(result.droppedStyles).toEqual(['meta']);
+    // Other newsletter/item blocks keep their styles
+    expect(result.source).toContain('newsletter/item\n  padding: 8px');
+    expect(result.source.split('\n')[result.line - 1]).toBe('--- core/hero: pick');
+  });
+
+  it('leaves type styles behind for a block without a label', () => {
+    const source = [
+      '--- use: core',
+      '',
+      '--- style',
+      'core/card',
+      '  padding: 8px',
+      '',
+      '--- core/hero',
+      'Existing hero',
+      '',
+      '--- core/card',
+      'Card text',
+    ].join('\n');
+    const result = convertBlock(source, 10, 'core/hero', DATA)!;
+    expect(result.source).not.toContain('core/hero\n  padding');
+    expect(result.source).toContain('core/card\n  padding: 8px');
+    expect(result.droppedStyles).toEqual(['core/card']);
+    expect(result.source.split('\n')[result.line - 1]).toBe('--- core/hero');
+  });
+
+  it('renames the closing line of containers and only offers matching targets', () => {
+    const source = '--- newsletter/category: Tools\ntitle: Tools\n\n--- newsletter/item\nA tool\n--- /newsletter/category';
+    const result = convertBlock(source, 1, 'newsletter/tools', DATA)!;
+    expect(result.source).toBe('--- newsletter/tools: Tools\ntitle: Tools\n\n--- newsletter/item\nA tool\n--- /newsletter/tools');
+    const containers = containerBlockTypes(DEFAULT_KITS);
+    expect(conversionTargets('newsletter/category', DATA, containers)).toEqual(['core/section', 'newsletter/tools']);
+    expect(conversionTargets('core/text', DATA, containers)).not.toContain('core/section');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'bun:test';
+import { createEditorStore, registerUndoHandlers } from '../src/store/editor-store';
+import { DraftAutosave, discardDraft, markDraftSaved, restoreDraft } from '../src/store/draft-autosave';
+import { memoryAdapter } from './memory-storage';
+
+async function storedDraft(storage: ReturnType<typeof memoryAdapter>): Promise<string | null> {
+  const entry = await storage.load('doc', 'draft');
+  return entry ? JSON.parse(entry.data).source : null;
+}
+
+async function openEditor(storage: ReturnType<typeof memoryAdapter>, source: string) {
+  const store = createEditorStore();
+  store.getState().setSource(source);
+  const autosave = new DraftAutosave(store, 'doc', storage);
+  await autosave.start();
+  return { store, autosave };
+}
+
+// Storage left behind by a tab that edited 'loaded' into `source` and closed
+async function crashedWith(source: string) {
+  const storage = memoryAdapter();
+  const { store, autosave } = await openEditor(storage, 'loaded');
+  store.getState().setSource(source);
+  autosave.save();
+  await autosave.flush();
+  return storage;
+}
+
+describe('DraftAutosave', () => {
+  it('saves a draft only while the source differs from the loaded document', async () => {
+    const storage = memoryAdapter();
+    const { store, autosave } = await openEditor(storage, 'loaded');
+    autosave.save();
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBeNull();
+
+    store.getState().setSource('edited');
+    autosave.save();
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBe('edited');
+
+    store.getState().setSource('loaded');
+    autosave.save();
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBeNull();
+  });
+
+  it('drops the draft when the host saves', async () => {
+    const storage = memoryAdapter();
+    const { store, autosave } = await openEditor(storage, 'loaded');
+    store.getState().setSource('edited');
+    autosave.save();
+    await autosave.flush();
+
+    markDraftSaved(store);
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBeNull();
+    // The saved source is the new baseline
+    autosave.save();
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBeNull();
+  });
+
+  it('offers a draft on load only when it differs from the document', async () => {
+    const saved = await crashedWith('edited');
+    const same = await openEditor(saved, 'edited');
+    expect(same.store.getState().recoveredDraft).toBeNull();
+    await same.autosave.flush();
+    expect(await storedDraft(saved)).toBeNull();
+
+    const storage = await crashedWith('edited');
+    const other = await openEditor(storage, 'loaded');
+    expect(other.store.getState().recoveredDraft).toMatchObject({ source: 'edited', loadedSource: 'loaded' });
+
+    discardDraft(other.store);
+    await other.autosave.flush();
+    expect(other.store.getState().recoveredDraft).toBeNull();
+    expect(await storedDraft(storage)).toBeNull();
+  });
+
+  it('restores the draft as one undo step', async () => {
+    const storage = await crashedWith('edited');
+    const { store } = await openEditor(storage, 'loaded');
+    const steps: string[] = [];
+    registerUndoHandlers({
+      undo: () => false,
+      redo: () => false,
+      flush: () => {},
+      clear: () => {},
+      switchBranch: () => false,
+      jumpTo: () => false,
+      beginTransaction: (label) => { steps.push(`begin ${label}`); },
+      endTransaction: () => { steps.push(`end ${store.getState().source}`); },
+    }, store);
+
+    restoreDraft(store);
+    expect(steps).toEqual(['begin Restore draft', 'end edited']);
+    expect(store.getState().recoveredDraft).toBeNull();
+  });
+
+  it('saves drafts only in the writer tab', async () => {
+    const storage = memoryAdapter();
+    const { store, autosave } = await openEditor(storage, 'loaded');
+    store.getState().setTabSync({ isWriter: false });
+    store.getState().setSource('edited');
+    autosave.save();
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBeNull();
+
+    store.getState().setTabSync({ isWriter: true });
+    autosave.save();
+    await autosave.flush();
+    expect(await storedDraft(storage)).toBe('edited');
+  });
+
+  it('keeps pending suggestions through a reload', async () => {
+    const storage = memoryAdapter();
+    const first = await openEditor(storage, 'loaded');
+    first.store.getState().setSuggestionBase('loaded');
+    first.store.getState().setSource('proposed');
+    first.autosave.save();
+    await first.autosave.flush();
+    // Saving the accepted text leaves the suggestions in the draft
+    markDraftSaved(first.store);
+    first.autosave.save();
+    await first.autosave.flush();
+
+    const { store } = await openEditor(storage, 'loaded');
+    expect(store.getState().recoveredDraft).toMatchObject({ source: 'proposed', suggestionBase: 'loaded' });
+    restoreDraft(store);
+    expect(store.getState().source).toBe('proposed');
+    expect(store.getState().suggestionBase).toBe('loaded');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+import { createEditorStore, registerUndoHandlers, useEditorStore } from '../src/store/editor-store';
+
+const SOURCE = '--- use: core\n\n--- core/text\n\nHello\n';
+
+describe('createEditorStore', () => {
+  it('creates stores with independent state', () => {
+    const a = createEditorStore();
+    const b = createEditorStore();
+    a.getState().setSource(SOURCE);
+    a.getState().focusBlock(3, 'mkly');
+
+    expect(b.getState().source).toBe('');
+    expect(b.getState().activeBlockLine).toBeNull();
+    expect(useEditorStore.getState().source).not.toBe(SOURCE);
+  });
+
+  it('keeps selection ids unique across instances', () => {
+    const a = createEditorStore();
+    const b = createEditorStore();
+    a.getState().setSource(SOURCE);
+    b.getState().setSource(SOURCE);
+    a.getState().focusBlock(3, 'mkly');
+    b.getState().focusBlock(3, 'mkly');
+    expect(a.getState().selectionId).not.toBe(b.getState().selectionId);
+  });
+
+  it('routes undo to the handlers registered for that store', () => {
+    const a = createEditorStore();
+    const b = createEditorStore();
+    let undone = '';
+    registerUndoHandlers({
+      undo: () => { undone = 'a'; return true; },
+      redo: () => false,
+      flush: () => {},
+      clear: () => {},
+      switchBranch: () => false,
+      jumpTo: () => false,
+      beginTransaction: () => {},
+      endTransaction: () => {},
+    }, a);
+
+    expect(b.getState().undo()).toBe(false);
+    expect(undone).toBe('');
+    expect(a.getState().undo()).toBe(true);
+    expect(undone).toBe('a');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'bun:test';
+import { ChangeSet, Text } from '@codemirror/state';
+import { formatBlock, formatSource, formatStyleBlock } from '../src/store/format-source';
+import { computeLineChanges } from '../src/editor/diff-update';
+import { buildCompletionData, DEFAULT_KITS } from '../src/store/kit-config';
+import { EXAMPLE_NEWSLETTER } from '../src/store/editor-store';
+
+const DATA = buildCompletionData(DEFAULT_KITS);
+
+const MESSY = [
+  '',
+  '--- use: core',
+  '',
+  '--- use: newsletter',
+  '--- style',
+  'core/card',
+  '  borderRadius: 8px',
+  'accent: red',
+  '',
+  '',
+  '// the hero',
+  '--- core/card: hero   ',
+  'title: Hi',
+  '// shown above the title',
+  'image: https://example.com/a.png',
+  '@img/borderRadius: 4px',
+  '',
+  'Text',
+  '',
+  '',
+  'More',
+  '',
+  '',
+  '--- core/divider',
+  '',
+].join('\n');
+
+describe('formatSource', () => {
+  it('normalizes spacing, property order and style rules', () => {
+    expect(formatSource(MESSY, DATA)).toBe([
+      '--- use: core',
+      '--- use: newsletter',
+      '',
+      '--- style',
+      '',
+      'accent: red',
+      '',
+      'core/card',
+      '  border-radius: 8px',
+      '',
+      '// the hero',
+      '--- core/card: hero',
+      '// shown above the title',
+      'image: https://example.com/a.png',
+      'title: Hi',
+      '@img/borderRadius: 4px',
+      '',
+      'Text',
+      '',
+      '',
+      'More',
+      '',
+      '--- core/divider',
+      '',
+    ].join('\n'));
+  });
+
+  it('is stable and leaves style blocks with comments as written', () => {
+    const once = formatSource(MESSY, DATA);
+    expect(formatSource(once, DATA)).toBe(once);
+    expect(formatSource(EXAMPLE_NEWSLETTER, DATA).split('\n')).toHaveLength(EXAMPLE_NEWSLETTER.split('\n').length);
+
+    const commented = '--- style\ncore/card\n  // rounded\n  borderRadius: 8px\n\n--- core/divider';
+    expect(formatSource(commented, DATA)).toBe(commented);
+  });
+});
+
+describe('formatBlock', () => {
+  it('formats only the block under the line', () => {
+    const result = formatBlock(MESSY, 14, DATA);
+    expect(result).toContain('\n\n// the hero\n--- core/card: hero\n// shown above the title\nimage:');
+    // The style block and directives are untouched
+    expect(result.startsWith('\n--- use: core\n\n--- use: newsletter\n--- style\ncore/card\n  borderRadius: 8px')).toBe(true);
+    expect(result).toContain('More\n\n--- core/divider\n');
+  });
+
+  it('tidies the style block for inspector writes', () => {
+    expect(formatStyleBlock('--- use: core\n--- style\ngapScale: 1.2\n--- core/divider')).toBe(
+      '--- use: core\n\n--- style\n\ngapScale: 1.2\n\n--- core/divider',
+    );
+  });
+});
+
+describe('computeLineChanges', () => {
+  it('changes only the lines that differ', () => {
+    const before = 'a\nb\nc\nd';
+    const after = 'a\nB\nc\nd\ne';
+    const changes = computeLineChanges(before, after);
+    expect(changes).toEqual([{ from: 2, to: 3, insert: 'B' }, { from: 7, insert: '\ne' }]);
+    expect(ChangeSet.of(changes, before.length).apply(Text.of(before.split('\n'))).toString()).toBe(after);
+  });
+});
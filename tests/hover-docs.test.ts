@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { EditorState } from '@codemirror/state';
+import { mklyLanguage } from '../src/mkly-lang';
+import { hoverDoc } from '../src/editor/hover-docs';
+import { buildCompletionData, DEFAULT_KITS } from '../src/store/kit-config';
+import { parseSourceStyleGraph, resolveStyleVariableValue } from '../src/store/block-properties';
+
+const DATA = buildCompletionData(DEFAULT_KITS);
+
+const SOURCE = [
+  '--- use: newsletter',
+  '--- theme: core/dark',
+  '',
+  '--- core/card: intro',
+  'image: https://example.com/a.png',
+  '@img/borderRadius: 8px',
+  '',
+  'Hello $accent',
+].join('\n');
+
+const state = EditorState.create({ doc: SOURCE, extensions: [mklyLanguage] });
+const at = (text: string, offset = 1) => SOURCE.indexOf(text) + offset;
+const hover = (pos: number) => hoverDoc(state, pos, 1, DATA, (name) => (name === 'accent' ? '#e2725b' : undefined));
+
+describe('hoverDoc', () => {
+  it('documents block types, kits and themes from the header', () => {
+    const card = hover(at('core/card'));
+    expect(card).toMatchObject({ from: at('core/card', 0), to: at('core/card', 9), tag: 'core' });
+    expect(card?.summary).toBe(DATA.docs.get('core/card')?.summary);
+    expect(card?.details.some((d) => d.startsWith('image (url)'))).toBe(true);
+
+    expect(hover(at('newsletter'))).toMatchObject({ title: 'Newsletter', tag: 'kit' });
+    expect(hover(at('core/dark'))).toMatchObject({ title: 'core/dark', tag: 'theme' });
+    expect(hover(at('intro'))).toBeNull();
+  });
+
+  it('documents properties, style targets and variables with their value', () => {
+    expect(hover(at('image:'))).toMatchObject({
+      title: 'image',
+      tag: 'url',
+      summary: 'Card thumbnail image URL',
+      details: ['Example: https://example.com/thumb.jpg'],
+    });
+    expect(hover(at('img/'))?.tag).toBe('target');
+    expect(hover(at('$accent'))).toMatchObject({
+      title: '$accent',
+      summary: 'Primary accent color',
+      details: ['Value: #e2725b'],
+    });
+    expect(hover(at('Hello'))).toBeNull();
+  });
+});
+
+describe('resolveStyleVariableValue', () => {
+  it('falls back to the active themes without a style block', () => {
+    const resolve = (source: string, name: string) =>
+      resolveStyleVariableValue(parseSourceStyleGraph(source), source, DEFAULT_KITS, name);
+    const themed = SOURCE.replace('core/dark', 'newsletter/dark');
+    expect(resolve(themed, 'accent')).toBe(DEFAULT_KITS.newsletter.themes!.find((t) => t.name === 'dark')!.variables!.accent);
+    // Unqualified names resolve in every kit, the last one winning
+    expect(resolve(SOURCE.replace('core/dark', 'dark'), 'accent')).toBe('#e2a33c');
+    expect(resolve(`--- style\naccent: red\n\n${themed}`, 'accent')).toBe('red');
+    expect(resolve('--- core/text\nHi', 'accent')).toBeUndefined();
+  });
+});
@@ -134,6 +134,25 @@ describe('morphIframeContent', () => {
     });
   });
 
+  describe('unchanged blocks', () => {
+    it('leaves blocks marked unchanged untouched and morphs the rest', () => {
+      const doc = createDoc(makeHtml(BASE_CSS,
+        `<main class="mkly-document"><h2 data-mkly-line="1" class="mkly-core-heading">Title</h2>
+<div data-mkly-line="3" class="mkly-core-text"><p>Old</p></div></main>`));
+      const heading = doc.querySelector('.mkly-core-heading')!;
+      heading.setAttribute('data-editor-marker', '');
+
+      const ok = morphIframeContent(doc, makeHtml(BASE_CSS,
+        `<main class="mkly-document"><h2 data-mkly-line="1" class="mkly-core-heading">Title</h2>
+<div data-mkly-line="3" class="mkly-core-text"><p>New</p></div></main>`), new Set([1]));
+
+      expect(ok).toBe(true);
+      expect(doc.querySelector('.mkly-core-heading')).toBe(heading);
+      expect(heading.hasAttribute('data-editor-marker')).toBe(true);
+      expect(doc.querySelector('.mkly-core-text')?.textContent).toBe('New');
+    });
+  });
+
   describe('attribute preservation', () => {
     it('preserves data-mkly-active on active block', () => {
       const doc = createDoc(makeHtml(BASE_CSS,
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test';
+import { CORE_KIT, defineKit } from '@mklyml/core';
+import type { MklyPlugin } from '@mklyml/core';
+import { NEWSLETTER_KIT } from '@mklyml/kits/newsletter';
+import { DEFAULT_KITS, resolveKits, resolvePlugins, sameKits } from '../src/store/kit-config';
+import { useEditorStore } from '../src/store/editor-store';
+
+const ACME_KIT = defineKit({ name: 'acme', description: 'In-house blocks' });
+
+describe('kit config', () => {
+  it('always includes the core kit', () => {
+    const kits = resolveKits({ acme: ACME_KIT });
+    expect(kits.core).toBe(CORE_KIT);
+    expect(kits.acme).toBe(ACME_KIT);
+  });
+
+  it('compares kit maps by entry identity', () => {
+    expect(sameKits({ ...DEFAULT_KITS }, DEFAULT_KITS)).toBe(true);
+    expect(sameKits({ core: CORE_KIT }, DEFAULT_KITS)).toBe(false);
+    expect(sameKits({ core: CORE_KIT, newsletter: ACME_KIT }, DEFAULT_KITS)).toBe(false);
+  });
+
+  it('appends the email plugin only for email output', () => {
+    const host: MklyPlugin = { name: 'host' };
+    expect(resolvePlugins([host], 'web')).toEqual([host]);
+    const email = resolvePlugins([host], 'email');
+    expect(email).toHaveLength(2);
+    expect(email[0]).toBe(host);
+  });
+});
+
+describe('store kit configuration', () => {
+  it('rebuilds completion data when kits change', () => {
+    const before = useEditorStore.getState().completionData;
+    useEditorStore.getState().setKitConfig({ kits: { core: CORE_KIT } });
+    const after = useEditorStore.getState();
+    expect(after.completionData).not.toBe(before);
+    expect(after.completionData.kits.map((k) => k.label)).toEqual(['core']);
+
+    useEditorStore.getState().setKitConfig({ kits: { core: CORE_KIT, newsletter: NEWSLETTER_KIT } });
+    expect(useEditorStore.getState().completionData.kits.map((k) => k.label)).toContain('newsletter');
+  });
+
+  it('ignores identical configurations', () => {
+    const state = useEditorStore.getState();
+    state.setKitConfig({ kits: { ...state.kits }, plugins: [...state.plugins] });
+    expect(useEditorStore.getState()).toBe(state);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'bun:test';
+import { diffLines, diffStats } from '../src/store/line-diff';
+
+describe('diffLines', () => {
+  it('reports changed lines with their line numbers on each side', () => {
+    const lines = diffLines('a\nb\nc', 'a\nx\nc\nd');
+    expect(lines.map((l) => `${l.kind}:${l.text}`)).toEqual([
+      'same:a', 'removed:b', 'added:x', 'same:c', 'added:d',
+    ]);
+    expect(lines[2]).toEqual({ kind: 'added', text: 'x', oldLine: null, newLine: 2 });
+    expect(lines[3]).toEqual({ kind: 'same', text: 'c', oldLine: 3, newLine: 3 });
+    expect(diffStats(lines)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('treats a missing trailing newline like any other line', () => {
+    expect(diffLines('a\nb', 'a\nb').every((l) => l.kind === 'same')).toBe(true);
+    expect(diffStats(diffLines('a\nb', 'a\nb\n'))).toEqual({ added: 1, removed: 0 });
+  });
+});
@@ -0,0 +1,19 @@
+import { createLocalStorageAdapter } from '../src/store/storage-adapter';
+
+/** A `Storage` kept in a Map, standing in for localStorage. */
+export function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+}
+
+/** A localStorage adapter over `memoryStorage()`. */
+export function memoryAdapter() {
+  return createLocalStorageAdapter({ storage: memoryStorage() });
+}
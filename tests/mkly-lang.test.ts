@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { EditorState } from '@codemirror/state';
+import { TreeFragment } from '@lezer/common';
+import { parser } from '../src/mkly-lang/parser';
+import { enclosingBlockType, enclosingSection, mklyLanguage } from '../src/mkly-lang';
+
+function tree(...lines: string[]): string {
+  return parser.parse(lines.join('\n')).toString();
+}
+
+describe('mkly grammar', () => {
+  it('reads properties only up to the first blank or content line', () => {
+    expect(tree(
+      '--- core/hero: Intro',
+      'title: Hello',
+      '// note',
+      '@img/borderRadius: 8px',
+      '',
+      'title: not a property',
+    )).toBe(
+      'Document(Block(BlockHeader(HeaderMark,BlockType,Label),'
+      + 'Property(PropertyName,PropertyValue),Comment,'
+      + 'InlineStyle(StyleTarget,StyleName,PropertyValue),'
+      + 'ContentLine(Text)))',
+    );
+  });
+
+  it('parses inline markup, spans and class annotations in content', () => {
+    expect(tree(
+      '--- core/text',
+      '',
+      '## Hi **there**',
+      '{@color:red}see [docs](https://x.dev){/} {.lead} $name',
+    )).toBe(
+      'Document(Block(BlockHeader(HeaderMark,BlockType),'
+      + 'ContentLine(Heading(HeadingMark,Text,Strong)),'
+      + 'ContentLine(InlineSpan(SpanOpen,Text,Link,SpanClose),Text,ClassAnnotation,Text,Variable)))',
+    );
+  });
+
+  it('parses style blocks and closers', () => {
+    expect(tree(
+      '--- style',
+      'core/card',
+      '  .title',
+      '    color: $accent',
+      '--- core/section',
+      '--- /core/section',
+    )).toBe(
+      'Document(StyleBlock(StyleHeader(HeaderMark,StyleKeyword),'
+      + 'StyleSelector,StyleSelector,StyleDeclaration(StylePropertyName,StyleValue(Variable))),'
+      + 'Block(BlockHeader(HeaderMark,BlockType)),CloseTag(CloseMark,BlockType))',
+    );
+  });
+
+  it('reparses incrementally to the same tree', () => {
+    const source = Array.from({ length: 200 }, (_, i) => `--- core/text: t${i}\ntitle: x\n\nSome **bold** text ${i}\n`).join('\n');
+    const pos = source.indexOf('t100') + 4;
+    const edited = source.slice(0, pos) + '\n\ntitle: y' + source.slice(pos);
+    const fragments = TreeFragment.applyChanges(
+      TreeFragment.addTree(parser.parse(source)),
+      [{ fromA: pos, toA: pos, fromB: pos, toB: pos + 9 }],
+    );
+    expect(parser.parse(edited, fragments).toString()).toBe(parser.parse(edited).toString());
+  });
+});
+
+describe('enclosingBlockType', () => {
+  it('finds the block around a position from the syntax tree', () => {
+    const doc = ['--- use: newsletter', '', '--- core/text', 'ti', '--- style', 'core/text', '  co'].join('\n');
+    const state = EditorState.create({ doc, extensions: [mklyLanguage] });
+    expect(enclosingBlockType(state, doc.indexOf('ti') + 2)).toBe('core/text');
+    expect(enclosingBlockType(state, doc.indexOf('newsletter') + 3)).toBeNull();
+    expect(enclosingSection(state, doc.length)).toEqual({ name: 'StyleBlock', type: 'style' });
+    expect(enclosingBlockType(state, doc.length)).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+import { ChangeSet, Text } from '@codemirror/state';
+import { runCompile } from '../src/store/compile-core';
+import { buildCompletionData, DEFAULT_KITS } from '../src/store/kit-config';
+import { closestBlockType, mergeFixes, missingKitImports, mklyDiagnostics, quickFixFor } from '../src/editor/quick-fixes';
+import type { QuickFix } from '../src/editor/quick-fixes';
+
+const DATA = buildCompletionData(DEFAULT_KITS);
+
+function doc(...lines: string[]): Text {
+  return Text.of(lines);
+}
+
+function apply(text: Text, changes: QuickFix['changes']): string {
+  return ChangeSet.of(changes, text.length).apply(text).toString();
+}
+
+function fixAll(text: Text) {
+  const { errors } = runCompile({ source: text.toString(), outputMode: 'web', normalize: false }, DEFAULT_KITS, []);
+  const all = [...errors, ...missingKitImports(text, DATA)];
+  return all.map((err) => quickFixFor(text, err, DATA)).filter((f): f is QuickFix => f !== null);
+}
+
+describe('quickFixFor', () => {
+  it('adds missing required properties from the docs example', () => {
+    const text = doc('--- core/image', 'alt: A cat', '', '--- core/spacer');
+    const fixes = fixAll(text);
+    expect(fixes.map((f) => f.name)).toEqual(['Add src', 'Add height']);
+    expect(apply(text, mergeFixes(fixes))).toBe(
+      ['--- core/image', 'alt: A cat', 'src: https://example.com/photo.jpg', '', '--- core/spacer', 'height: 40'].join('\n'),
+    );
+  });
+
+  it('leaves the value empty and selected when the docs have no example', () => {
+    const text = doc('--- core/image', 'alt: A cat');
+    const fix = quickFixFor(text, { message: 'Missing required property "src" on core/image block', line: 1, severity: 'error' }, { ...DATA, docs: new Map() })!;
+    expect(fix.changes).toEqual([{ from: 25, insert: '\nsrc: ' }]);
+    expect(fix.selection).toEqual({ anchor: 31, head: 31 });
+
+    const withExample = quickFixFor(text, { message: 'Missing required property "src" on core/image block', line: 1, severity: 'error' }, DATA)!;
+    const value = 'https://example.com/photo.jpg';
+    expect(withExample.selection).toEqual({ anchor: 31, head: 31 + value.length });
+  });
+
+  it('removes stray closers and corrects misspelled block types', () => {
+    const text = doc('--- core/buton', 'url: https://x.dev', '', '--- /core/section', '--- /core/section');
+    const fixes = fixAll(text);
+    expect(fixes.map((f) => f.kind).sort()).toEqual(['remove-closer', 'remove-closer', 'rename-type']);
+    expect(apply(text, mergeFixes(fixes))).toBe('--- core/button\nurl: https://x.dev\n\n');
+  });
+
+  it('imports a kit once for all its blocks and fixes the version', () => {
+    const text = doc('--- meta', 'version: abc', '', '--- newsletter/item', '', '--- newsletter/item');
+    expect(quickFixFor(text, { message: 'Invalid version: "abc"', line: 1, severity: 'error' }, DATA)?.changes)
+      .toEqual([{ from: 18, to: 21, insert: '1' }]);
+    const imports = missingKitImports(text, DATA).map((err) => quickFixFor(text, err, DATA)!);
+    expect(imports).toHaveLength(2);
+    expect(apply(text, mergeFixes(imports)).split('\n')[0]).toBe('--- use: newsletter');
+    expect(apply(text, mergeFixes(imports)).match(/--- use:/g)).toHaveLength(1);
+  });
+
+  it('fixes the version in the meta block only', () => {
+    const text = doc('--- core/text', 'version: 2 of the launch plan', '', '--- meta', 'version: abc');
+    const fix = quickFixFor(text, { message: 'Invalid version: "abc"', line: 1, severity: 'error' }, DATA);
+    expect(apply(text, fix!.changes)).toBe('--- core/text\nversion: 2 of the launch plan\n\n--- meta\nversion: 1');
+    expect(quickFixFor(doc('--- core/text', 'version: abc'), { message: 'Invalid version: "abc"', line: 1, severity: 'error' }, DATA)).toBeNull();
+  });
+});
+
+describe('closestBlockType', () => {
+  it('finds near misses with or without the kit prefix', () => {
+    const types = DATA.blocks.map((b) => b.label);
+    expect(closestBlockType('core/buton', types)).toBe('core/button');
+    expect(closestBlockType('hedaing', types)).toBe('core/heading');
+    expect(closestBlockType('core/carousel', types)).toBeNull();
+  });
+});
+
+describe('mklyDiagnostics', () => {
+  it('offers a fix-all action when a kind repeats', () => {
+    const text = doc('--- core/text', '', 'hi', '--- /core/section', '--- /core/quote', '--- meta', 'version: 9');
+    const diagnostics = mklyDiagnostics(text, [
+      { message: 'Closing --- /core/section has no matching opening block', line: 4, severity: 'warning' },
+      { message: 'Closing --- /core/quote has no matching opening block', line: 5, severity: 'warning' },
+      { message: 'Unsupported version: 9. Supported: 1', line: 1, severity: 'error' },
+    ], DATA);
+    expect(diagnostics.map((d) => d.actions?.map((a) => a.name))).toEqual([
+      ['Remove this closer', 'Remove all stray closers (2)'],
+      ['Remove this closer', 'Remove all stray closers (2)'],
+      ['Use version 1'],
+    ]);
+    // Shown on the version line rather than line 1
+    expect(text.lineAt(diagnostics[2].from).number).toBe(7);
+  });
+});
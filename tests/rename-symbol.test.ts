@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'bun:test';
+import { EditorState } from '@codemirror/state';
+import { mklyLanguage } from '../src/mkly-lang';
+import { renameEdits, renamePreview, renameProblem, renameTargetAt } from '../src/editor/rename-symbol';
+
+const SOURCE = [
+  '--- style',
+  'newsletter/item:hero',
+  '  padding: 8px',
+  '  .title',
+  '    color: red',
+  'core/text',
+  '  >.s1',
+  '    color: blue',
+  '  >.s1:hover',
+  '    color: navy',
+  '',
+  '--- newsletter/item: hero',
+  'title: Top story',
+  '',
+  '--- core/text',
+  '',
+  'Intro {.s1}',
+  '',
+  '--- core/html',
+  '',
+  '<p class="lead s1">Hi</p>',
+  '',
+  '--- newsletter/item: hero',
+].join('\n');
+
+const state = EditorState.create({ doc: SOURCE, extensions: [mklyLanguage] });
+const at = (text: string, offset = 1) => SOURCE.indexOf(text) + offset;
+
+function rename(pos: number, name: string): string {
+  const target = renameTargetAt(state, pos)!;
+  return state.update({ changes: renameEdits(state, target, name) }).state.doc.toString();
+}
+
+describe('renameTargetAt', () => {
+  it('finds labels and classes in headers, content and style selectors', () => {
+    expect(renameTargetAt(state, at(': hero', 3))).toEqual({ kind: 'label', blockType: 'newsletter/item', name: 'hero' });
+    expect(renameTargetAt(state, at('item:hero'))).toEqual({ kind: 'label', blockType: 'newsletter/item', name: 'hero' });
+    expect(renameTargetAt(state, at('{.s1}'))).toEqual({ kind: 'class', name: 's1' });
+    expect(renameTargetAt(state, at('>.s1:hover'))).toEqual({ kind: 'class', name: 's1' });
+    expect(renameTargetAt(state, at('s1">'))).toEqual({ kind: 'class', name: 's1' });
+    expect(renameTargetAt(state, at('Top story'))).toBeNull();
+  });
+});
+
+describe('renameEdits', () => {
+  it('renames a label on every block sharing it and in its selectors', () => {
+    const result = rename(at(': hero', 3), 'lead-story');
+    expect(result).toContain('newsletter/item:lead-story\n  padding');
+    expect(result.match(/--- newsletter\/item: lead-story/g)).toHaveLength(2);
+    expect(result).not.toContain('hero');
+  });
+
+  it('renames a class in annotations, html class attributes and selectors', () => {
+    const result = rename(at('{.s1}'), 'intro');
+    expect(result).toContain('  >.intro\n');
+    expect(result).toContain('  >.intro:hover\n');
+    expect(result).toContain('Intro {.intro}');
+    expect(result).toContain('<p class="lead intro">');
+  });
+
+  it('previews the affected lines and rejects names in use', () => {
+    const target = renameTargetAt(state, at('{.s1}'))!;
+    expect(renamePreview(state, renameEdits(state, target, 'intro')).map((l) => [l.line, l.after])).toEqual([
+      [7, '  >.intro'],
+      [9, '  >.intro:hover'],
+      [17, 'Intro {.intro}'],
+      [21, '<p class="lead intro">Hi</p>'],
+    ]);
+    expect(renameProblem(state, target, 'lead')).toBe('.lead is already used');
+    expect(renameProblem(state, target, '1st')).not.toBeNull();
+    expect(renameProblem(state, target, 'intro')).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createHttpStorageAdapter,
+  createLocalStorageAdapter,
+  StorageConflictError,
+  StorageWriter,
+} from '../src/store/storage-adapter';
+import type { StorageAdapter } from '../src/store/storage-adapter';
+import { UndoManager } from '../src/store/undo-manager';
+import { memoryStorage } from './memory-storage';
+
+describe('createLocalStorageAdapter', () => {
+  it('bumps the revision on every save and rejects stale ones', async () => {
+    const adapter = createLocalStorageAdapter({ storage: memoryStorage() });
+    expect(await adapter.load('doc', 'document')).toBeNull();
+
+    const r1 = await adapter.save('doc', 'document', 'a', null);
+    const r2 = await adapter.save('doc', 'document', 'b', r1);
+    expect(await adapter.load('doc', 'document')).toEqual({ data: 'b', revision: r2 });
+
+    await expect(adapter.save('doc', 'document', 'c', r1)).rejects.toBeInstanceOf(StorageConflictError);
+    await expect(adapter.save('doc', 'document', 'c', null)).rejects.toBeInstanceOf(StorageConflictError);
+  });
+
+  it('reads history written before revisions existed', async () => {
+    const storage = memoryStorage();
+    storage.setItem('mkly-undo:doc', '{"version":1}');
+    const adapter = createLocalStorageAdapter({ storage });
+    const entry = await adapter.load('doc', 'history');
+    expect(entry).toEqual({ data: '{"version":1}', revision: '0' });
+    expect(await adapter.save('doc', 'history', '{}', '0')).toBe('1');
+  });
+});
+
+describe('createHttpStorageAdapter', () => {
+  function fakeServer() {
+    const entries = new Map<string, { body: string; etag: string }>();
+    const requests: Array<{ method: string; url: string; headers: Record<string, string> }> = [];
+    let etag = 0;
+    const fetchFn = (async (input: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      requests.push({ method: init.method!, url: input, headers });
+      const entry = entries.get(input);
+      if (init.method === 'GET') {
+        return entry
+          ? new Response(entry.body, { headers: { ETag: entry.etag } })
+          : new Response(null, { status: 404 });
+      }
+      if (init.method === 'DELETE') {
+        entries.delete(input);
+        return new Response(null, { status: 204 });
+      }
+      const fresh = headers['If-None-Match'] === '*';
+      if (fresh ? entry : entry?.etag !== headers['If-Match']) return new Response(null, { status: 412 });
+      const next = { body: String(init.body), etag: `"${++etag}"` };
+      entries.set(input, next);
+      return new Response(null, { status: 204, headers: { ETag: next.etag } });
+    }) as typeof fetch;
+    return { fetchFn, requests };
+  }
+
+  it('round-trips entries with ETag revisions', async () => {
+    const { fetchFn, requests } = fakeServer();
+    const adapter = createHttpStorageAdapter({ baseUrl: '/api/docs/', fetch: fetchFn, headers: { 'X-Token': 't' } });
+
+    expect(await adapter.load('a b', 'document')).toBeNull();
+    const revision = await adapter.save('a b', 'document', 'hello', null);
+    expect(await adapter.load('a b', 'document')).toEqual({ data: 'hello', revision });
+
+    expect(requests[0].url).toBe('/api/docs/a%20b/document');
+    expect(requests[1].headers['If-None-Match']).toBe('*');
+    expect(requests[1].headers['X-Token']).toBe('t');
+  });
+
+  it('maps 412 to a conflict', async () => {
+    const { fetchFn } = fakeServer();
+    const adapter = createHttpStorageAdapter({ baseUrl: '/api', fetch: fetchFn });
+    const revision = await adapter.save('doc', 'document', 'one', null);
+    await adapter.save('doc', 'document', 'two', revision);
+    await expect(adapter.save('doc', 'document', 'three', revision)).rejects.toBeInstanceOf(StorageConflictError);
+  });
+});
+
+describe('StorageWriter', () => {
+  function countingAdapter(storage = memoryStorage()) {
+    const adapter = createLocalStorageAdapter({ storage });
+    const saved: string[] = [];
+    const counting: StorageAdapter = {
+      ...adapter,
+      save: (id, slot, data, base) => {
+        saved.push(data);
+        return adapter.save(id, slot, data, base);
+      },
+    };
+    return { adapter: counting, saved, storage };
+  }
+
+  it('keeps only the newest data while a save is in flight', async () => {
+    const { adapter, saved } = countingAdapter();
+    const writer = new StorageWriter(adapter, 'doc', 'document');
+    await writer.load();
+    writer.write('a');
+    writer.write('b');
+    writer.write('c');
+    await writer.flush();
+    expect(saved).toEqual(['a', 'c']);
+    expect(writer.write('c')).toBe(false);
+  });
+
+  it('holds writes after a conflict until overwrite()', async () => {
+    const { adapter, saved, storage } = countingAdapter();
+    const mine = new StorageWriter(adapter, 'doc', 'document');
+    const theirs = new StorageWriter(createLocalStorageAdapter({ storage }), 'doc', 'document');
+    await mine.load();
+    await theirs.load();
+    theirs.write('theirs');
+    await theirs.flush();
+
+    const errors: Error[] = [];
+    mine.onError = (err) => errors.push(err);
+    mine.write('mine');
+    await mine.flush();
+    expect(mine.conflicted).toBe(true);
+    expect(errors[0]).toBeInstanceOf(StorageConflictError);
+
+    mine.write('mine 2');
+    await mine.flush();
+    expect(saved).toEqual(['mine']);
+
+    await mine.overwrite();
+    expect(mine.conflicted).toBe(false);
+    expect((await adapter.load('doc', 'document'))?.data).toBe('mine 2');
+  });
+});
+
+describe('UndoManager persistence', () => {
+  it('restores history saved through the adapter', async () => {
+    const storage = createLocalStorageAdapter({ storage: memoryStorage() });
+    const first = new UndoManager('doc', 'one', { persistHistory: true, storage, debounceMs: 0 });
+    await first.restore();
+    first.recordChange('two');
+    first.recordChange('three');
+    await first.flushStorage();
+    first.destroy();
+
+    const second = new UndoManager('doc', 'three', { persistHistory: true, storage });
+    expect(await second.restore()).toBe(true);
+    expect(second.undo()).toBe('one');
+    expect(second.redo()).toBe('three');
+  });
+
+  it('never touches the adapter when persistHistory is off', async () => {
+    const calls: string[] = [];
+    const inner = createLocalStorageAdapter({ storage: memoryStorage() });
+    const storage: StorageAdapter = {
+      load: (id, slot) => { calls.push(`load ${slot}`); return inner.load(id, slot); },
+      save: (id, slot, data, revision) => { calls.push(`save ${slot}`); return inner.save(id, slot, data, revision); },
+      remove: (id, slot) => { calls.push(`remove ${slot}`); return inner.remove(id, slot); },
+    };
+    const manager = new UndoManager('doc', 'one', { storage, debounceMs: 0 });
+    expect(await manager.restore()).toBe(false);
+    manager.recordChange('two');
+    expect(manager.undo()).toBe('one');
+    manager.clear();
+    await manager.flushStorage();
+    expect(calls).toEqual([]);
+  });
+
+  it('drops history left in localStorage once persistHistory is off', async () => {
+    const global = globalThis as Record<string, unknown>;
+    const previous = global.localStorage;
+    const storage = memoryStorage();
+    storage.setItem('mkly-undo:doc', '{}');
+    global.localStorage = storage;
+    try {
+      const manager = new UndoManager('doc', 'one');
+      await manager.flushStorage();
+      expect(storage.getItem('mkly-undo:doc')).toBeNull();
+    } finally {
+      global.localStorage = previous;
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test';
+import { EditorState } from '@codemirror/state';
+import { mklyLanguage } from '../src/mkly-lang';
+import { definitionRanges, styleRuleLines } from '../src/editor/style-definitions';
+
+const SOURCE = [
+  '--- style',
+  'accent: red',
+  'core/text',
+  '  >.lead',
+  '    color: $accent',
+  'core/card:intro',
+  '  padding: 8px',
+  '  .title',
+  '    color: blue',
+  '',
+  '--- core/card: intro',
+  'title: Hi',
+  '',
+  '--- core/text',
+  '',
+  'Welcome {.lead}',
+  '',
+  '--- core/card: outro',
+].join('\n');
+
+const state = EditorState.create({ doc: SOURCE, extensions: [mklyLanguage] });
+const at = (text: string, offset = 1) => SOURCE.indexOf(text) + offset;
+const texts = (pos: number) => definitionRanges(state, pos).map((r) => state.sliceDoc(r.from, r.to));
+
+describe('styleRuleLines', () => {
+  it('reads the rule behind each selector line', () => {
+    expect(styleRuleLines(state).map(({ blockType, label, target }) => ({ blockType, label, target }))).toEqual([
+      { blockType: 'core/text', label: undefined, target: 'self' },
+      { blockType: 'core/text', label: undefined, target: '>.lead' },
+      { blockType: 'core/card', label: 'intro', target: 'self' },
+      { blockType: 'core/card', label: 'intro', target: 'title' },
+    ]);
+  });
+});
+
+describe('definitionRanges', () => {
+  it('goes from a label or class annotation to the rules targeting it', () => {
+    expect(texts(at(': intro', 3))).toEqual(['core/card:intro', '.title']);
+    expect(texts(at('{.lead}'))).toEqual(['>.lead']);
+    expect(texts(at(': outro', 3))).toEqual([]);
+  });
+
+  it('goes from a style rule back to the blocks it affects', () => {
+    expect(texts(at('core/card:intro'))).toEqual(['--- core/card: intro']);
+    expect(texts(at('>.lead'))).toEqual(['{.lead}']);
+    expect(texts(at('core/text\n'))).toEqual(['--- core/text']);
+  });
+});
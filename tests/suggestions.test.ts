@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test';
+import { createEditorStore } from '../src/store/editor-store';
+import { acceptSuggestion, computeSuggestions, rejectSuggestion, suggestionLines } from '../src/store/suggestions';
+import { acceptSuggestionById, committedSource, startSuggesting } from '../src/store/use-suggestions';
+
+const BASE = [
+  '--- core/heading',
+  'Hello world',
+  '',
+  '--- core/text',
+  'The quick fox',
+].join('\n');
+
+describe('computeSuggestions', () => {
+  it('returns one change per run of edits', () => {
+    const proposed = BASE.replace('world', 'there').replace('quick ', '');
+    const suggestions = computeSuggestions(BASE, proposed);
+    expect(suggestions.map((s) => [s.deleted, s.inserted])).toEqual([['world', 'there'], ['quick ', '']]);
+    expect(proposed.slice(suggestions[0].from, suggestions[0].to)).toBe('there');
+    expect(computeSuggestions(BASE, BASE)).toEqual([]);
+  });
+
+  it('accepts and rejects changes independently', () => {
+    const proposed = BASE.replace('world', 'there').replace('fox', 'brown fox');
+    const [heading, text] = computeSuggestions(BASE, proposed);
+
+    // Accepting one leaves only the other pending
+    const base = acceptSuggestion(BASE, heading);
+    expect(computeSuggestions(base, proposed).map((s) => s.inserted)).toEqual([text.inserted]);
+
+    // Rejecting one leaves only the other pending
+    const rejected = rejectSuggestion(proposed, text);
+    expect(rejected).toBe(BASE.replace('world', 'there'));
+  });
+});
+
+describe('suggestionLines', () => {
+  it('lists the lines each change covers', () => {
+    const proposed = BASE.replace('Hello world', 'Hello world\nSecond line');
+    expect(suggestionLines(proposed, computeSuggestions(BASE, proposed))).toEqual([2, 3]);
+  });
+});
+
+describe('startSuggesting', () => {
+  it('keeps the accepted text as the committed source', () => {
+    const store = createEditorStore();
+    store.getState().setSource('accepted');
+    startSuggesting(store);
+    store.getState().setSource('proposed');
+    expect(committedSource(store.getState())).toBe('accepted');
+  });
+
+  it('keeps an accepted suggestion when its edit is undone', () => {
+    const store = createEditorStore();
+    store.getState().setSource('Hello world');
+    startSuggesting(store);
+    store.getState().setSource('Hello there world');
+    const [suggestion] = computeSuggestions('Hello world', 'Hello there world');
+    store.getState().setSuggestions([suggestion]);
+    acceptSuggestionById(store, suggestion.id);
+    expect(committedSource(store.getState())).toBe('Hello there world');
+
+    // Undo only restores the source: taking the text out becomes a suggestion
+    store.getState().setSource('Hello world');
+    expect(committedSource(store.getState())).toBe('Hello there world');
+    expect(computeSuggestions(committedSource(store.getState()), 'Hello world')).toMatchObject([{ deleted: 'there ', inserted: '' }]);
+  });
+
+  it('stays off while editing together', () => {
+    const store = createEditorStore();
+    store.getState().setCollab({ room: 'room', status: 'connected', synced: true, peers: [] });
+    startSuggesting(store);
+    expect(store.getState().suggestionBase).toBeNull();
+  });
+});
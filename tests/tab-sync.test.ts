@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'bun:test';
+import { mergeSources, TabSync } from '../src/store/tab-sync';
+import type { TabChannel } from '../src/store/tab-sync';
+
+// Messages stay queued until deliver(), so tests decide what happens concurrently
+function channelHub() {
+  const channels = new Set<TabChannel>();
+  const queue: Array<{ from: TabChannel; message: unknown }> = [];
+  return {
+    open(): TabChannel {
+      const channel: TabChannel = {
+        onmessage: null,
+        postMessage: (message) => queue.push({ from: channel, message: structuredClone(message) }),
+        close: () => channels.delete(channel),
+      };
+      channels.add(channel);
+      return channel;
+    },
+    deliver() {
+      while (queue.length > 0) {
+        const { from, message } = queue.shift()!;
+        for (const channel of channels) {
+          if (channel !== from) channel.onmessage?.({ data: message } as MessageEvent);
+        }
+      }
+    },
+  };
+}
+
+// Each tab is its own page unless `pageId` says otherwise
+function openTab(hub: ReturnType<typeof channelHub>, tabId: string, source: string, pageId = `page-${tabId}`) {
+  const sync = new TabSync('doc', source, { channel: hub.open(), tabId, pageId, heartbeatMs: 60_000 });
+  const tab = { sync, source, conflict: null as string | null };
+  sync.onRemoteSource = (next) => { tab.source = next; };
+  sync.onConflict = (remote) => { tab.conflict = remote; };
+  sync.start();
+  return {
+    tab,
+    edit(next: string) {
+      tab.source = next;
+      sync.publish(next);
+    },
+  };
+}
+
+describe('mergeSources', () => {
+  it('applies both sides of non-overlapping edits', () => {
+    expect(mergeSources('a\nb\nc', 'A\nb\nc', 'a\nb\nC')).toBe('A\nb\nC');
+  });
+
+  it('takes whichever side changed', () => {
+    expect(mergeSources('x', 'x', 'y')).toBe('y');
+    expect(mergeSources('x', 'y', 'x')).toBe('y');
+  });
+});
+
+describe('TabSync', () => {
+  it('elects the oldest tab as writer and hands over when it closes', () => {
+    const hub = channelHub();
+    const a = openTab(hub, 'a', 'doc');
+    const b = openTab(hub, 'b', 'doc');
+    hub.deliver();
+    expect(a.tab.sync.status).toEqual({ peers: 1, isWriter: true });
+    expect(b.tab.sync.status).toEqual({ peers: 1, isWriter: false });
+
+    a.tab.sync.destroy();
+    hub.deliver();
+    expect(b.tab.sync.status).toEqual({ peers: 0, isWriter: true });
+  });
+
+  it('brings a new tab up to date and forwards edits', () => {
+    const hub = channelHub();
+    const a = openTab(hub, 'a', 'one');
+    hub.deliver();
+    a.edit('two');
+    const b = openTab(hub, 'b', 'stale');
+    hub.deliver();
+    expect(b.tab.source).toBe('two');
+
+    b.edit('three');
+    hub.deliver();
+    expect(a.tab.source).toBe('three');
+  });
+
+  it('merges concurrent edits to different lines', () => {
+    const hub = channelHub();
+    const a = openTab(hub, 'a', 'title\nbody\nfooter');
+    const b = openTab(hub, 'b', 'title\nbody\nfooter');
+    hub.deliver();
+
+    a.edit('TITLE\nbody\nfooter');
+    b.edit('title\nbody\nFOOTER');
+    hub.deliver();
+    expect(a.tab.source).toBe('TITLE\nbody\nFOOTER');
+    expect(b.tab.source).toBe('TITLE\nbody\nFOOTER');
+    expect(a.tab.conflict).toBeNull();
+  });
+
+  it('reports overlapping edits to the newer tab until resolved', () => {
+    const hub = channelHub();
+    const a = openTab(hub, 'a', 'color: red');
+    const b = openTab(hub, 'b', 'color: red');
+    hub.deliver();
+
+    a.edit('background: navy');
+    b.edit('border: none');
+    hub.deliver();
+    expect(a.tab.conflict).toBeNull();
+    expect(b.tab.conflict).toBe('background: navy');
+    expect(a.tab.source).toBe('background: navy');
+
+    b.tab.sync.resolveConflict('keep-local');
+    hub.deliver();
+    expect(b.tab.conflict).toBeNull();
+    expect(a.tab.source).toBe('border: none');
+  });
+
+  it('ignores editors in the same page', () => {
+    const hub = channelHub();
+    const a = openTab(hub, 'a', 'first', 'page');
+    const b = openTab(hub, 'b', 'second', 'page');
+    hub.deliver();
+    expect(a.tab.sync.status).toEqual({ peers: 0, isWriter: true });
+    expect(b.tab.sync.status).toEqual({ peers: 0, isWriter: true });
+
+    a.edit('changed');
+    hub.deliver();
+    expect(b.tab.source).toBe('second');
+  });
+});
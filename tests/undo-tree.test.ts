@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'bun:test';
+import { diff_match_patch } from 'diff-match-patch';
+import { createLocalStorageAdapter } from '../src/store/storage-adapter';
+import { UndoManager } from '../src/store/undo-manager';
+import { memoryStorage } from './memory-storage';
+
+function manager(source: string, maxEntries = 20): UndoManager {
+  return new UndoManager('doc', source, { storage: createLocalStorageAdapter({ storage: memoryStorage() }), maxEntries });
+}
+
+function edit(m: UndoManager, source: string): void {
+  m.recordChange(source);
+  m.flush();
+}
+
+describe('UndoManager branches', () => {
+  it('keeps the undone branch when typing after undo', () => {
+    const m = manager('a');
+    edit(m, 'ab');
+    edit(m, 'abc');
+    expect(m.undo()).toBe('ab');
+    edit(m, 'abX');
+
+    expect(m.getInfo()).toMatchObject({ branch: 2, branchCount: 2 });
+    expect(m.switchBranch(-1)).toBe('abc');
+    expect(m.getInfo()).toMatchObject({ branch: 1, branchCount: 2 });
+    expect(m.switchBranch(-1)).toBeNull();
+    expect(m.switchBranch(1)).toBe('abX');
+  });
+
+  it('redoes along the branch that was last visited', () => {
+    const m = manager('a');
+    edit(m, 'ab');
+    expect(m.undo()).toBe('a');
+    edit(m, 'aX');
+    expect(m.switchBranch(-1)).toBe('ab');
+    expect(m.undo()).toBe('a');
+    expect(m.redo()).toBe('ab');
+  });
+
+  it('jumps to any step and reports the tree', () => {
+    const m = manager('a');
+    edit(m, 'ab');
+    edit(m, 'abc');
+    m.undo();
+    m.undo();
+    edit(m, 'z');
+    const tree = m.getTree();
+    expect(tree.map((n) => n.depth)).toEqual([0, 1, 2, 1]);
+    const deepest = tree.find((n) => n.depth === 2)!;
+    expect(m.jumpTo(deepest.id)).toBe('abc');
+    expect(m.getTree().filter((n) => n.ancestor).map((n) => n.depth)).toEqual([0, 1, 2]);
+  });
+
+  it('prunes side branches before the current path', () => {
+    const m = manager('', 3);
+    edit(m, 'a');
+    m.undo();
+    edit(m, 'b');
+    edit(m, 'bc');
+    edit(m, 'bcd');
+    expect(m.getInfo().total).toBe(3);
+    expect(m.undo()).toBe('bc');
+    expect(m.undo()).toBe('b');
+    expect(m.undo()).toBe('');
+    expect(m.redo()).toBe('b');
+  });
+});
+
+describe('UndoManager legacy history', () => {
+  it('migrates a stored linear stack into a tree', async () => {
+    const storage = createLocalStorageAdapter({ storage: memoryStorage() });
+    const dmp = new diff_match_patch();
+    const step = (from: string, to: string) => ({
+      fwd: dmp.patch_toText(dmp.patch_make(from, to)),
+      rev: dmp.patch_toText(dmp.patch_make(to, from)),
+      ts: Date.now(),
+    });
+    const patches = [step('one', 'two'), step('two', 'three')];
+    await storage.save('doc', 'history', JSON.stringify({ version: 1, base: 'one', patches, cursor: 2 }), null);
+
+    const m = new UndoManager('doc', 'three', { persistHistory: true, storage });
+    expect(await m.restore()).toBe(true);
+    expect(m.getInfo()).toMatchObject({ position: 2, total: 2, branchCount: 1 });
+    expect(m.undo()).toBe('two');
+    expect(m.undo()).toBe('one');
+    expect(m.redo()).toBe('two');
+  });
+});
+
+describe('UndoManager transactions', () => {
+  it('keeps pending typing apart from a labeled step', () => {
+    const m = manager('a');
+    m.recordChange('ab');
+    m.beginTransaction('Set color of core/text');
+    m.recordChange('ab color: red');
+    m.endTransaction();
+    expect(m.getInfo().undoLabel).toBe('Set color of core/text');
+
+    expect(m.undo()).toBe('ab');
+    expect(m.getInfo()).toMatchObject({ undoLabel: null, redoLabel: 'Set color of core/text' });
+    expect(m.undo()).toBe('a');
+  });
+
+  it('merges repeated transactions with the same label', () => {
+    const m = manager('bg: #000');
+    for (const shade of ['#111', '#222', '#333']) {
+      m.beginTransaction('Set background of newsletter/featured');
+      m.recordChange(`bg: ${shade}`);
+      m.endTransaction();
+    }
+    m.beginTransaction('Remove theme dark');
+    m.recordChange('bg: #333\n');
+    m.endTransaction();
+    m.flush();
+
+    expect(m.getInfo().total).toBe(2);
+    expect(m.undo()).toBe('bg: #333');
+    expect(m.undo()).toBe('bg: #000');
+    expect(m.getTree().map((n) => n.label)).toEqual([null, 'Set background of newsletter/featured', 'Remove theme dark']);
+  });
+
+  it('folds nested transactions into the outer label', () => {
+    const m = manager('');
+    m.beginTransaction('Insert core/card');
+    m.recordChange('--- use: core');
+    m.beginTransaction('Set title of core/card');
+    m.recordChange('--- use: core\n--- core/card');
+    m.endTransaction();
+    m.endTransaction();
+    m.recordChange('--- use: core\n--- core/card\nhi');
+    m.flush();
+
+    expect(m.getTree().map((n) => n.label)).toEqual([null, 'Insert core/card', null]);
+  });
+});
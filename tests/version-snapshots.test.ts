@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test';
+import { SnapshotManager } from '../src/store/version-snapshots';
+import { memoryAdapter } from './memory-storage';
+
+describe('SnapshotManager', () => {
+  it('persists named snapshots newest first', async () => {
+    const storage = memoryAdapter();
+    const manager = new SnapshotManager('doc', storage);
+    await manager.load();
+    const first = manager.create('sent to legal', 'one');
+    const second = manager.create('  ', 'two');
+    await manager.flush();
+
+    const reloaded = new SnapshotManager('doc', storage);
+    const snapshots = await reloaded.load();
+    expect(snapshots.map((s) => s.id).sort()).toEqual([first.id, second.id].sort());
+    expect(reloaded.get(second.id)?.name).toBe('Untitled version');
+    expect(reloaded.get(first.id)?.source).toBe('one');
+  });
+
+  it('merges snapshots saved by another editor', async () => {
+    const storage = memoryAdapter();
+    const mine = new SnapshotManager('doc', storage);
+    const theirs = new SnapshotManager('doc', storage);
+    await mine.load();
+    await theirs.load();
+
+    const kept = mine.create('final v1', 'a');
+    await mine.flush();
+    const removed = mine.create('scratch', 'b');
+    await mine.flush();
+    const remote = theirs.create('final v2', 'c');
+    await theirs.flush();
+    mine.remove(removed.id);
+    // Conflict → reload, merge, write again
+    await mine.flush();
+
+    const check = new SnapshotManager('doc', storage);
+    const ids = (await check.load()).map((s) => s.id);
+    expect(ids).toContain(kept.id);
+    expect(ids).toContain(remote.id);
+    expect(ids).not.toContain(removed.id);
+  });
+});